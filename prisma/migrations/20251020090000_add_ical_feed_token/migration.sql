@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Property" ADD COLUMN     "icalFeedToken" TEXT,
+ADD COLUMN     "icalFeedTokenCreatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Property_icalFeedToken_key" ON "public"."Property"("icalFeedToken");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Booking" ADD COLUMN     "externalCalendarId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ExternalCalendar" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT,
+    "bookingType" "public"."BookingType" NOT NULL DEFAULT 'BLOCKED',
+    "lastSyncedAt" TIMESTAMP(3),
+    "lastSyncStatus" TEXT,
+    "lastSyncError" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExternalCalendar_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Booking_externalCalendarId_externalId_idx" ON "public"."Booking"("externalCalendarId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "ExternalCalendar_propertyId_idx" ON "public"."ExternalCalendar"("propertyId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Booking" ADD CONSTRAINT "Booking_externalCalendarId_fkey" FOREIGN KEY ("externalCalendarId") REFERENCES "public"."ExternalCalendar"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ExternalCalendar" ADD CONSTRAINT "ExternalCalendar_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."AvailabilityRequest" ADD COLUMN     "bookingId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AvailabilityRequest_bookingId_key" ON "public"."AvailabilityRequest"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AvailabilityRequest" ADD CONSTRAINT "AvailabilityRequest_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
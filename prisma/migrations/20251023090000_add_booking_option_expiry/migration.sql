@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Booking" ADD COLUMN     "optionExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Booking_type_optionExpiresAt_idx" ON "public"."Booking"("type", "optionExpiresAt");
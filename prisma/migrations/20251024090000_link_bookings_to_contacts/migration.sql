@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Booking" ADD COLUMN     "contactId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."AvailabilityRequest" ADD COLUMN     "contactId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Booking_contactId_idx" ON "public"."Booking"("contactId");
+
+-- CreateIndex
+CREATE INDEX "AvailabilityRequest_contactId_idx" ON "public"."AvailabilityRequest"("contactId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Booking" ADD CONSTRAINT "Booking_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "public"."Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AvailabilityRequest" ADD CONSTRAINT "AvailabilityRequest_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "public"."Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Link existing bookings and requests to contacts sharing the guest email
+UPDATE "public"."Booking" AS b
+SET "contactId" = c."id"
+FROM "public"."Contact" AS c
+WHERE b."guestEmail" IS NOT NULL
+  AND c."email" IS NOT NULL
+  AND lower(trim(b."guestEmail")) = lower(trim(c."email"));
+
+UPDATE "public"."AvailabilityRequest" AS r
+SET "contactId" = c."id"
+FROM "public"."Contact" AS c
+WHERE c."email" IS NOT NULL
+  AND lower(trim(r."guestEmail")) = lower(trim(c."email"));
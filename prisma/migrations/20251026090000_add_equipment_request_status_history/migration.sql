@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "public"."EquipmentRequest" ADD COLUMN     "supplier" TEXT,
+ADD COLUMN     "orderReference" TEXT,
+ADD COLUMN     "orderedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."EquipmentRequestStatusChange" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "fromStatus" "public"."EquipmentRequestStatus",
+    "toStatus" "public"."EquipmentRequestStatus" NOT NULL,
+    "changedBy" TEXT NOT NULL,
+    "changedByEmail" TEXT,
+    "note" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EquipmentRequestStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EquipmentRequestStatusChange_requestId_createdAt_idx" ON "public"."EquipmentRequestStatusChange"("requestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."EquipmentRequestStatusChange" ADD CONSTRAINT "EquipmentRequestStatusChange_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "public"."EquipmentRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: creation of every existing request
+INSERT INTO "public"."EquipmentRequestStatusChange" ("id", "requestId", "fromStatus", "toStatus", "changedBy", "changedByEmail", "createdAt")
+SELECT 'backfill_created_' || "id", "id", NULL, 'PENDING', "requestedBy", "requestedByEmail", "createdAt"
+FROM "public"."EquipmentRequest";
+
+-- Backfill: current status of requests that already moved on (intermediate steps are unknown)
+INSERT INTO "public"."EquipmentRequestStatusChange" ("id", "requestId", "fromStatus", "toStatus", "changedBy", "changedByEmail", "details", "createdAt")
+SELECT
+    'backfill_current_' || "id",
+    "id",
+    NULL,
+    "status",
+    COALESCE("approvedBy", 'system'),
+    "approvedByEmail",
+    CASE WHEN "rejectedReason" IS NOT NULL THEN jsonb_build_object('rejectedReason', "rejectedReason") END,
+    COALESCE("completedAt", "approvedAt", "updatedAt")
+FROM "public"."EquipmentRequest"
+WHERE "status" <> 'PENDING';
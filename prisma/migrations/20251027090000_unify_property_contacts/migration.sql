@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "public"."ContactPropertyRelationship" ADD VALUE 'CHECK_IN_MANAGER';
+ALTER TYPE "public"."ContactPropertyRelationship" ADD VALUE 'SECURITY_DEPOSIT_MANAGER';
+ALTER TYPE "public"."ContactPropertyRelationship" ADD VALUE 'SIGNATORY';
+ALTER TYPE "public"."ContactPropertyRelationship" ADD VALUE 'HOUSEKEEPING';
+ALTER TYPE "public"."ContactPropertyRelationship" ADD VALUE 'GARDENING';
+ALTER TYPE "public"."ContactPropertyRelationship" ADD VALUE 'POOL_MAINTENANCE';
+ALTER TYPE "public"."ContactPropertyRelationship" ADD VALUE 'CHECK_IN_STAFF';
+
+-- AlterTable
+ALTER TABLE "public"."ContactProperty" ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "isContractSignatory" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isApproved" BOOLEAN NOT NULL DEFAULT false;
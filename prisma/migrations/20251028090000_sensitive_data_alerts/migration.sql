@@ -0,0 +1,35 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'SENSITIVE_DATA_ALERT';
+
+-- CreateTable
+CREATE TABLE "public"."SensitiveDataAlert" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userRole" TEXT NOT NULL,
+    "dataType" TEXT NOT NULL,
+    "propertyCount" INTEGER NOT NULL,
+    "propertyIds" TEXT[],
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "windowEnd" TIMESTAMP(3) NOT NULL,
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SensitiveDataAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SensitiveDataAccess_userId_dataType_createdAt_idx" ON "public"."SensitiveDataAccess"("userId", "dataType", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SensitiveDataAlert_userId_dataType_windowEnd_idx" ON "public"."SensitiveDataAlert"("userId", "dataType", "windowEnd");
+
+-- CreateIndex
+CREATE INDEX "SensitiveDataAlert_acknowledgedAt_idx" ON "public"."SensitiveDataAlert"("acknowledgedAt");
+
+-- CreateIndex
+CREATE INDEX "SensitiveDataAlert_createdAt_idx" ON "public"."SensitiveDataAlert"("createdAt");
+
+-- Normalize the internal data entries to the same vocabulary as the financial ones
+UPDATE "public"."SensitiveDataAccess" SET "dataType" = 'INTERNAL_DATA' WHERE "dataType" = 'internal';
+UPDATE "public"."SensitiveDataAccess" SET "action" = UPPER("action") WHERE "action" <> UPPER("action");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "public"."UserAccessScope" (
+    "userId" TEXT NOT NULL,
+    "destinationIds" TEXT[],
+    "propertyIds" TEXT[],
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserAccessScope_pkey" PRIMARY KEY ("userId")
+);
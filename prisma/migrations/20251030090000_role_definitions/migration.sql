@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "public"."RoleDefinition" (
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[],
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoleDefinition_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'OWNER_STAY_REQUEST';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'OWNER_STAY_REVIEWED';
+
+-- AlterTable
+ALTER TABLE "public"."Contact" ADD COLUMN "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."LegalDocument" ADD COLUMN "sharedWithOwners" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contact_userId_key" ON "public"."Contact"("userId");
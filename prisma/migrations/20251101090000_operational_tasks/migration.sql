@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "public"."OperationalTaskType" AS ENUM ('CHECKOUT_CLEANING', 'LINEN_CHANGE', 'TOWEL_CHANGE', 'GARDENING', 'POOL_MAINTENANCE');
+
+-- CreateEnum
+CREATE TYPE "public"."OperationalTaskStatus" AS ENUM ('PENDING', 'IN_PROGRESS', 'DONE', 'SKIPPED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."OperationalTask" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "bookingId" TEXT,
+    "type" "public"."OperationalTaskType" NOT NULL,
+    "status" "public"."OperationalTaskStatus" NOT NULL DEFAULT 'PENDING',
+    "scheduledDate" TIMESTAMP(3) NOT NULL,
+    "scheduledTime" TEXT,
+    "assigneeContactId" TEXT,
+    "notes" TEXT,
+    "generationKey" TEXT NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "completedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OperationalTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OperationalTask_generationKey_key" ON "public"."OperationalTask"("generationKey");
+
+-- CreateIndex
+CREATE INDEX "OperationalTask_scheduledDate_idx" ON "public"."OperationalTask"("scheduledDate");
+
+-- CreateIndex
+CREATE INDEX "OperationalTask_propertyId_scheduledDate_idx" ON "public"."OperationalTask"("propertyId", "scheduledDate");
+
+-- CreateIndex
+CREATE INDEX "OperationalTask_bookingId_idx" ON "public"."OperationalTask"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "OperationalTask_assigneeContactId_idx" ON "public"."OperationalTask"("assigneeContactId");
+
+-- CreateIndex
+CREATE INDEX "OperationalTask_status_idx" ON "public"."OperationalTask"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."OperationalTask" ADD CONSTRAINT "OperationalTask_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OperationalTask" ADD CONSTRAINT "OperationalTask_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OperationalTask" ADD CONSTRAINT "OperationalTask_assigneeContactId_fkey" FOREIGN KEY ("assigneeContactId") REFERENCES "public"."Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Grant the task permissions to the stored built-in roles that run operations
+UPDATE "public"."RoleDefinition"
+SET "permissions" = array_cat("permissions", ARRAY['task:view', 'task:edit'])
+WHERE "key" IN ('manager', 'staff') AND NOT ('task:view' = ANY("permissions"));
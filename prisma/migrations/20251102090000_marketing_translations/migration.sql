@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "public"."MarketingContent" ADD COLUMN     "tagline" TEXT,
+ADD COLUMN     "shortDescription" TEXT,
+ADD COLUMN     "seoKeywords" TEXT[],
+ADD COLUMN     "contentUpdatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "sourceUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "updatedBy" TEXT;
+
+-- Move the copy written in the property form (stored in Property.automaticOffer.marketingContent) to MarketingContent
+INSERT INTO "public"."MarketingContent" (
+  "id", "propertyId", "language", "title", "tagline", "shortDescription", "description",
+  "amenities", "highlights", "seoDescription", "seoKeywords", "updatedAt"
+)
+SELECT
+  'c' || md5(p."id" || ':' || lower(entry.key)),
+  p."id",
+  lower(entry.key),
+  COALESCE(NULLIF(entry.value->>'title', ''), p."name"),
+  NULLIF(entry.value->>'tagline', ''),
+  NULLIF(entry.value->>'shortDescription', ''),
+  COALESCE(entry.value->>'longDescription', ''),
+  ARRAY[]::TEXT[],
+  COALESCE(ARRAY(SELECT jsonb_array_elements_text(CASE WHEN jsonb_typeof(entry.value->'highlights') = 'array' THEN entry.value->'highlights' ELSE '[]'::jsonb END)), ARRAY[]::TEXT[]),
+  NULLIF(entry.value->>'metaDescription', ''),
+  COALESCE(ARRAY(SELECT jsonb_array_elements_text(CASE WHEN jsonb_typeof(entry.value->'seoKeywords') = 'array' THEN entry.value->'seoKeywords' ELSE '[]'::jsonb END)), ARRAY[]::TEXT[]),
+  CURRENT_TIMESTAMP
+FROM "public"."Property" p
+CROSS JOIN LATERAL jsonb_each(p."automaticOffer"->'marketingContent') AS entry
+WHERE jsonb_typeof(p."automaticOffer"->'marketingContent') = 'object'
+  AND jsonb_typeof(entry.value) = 'object'
+ON CONFLICT ("propertyId", "language") DO NOTHING;
+
+UPDATE "public"."MarketingContent" SET "seoKeywords" = ARRAY[]::TEXT[] WHERE "seoKeywords" IS NULL;
+
+-- Existing translations count as written from the current English copy
+UPDATE "public"."MarketingContent" t
+SET "sourceUpdatedAt" = s."contentUpdatedAt"
+FROM "public"."MarketingContent" s
+WHERE s."propertyId" = t."propertyId" AND s."language" = 'en' AND t."language" <> 'en';
+
+UPDATE "public"."Property"
+SET "automaticOffer" = "automaticOffer" - 'marketingContent'
+WHERE jsonb_typeof("automaticOffer") = 'object' AND "automaticOffer" ? 'marketingContent';
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "public"."PublicApiRateLimit" (
+    "keyHash" TEXT NOT NULL,
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "PublicApiRateLimit_pkey" PRIMARY KEY ("keyHash","windowStart")
+);
+
+-- CreateIndex
+CREATE INDEX "PublicApiRateLimit_windowStart_idx" ON "public"."PublicApiRateLimit"("windowStart");
@@ -0,0 +1,75 @@
+#!/usr/bin/env bun
+
+/**
+ * Moves legacy PropertyContact rows to the global Contact + ContactProperty model
+ *
+ *   bun scripts/migrate-property-contacts.ts          # dry run: prints what would happen
+ *   bun scripts/migrate-property-contacts.ts --apply  # migrates in one transaction
+ *   add --json to print the full report as JSON
+ */
+
+import { prisma } from "../src/lib/db"
+import {
+  applyPropertyContactMigration,
+  planPropertyContactMigration,
+  type PropertyContactMigrationReport,
+} from "../src/lib/property-contact-migration"
+
+// Audit log user id, same as the scheduled jobs
+const SCRIPT_USER_ID = "system"
+
+const ACTION_LABELS = {
+  create: "CREATE",
+  link: "LINK  ",
+  merge: "MERGE ",
+} as const
+
+function printReport(report: PropertyContactMigrationReport) {
+  let currentProperty: string | null = null
+
+  for (const entry of report.entries) {
+    if (entry.propertyId !== currentProperty) {
+      currentProperty = entry.propertyId
+      console.log(`\n${entry.propertyName} (${entry.propertyId})`)
+    }
+
+    const matched = entry.matchedBy ? ` matched by ${entry.matchedBy} to "${entry.contactName}"` : ""
+    console.log(
+      `  ${ACTION_LABELS[entry.action]} ${entry.firstName} ${entry.lastName} <${entry.email ?? "no email"}> ${entry.type} -> ${entry.relationship}${matched}`
+    )
+    for (const warning of entry.warnings) {
+      console.log(`           ! ${warning}`)
+    }
+  }
+
+  const { summary } = report
+  console.log(`\n${summary.total} legacy contact(s): ${summary.created} new contact(s), ${summary.linked} linked to existing contacts, ${summary.merged} merged into existing links`)
+  console.log(`Matches: ${summary.matchedBy.email} by email, ${summary.matchedBy.phone} by phone, ${summary.matchedBy.name} by name`)
+  console.log(`${summary.warnings} warning(s) to review`)
+}
+
+async function migratePropertyContacts() {
+  const apply = process.argv.includes("--apply")
+  const json = process.argv.includes("--json")
+
+  try {
+    const report = apply
+      ? await applyPropertyContactMigration(SCRIPT_USER_ID)
+      : await planPropertyContactMigration()
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2))
+    } else {
+      console.log(apply ? "Migrated legacy property contacts:" : "Dry run - nothing is written. Re-run with --apply to migrate.")
+      printReport(report)
+    }
+  } catch (error) {
+    console.error("Error migrating property contacts:", error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run the script
+migratePropertyContacts()
@@ -63,6 +63,13 @@ async function setupStorage() {
             'image/webp'
           ]
         }
+      },
+      {
+        name: 'audit-archives',
+        config: {
+          public: false,
+          allowedMimeTypes: ['application/gzip']
+        }
       }
     ]
 
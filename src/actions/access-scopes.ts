@@ -0,0 +1,100 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { revalidatePath } from 'next/cache'
+import { requirePermission, getAccessScope, getCurrentUserId } from '@/lib/auth'
+import { UNRESTRICTED_SCOPE } from '@/lib/access-scope'
+import { withAuditContext } from '@/lib/request-context'
+import {
+  updateUserAccessScopeSchema,
+  type UpdateUserAccessScopeInput,
+} from '@/lib/validations/access-scope'
+import { Permission, type AccessScope } from '@/types/auth'
+import type { ActionResult } from '@/types'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+/**
+ * Access scope of the current user, used by the client to hide what the server would refuse
+ */
+export async function getMyAccessScope(): Promise<ActionResult<AccessScope>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    return { success: true, data: await getAccessScope() }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch access scope')
+  }
+}
+
+/**
+ * Restricts a user to destinations and properties, or lifts the restriction
+ * - Admins are never restricted, a scope stored for them is ignored
+ */
+export async function updateUserAccessScope(
+  input: UpdateUserAccessScopeInput
+): Promise<ActionResult<AccessScope>> {
+  try {
+    const currentUserId = await getCurrentUserId()
+    if (!currentUserId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const validated = updateUserAccessScopeSchema.parse(input)
+
+    if (!validated.restricted) {
+      await withAuditContext(
+        { summary: 'Removed property access restriction' },
+        () => prisma.userAccessScope.deleteMany({ where: { userId: validated.userId } })
+      )
+
+      revalidatePath('/admin/users')
+      return { success: true, data: UNRESTRICTED_SCOPE }
+    }
+
+    const [destinations, properties] = await Promise.all([
+      prisma.destination.findMany({
+        where: { id: { in: validated.destinationIds } },
+        select: { id: true },
+      }),
+      prisma.property.findMany({
+        where: { id: { in: validated.propertyIds } },
+        select: { id: true },
+      }),
+    ])
+    const destinationIds = destinations.map(destination => destination.id)
+    const propertyIds = properties.map(property => property.id)
+
+    await withAuditContext(
+      {
+        summary: `Restricted access to ${destinationIds.length} destinations and ${propertyIds.length} properties`,
+      },
+      () => prisma.userAccessScope.upsert({
+        where: { userId: validated.userId },
+        create: { userId: validated.userId, destinationIds, propertyIds, updatedBy: currentUserId },
+        update: { destinationIds, propertyIds, updatedBy: currentUserId },
+      })
+    )
+
+    revalidatePath('/admin/users')
+    return { success: true, data: { restricted: true, destinationIds, propertyIds } }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to update access scope')
+  }
+}
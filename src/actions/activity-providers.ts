@@ -233,35 +233,11 @@ export async function bulkDeleteActivityProviders(input: BulkDeleteProvidersData
     const validated = bulkDeleteProvidersSchema.parse(input)
     const { providerIds } = validated
 
-    // Get providers for audit log
-    const providers = await prisma.activityProvider.findMany({
+    // Delete providers
+    const result = await prisma.activityProvider.deleteMany({
       where: { id: { in: providerIds } }
     })
 
-    // Delete providers in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Delete providers
-      const deleteResult = await tx.activityProvider.deleteMany({
-        where: { id: { in: providerIds } }
-      })
-
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'bulk_delete',
-          entityType: 'activity_provider',
-          entityId: 'bulk',
-          changes: {
-            before: providers,
-            summary: `Bulk deleted ${deleteResult.count} activity providers`
-          },
-        },
-      })
-
-      return deleteResult
-    })
-
     // Revalidate the places page
     revalidatePath('/places')
 
@@ -1,17 +1,28 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import { format } from 'date-fns'
 import { prisma } from '@/lib/db'
-import { requirePermission } from '@/lib/auth'
+import { getAccessScope, requirePermission } from '@/lib/auth'
+import { propertyScopeWhere } from '@/lib/access-scope'
 import { Permission } from '@/types/auth'
 import { auth } from '@clerk/nextjs/server'
+import { AvailabilityRequestStatus, BookingSource, NotificationType, Prisma } from '@/generated/prisma'
+import { analyzeAdvancedAvailability } from '@/lib/booking-availability'
+import { resolveOptionExpiry } from '@/lib/booking-options'
+import { matchOrCreateClientContact } from '@/lib/booking-contacts'
+import { notifyUsersWithPermission } from '@/lib/notifications'
+import { withAuditContext } from '@/lib/request-context'
+import { formatBookingDisplay } from '@/lib/validations/booking'
 import {
   createAvailabilityRequestSchema,
   updateAvailabilityRequestStatusSchema,
+  convertAvailabilityRequestSchema,
   availabilityRequestFiltersSchema,
   deleteAvailabilityRequestSchema,
   type CreateAvailabilityRequestInput,
   type UpdateAvailabilityRequestStatusInput,
+  type ConvertAvailabilityRequestInput,
   type AvailabilityRequestFilters,
   type DeleteAvailabilityRequestInput,
 } from '@/lib/validations/availability-request'
@@ -22,6 +33,13 @@ interface ActionResult<T> {
   error?: string
 }
 
+type ConvertedAvailabilityRequest = {
+  request: Prisma.AvailabilityRequestGetPayload<{
+    include: { property: { select: { id: true; name: true } } }
+  }>
+  booking: Prisma.BookingGetPayload<object>
+}
+
 /**
  * Creates a new availability request
  */
@@ -51,44 +69,43 @@ export async function createAvailabilityRequest(
       return { success: false, error: 'Property not found' }
     }
 
-    // Create the availability request
-    const availabilityRequest = await prisma.availabilityRequest.create({
-      data: {
-        propertyId: validated.propertyId,
-        startDate: validated.startDate,
-        endDate: validated.endDate,
-        guestName: validated.guestName,
-        guestEmail: validated.guestEmail,
-        guestPhone: validated.guestPhone,
-        numberOfGuests: validated.numberOfGuests,
-        urgency: validated.urgency,
-        message: validated.message,
-        requestedBy: userId,
-      },
-      include: {
-        property: {
-          select: { id: true, name: true }
-        }
-      }
-    })
+    // Link the request to a client contact by email
+    const contactId = await matchOrCreateClientContact(prisma, validated, userId)
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'create',
-        entityType: 'AvailabilityRequest',
-        entityId: availabilityRequest.id,
-        changes: {
-          created: availabilityRequest,
-          propertyName: property.name,
-          summary: `Created availability request for ${property.name}`,
-          startDate: validated.startDate.toISOString(),
-          endDate: validated.endDate.toISOString(),
+    // Create the availability request
+    const availabilityRequest = await withAuditContext(
+      { summary: `Created availability request for ${property.name}`, details: { propertyName: property.name } },
+      () => prisma.availabilityRequest.create({
+        data: {
+          propertyId: validated.propertyId,
+          startDate: validated.startDate,
+          endDate: validated.endDate,
+          guestName: validated.guestName,
+          guestEmail: validated.guestEmail,
+          guestPhone: validated.guestPhone,
+          contactId,
           numberOfGuests: validated.numberOfGuests,
+          urgency: validated.urgency,
+          message: validated.message,
+          requestedBy: userId,
         },
-      },
-    })
+        include: {
+          property: {
+            select: { id: true, name: true }
+          }
+        }
+      })
+    )
+
+    // Notify the managers who can confirm the request
+    await notifyUsersWithPermission(Permission.PROPERTY_EDIT, {
+      type: NotificationType.AVAILABILITY_REQUEST_CREATED,
+      title: `New availability request for ${property.name}`,
+      message: `${validated.guestName}, ${validated.numberOfGuests} guest${validated.numberOfGuests === 1 ? '' : 's'}, ${format(validated.startDate, 'MMM d')} – ${format(validated.endDate, 'MMM d, yyyy')}`,
+      link: `/houses/${property.id}#availability`,
+      entityType: 'AvailabilityRequest',
+      entityId: availabilityRequest.id,
+    }, userId, { propertyId: property.id })
 
     // Revalidate paths
     revalidatePath(`/houses/${validated.propertyId}`)
@@ -123,8 +140,8 @@ export async function getAvailabilityRequests(
     // Validate filters
     const validated = availabilityRequestFiltersSchema.parse(filters)
 
-    // Build where clause
-    const where: any = {}
+    // Build where clause, limited to the properties the user can reach
+    const where: any = { property: propertyScopeWhere(await getAccessScope()) }
     
     if (validated.propertyId) {
       where.propertyId = validated.propertyId
@@ -194,6 +211,7 @@ export async function getAvailabilityRequests(
 
 /**
  * Updates the status of an availability request (confirm/reject)
+ * - Confirmation is delegated to convertAvailabilityRequestToBooking
  */
 export async function updateAvailabilityRequestStatus(
   input: UpdateAvailabilityRequestStatusInput
@@ -205,12 +223,14 @@ export async function updateAvailabilityRequestStatus(
       return { success: false, error: 'Unauthorized' }
     }
 
-    // Permission check
-    await requirePermission(Permission.PROPERTY_EDIT)
-
     // Validate input
     const validated = updateAvailabilityRequestStatusSchema.parse(input)
 
+    // Confirming a request always creates its booking
+    if (validated.status === AvailabilityRequestStatus.CONFIRMED) {
+      return convertAvailabilityRequestToBooking({ id: validated.id })
+    }
+
     // Check if request exists
     const existingRequest = await prisma.availabilityRequest.findUnique({
       where: { id: validated.id },
@@ -225,36 +245,22 @@ export async function updateAvailabilityRequestStatus(
       return { success: false, error: 'Availability request not found' }
     }
 
+    // Permission check
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: existingRequest.propertyId })
+
     // Update the request
-    const updatedRequest = await prisma.availabilityRequest.update({
-      where: { id: validated.id },
-      data: { status: validated.status },
-      include: {
-        property: {
-          select: { id: true, name: true }
+    const updatedRequest = await withAuditContext(
+      { summary: `${validated.status.toLowerCase()} availability request for ${existingRequest.property.name}`, details: { propertyName: existingRequest.property.name } },
+      () => prisma.availabilityRequest.update({
+        where: { id: validated.id },
+        data: { status: validated.status },
+        include: {
+          property: {
+            select: { id: true, name: true }
+          }
         }
-      }
-    })
-
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'update',
-        entityType: 'AvailabilityRequest',
-        entityId: validated.id,
-        changes: {
-          updated: updatedRequest,
-          propertyName: existingRequest.property.name,
-          summary: `${validated.status.toLowerCase()} availability request for ${existingRequest.property.name}`,
-          previousStatus: existingRequest.status,
-          newStatus: validated.status,
-          guestName: existingRequest.guestName,
-          startDate: existingRequest.startDate.toISOString(),
-          endDate: existingRequest.endDate.toISOString(),
-        },
-      },
-    })
+      })
+    )
 
     // Revalidate paths
     revalidatePath(`/houses/${existingRequest.propertyId}`)
@@ -270,6 +276,139 @@ export async function updateAvailabilityRequestStatus(
   }
 }
 
+/**
+ * Confirms an availability request by turning it into a booking
+ * - Re-checks availability inside the same transaction as the booking creation
+ * - Pre-fills the booking from the request guest and dates
+ * - Links the request to the booking and audits both records
+ */
+export async function convertAvailabilityRequestToBooking(
+  input: ConvertAvailabilityRequestInput
+): Promise<ActionResult<ConvertedAvailabilityRequest>> {
+  try {
+    // Authentication check
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Validate input
+    const validated = convertAvailabilityRequestSchema.parse(input)
+
+    // Permission check on the request's property, read before the transaction to keep it short
+    const target = await prisma.availabilityRequest.findUnique({
+      where: { id: validated.id },
+      select: { propertyId: true }
+    })
+    if (!target) {
+      return { success: false, error: 'Availability request not found' }
+    }
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: target.propertyId })
+
+    const result = await prisma.$transaction(async (tx) => {
+      const request = await tx.availabilityRequest.findUnique({
+        where: { id: validated.id },
+        include: {
+          property: {
+            select: { id: true, name: true }
+          }
+        }
+      })
+
+      if (!request) {
+        throw new Error('Availability request not found')
+      }
+
+      if (request.status !== AvailabilityRequestStatus.PENDING || request.bookingId) {
+        throw new Error('Only pending availability requests can be converted into a booking')
+      }
+
+      // Re-check availability against bookings visible to this transaction
+      const availability = await analyzeAdvancedAvailability(tx, {
+        propertyId: request.propertyId,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        includeNearbyDates: false,
+        suggestAlternatives: false,
+        gracePeriodHours: 0,
+      })
+
+      if (!availability.available) {
+        const conflicts = availability.conflicts
+          ?.filter(conflict => conflict.severity === 'blocking')
+          .map(conflict => formatBookingDisplay(conflict))
+          .join(', ')
+        throw new Error(`Requested dates are no longer available: ${conflicts}`)
+      }
+
+      const contactId = request.contactId ?? await matchOrCreateClientContact(tx, request, userId)
+
+      const booking = await withAuditContext(
+        { summary: `Created ${validated.bookingType.toLowerCase()} booking for ${request.guestName} at ${request.property.name} from availability request`, details: { propertyName: request.property.name, availabilityRequestId: request.id } },
+        () => tx.booking.create({
+          data: {
+            propertyId: request.propertyId,
+            type: validated.bookingType,
+            source: BookingSource.MANUAL,
+            startDate: request.startDate,
+            endDate: request.endDate,
+            guestName: request.guestName,
+            guestEmail: request.guestEmail,
+            guestPhone: request.guestPhone,
+            contactId,
+            numberOfGuests: request.numberOfGuests,
+            totalAmount: validated.totalAmount ?? null,
+            notes: validated.notes || request.message,
+            optionExpiresAt: resolveOptionExpiry(validated.bookingType, request.startDate, validated.optionExpiresAt),
+            metadata: { availabilityRequestId: request.id },
+            createdBy: userId,
+          },
+        })
+      )
+
+      const updatedRequest = await withAuditContext(
+        { summary: `Converted availability request for ${request.property.name} into a booking`, details: { propertyName: request.property.name } },
+        () => tx.availabilityRequest.update({
+          where: { id: request.id },
+          data: {
+            status: AvailabilityRequestStatus.CONFIRMED,
+            bookingId: booking.id,
+            contactId: booking.contactId,
+          },
+          include: {
+            property: {
+              select: { id: true, name: true }
+            }
+          }
+        })
+      )
+
+      return { request: updatedRequest, booking }
+    }, {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    })
+
+    // Revalidate paths
+    revalidatePath(`/houses/${result.request.propertyId}`)
+    revalidatePath('/availability-requests')
+    revalidatePath('/calendar')
+
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return {
+        success: false,
+        error: 'Another booking was saved for these dates at the same time, please try again',
+      }
+    }
+
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to convert availability request' 
+    }
+  }
+}
+
 /**
  * Deletes an availability request
  */
@@ -283,9 +422,6 @@ export async function deleteAvailabilityRequest(
       return { success: false, error: 'Unauthorized' }
     }
 
-    // Permission check
-    await requirePermission(Permission.PROPERTY_EDIT)
-
     // Validate input
     const validated = deleteAvailabilityRequestSchema.parse(input)
 
@@ -303,29 +439,16 @@ export async function deleteAvailabilityRequest(
       return { success: false, error: 'Availability request not found' }
     }
 
-    // Delete the request
-    await prisma.availabilityRequest.delete({
-      where: { id: validated.id }
-    })
+    // Permission check
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: existingRequest.propertyId })
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'delete',
-        entityType: 'AvailabilityRequest',
-        entityId: validated.id,
-        changes: {
-          deleted: existingRequest,
-          propertyName: existingRequest.property.name,
-          summary: `Deleted availability request for ${existingRequest.property.name}`,
-          guestName: existingRequest.guestName,
-          startDate: existingRequest.startDate.toISOString(),
-          endDate: existingRequest.endDate.toISOString(),
-          status: existingRequest.status,
-        },
-      },
-    })
+    // Delete the request
+    await withAuditContext(
+      { summary: `Deleted availability request for ${existingRequest.property.name}`, details: { propertyName: existingRequest.property.name } },
+      () => prisma.availabilityRequest.delete({
+        where: { id: validated.id }
+      })
+    )
 
     // Revalidate paths
     revalidatePath(`/houses/${existingRequest.propertyId}`)
@@ -354,9 +477,6 @@ export async function getAvailabilityRequestById(
       return { success: false, error: 'Unauthorized' }
     }
 
-    // Permission check
-    await requirePermission(Permission.PROPERTY_VIEW)
-
     const request = await prisma.availabilityRequest.findUnique({
       where: { id },
       include: {
@@ -370,6 +490,9 @@ export async function getAvailabilityRequestById(
       return { success: false, error: 'Availability request not found' }
     }
 
+    // Permission check
+    await requirePermission(Permission.PROPERTY_VIEW, { propertyId: request.propertyId })
+
     return { success: true, data: request }
   } catch (error) {
     
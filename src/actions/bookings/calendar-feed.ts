@@ -0,0 +1,162 @@
+'use server'
+
+import { randomBytes } from 'crypto'
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { withAuditContext } from '@/lib/request-context'
+import { Permission } from '@/types/auth'
+import { auth } from '@clerk/nextjs/server'
+import { ActionResult } from './types'
+import type { CalendarFeedInfo } from '@/types/booking'
+
+/**
+ * Returns the current iCal feed token for a property, if one is active
+ */
+export async function getCalendarFeed(
+  propertyId: string
+): Promise<ActionResult<CalendarFeedInfo>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId })
+
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { id: true, icalFeedToken: true, icalFeedTokenCreatedAt: true },
+    })
+
+    if (!property) {
+      return { success: false, error: 'Property not found' }
+    }
+
+    return {
+      success: true,
+      data: {
+        propertyId: property.id,
+        token: property.icalFeedToken,
+        createdAt: property.icalFeedTokenCreatedAt,
+      },
+    }
+  } catch (_error) {
+    return {
+      success: false,
+      error: _error instanceof Error ? _error.message : 'Failed to fetch calendar feed',
+    }
+  }
+}
+
+/**
+ * Generates a new iCal feed token for a property
+ * - Any previously issued token stops working immediately
+ */
+export async function regenerateCalendarFeedToken(
+  propertyId: string
+): Promise<ActionResult<CalendarFeedInfo>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId })
+
+    const existing = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { id: true, name: true, icalFeedToken: true },
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Property not found' }
+    }
+
+    const token = randomBytes(24).toString('hex')
+
+    // The property update is logged by the audit extension, the token itself is redacted
+    const property = await withAuditContext(
+      {
+        action: existing.icalFeedToken ? 'rotate_calendar_feed' : 'create_calendar_feed',
+        summary: `${existing.icalFeedToken ? 'Rotated' : 'Enabled'} iCal feed for ${existing.name}`,
+        details: { propertyName: existing.name },
+      },
+      () => prisma.property.update({
+        where: { id: propertyId },
+        data: {
+          icalFeedToken: token,
+          icalFeedTokenCreatedAt: new Date(),
+        },
+        select: { id: true, icalFeedToken: true, icalFeedTokenCreatedAt: true },
+      })
+    )
+
+    revalidatePath(`/houses/${propertyId}`)
+
+    return {
+      success: true,
+      data: {
+        propertyId: property.id,
+        token: property.icalFeedToken,
+        createdAt: property.icalFeedTokenCreatedAt,
+      },
+    }
+  } catch (_error) {
+    return {
+      success: false,
+      error: _error instanceof Error ? _error.message : 'Failed to generate calendar feed token',
+    }
+  }
+}
+
+/**
+ * Revokes the iCal feed token for a property
+ */
+export async function revokeCalendarFeedToken(
+  propertyId: string
+): Promise<ActionResult<CalendarFeedInfo>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId })
+
+    const existing = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { id: true, name: true, icalFeedToken: true },
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Property not found' }
+    }
+
+    if (existing.icalFeedToken) {
+      await withAuditContext(
+        {
+          action: 'revoke_calendar_feed',
+          summary: `Revoked iCal feed for ${existing.name}`,
+          details: { propertyName: existing.name },
+        },
+        () => prisma.property.update({
+          where: { id: propertyId },
+          data: { icalFeedToken: null, icalFeedTokenCreatedAt: null },
+        })
+      )
+    }
+
+    revalidatePath(`/houses/${propertyId}`)
+
+    return {
+      success: true,
+      data: { propertyId, token: null, createdAt: null },
+    }
+  } catch (_error) {
+    return {
+      success: false,
+      error: _error instanceof Error ? _error.message : 'Failed to revoke calendar feed token',
+    }
+  }
+}
@@ -8,7 +8,6 @@ import { Permission } from '@/types/auth'
 import { auth } from '@clerk/nextjs/server'
 import {
   ActionResult,
-  BookingType,
   BookingStatus,
   BookingSource,
   createBookingSchema,
@@ -17,6 +16,12 @@ import {
   type UpdateBookingInput
 } from './types'
 import type { Booking } from '@/types/booking'
+import { resolveOptionExpiry } from '@/lib/booking-options'
+import { withAuditContext } from '@/lib/request-context'
+import { matchOrCreateClientContact } from '@/lib/booking-contacts'
+import { requiresGuestFields } from '@/lib/validations/booking'
+import { notifyOwnerStayReviewed } from '@/lib/owner-portal'
+import { refreshUpcomingTasks } from '@/lib/operational-tasks'
 
 // Import checkAvailability from availability module (we'll create it)
 import { checkAvailability } from './availability'
@@ -49,6 +54,8 @@ export async function createBooking(
       return { success: false, error: 'Property not found' }
     }
 
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: property.id })
+
     // Check for conflicts
     const availabilityCheck = await checkAvailability({
       propertyId: validated.propertyId,
@@ -63,42 +70,39 @@ export async function createBooking(
       }
     }
 
-    const booking = await prisma.booking.create({
-      data: {
-        propertyId: validated.propertyId,
-        type: validated.type,
-        status: validated.status,
-        source: validated.source,
-        startDate: validated.startDate,
-        endDate: validated.endDate,
-        guestName: validated.guestName,
-        guestEmail: validated.guestEmail,
-        guestPhone: validated.guestPhone,
-        numberOfGuests: validated.numberOfGuests,
-        totalAmount: validated.totalAmount,
-        notes: validated.notes,
-        externalId: validated.externalId,
-        metadata: validated.metadata || {} as any,
-        createdBy: userId,
-      },
-    })
+    // Link guest bookings to a client contact by email
+    const contactId = validated.contactId !== undefined
+      ? validated.contactId
+      : requiresGuestFields(validated.type)
+        ? await matchOrCreateClientContact(prisma, validated, userId)
+        : null
 
-    // Create audit log for sensitive data
-    if (validated.type === BookingType.OWNER || validated.type === BookingType.OWNER_STAY) {
-      await prisma.auditLog.create({
+    const booking = await withAuditContext(
+      { summary: `Created ${validated.type} booking for ${property.name}`, details: { propertyName: property.name } },
+      () => prisma.booking.create({
         data: {
-          userId,
-          action: 'create',
-          entityType: 'booking',
-          entityId: booking.id,
-          changes: {
-            created: booking,
-            propertyName: property.name,
-            summary: `Created ${validated.type} booking for ${property.name}`,
-          },
+          propertyId: validated.propertyId,
+          type: validated.type,
+          status: validated.status,
+          source: validated.source,
+          startDate: validated.startDate,
+          endDate: validated.endDate,
+          guestName: validated.guestName,
+          guestEmail: validated.guestEmail,
+          guestPhone: validated.guestPhone,
+          contactId,
+          numberOfGuests: validated.numberOfGuests,
+          totalAmount: validated.totalAmount,
+          notes: validated.notes,
+          optionExpiresAt: resolveOptionExpiry(validated.type, validated.startDate, validated.optionExpiresAt),
+          externalId: validated.externalId,
+          metadata: validated.metadata || {} as any,
+          createdBy: userId,
         },
       })
-    }
+    )
+
+    await refreshUpcomingTasks(userId, validated.propertyId)
 
     // Revalidate the property calendar
     revalidatePath(`/houses/${validated.propertyId}`)
@@ -162,6 +166,8 @@ export async function updateBooking(
       return { success: false, error: 'Booking not found' }
     }
 
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: existingBooking.propertyId })
+
     // If dates are being changed, check for conflicts
     if (validated.startDate || validated.endDate) {
       const startDate = validated.startDate || existingBooking.startDate
@@ -182,39 +188,49 @@ export async function updateBooking(
       }
     }
 
-    // Update the booking
-    const booking = await prisma.booking.update({
-      where: { id },
-      data: {
-        ...validated,
-        metadata: validated.metadata ? validated.metadata as any : undefined,
-        updatedBy: userId,
-      },
-    })
+    // Re-match the client contact when the guest email changes or none is linked yet
+    let contactId = validated.contactId !== undefined ? validated.contactId : existingBooking.contactId
+    const guestEmail = validated.guestEmail !== undefined ? validated.guestEmail : existingBooking.guestEmail
+    const emailChanged = guestEmail?.trim().toLowerCase() !== existingBooking.guestEmail?.trim().toLowerCase()
+    if (
+      validated.contactId === undefined &&
+      requiresGuestFields(validated.type || existingBooking.type) &&
+      (emailChanged || !existingBooking.contactId)
+    ) {
+      contactId = await matchOrCreateClientContact(prisma, {
+        guestName: validated.guestName !== undefined ? validated.guestName : existingBooking.guestName,
+        guestEmail,
+        guestPhone: validated.guestPhone !== undefined ? validated.guestPhone : existingBooking.guestPhone,
+      }, userId)
+    }
 
-    // Create audit log for sensitive changes
-    const sensitiveTypes: BookingType[] = [BookingType.OWNER, BookingType.OWNER_STAY]
-    if (sensitiveTypes.includes(existingBooking.type as BookingType) || 
-        (validated.type && sensitiveTypes.includes(validated.type as BookingType))) {
-      await prisma.auditLog.create({
+    // Update the booking
+    const booking = await withAuditContext(
+      { summary: `Updated booking for ${existingBooking.property.name}`, details: { propertyName: existingBooking.property.name } },
+      () => prisma.booking.update({
+        where: { id },
         data: {
-          userId,
-          action: 'update',
-          entityType: 'booking',
-          entityId: booking.id,
-          changes: {
-            before: existingBooking,
-            after: booking,
-            propertyName: existingBooking.property.name,
-            summary: `Updated booking for ${existingBooking.property.name}`,
-          },
+          ...validated,
+          metadata: validated.metadata ? validated.metadata as any : undefined,
+          contactId,
+          // Keep the option expiry in line with the (possibly changed) booking type
+          optionExpiresAt: resolveOptionExpiry(
+            validated.type || existingBooking.type,
+            validated.startDate || existingBooking.startDate,
+            validated.optionExpiresAt !== undefined ? validated.optionExpiresAt : existingBooking.optionExpiresAt
+          ),
+          updatedBy: userId,
         },
       })
-    }
+    )
+
+    await notifyOwnerStayReviewed(existingBooking, booking, existingBooking.property.name)
+    await refreshUpcomingTasks(userId, existingBooking.propertyId)
 
     // Revalidate paths
     revalidatePath(`/houses/${existingBooking.propertyId}`)
     revalidatePath(`/calendar`)
+    revalidatePath('/owner')
 
     return {
       success: true,
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/db'
 import { requirePermission } from '@/lib/auth'
 import { Permission } from '@/types/auth'
 import { auth } from '@clerk/nextjs/server'
+import { withAuditContext } from '@/lib/request-context'
 import { ActionResult } from './types'
 
 /**
@@ -31,25 +32,15 @@ export async function deleteBooking(id: string): Promise<ActionResult<{ deleted:
       return { success: false, error: 'Booking not found' }
     }
 
-    // Delete the booking
-    await prisma.booking.delete({
-      where: { id },
-    })
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: booking.propertyId })
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'delete',
-        entityType: 'booking',
-        entityId: id,
-        changes: {
-          deleted: booking,
-          propertyName: booking.property.name,
-          summary: `Deleted ${booking.type} booking for ${booking.property.name}`,
-        },
-      },
-    })
+    // Delete the booking
+    await withAuditContext(
+      { summary: `Deleted ${booking.type} booking for ${booking.property.name}`, details: { propertyName: booking.property.name } },
+      () => prisma.booking.delete({
+        where: { id },
+      })
+    )
 
     // Revalidate paths
     revalidatePath(`/houses/${booking.propertyId}`)
@@ -0,0 +1,265 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { Permission } from '@/types/auth'
+import { auth } from '@clerk/nextjs/server'
+import { syncExternalCalendar, syncExternalCalendarContent } from '@/lib/ical-sync'
+import {
+  ActionResult,
+  BookingStatus,
+  createExternalCalendarSchema,
+  uploadExternalCalendarSchema,
+  type CreateExternalCalendarInput,
+  type UploadExternalCalendarInput,
+} from './types'
+import type {
+  ExternalCalendar,
+  ExternalCalendarWithCount,
+  ExternalCalendarSyncResult,
+} from '@/types/booking'
+
+function toErrorResult(_error: unknown, fallback: string) {
+  if (_error instanceof z.ZodError) {
+    const firstError = _error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return {
+    success: false,
+    error: _error instanceof Error ? _error.message : fallback,
+  }
+}
+
+/**
+ * Lists the external channel calendars registered on a property
+ */
+export async function getExternalCalendars(
+  propertyId: string
+): Promise<ActionResult<ExternalCalendarWithCount[]>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_VIEW, { propertyId })
+
+    const calendars = await prisma.externalCalendar.findMany({
+      where: { propertyId },
+      include: { _count: { select: { bookings: true } } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return { success: true, data: calendars }
+  } catch (_error) {
+    return toErrorResult(_error, 'Failed to fetch external calendars')
+  }
+}
+
+/**
+ * Registers an external calendar and runs a first sync when it has a URL
+ */
+export async function createExternalCalendar(
+  input: CreateExternalCalendarInput
+): Promise<ActionResult<{ calendar: ExternalCalendar; sync?: ExternalCalendarSyncResult; syncError?: string }>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = createExternalCalendarSchema.parse(input)
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: validated.propertyId })
+
+    const property = await prisma.property.findUnique({
+      where: { id: validated.propertyId },
+      select: { id: true, name: true },
+    })
+
+    if (!property) {
+      return { success: false, error: 'Property not found' }
+    }
+
+    const calendar = await prisma.externalCalendar.create({
+      data: {
+        propertyId: validated.propertyId,
+        name: validated.name,
+        url: validated.url || null,
+        bookingType: validated.bookingType,
+        createdBy: userId,
+      },
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'create',
+        entityType: 'external_calendar',
+        entityId: calendar.id,
+        changes: {
+          created: calendar,
+          propertyName: property.name,
+          summary: `Added external calendar ${calendar.name} to ${property.name}`,
+        },
+      },
+    })
+
+    let sync: ExternalCalendarSyncResult | undefined
+    let syncError: string | undefined
+    if (calendar.url) {
+      try {
+        sync = await syncExternalCalendar(calendar.id, userId)
+      } catch (error) {
+        // The calendar stays registered; the error is stored on it for the UI
+        syncError = error instanceof Error ? error.message : 'Initial sync failed'
+      }
+    }
+
+    revalidatePath(`/houses/${validated.propertyId}`)
+
+    return { success: true, data: { calendar, sync, syncError } }
+  } catch (_error) {
+    return toErrorResult(_error, 'Failed to add external calendar')
+  }
+}
+
+/**
+ * Re-syncs an external calendar from its URL
+ */
+export async function syncExternalCalendarNow(
+  calendarId: string
+): Promise<ActionResult<ExternalCalendarSyncResult>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const calendar = await prisma.externalCalendar.findUnique({
+      where: { id: calendarId },
+      select: { id: true, propertyId: true },
+    })
+
+    if (!calendar) {
+      return { success: false, error: 'External calendar not found' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: calendar.propertyId })
+
+    const result = await syncExternalCalendar(calendar.id, userId)
+
+    revalidatePath(`/houses/${calendar.propertyId}`)
+
+    return { success: true, data: result }
+  } catch (_error) {
+    return toErrorResult(_error, 'Failed to sync external calendar')
+  }
+}
+
+/**
+ * Syncs an external calendar from an uploaded .ics file
+ */
+export async function uploadExternalCalendarFile(
+  input: UploadExternalCalendarInput
+): Promise<ActionResult<ExternalCalendarSyncResult>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = uploadExternalCalendarSchema.parse(input)
+
+    if (!validated.content.includes('BEGIN:VCALENDAR')) {
+      return { success: false, error: 'The file is not a valid iCal (.ics) document' }
+    }
+
+    const calendar = await prisma.externalCalendar.findUnique({
+      where: { id: validated.calendarId },
+      select: { id: true, propertyId: true },
+    })
+
+    if (!calendar) {
+      return { success: false, error: 'External calendar not found' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: calendar.propertyId })
+
+    const result = await syncExternalCalendarContent(calendar.id, validated.content, userId)
+
+    revalidatePath(`/houses/${calendar.propertyId}`)
+
+    return { success: true, data: result }
+  } catch (_error) {
+    return toErrorResult(_error, 'Failed to import calendar file')
+  }
+}
+
+/**
+ * Removes an external calendar
+ * - Upcoming bookings it created are cancelled, past ones are kept as history
+ */
+export async function deleteExternalCalendar(
+  calendarId: string
+): Promise<ActionResult<{ deleted: boolean; cancelled: number }>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const calendar = await prisma.externalCalendar.findUnique({
+      where: { id: calendarId },
+      include: { property: { select: { id: true, name: true } } },
+    })
+
+    if (!calendar) {
+      return { success: false, error: 'External calendar not found' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: calendar.propertyId })
+
+    const cancelled = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.booking.updateMany({
+        where: {
+          externalCalendarId: calendar.id,
+          endDate: { gte: new Date() },
+          status: { not: BookingStatus.CANCELLED },
+        },
+        data: { status: BookingStatus.CANCELLED, updatedBy: userId },
+      })
+
+      await tx.externalCalendar.delete({ where: { id: calendar.id } })
+
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'delete',
+          entityType: 'external_calendar',
+          entityId: calendar.id,
+          changes: {
+            deleted: { id: calendar.id, name: calendar.name, url: calendar.url },
+            propertyName: calendar.property.name,
+            summary: `Removed external calendar ${calendar.name} from ${calendar.property.name}`,
+            cancelledBookings: count,
+          },
+        },
+      })
+
+      return count
+    })
+
+    revalidatePath(`/houses/${calendar.propertyId}`)
+
+    return { success: true, data: { deleted: true, cancelled } }
+  } catch (_error) {
+    return toErrorResult(_error, 'Failed to remove external calendar')
+  }
+}
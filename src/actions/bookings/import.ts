@@ -31,11 +31,11 @@ export async function importBookings(
       return { success: false, error: 'Unauthorized' }
     }
 
-    await requirePermission(Permission.PROPERTY_EDIT)
-
     // Validate input
     const validated = importBookingsSchema.parse(input)
 
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: validated.propertyId })
+
     const property = await prisma.property.findUnique({
       where: { id: validated.propertyId },
       select: { id: true, name: true },
@@ -4,6 +4,14 @@ export { deleteBooking } from './delete'
 export { getBookings, getBookingById, getBookingStats } from './read'
 export { checkAvailability, checkAdvancedAvailability } from './availability'
 export { importBookings } from './import'
+export {
+  getExternalCalendars,
+  createExternalCalendar,
+  syncExternalCalendarNow,
+  uploadExternalCalendarFile,
+  deleteExternalCalendar,
+} from './external-calendars'
+export { getCalendarFeed, regenerateCalendarFeedToken, revokeCalendarFeedToken } from './calendar-feed'
 
 // Re-export types
 export * from './types'
\ No newline at end of file
@@ -2,7 +2,8 @@
 
 import { z } from 'zod'
 import { prisma } from '@/lib/db'
-import { requirePermission } from '@/lib/auth'
+import { requirePermission, getAccessScope } from '@/lib/auth'
+import { propertyScopeWhere } from '@/lib/access-scope'
 import { Permission } from '@/types/auth'
 import { auth } from '@clerk/nextjs/server'
 import {
@@ -34,9 +35,10 @@ export async function getBookings(
     // Validate filters
     const validated = bookingFiltersSchema.parse(filters)
 
-    // Build where clause
+    // Build where clause, limited to the properties within the user's access scope
     const where: any = {
       propertyId: validated.propertyId,
+      property: propertyScopeWhere(await getAccessScope()),
     }
 
     // Date range filter
@@ -170,6 +172,8 @@ export async function getBookingById(id: string): Promise<ActionResult<BookingDe
       return { success: false, error: 'Booking not found' }
     }
 
+    await requirePermission(Permission.PROPERTY_VIEW, { propertyId: booking.propertyId })
+
     return {
       success: true,
       data: booking,
@@ -207,7 +211,7 @@ export async function getBookingStats(
     }
 
     // Permission check
-    await requirePermission(Permission.PROPERTY_VIEW)
+    await requirePermission(Permission.PROPERTY_VIEW, { propertyId })
 
     // Fetch bookings in date range
     const bookings = await prisma.booking.findMany({
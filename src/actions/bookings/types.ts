@@ -20,10 +20,14 @@ export {
   checkAvailabilitySchema,
   advancedAvailabilityCheckSchema,
   importBookingsSchema,
+  createExternalCalendarSchema,
+  uploadExternalCalendarSchema,
   type CreateBookingInput,
   type UpdateBookingInput,
   type BookingFilters,
   type CheckAvailabilityInput,
   type AdvancedAvailabilityCheckInput,
   type ImportBookingsInput,
+  type CreateExternalCalendarInput,
+  type UploadExternalCalendarInput,
 } from '@/lib/validations/booking'
\ No newline at end of file
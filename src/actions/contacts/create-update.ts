@@ -90,37 +90,9 @@ export async function createContact(
           }
         })
 
-        // Create audit log entry
-        await tx.auditLog.create({
-          data: {
-            userId,
-            action: 'create',
-            entityType: 'contact',
-            entityId: contact.id,
-            changes: {
-              after: updatedContact,
-              summary: `Created contact: ${contact.firstName} ${contact.lastName}`
-            },
-          },
-        })
-
         return updatedContact
       }
 
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'create',
-          entityType: 'contact',
-          entityId: contact.id,
-          changes: {
-            after: contact,
-            summary: `Created contact: ${contact.firstName} ${contact.lastName}`
-          },
-        },
-      })
-
       return contact
     })
 
@@ -258,40 +230,10 @@ export async function updateContact(
             }
           })
 
-          // Create audit log entry
-          await tx.auditLog.create({
-            data: {
-              userId,
-              action: 'update',
-              entityType: 'contact',
-              entityId: id,
-              changes: {
-                before: existingContact,
-                after: finalContact,
-                summary: `Updated contact: ${finalContact!.firstName} ${finalContact!.lastName}`
-              },
-            },
-          })
-
           return finalContact
         }
       }
 
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'update',
-          entityType: 'contact',
-          entityId: id,
-          changes: {
-            before: existingContact,
-            after: updatedContact,
-            summary: `Updated contact: ${updatedContact.firstName} ${updatedContact.lastName}`
-          },
-        },
-      })
-
       return updatedContact
     })
 
@@ -43,26 +43,9 @@ export async function deleteContact(id: string): Promise<ActionResult<void>> {
       return { success: false, error: 'Contact not found' }
     }
 
-    // Delete contact in a transaction
-    await prisma.$transaction(async (tx) => {
-      // Delete the contact (cascade will handle relationships)
-      await tx.contact.delete({
-        where: { id }
-      })
-
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'delete',
-          entityType: 'contact',
-          entityId: id,
-          changes: {
-            before: contact,
-            summary: `Deleted contact: ${contact.firstName} ${contact.lastName}`
-          },
-        },
-      })
+    // Delete the contact (cascade will handle relationships)
+    await prisma.contact.delete({
+      where: { id }
     })
 
     // Revalidate the contacts page
@@ -87,7 +70,6 @@ export async function deleteContact(id: string): Promise<ActionResult<void>> {
 /**
  * Bulk delete contacts
  * - Deletes multiple contacts at once
- * - Creates audit log entries
  */
 export async function bulkDeleteContacts(
   input: BulkDeleteContactsData
@@ -109,35 +91,11 @@ export async function bulkDeleteContacts(
     const validated = bulkDeleteContactsSchema.parse(input)
     const { contactIds } = validated
 
-    // Get contacts for audit log
-    const contacts = await prisma.contact.findMany({
+    // Delete contacts
+    const result = await prisma.contact.deleteMany({
       where: { id: { in: contactIds } }
     })
 
-    // Delete contacts in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Delete contacts
-      const deleteResult = await tx.contact.deleteMany({
-        where: { id: { in: contactIds } }
-      })
-
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'bulk_delete',
-          entityType: 'contact',
-          entityId: 'bulk',
-          changes: {
-            before: contacts,
-            summary: `Bulk deleted ${deleteResult.count} contacts`
-          },
-        },
-      })
-
-      return deleteResult
-    })
-
     // Revalidate the contacts page
     revalidatePath('/contacts')
 
@@ -0,0 +1,247 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { Permission } from '@/types/auth'
+import { auth } from '@clerk/nextjs/server'
+import { findDuplicatePairs } from '@/lib/contact-duplicates'
+import { recordAudit } from '@/lib/audit'
+import {
+  MERGEABLE_CONTACT_FIELDS,
+  type DuplicateContactPair,
+  type DuplicateContactSummary,
+  type MergeContactsResult,
+} from '@/types/contact'
+import {
+  ActionResult,
+  Prisma,
+  mergeContactsSchema,
+  type MergeContactsData
+} from './types'
+
+// Most pairs returned by the duplicate finder
+const MAX_DUPLICATE_PAIRS = 200
+
+/**
+ * Find likely duplicate contacts
+ * - Compares normalized phone numbers, emails / email domains and fuzzy names
+ * - Returns pairs, best matches first, for review in the merge dialog
+ */
+export async function findDuplicateContacts(): Promise<ActionResult<DuplicateContactPair[]>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Permission check
+    const hasPermission = await requirePermission(Permission.CONTACTS_VIEW)
+    if (!hasPermission) {
+      return { success: false, error: 'You do not have permission to view contacts' }
+    }
+
+    const contacts = await prisma.contact.findMany({
+      include: {
+        contactProperties: {
+          select: { property: { select: { name: true } } }
+        },
+        _count: { select: { bookings: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const summaries: DuplicateContactSummary[] = contacts.map(contact => ({
+      id: contact.id,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      email: contact.email,
+      phone: contact.phone,
+      language: contact.language,
+      category: contact.category,
+      comments: contact.comments,
+      createdAt: contact.createdAt,
+      linkedProperties: contact.contactProperties.map(link => link.property.name),
+      bookingCount: contact._count.bookings,
+    }))
+
+    return {
+      success: true,
+      data: findDuplicatePairs(summaries).slice(0, MAX_DUPLICATE_PAIRS)
+    }
+  } catch (_error) {
+    return {
+      success: false,
+      error: 'Failed to find duplicate contacts',
+    }
+  }
+}
+
+/**
+ * Merge a duplicate contact into the surviving one
+ * - Picked fields are copied from the duplicate, the others keep the survivor's values
+ * - Property links move to the survivor; when both were linked to a property the links are combined
+ * - Bookings and availability requests move to the survivor
+ * - The duplicate is deleted and the audit entry keeps both records and every field decision
+ */
+export async function mergeContacts(
+  input: MergeContactsData
+): Promise<ActionResult<MergeContactsResult>> {
+  try {
+    // Authentication check
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Permission check
+    const hasPermission = await requirePermission(Permission.CONTACTS_EDIT)
+    if (!hasPermission) {
+      return { success: false, error: 'You do not have permission to edit contacts' }
+    }
+
+    // Validate input
+    const validated = mergeContactsSchema.parse(input)
+    const { survivorId, duplicateId, fields } = validated
+
+    const result = await prisma.$transaction(async (tx) => {
+      const include = { contactProperties: { include: { property: { select: { name: true } } } } }
+      const [survivor, duplicate] = await Promise.all([
+        tx.contact.findUnique({ where: { id: survivorId }, include }),
+        tx.contact.findUnique({ where: { id: duplicateId }, include }),
+      ])
+
+      if (!survivor || !duplicate) {
+        throw new Error('Contact not found')
+      }
+
+      // The owner portal user follows the surviving contact, a user can only be linked once
+      if (survivor.userId && duplicate.userId) {
+        throw new Error('Both contacts are linked to an owner portal user, unlink one of them before merging')
+      }
+
+      // Field winners
+      const merged: Prisma.ContactUpdateInput = {}
+      if (duplicate.userId) {
+        merged.userId = duplicate.userId
+      }
+      const fieldWinners: Record<string, 'survivor' | 'duplicate'> = {}
+      for (const field of MERGEABLE_CONTACT_FIELDS) {
+        const winner = fields[field] ?? 'survivor'
+        fieldWinners[field] = winner
+        if (winner === 'duplicate') {
+          Object.assign(merged, { [field]: duplicate[field] })
+        }
+      }
+
+      // Re-point property links
+      let movedLinks = 0
+      let mergedLinks = 0
+      const survivorLinks = new Map(survivor.contactProperties.map(link => [link.propertyId, link]))
+
+      for (const link of duplicate.contactProperties) {
+        const existing = survivorLinks.get(link.propertyId)
+        if (existing) {
+          const notes = [
+            existing.notes,
+            existing.relationship !== link.relationship ? `Also ${link.relationship}` : null,
+            link.notes,
+          ].filter(Boolean).join('\n')
+
+          await tx.contactProperty.update({
+            where: { id: existing.id },
+            data: {
+              notes: notes || null,
+              isContractSignatory: existing.isContractSignatory || link.isContractSignatory,
+              isApproved: existing.isApproved || link.isApproved,
+            },
+          })
+          await tx.contactProperty.delete({ where: { id: link.id } })
+          mergedLinks++
+        } else {
+          await tx.contactProperty.update({
+            where: { id: link.id },
+            data: { contactId: survivorId },
+          })
+          movedLinks++
+        }
+      }
+
+      // Re-point bookings, availability requests and assigned tasks
+      const [bookings, availabilityRequests, tasks] = await Promise.all([
+        tx.booking.updateMany({ where: { contactId: duplicateId }, data: { contactId: survivorId } }),
+        tx.availabilityRequest.updateMany({ where: { contactId: duplicateId }, data: { contactId: survivorId } }),
+        tx.operationalTask.updateMany({ where: { assigneeContactId: duplicateId }, data: { assigneeContactId: survivorId } }),
+      ])
+
+      // The email and the portal user are unique: free them before the survivor takes them over
+      await tx.contact.delete({ where: { id: duplicateId } })
+      const updated = await tx.contact.update({
+        where: { id: survivorId },
+        data: merged,
+      })
+
+      const { contactProperties: survivorLinksBefore, ...survivorBefore } = survivor
+      const { contactProperties: duplicateLinksBefore, ...duplicateBefore } = duplicate
+
+      await recordAudit(tx, {
+        userId,
+        action: 'merge',
+        entityType: 'contact',
+        entityId: survivorId,
+        before: { ...survivorBefore, contactProperties: survivorLinksBefore },
+        after: updated,
+        summary: `Merged contact ${duplicate.firstName} ${duplicate.lastName} (${duplicateId}) into ${updated.firstName} ${updated.lastName}`,
+        details: {
+          duplicate: { ...duplicateBefore, contactProperties: duplicateLinksBefore },
+          fieldWinners,
+          movedLinks,
+          mergedLinks,
+          movedBookings: bookings.count,
+          movedAvailabilityRequests: availabilityRequests.count,
+          movedTasks: tasks.count,
+        },
+      })
+
+      return {
+        survivorId,
+        movedLinks,
+        mergedLinks,
+        movedBookings: bookings.count,
+        movedAvailabilityRequests: availabilityRequests.count,
+        movedTasks: tasks.count,
+        propertyIds: [...new Set(duplicate.contactProperties.map(link => link.propertyId))],
+      }
+    })
+
+    // Revalidate the contacts page and the properties whose contacts changed
+    revalidatePath('/contacts')
+    for (const propertyId of result.propertyIds) {
+      revalidatePath(`/houses/${propertyId}`)
+    }
+
+    const { propertyIds: _propertyIds, ...data } = result
+    return { success: true, data }
+  } catch (_error) {
+    if (_error instanceof z.ZodError) {
+      const firstError = _error.issues[0]
+      return {
+        success: false,
+        error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+      }
+    }
+
+    if (_error instanceof Error) {
+      return {
+        success: false,
+        error: _error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'An unexpected error occurred while merging contacts',
+    }
+  }
+}
@@ -6,6 +6,7 @@ import { prisma } from '@/lib/db'
 import { requirePermission } from '@/lib/auth'
 import { Permission } from '@/types/auth'
 import { auth } from '@clerk/nextjs/server'
+import { recordAudit } from '@/lib/audit'
 import {
   ActionResult,
   Prisma,
@@ -165,16 +166,12 @@ export async function exportContacts(
     })
 
     // Create audit log entry
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'export',
-        entityType: 'contact',
-        entityId: 'export',
-        changes: {
-          summary: `Exported ${contacts.length} contacts as ${format.toUpperCase()}`
-        },
-      },
+    await recordAudit(prisma, {
+      userId,
+      action: 'export',
+      entityType: 'contact',
+      entityId: 'export',
+      summary: `Exported ${contacts.length} contacts as ${format.toUpperCase()}`,
     })
 
     // Format data based on format type
@@ -352,16 +349,12 @@ export async function importContacts(
     }
 
     // Create audit log entry
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'import',
-        entityType: 'contact',
-        entityId: 'import',
-        changes: {
-          summary: `Imported contacts: ${imported} created, ${updated} updated, ${skipped} skipped, ${errors.length} errors`
-        },
-      },
+    await recordAudit(prisma, {
+      userId,
+      action: 'import',
+      entityType: 'contact',
+      entityId: 'import',
+      summary: `Imported contacts: ${imported} created, ${updated} updated, ${skipped} skipped, ${errors.length} errors`,
     })
 
     // Revalidate the contacts page
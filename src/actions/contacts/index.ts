@@ -1,10 +1,11 @@
 // Re-export all contact action functions
 export { createContact, updateContact } from './create-update'
 export { deleteContact, bulkDeleteContacts } from './delete'
-export { getContact, getContacts, searchContacts, getPropertyContacts } from './read'
+export { getContact, getContacts, searchContacts, getPropertyContacts, getContactBookingHistory } from './read'
 export { linkContactToProperty, unlinkContactFromProperty } from './property-links'
 export { exportContacts, importContacts } from './import-export'
 export { checkContactUniqueness } from './validation'
+export { findDuplicateContacts, mergeContacts } from './duplicates'
 
 // Re-export types
 export * from './types'
\ No newline at end of file
@@ -6,6 +6,7 @@ import { prisma } from '@/lib/db'
 import { requirePermission } from '@/lib/auth'
 import { Permission } from '@/types/auth'
 import { auth } from '@clerk/nextjs/server'
+import { withAuditContext } from '@/lib/request-context'
 import {
   ActionResult,
   linkContactToPropertySchema,
@@ -65,30 +66,16 @@ export async function linkContactToProperty(
       return { success: false, error: 'Contact is already linked to this property' }
     }
 
-    // Create the link in a transaction
-    await prisma.$transaction(async (tx) => {
-      await tx.contactProperty.create({
+    await withAuditContext(
+      { summary: `Linked contact ${contact.firstName} ${contact.lastName} to property ${property.name} as ${relationship}` },
+      () => prisma.contactProperty.create({
         data: {
           contactId,
           propertyId,
           relationship
         }
       })
-
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'create',
-          entityType: 'contact_property_link',
-          entityId: `${contactId}_${propertyId}`,
-          changes: {
-            after: { contactId, propertyId, relationship },
-            summary: `Linked contact ${contact.firstName} ${contact.lastName} to property ${property.name} as ${relationship}`
-          },
-        },
-      })
-    })
+    )
 
     // Revalidate relevant pages
     revalidatePath('/contacts')
@@ -142,7 +129,7 @@ export async function unlinkContactFromProperty(
     const validated = unlinkContactFromPropertySchema.parse(input)
     const { contactId, propertyId } = validated
 
-    // Get the link for audit log
+    // Get the link with the names used in the audit summary
     const link = await prisma.contactProperty.findUnique({
       where: {
         contactId_propertyId: {
@@ -160,9 +147,9 @@ export async function unlinkContactFromProperty(
       return { success: false, error: 'Contact is not linked to this property' }
     }
 
-    // Delete the link in a transaction
-    await prisma.$transaction(async (tx) => {
-      await tx.contactProperty.delete({
+    await withAuditContext(
+      { summary: `Unlinked contact ${link.contact.firstName} ${link.contact.lastName} from property ${link.property.name}` },
+      () => prisma.contactProperty.delete({
         where: {
           contactId_propertyId: {
             contactId,
@@ -170,21 +157,7 @@ export async function unlinkContactFromProperty(
           }
         }
       })
-
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'delete',
-          entityType: 'contact_property_link',
-          entityId: `${contactId}_${propertyId}`,
-          changes: {
-            before: link,
-            summary: `Unlinked contact ${link.contact.firstName} ${link.contact.lastName} from property ${link.property.name}`
-          },
-        },
-      })
-    })
+    )
 
     // Revalidate relevant pages
     revalidatePath('/contacts')
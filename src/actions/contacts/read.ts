@@ -5,6 +5,9 @@ import { prisma } from '@/lib/db'
 import { requirePermission } from '@/lib/auth'
 import { Permission } from '@/types/auth'
 import { auth } from '@clerk/nextjs/server'
+import { AvailabilityRequestStatus, BookingStatus } from '@/generated/prisma'
+import { countNights, REVENUE_BOOKING_TYPES, roundAmount } from '@/lib/finance'
+import type { ContactBookingHistory, ContactStay, ContactStayProperty } from '@/types/contact'
 import {
   ActionResult,
   Prisma,
@@ -274,4 +277,108 @@ export async function getPropertyContacts(
       data: []
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Get the stay history of a client contact
+ * - Lists every booking linked to the contact, most recent first
+ * - Totals nights and spend (per currency) over bookings that were not cancelled
+ * - Groups stays by property
+ */
+export async function getContactBookingHistory(
+  contactId: string
+): Promise<ActionResult<ContactBookingHistory>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Permission check
+    const hasPermission = await requirePermission(Permission.CONTACTS_VIEW)
+    if (!hasPermission) {
+      return { success: false, error: 'You do not have permission to view contacts' }
+    }
+
+    const [bookings, pendingRequests] = await Promise.all([
+      prisma.booking.findMany({
+        where: { contactId },
+        orderBy: { startDate: 'desc' },
+        include: {
+          property: {
+            select: { id: true, name: true, pricing: { select: { currency: true } } }
+          }
+        }
+      }),
+      prisma.availabilityRequest.count({
+        where: { contactId, status: AvailabilityRequestStatus.PENDING }
+      })
+    ])
+
+    const now = new Date()
+    const stays: ContactStay[] = bookings.map(booking => ({
+      id: booking.id,
+      propertyId: booking.propertyId,
+      propertyName: booking.property.name,
+      type: booking.type,
+      status: booking.status,
+      startDate: booking.startDate,
+      endDate: booking.endDate,
+      nights: countNights(booking.startDate, booking.endDate),
+      numberOfGuests: booking.numberOfGuests,
+      totalAmount: booking.totalAmount,
+      currency: booking.property.pricing?.currency ?? 'EUR',
+    }))
+
+    const activeStays = stays.filter(stay => stay.status !== BookingStatus.CANCELLED)
+    const spendByCurrency = new Map<string, number>()
+    const properties = new Map<string, ContactStayProperty>()
+
+    for (const stay of activeStays) {
+      const spend = REVENUE_BOOKING_TYPES.includes(stay.type) ? stay.totalAmount ?? 0 : 0
+      if (spend > 0) {
+        spendByCurrency.set(stay.currency, (spendByCurrency.get(stay.currency) ?? 0) + spend)
+      }
+
+      const property = properties.get(stay.propertyId)
+      if (property) {
+        property.stays += 1
+        property.nights += stay.nights
+        property.spend += spend
+        if (stay.startDate > property.lastStay) property.lastStay = stay.startDate
+      } else {
+        properties.set(stay.propertyId, {
+          propertyId: stay.propertyId,
+          propertyName: stay.propertyName,
+          stays: 1,
+          nights: stay.nights,
+          spend,
+          lastStay: stay.startDate,
+        })
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        stays,
+        properties: [...properties.values()]
+          .map(property => ({ ...property, spend: roundAmount(property.spend) }))
+          .sort((a, b) => b.stays - a.stays || b.lastStay.getTime() - a.lastStay.getTime()),
+        totalStays: activeStays.length,
+        totalNights: activeStays.reduce((sum, stay) => sum + stay.nights, 0),
+        totalSpend: [...spendByCurrency.entries()].map(([currency, amount]) => ({
+          currency,
+          amount: roundAmount(amount),
+        })),
+        upcomingStays: activeStays.filter(stay => stay.startDate > now).length,
+        pendingRequests,
+      }
+    }
+  } catch (_error) {
+    return {
+      success: false,
+      error: 'Failed to fetch client history',
+    }
+  }
+}
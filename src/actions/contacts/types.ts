@@ -23,6 +23,7 @@ export {
   contactPaginationSchema,
   contactSearchSchema,
   checkContactUniquenessSchema,
+  mergeContactsSchema,
   type CreateContactData,
   type UpdateContactData,
   type BulkDeleteContactsData,
@@ -31,5 +32,6 @@ export {
   type ExportContactsData,
   type ImportContactsData,
   type ContactPaginationData,
-  type ContactSearchData
+  type ContactSearchData,
+  type MergeContactsData
 } from '@/lib/validations/contact'
\ No newline at end of file
@@ -11,13 +11,17 @@ import {
   EquipmentRequestListItem,
   EquipmentRequestFilters,
   EquipmentRequestItem,
+  EquipmentRequestStatusChange,
   createEquipmentRequestSchema,
   updateEquipmentRequestSchema,
   updateEquipmentRequestStatusSchema,
 } from "@/types/equipment-request"
-import { hasPermission } from "@/lib/auth"
+import { hasPermission, getAccessScope } from "@/lib/auth"
+import { propertyScopeWhere } from "@/lib/access-scope"
 import { Permission } from "@/types/auth"
-import { EquipmentRequestStatus } from "@/generated/prisma"
+import { EquipmentRequestStatus, NotificationType } from "@/generated/prisma"
+import { notifyUsers } from "@/lib/notifications"
+import { findTransition, getMissingTransitionFields, TRANSITION_FIELD_LABELS } from "@/lib/equipment-request-workflow"
 
 // Get list of equipment requests with filters
 export async function getEquipmentRequests(
@@ -66,6 +70,9 @@ export async function getEquipmentRequests(
       where.property = { destinationId: filters.destinationId }
     }
 
+    // Only requests for properties within the user's access scope
+    where.AND = [{ property: propertyScopeWhere(await getAccessScope()) }]
+
     if (filters.dateFrom || filters.dateTo) {
       where.createdAt = {}
       if (filters.dateFrom) where.createdAt.gte = filters.dateFrom
@@ -170,6 +177,9 @@ export async function getEquipmentRequestById(id: string) {
             name: true,
           },
         },
+        statusHistory: {
+          orderBy: { createdAt: "asc" },
+        },
       },
     })
 
@@ -177,9 +187,17 @@ export async function getEquipmentRequestById(id: string) {
       throw new Error("Equipment request not found")
     }
 
+    if (!(await hasPermission(Permission.EQUIPMENT_REQUEST_VIEW, { propertyId: request.propertyId }))) {
+      throw new Error("Insufficient permissions")
+    }
+
     return {
       ...request,
-      items: request.items as unknown as EquipmentRequestItem[]
+      items: request.items as unknown as EquipmentRequestItem[],
+      statusHistory: request.statusHistory.map(change => ({
+        ...change,
+        details: change.details as EquipmentRequestStatusChange["details"],
+      })),
     }
   } catch (error) {
     
@@ -195,13 +213,13 @@ export async function createEquipmentRequest(data: CreateEquipmentRequestInput)
 
     const userEmail = authData?.sessionClaims?.email as string || ""
     
-    if (!(await hasPermission(Permission.EQUIPMENT_REQUEST_CREATE))) {
-      throw new Error("Insufficient permissions")
-    }
-
     // Validate input
     const validatedData = createEquipmentRequestSchema.parse(data)
 
+    if (!(await hasPermission(Permission.EQUIPMENT_REQUEST_CREATE, { propertyId: validatedData.propertyId }))) {
+      throw new Error("Insufficient permissions")
+    }
+
     // Create request
     const request = await prisma.equipmentRequest.create({
       data: {
@@ -213,6 +231,13 @@ export async function createEquipmentRequest(data: CreateEquipmentRequestInput)
         items: validatedData.items as any,
         reason: validatedData.reason,
         notes: validatedData.notes,
+        statusHistory: {
+          create: {
+            toStatus: EquipmentRequestStatus.PENDING,
+            changedBy: authData.userId,
+            changedByEmail: userEmail,
+          },
+        },
       },
       include: {
         property: {
@@ -275,6 +300,10 @@ export async function updateEquipmentRequest(
       throw new Error("Equipment request not found")
     }
 
+    if (!(await hasPermission(Permission.EQUIPMENT_REQUEST_EDIT, { propertyId: currentRequest.propertyId }))) {
+      throw new Error("Insufficient permissions")
+    }
+
     // Check if request can be edited
     if (currentRequest.status !== EquipmentRequestStatus.PENDING) {
       throw new Error("Can only edit pending requests")
@@ -314,6 +343,8 @@ export async function updateEquipmentRequest(
 }
 
 // Update equipment request status
+// - Only transitions of the workflow table are accepted, each with its own permission and required fields
+// - Illegal transitions are returned as errors so the UI can show why
 export async function updateEquipmentRequestStatus(
   id: string,
   data: UpdateEquipmentRequestStatusInput
@@ -323,18 +354,6 @@ export async function updateEquipmentRequestStatus(
     if (!authData?.userId) throw new Error("Unauthorized")
 
     const userEmail = authData?.sessionClaims?.email as string || ""
-    
-    // Check permissions based on status
-    if (data.status === EquipmentRequestStatus.APPROVED || 
-        data.status === EquipmentRequestStatus.REJECTED) {
-      if (!(await hasPermission(Permission.EQUIPMENT_REQUEST_APPROVE))) {
-        throw new Error("Insufficient permissions to approve/reject requests")
-      }
-    } else {
-      if (!(await hasPermission(Permission.EQUIPMENT_REQUEST_EDIT))) {
-        throw new Error("Insufficient permissions to update request status")
-      }
-    }
 
     // Validate input
     const validatedData = updateEquipmentRequestStatusSchema.parse(data)
@@ -345,54 +364,128 @@ export async function updateEquipmentRequestStatus(
     })
 
     if (!currentRequest) {
-      throw new Error("Equipment request not found")
+      return { success: false as const, error: "Equipment request not found" }
+    }
+
+    const transition = findTransition(currentRequest.status, validatedData.status)
+    if (!transition) {
+      return {
+        success: false as const,
+        error: `Cannot change status from ${currentRequest.status} to ${validatedData.status}`,
+      }
+    }
+
+    if (!(await hasPermission(transition.permission, { propertyId: currentRequest.propertyId }))) {
+      return {
+        success: false as const,
+        error: `Insufficient permissions to mark requests as ${validatedData.status}`,
+      }
+    }
+
+    const missingFields = getMissingTransitionFields(transition, validatedData)
+    if (missingFields.length > 0) {
+      return {
+        success: false as const,
+        error: `${missingFields.map(field => TRANSITION_FIELD_LABELS[field]).join(", ")} required to mark the request as ${validatedData.status}`,
+      }
     }
 
     // Build update data
-    const updateData: Prisma.EquipmentRequestUpdateInput = {
+    const updateData: Prisma.EquipmentRequestUpdateManyMutationInput = {
       status: validatedData.status,
     }
+    const details: NonNullable<EquipmentRequestStatusChange["details"]> = {}
 
     if (validatedData.internalNotes) {
       updateData.internalNotes = validatedData.internalNotes
     }
 
-    if (data.status === EquipmentRequestStatus.APPROVED) {
+    if (validatedData.status === EquipmentRequestStatus.APPROVED) {
       updateData.approvedBy = authData.userId
       updateData.approvedByEmail = userEmail
       updateData.approvedAt = new Date()
-    } else if (data.status === EquipmentRequestStatus.REJECTED) {
+    } else if (validatedData.status === EquipmentRequestStatus.REJECTED) {
       updateData.rejectedReason = validatedData.rejectedReason
-    } else if (data.status === EquipmentRequestStatus.DELIVERED) {
-      updateData.completedAt = new Date()
+      details.rejectedReason = validatedData.rejectedReason
+    } else if (validatedData.status === EquipmentRequestStatus.ORDERED) {
+      updateData.supplier = validatedData.supplier
+      updateData.orderReference = validatedData.orderReference
+      updateData.orderedAt = new Date()
+      details.supplier = validatedData.supplier
+      details.orderReference = validatedData.orderReference
+    } else if (validatedData.status === EquipmentRequestStatus.DELIVERED) {
+      updateData.completedAt = validatedData.deliveryDate
+      details.deliveryDate = validatedData.deliveryDate?.toISOString()
     }
 
-    // Update request
-    const request = await prisma.equipmentRequest.update({
-      where: { id },
-      data: updateData,
+    // Update request, guarded on the status the transition was checked against
+    const request = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.equipmentRequest.updateMany({
+        where: { id, status: currentRequest.status },
+        data: updateData,
+      })
+      if (count === 0) return null
+
+      await tx.equipmentRequestStatusChange.create({
+        data: {
+          requestId: id,
+          fromStatus: currentRequest.status,
+          toStatus: validatedData.status,
+          changedBy: authData.userId,
+          changedByEmail: userEmail,
+          note: validatedData.note || null,
+          details: Object.keys(details).length > 0 ? details : Prisma.JsonNull,
+        },
+      })
+
+      return tx.equipmentRequest.findUniqueOrThrow({
+        where: { id },
+        include: { property: { select: { name: true } } },
+      })
     })
 
+    if (!request) {
+      return {
+        success: false as const,
+        error: "The request status was changed by someone else, please refresh and try again",
+      }
+    }
+
     // Log audit
     await prisma.auditLog.create({
       data: {
         userId: authData.userId,
-        action: `UPDATE_EQUIPMENT_REQUEST_STATUS_${data.status}`,
+        action: `UPDATE_EQUIPMENT_REQUEST_STATUS_${validatedData.status}`,
         entityType: "EquipmentRequest",
         entityId: id,
         changes: {
           oldStatus: currentRequest.status,
-          newStatus: data.status,
-          rejectedReason: validatedData.rejectedReason,
+          newStatus: validatedData.status,
+          ...details,
         },
       },
     })
 
+    // Let the requester know, unless they changed the status themselves
+    if (request.requestedBy !== authData.userId) {
+      const status = validatedData.status.toLowerCase()
+      await notifyUsers([request.requestedBy], {
+        type: NotificationType.EQUIPMENT_REQUEST_STATUS,
+        title: `Equipment request ${status}`,
+        message: validatedData.status === EquipmentRequestStatus.REJECTED && validatedData.rejectedReason
+          ? `Your request for ${request.property.name} was rejected: ${validatedData.rejectedReason}`
+          : `Your request for ${request.property.name} is now ${status}`,
+        link: `/equipment-requests/${id}`,
+        entityType: "EquipmentRequest",
+        entityId: id,
+      })
+    }
+
     revalidatePath("/equipment-requests")
     revalidatePath(`/equipment-requests/${id}`)
     revalidatePath(`/houses/${request.propertyId}`)
 
-    return { success: true, data: request }
+    return { success: true as const, data: request }
   } catch (error) {
     
     throw new Error("Failed to update equipment request status")
@@ -423,6 +516,10 @@ export async function deleteEquipmentRequest(id: string) {
       throw new Error("Equipment request not found")
     }
 
+    if (!(await hasPermission(Permission.EQUIPMENT_REQUEST_DELETE, { propertyId: request.propertyId }))) {
+      throw new Error("Insufficient permissions")
+    }
+
     // Check if request can be deleted
     if (request.status !== EquipmentRequestStatus.PENDING &&
         request.status !== EquipmentRequestStatus.CANCELLED) {
@@ -0,0 +1,258 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { getAccessScope, requirePermission } from '@/lib/auth'
+import { propertyScopeWhere } from '@/lib/access-scope'
+import { logSensitiveDataAccess } from '@/lib/sensitive-data'
+import { Permission } from '@/types/auth'
+import { auth } from '@clerk/nextjs/server'
+import {
+  financeReportFiltersSchema,
+  type FinanceReportFilters,
+} from '@/lib/validations/finance'
+import {
+  addAmounts,
+  emptyAmounts,
+  loadFinanceData,
+  roundAmounts,
+  sortMonths,
+  splitBooking,
+} from '@/lib/finance-report'
+import { SensitiveDataAction, SensitiveDataType } from '@/types/sensitive-data'
+import type { ActionResult } from '@/types'
+import type {
+  FinanceBookingRow,
+  FinanceCurrencyTotals,
+  FinanceDestinationRow,
+  FinanceMonthRow,
+  FinancePropertyBreakdown,
+  FinancePropertyRow,
+  FinanceReport,
+  FinanceReportMonthRow,
+} from '@/types/finance'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+// Currency of properties without pricing settings
+const DEFAULT_CURRENCY = 'EUR'
+
+/**
+ * Portfolio finance report grouped by month, property and destination
+ * - Totals, months and destinations are split per currency, properties have a single one
+ */
+export async function getFinanceReport(
+  input: FinanceReportFilters
+): Promise<ActionResult<FinanceReport>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.FINANCIAL_VIEW)
+
+    const filters = financeReportFiltersSchema.parse(input)
+    const { bookings, properties } = await loadFinanceData(filters, propertyScopeWhere(await getAccessScope()))
+
+    const totals = new Map<string, FinanceCurrencyTotals>()
+    const byMonth = new Map<string, FinanceReportMonthRow>()
+    const byProperty = new Map<string, FinancePropertyRow>()
+    const byDestination = new Map<string, FinanceDestinationRow & { propertyIds: Set<string> }>()
+    let estimatedBookings = 0
+
+    for (const booking of bookings) {
+      const property = properties.get(booking.propertyId)
+      if (!property) continue
+
+      const { nights, estimated } = splitBooking(booking, property, filters)
+      if (nights.length === 0) continue
+      if (estimated) estimatedBookings++
+
+      const currency = property.pricing?.currency ?? DEFAULT_CURRENCY
+
+      let propertyRow = byProperty.get(property.id)
+      if (!propertyRow) {
+        propertyRow = {
+          ...emptyAmounts(),
+          propertyId: property.id,
+          propertyName: property.name,
+          destinationId: property.destinationId,
+          destinationName: property.destination.name,
+          currency,
+        }
+        byProperty.set(property.id, propertyRow)
+      }
+
+      const destinationKey = `${property.destinationId}:${currency}`
+      let destinationRow = byDestination.get(destinationKey)
+      if (!destinationRow) {
+        destinationRow = {
+          ...emptyAmounts(),
+          destinationId: property.destinationId,
+          destinationName: property.destination.name,
+          currency,
+          properties: 0,
+          propertyIds: new Set(),
+        }
+        byDestination.set(destinationKey, destinationRow)
+      }
+      destinationRow.propertyIds.add(property.id)
+
+      let totalsRow = totals.get(currency)
+      if (!totalsRow) {
+        totalsRow = { ...emptyAmounts(), currency }
+        totals.set(currency, totalsRow)
+      }
+
+      for (const night of nights) {
+        const monthRowKey = `${night.month}:${currency}`
+        let monthRow = byMonth.get(monthRowKey)
+        if (!monthRow) {
+          monthRow = { ...emptyAmounts(), month: night.month, currency }
+          byMonth.set(monthRowKey, monthRow)
+        }
+        addAmounts(monthRow, night)
+        addAmounts(propertyRow, night)
+        addAmounts(destinationRow, night)
+        addAmounts(totalsRow, night)
+      }
+
+      // A booking counts once, in the month it checks in (or the first reported month)
+      byMonth.get(`${nights[0].month}:${currency}`)!.bookings++
+      propertyRow.bookings++
+      destinationRow.bookings++
+      totalsRow.bookings++
+    }
+
+    // An empty period still reports zero totals
+    if (totals.size === 0) {
+      totals.set(DEFAULT_CURRENCY, { ...emptyAmounts(), currency: DEFAULT_CURRENCY })
+    }
+
+    return {
+      success: true,
+      data: {
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+        totals: [...totals.values()]
+          .sort((a, b) => b.revenue - a.revenue)
+          .map(roundAmounts),
+        byMonth: sortMonths(byMonth),
+        byProperty: [...byProperty.values()]
+          .sort((a, b) => b.revenue - a.revenue)
+          .map(roundAmounts),
+        byDestination: [...byDestination.values()]
+          .map(({ propertyIds, ...row }) => roundAmounts({ ...row, properties: propertyIds.size }))
+          .sort((a, b) => b.revenue - a.revenue),
+        estimatedBookings,
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to build finance report')
+  }
+}
+
+/**
+ * Per-booking finance breakdown of a single property (drill-down)
+ */
+export async function getFinancePropertyBreakdown(
+  input: FinanceReportFilters & { propertyId: string }
+): Promise<ActionResult<FinancePropertyBreakdown>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.FINANCIAL_VIEW, { propertyId: input.propertyId })
+
+    const filters = financeReportFiltersSchema.parse(input)
+
+    const property = await prisma.property.findUnique({
+      where: { id: input.propertyId },
+      select: { id: true, name: true, pricing: { select: { currency: true } } },
+    })
+
+    if (!property) {
+      return { success: false, error: 'Property not found' }
+    }
+
+    const { bookings, properties } = await loadFinanceData({ ...filters, propertyId: property.id })
+    const financeProperty = properties.get(property.id)
+
+    const totals = emptyAmounts()
+    const byMonth = new Map<string, FinanceMonthRow>()
+    const bookingRows: FinanceBookingRow[] = []
+
+    for (const booking of bookings) {
+      if (!financeProperty) break
+
+      const { nights, estimated } = splitBooking(booking, financeProperty, filters)
+      if (nights.length === 0) continue
+
+      const row: FinanceBookingRow = {
+        ...emptyAmounts(),
+        bookingId: booking.id,
+        type: booking.type,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        guestName: booking.guestName,
+        estimated,
+        bookings: 1,
+      }
+
+      for (const night of nights) {
+        let monthRow = byMonth.get(night.month)
+        if (!monthRow) {
+          monthRow = { ...emptyAmounts(), month: night.month }
+          byMonth.set(night.month, monthRow)
+        }
+        addAmounts(monthRow, night)
+        addAmounts(row, night)
+        addAmounts(totals, night)
+      }
+
+      byMonth.get(nights[0].month)!.bookings++
+      totals.bookings++
+      bookingRows.push(roundAmounts(row))
+    }
+
+    // Log sensitive data access
+    await logSensitiveDataAccess({
+      userId,
+      action: SensitiveDataAction.VIEW,
+      dataType: SensitiveDataType.FINANCIAL_DATA,
+      propertyId: property.id,
+      metadata: {
+        section: 'finance_report',
+        startDate: filters.startDate.toISOString(),
+        endDate: filters.endDate.toISOString(),
+      },
+    })
+
+    return {
+      success: true,
+      data: {
+        propertyId: property.id,
+        propertyName: property.name,
+        currency: property.pricing?.currency ?? DEFAULT_CURRENCY,
+        totals: roundAmounts(totals),
+        byMonth: sortMonths(byMonth),
+        bookings: bookingRows,
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to build property finance breakdown')
+  }
+}
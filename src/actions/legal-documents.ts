@@ -2,12 +2,12 @@
 
 import { revalidatePath } from 'next/cache'
 import { prisma } from '@/lib/db'
-import { requirePermission, getCurrentUserId, getUserEmail, getUserFullName } from '@/lib/auth'
+import { requirePermission, getCurrentUserId, getUserFullName, getAccessScope } from '@/lib/auth'
+import { legalDocumentScopeWhere } from '@/lib/access-scope'
 import { Permission } from '@/types/auth'
 import { createClient } from '@supabase/supabase-js'
 import { 
   LegalDocumentCategory,
-  LegalDocumentStatus,
   Prisma
 } from '@/generated/prisma'
 import {
@@ -26,6 +26,8 @@ import {
   type LegalDocumentExportInput
 } from '@/lib/validations/legal-document'
 import { LegalDocumentWithRelations, formatFileSize } from '@/types/legal-document'
+import { getExpiryStatus } from '@/lib/legal-document-reminders'
+import { recordAudit } from '@/lib/audit'
 
 // Initialize Supabase client
 const supabase = createClient(
@@ -65,8 +67,10 @@ export async function getLegalDocuments(
     const sortBy = filters.sortBy || 'createdAt'
     const sortOrder = filters.sortOrder || 'desc'
 
-    // Build where clause
-    const where: Prisma.LegalDocumentWhereInput = {}
+    // Build where clause, limited to the properties the user can reach
+    const where: Prisma.LegalDocumentWhereInput = {
+      AND: [legalDocumentScopeWhere(await getAccessScope())]
+    }
     
     if (filters.search) {
       where.OR = [
@@ -136,33 +140,11 @@ export async function getLegalDocuments(
     console.log('📈 getLegalDocuments: Query results - found', documents.length, 'documents, total count:', totalCount)
     console.log('📋 getLegalDocuments: Document IDs:', documents.map(d => ({ id: d.id, name: d.name, status: d.status })))
 
-    // Update status based on expiry dates
+    // Show the status the expiry date implies; the reminder cron persists it and notifies
+    // the uploaders, a read must not take those transitions from it
     const now = new Date()
     for (const doc of documents) {
-      if (doc.expiryDate && doc.status !== LegalDocumentStatus.ARCHIVED) {
-        const daysUntilExpiry = Math.floor(
-          (doc.expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-        )
-        
-        if (daysUntilExpiry < 0 && doc.status !== LegalDocumentStatus.EXPIRED) {
-          await prisma.legalDocument.update({
-            where: { id: doc.id },
-            data: { status: LegalDocumentStatus.EXPIRED }
-          })
-          doc.status = LegalDocumentStatus.EXPIRED
-        } else if (
-          doc.reminderDays && 
-          daysUntilExpiry <= doc.reminderDays && 
-          daysUntilExpiry >= 0 &&
-          doc.status !== LegalDocumentStatus.PENDING_RENEWAL
-        ) {
-          await prisma.legalDocument.update({
-            where: { id: doc.id },
-            data: { status: LegalDocumentStatus.PENDING_RENEWAL }
-          })
-          doc.status = LegalDocumentStatus.PENDING_RENEWAL
-        }
-      }
+      doc.status = getExpiryStatus(doc, now)
     }
 
     console.log('✅ getLegalDocuments: Returning', documents.length, 'documents successfully')
@@ -213,6 +195,8 @@ export async function getLegalDocument(
       return { success: false, error: 'Document not found' }
     }
 
+    await requirePermission(Permission.LEGAL_DOCUMENT_VIEW, { propertyId: document.propertyId ?? undefined })
+
     // Update last accessed
     await prisma.legalDocument.update({
       where: { id },
@@ -222,17 +206,15 @@ export async function getLegalDocument(
     // Log sensitive data access if applicable
     if (document.category === LegalDocumentCategory.TAX_DOCUMENT || 
         document.category === LegalDocumentCategory.VENDOR_CONTRACT) {
-      await prisma.auditLog.create({
-        data: {
-          userId,
-          action: 'VIEW_LEGAL_DOCUMENT',
-          entityType: 'LegalDocument',
-          entityId: id,
-          changes: {
-            category: document.category,
-            name: document.name
-          }
-        }
+      await recordAudit(prisma, {
+        userId,
+        action: 'VIEW_LEGAL_DOCUMENT',
+        entityType: 'LegalDocument',
+        entityId: id,
+        details: {
+          category: document.category,
+          name: document.name,
+        },
       })
     }
 
@@ -256,8 +238,6 @@ export async function createLegalDocument(
   try {
     await requirePermission(Permission.LEGAL_DOCUMENT_CREATE)
     const userId = await getCurrentUserId()
-    const userEmail = await getUserEmail()
-    const userName = await getUserFullName()
     
     if (!userId) {
       return { success: false, error: 'Unauthorized' }
@@ -266,6 +246,8 @@ export async function createLegalDocument(
     // Validate input (without file)
     const validated = createLegalDocumentSchema.omit({ file: true }).parse(input)
 
+    await requirePermission(Permission.LEGAL_DOCUMENT_CREATE, { propertyId: validated.propertyId || undefined })
+
     // Upload file to Supabase
     const fileName = `${Date.now()}-${fileData.originalname.replace(/[^a-zA-Z0-9.-]/g, '_')}`
     const filePath = `legal-documents/${validated.propertyId || 'global'}/${fileName}`
@@ -307,21 +289,6 @@ export async function createLegalDocument(
       }
     })
 
-    // Log activity
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'CREATE_LEGAL_DOCUMENT',
-        entityType: 'LegalDocument',
-        entityId: document.id,
-        changes: {
-          name: document.name,
-          category: document.category,
-          uploadedBy: userName || userEmail || userId
-        }
-      }
-    })
-
     revalidatePath('/legals')
     
     return { success: true, data: { id: document.id } }
@@ -361,6 +328,12 @@ export async function updateLegalDocument(
       return { success: false, error: 'Document not found' }
     }
 
+    // Both the current property and the one the document moves to must be in scope
+    await requirePermission(Permission.LEGAL_DOCUMENT_EDIT, { propertyId: existing.propertyId ?? undefined })
+    if (validated.propertyId && validated.propertyId !== existing.propertyId) {
+      await requirePermission(Permission.LEGAL_DOCUMENT_EDIT, { propertyId: validated.propertyId })
+    }
+
     // Update document
     const updated = await prisma.legalDocument.update({
       where: { id },
@@ -370,17 +343,6 @@ export async function updateLegalDocument(
       }
     })
 
-    // Log activity
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'UPDATE_LEGAL_DOCUMENT',
-        entityType: 'LegalDocument',
-        entityId: id,
-        changes: validated as Prisma.InputJsonValue
-      }
-    })
-
     revalidatePath('/legals')
     revalidatePath(`/legals/${id}`)
     
@@ -429,6 +391,8 @@ export async function uploadLegalDocumentVersion(
       return { success: false, error: 'Document not found' }
     }
 
+    await requirePermission(Permission.LEGAL_DOCUMENT_EDIT, { propertyId: document.propertyId ?? undefined })
+
     // Get next version number
     const nextVersionNumber = (document.versions[0]?.versionNumber || 0) + 1
 
@@ -478,18 +442,16 @@ export async function uploadLegalDocumentVersion(
     })
 
     // Log activity
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'UPLOAD_LEGAL_DOCUMENT_VERSION',
-        entityType: 'LegalDocument',
-        entityId: documentId,
-        changes: {
-          versionNumber: nextVersionNumber,
-          uploadedBy: userName || userId,
-          comment
-        }
-      }
+    await recordAudit(prisma, {
+      userId,
+      action: 'UPLOAD_LEGAL_DOCUMENT_VERSION',
+      entityType: 'LegalDocument',
+      entityId: documentId,
+      details: {
+        versionNumber: nextVersionNumber,
+        uploadedBy: userName || userId,
+        comment,
+      },
     })
 
     revalidatePath('/legals')
@@ -531,6 +493,8 @@ export async function deleteLegalDocument(
       return { success: false, error: 'Document not found' }
     }
 
+    await requirePermission(Permission.LEGAL_DOCUMENT_DELETE, { propertyId: document.propertyId ?? undefined })
+
     // Delete files from Supabase
     const filePaths = [
       ...document.versions.map(v => v.url),
@@ -556,20 +520,6 @@ export async function deleteLegalDocument(
       where: { id }
     })
 
-    // Log activity
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'DELETE_LEGAL_DOCUMENT',
-        entityType: 'LegalDocument',
-        entityId: id,
-        changes: {
-          name: document.name,
-          category: document.category
-        }
-      }
-    })
-
     revalidatePath('/legals')
     
     return { success: true }
@@ -598,10 +548,11 @@ export async function bulkDeleteLegalDocuments(
 
     const validated = bulkDeleteLegalDocumentsSchema.parse(input)
 
-    // Get documents with versions
+    // Get documents with versions, documents out of the user's scope are left alone
     const documents = await prisma.legalDocument.findMany({
       where: {
-        id: { in: validated.documentIds }
+        id: { in: validated.documentIds },
+        AND: [legalDocumentScopeWhere(await getAccessScope())]
       },
       include: {
         versions: true
@@ -630,21 +581,7 @@ export async function bulkDeleteLegalDocuments(
     // Delete from database
     const result = await prisma.legalDocument.deleteMany({
       where: {
-        id: { in: validated.documentIds }
-      }
-    })
-
-    // Log activity
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'BULK_DELETE_LEGAL_DOCUMENTS',
-        entityType: 'LegalDocument',
-        entityId: 'BULK',
-        changes: {
-          documentIds: validated.documentIds,
-          count: result.count
-        }
+        id: { in: documents.map(doc => doc.id) }
       }
     })
 
@@ -730,7 +667,8 @@ export async function bulkDownloadLegalDocuments(
     // Get documents with their versions
     const documents = await prisma.legalDocument.findMany({
       where: {
-        id: { in: validated.documentIds }
+        id: { in: validated.documentIds },
+        AND: [legalDocumentScopeWhere(await getAccessScope())]
       },
       include: {
         versions: validated.includeVersions ? {
@@ -781,7 +719,7 @@ export async function bulkDownloadLegalDocuments(
     return {
       success: true,
       data: {
-        downloadUrl: `/api/legal-documents/bulk-download?ids=${validated.documentIds.join(',')}&format=${validated.format}&includeVersions=${validated.includeVersions}`,
+        downloadUrl: `/api/legal-documents/bulk-download?ids=${documents.map(doc => doc.id).join(',')}&format=${validated.format}&includeVersions=${validated.includeVersions}`,
         filename,
         totalSize
       }
@@ -0,0 +1,470 @@
+'use server'
+
+import { z } from 'zod'
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/db'
+import { getAccessScope, getCurrentUserId, requirePermission } from '@/lib/auth'
+import { propertyScopeWhere } from '@/lib/access-scope'
+import { withAuditContext } from '@/lib/request-context'
+import {
+  applyTranslationUnits,
+  buildTranslationCsv,
+  buildXliff,
+  getTranslationCell,
+  getUnitKey,
+  isSameMarketingCopy,
+  normalizeMarketingCopy,
+  parseTranslationCsv,
+  parseXliff,
+  toMarketingCopy,
+  toTranslationUnits,
+  type MarketingContentRecord,
+} from '@/lib/marketing-translations'
+import {
+  exportTranslationsSchema,
+  importTranslationsSchema,
+  saveMarketingContentSchema,
+  translationDashboardFiltersSchema,
+  type ExportTranslationsData,
+  type ImportTranslationsData,
+  type SaveMarketingContentData,
+  type TranslationDashboardFilters,
+} from '@/lib/validations/marketing-content'
+import { Prisma } from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+import type { ActionResult } from '@/types'
+import {
+  MARKETING_LANGUAGE_CODES,
+  MARKETING_LANGUAGES,
+  SOURCE_LANGUAGE,
+  type MarketingCopy,
+  type MarketingLanguage,
+  type TranslationDashboard,
+  type TranslationDashboardRow,
+  type TranslationImportResult,
+  type TranslationUnit,
+} from '@/types/marketing-content'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+const recordSelect = {
+  language: true,
+  title: true,
+  tagline: true,
+  shortDescription: true,
+  description: true,
+  highlights: true,
+  seoDescription: true,
+  seoKeywords: true,
+  contentUpdatedAt: true,
+  sourceUpdatedAt: true,
+} satisfies Prisma.MarketingContentSelect
+
+const languageName = (code: string) =>
+  MARKETING_LANGUAGES.find(language => language.code === code)?.name ?? code
+
+const toColumns = (copy: MarketingCopy) => ({
+  title: copy.title,
+  tagline: copy.tagline || null,
+  shortDescription: copy.shortDescription || null,
+  description: copy.description,
+  highlights: copy.highlights,
+  seoDescription: copy.seoDescription || null,
+  seoKeywords: copy.seoKeywords,
+})
+
+/**
+ * Writes the copy of a property in one language
+ * - contentUpdatedAt only moves when a text actually changed, so resaving English does not flag every translation
+ */
+async function writeMarketingCopy(params: {
+  propertyId: string
+  language: string
+  copy: MarketingCopy
+  contentUpdatedAt: Date
+  sourceUpdatedAt: Date | null
+  userId: string
+}) {
+  const values = {
+    ...toColumns(params.copy),
+    contentUpdatedAt: params.contentUpdatedAt,
+    sourceUpdatedAt: params.language === SOURCE_LANGUAGE ? null : params.sourceUpdatedAt,
+    updatedBy: params.userId,
+  }
+
+  await prisma.marketingContent.upsert({
+    where: { propertyId_language: { propertyId: params.propertyId, language: params.language } },
+    create: { propertyId: params.propertyId, language: params.language, ...values },
+    update: values,
+  })
+}
+
+/**
+ * Saves the marketing copy of a property, every language at once as edited on the property page
+ * - A translation saved with changes counts as written from the current English copy
+ * - Languages left out are deleted, English is required
+ */
+export async function saveMarketingContent(data: SaveMarketingContentData): Promise<ActionResult<void>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = saveMarketingContentSchema.parse(data)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: validated.propertyId })
+
+    const property = await prisma.property.findUnique({
+      where: { id: validated.propertyId },
+      select: { name: true, marketingContent: { select: recordSelect } },
+    })
+    if (!property) {
+      return { success: false, error: 'Property not found' }
+    }
+
+    const existing = new Map(property.marketingContent.map(record => [record.language, record]))
+    const contents = Object.entries(validated.contents).map(([language, copy]) => ({
+      language,
+      copy: normalizeMarketingCopy(copy!),
+    }))
+    const now = new Date()
+
+    const english = contents.find(content => content.language === SOURCE_LANGUAGE)!
+    const englishRecord = existing.get(SOURCE_LANGUAGE)
+    const sourceUpdatedAt = englishRecord && isSameMarketingCopy(toMarketingCopy(englishRecord), english.copy)
+      ? englishRecord.contentUpdatedAt
+      : now
+
+    const changed = contents.filter(({ language, copy }) => {
+      const record = existing.get(language)
+      return !record || !isSameMarketingCopy(toMarketingCopy(record), copy)
+    })
+    const removed = property.marketingContent
+      .map(record => record.language)
+      .filter(language => language !== SOURCE_LANGUAGE && !contents.some(content => content.language === language))
+
+    if (changed.length === 0 && removed.length === 0) {
+      return { success: true }
+    }
+
+    await withAuditContext(
+      { userId, summary: `Updated marketing content of ${property.name}` },
+      async () => {
+        for (const { language, copy } of changed) {
+          await writeMarketingCopy({
+            propertyId: validated.propertyId,
+            language,
+            copy,
+            contentUpdatedAt: now,
+            sourceUpdatedAt,
+            userId,
+          })
+        }
+        if (removed.length > 0) {
+          await prisma.marketingContent.deleteMany({
+            where: { propertyId: validated.propertyId, language: { in: removed } },
+          })
+        }
+      }
+    )
+
+    revalidatePath(`/houses/${validated.propertyId}`)
+    revalidatePath('/translations')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error saving marketing content:', error)
+    return toErrorResult(error, 'Failed to save marketing content')
+  }
+}
+
+/**
+ * Clears the "needs update" flag of a translation once someone checked it against the new English copy
+ */
+export async function markTranslationUpToDate(
+  propertyId: string,
+  language: MarketingLanguage
+): Promise<ActionResult<void>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId })
+
+    const [property, source, translation] = await Promise.all([
+      prisma.property.findUnique({ where: { id: propertyId }, select: { name: true } }),
+      prisma.marketingContent.findUnique({
+        where: { propertyId_language: { propertyId, language: SOURCE_LANGUAGE } },
+        select: { contentUpdatedAt: true },
+      }),
+      prisma.marketingContent.findUnique({
+        where: { propertyId_language: { propertyId, language } },
+        select: { id: true },
+      }),
+    ])
+    if (!property || !source || !translation || language === SOURCE_LANGUAGE) {
+      return { success: false, error: 'Translation not found' }
+    }
+
+    await withAuditContext(
+      { userId, summary: `Marked the ${languageName(language)} marketing content of ${property.name} as up to date` },
+      () => prisma.marketingContent.update({
+        where: { id: translation.id },
+        data: { sourceUpdatedAt: source.contentUpdatedAt, updatedBy: userId },
+      })
+    )
+
+    revalidatePath(`/houses/${propertyId}`)
+    revalidatePath('/translations')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error marking translation as up to date:', error)
+    return toErrorResult(error, 'Failed to update translation')
+  }
+}
+
+async function findScopedProperties(where: Prisma.PropertyWhereInput) {
+  return prisma.property.findMany({
+    where: { AND: [propertyScopeWhere(await getAccessScope()), where] },
+    select: {
+      id: true,
+      name: true,
+      destination: { select: { name: true } },
+      marketingContent: { select: recordSelect },
+    },
+    orderBy: [{ destination: { name: 'asc' } }, { name: 'asc' }],
+  })
+}
+
+/**
+ * Completeness of the marketing copy of every property, language by language
+ * - The status filter keeps properties where at least one of the shown translations has that status
+ */
+export async function getTranslationDashboard(
+  filters: TranslationDashboardFilters = {}
+): Promise<ActionResult<TranslationDashboard>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_VIEW)
+
+    const validated = translationDashboardFiltersSchema.parse(filters)
+    const properties = await findScopedProperties({
+      destinationId: validated.destinationId,
+      name: validated.search ? { contains: validated.search, mode: 'insensitive' } : undefined,
+    })
+
+    const languages: MarketingLanguage[] = validated.language && validated.language !== SOURCE_LANGUAGE
+      ? [SOURCE_LANGUAGE, validated.language]
+      : MARKETING_LANGUAGE_CODES
+    const translated = validated.language ? [validated.language] : languages.filter(code => code !== SOURCE_LANGUAGE)
+
+    const summary: TranslationDashboard['summary'] = {}
+    for (const language of languages) {
+      summary[language] = { missing: 0, incomplete: 0, outdated: 0, complete: 0 }
+    }
+
+    const rows: TranslationDashboardRow[] = properties.map(property => {
+      const records = new Map<string, MarketingContentRecord>(property.marketingContent.map(record => [record.language, record]))
+      const source = records.get(SOURCE_LANGUAGE)
+      const cells: TranslationDashboardRow['cells'] = {}
+
+      for (const language of languages) {
+        const cell = getTranslationCell(source, records.get(language))
+        cells[language] = cell
+        summary[language]![cell.status]++
+      }
+
+      return {
+        propertyId: property.id,
+        propertyName: property.name,
+        destinationName: property.destination.name,
+        cells,
+      }
+    })
+
+    return {
+      success: true,
+      data: {
+        languages,
+        rows: validated.status
+          ? rows.filter(row => translated.some(language => row.cells[language]?.status === validated.status))
+          : rows,
+        summary,
+      },
+    }
+  } catch (error) {
+    console.error('Error loading translation dashboard:', error)
+    return toErrorResult(error, 'Failed to load translations')
+  }
+}
+
+/**
+ * Translation file of the selected languages for external translators, as XLIFF 1.2 or CSV
+ * - Properties without English copy have nothing to translate and are left out
+ * - Targets carry the current translation so outdated texts can be revised in place
+ */
+export async function exportTranslations(
+  data: ExportTranslationsData
+): Promise<ActionResult<{ filename: string; content: string; units: number }>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_VIEW)
+
+    const validated = exportTranslationsSchema.parse(data)
+    const properties = await findScopedProperties({ destinationId: validated.destinationId })
+
+    const units: TranslationUnit[] = []
+    for (const property of properties) {
+      const source = property.marketingContent.find(record => record.language === SOURCE_LANGUAGE)
+      if (!source) continue
+
+      for (const language of validated.languages) {
+        const translation = property.marketingContent.find(record => record.language === language)
+        if (validated.onlyPending && getTranslationCell(source, translation).status === 'complete') continue
+        units.push(...toTranslationUnits(property, language, toMarketingCopy(source), translation ? toMarketingCopy(translation) : null))
+      }
+    }
+
+    if (units.length === 0) {
+      return { success: false, error: 'Nothing to translate for this selection' }
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'export',
+        entityType: 'marketing_content',
+        entityId: 'bulk_export',
+        changes: {
+          summary: `Exported ${units.length} marketing texts in ${validated.languages.map(languageName).join(', ')} as ${validated.format.toUpperCase()}`,
+        },
+      },
+    })
+
+    const content = validated.format === 'xliff' ? buildXliff(units) : buildTranslationCsv(units)
+    const date = new Date().toISOString().split('T')[0]
+
+    return {
+      success: true,
+      data: {
+        filename: `marketing_translations_${validated.languages.join('-')}_${date}.${validated.format === 'xliff' ? 'xlf' : 'csv'}`,
+        content: Buffer.from(content, 'utf-8').toString('base64'),
+        units: units.length,
+      },
+    }
+  } catch (error) {
+    console.error('Error exporting translations:', error)
+    return toErrorResult(error, 'Failed to export translations')
+  }
+}
+
+/**
+ * Imports a translation file returned by translators
+ * - Empty targets keep the current text, English is never written
+ * - A translation is marked as written from the current English copy unless the file's English texts
+ *   differ from it (the copy changed since the export), in which case it stays flagged for update
+ */
+export async function importTranslations(
+  data: ImportTranslationsData
+): Promise<ActionResult<TranslationImportResult>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_EDIT)
+
+    const validated = importTranslationsSchema.parse(data)
+    const parsed = validated.format === 'xliff' ? parseXliff(validated.content) : parseTranslationCsv(validated.content)
+    const errors = [...parsed.errors]
+
+    const groups = new Map<string, TranslationUnit[]>()
+    for (const unit of parsed.units) {
+      if (unit.language === SOURCE_LANGUAGE) {
+        errors.push(`English is the source language, units for ${unit.propertyId} were ignored`)
+        continue
+      }
+      const key = `${unit.propertyId}:${unit.language}`
+      groups.set(key, [...(groups.get(key) ?? []), unit])
+    }
+
+    const propertyIds = [...new Set(parsed.units.map(unit => unit.propertyId))]
+    const properties = new Map(
+      (await findScopedProperties({ id: { in: propertyIds } })).map(property => [property.id, property])
+    )
+
+    const now = new Date()
+    let updated = 0
+    let staleUnits = 0
+
+    await withAuditContext(
+      { userId, summary: `Imported marketing translations from a ${validated.format.toUpperCase()} file` },
+      async () => {
+        for (const units of groups.values()) {
+          const { propertyId, language } = units[0]
+          const property = properties.get(propertyId)
+          if (!property) {
+            errors.push(`Property ${propertyId} not found or outside your access`)
+            continue
+          }
+          const source = property.marketingContent.find(record => record.language === SOURCE_LANGUAGE)
+          if (!source) {
+            errors.push(`${property.name} has no English copy to translate from`)
+            continue
+          }
+
+          const sourceTexts = new Map(
+            toTranslationUnits(property, language, toMarketingCopy(source), null).map(unit => [getUnitKey(unit), unit.source.trim()])
+          )
+          const stale = units.filter(unit => sourceTexts.get(getUnitKey(unit)) !== unit.source.trim())
+          staleUnits += stale.length
+
+          const current = property.marketingContent.find(record => record.language === language)
+          const copy = normalizeMarketingCopy(applyTranslationUnits(toMarketingCopy(current), units))
+          const changed = !current || !isSameMarketingCopy(toMarketingCopy(current), copy)
+          const sourceUpdatedAt = stale.length === 0 ? source.contentUpdatedAt : current?.sourceUpdatedAt ?? null
+          if (!changed && current?.sourceUpdatedAt?.getTime() === sourceUpdatedAt?.getTime()) continue
+
+          await writeMarketingCopy({
+            propertyId,
+            language,
+            copy,
+            contentUpdatedAt: changed ? now : current!.contentUpdatedAt,
+            sourceUpdatedAt,
+            userId,
+          })
+          updated++
+        }
+      }
+    )
+
+    revalidatePath('/translations')
+
+    return { success: true, data: { updated, staleUnits, errors } }
+  } catch (error) {
+    console.error('Error importing translations:', error)
+    return toErrorResult(error, 'Failed to import translations')
+  }
+}
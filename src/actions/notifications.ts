@@ -0,0 +1,140 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { auth } from '@clerk/nextjs/server'
+import { NotificationType } from '@/generated/prisma'
+import {
+  notificationFiltersSchema,
+  markNotificationsReadSchema,
+  updateNotificationPreferenceSchema,
+  type NotificationFilters,
+  type MarkNotificationsReadInput,
+  type UpdateNotificationPreferenceInput,
+} from '@/lib/validations/notification'
+import type { ActionResult } from '@/types'
+import type { NotificationPreferenceItem, NotificationsResponse } from '@/types/notification'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+/**
+ * Latest notifications of the current user with the unread count
+ * - Notifications are personal: no permission beyond being signed in
+ */
+export async function getNotifications(
+  input: NotificationFilters = {}
+): Promise<ActionResult<NotificationsResponse>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const filters = notificationFiltersSchema.parse(input)
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, ...(filters.unreadOnly ? { readAt: null } : {}) },
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+      }),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+    ])
+
+    return { success: true, data: { notifications, unreadCount } }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch notifications')
+  }
+}
+
+/**
+ * Marks notifications of the current user as read (all unread ones when no ids are given)
+ */
+export async function markNotificationsRead(
+  input: MarkNotificationsReadInput = {}
+): Promise<ActionResult<{ count: number }>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = markNotificationsReadSchema.parse(input)
+
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(validated.ids ? { id: { in: validated.ids } } : {}),
+      },
+      data: { readAt: new Date() },
+    })
+
+    return { success: true, data: { count } }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to mark notifications as read')
+  }
+}
+
+/**
+ * Notification preferences of the current user, one entry per type
+ */
+export async function getNotificationPreferences(): Promise<ActionResult<NotificationPreferenceItem[]>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const preferences = await prisma.notificationPreference.findMany({
+      where: { userId },
+    })
+    const stored = new Map(preferences.map(preference => [preference.type, preference.enabled]))
+
+    return {
+      success: true,
+      data: Object.values(NotificationType).map(type => ({
+        type,
+        enabled: stored.get(type) ?? true,
+      })),
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch notification preferences')
+  }
+}
+
+/**
+ * Turns a notification type on or off for the current user
+ */
+export async function updateNotificationPreference(
+  input: UpdateNotificationPreferenceInput
+): Promise<ActionResult<NotificationPreferenceItem>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = updateNotificationPreferenceSchema.parse(input)
+
+    const preference = await prisma.notificationPreference.upsert({
+      where: { userId_type: { userId, type: validated.type } },
+      create: { userId, type: validated.type, enabled: validated.enabled },
+      update: { enabled: validated.enabled },
+    })
+
+    return { success: true, data: { type: preference.type, enabled: preference.enabled } }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to update notification preference')
+  }
+}
@@ -0,0 +1,229 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { endOfDay, startOfDay } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { getAccessScope, getCurrentUserId, requirePermission } from '@/lib/auth'
+import { propertyScopeWhere } from '@/lib/access-scope'
+import { withAuditContext } from '@/lib/request-context'
+import {
+  generateOperationalTasks,
+  TASK_ASSIGNEE_RELATIONSHIPS,
+  type TaskGenerationResult,
+} from '@/lib/operational-tasks'
+import {
+  generateOperationalTasksSchema,
+  operationalTaskFiltersSchema,
+  updateOperationalTaskSchema,
+  type GenerateOperationalTasksInput,
+  type OperationalTaskFilters,
+  type UpdateOperationalTaskInput,
+} from '@/lib/validations/operational-task'
+import { OperationalTaskStatus, Prisma } from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+import type { ActionResult } from '@/types'
+import {
+  OPERATIONAL_TASK_STATUS_LABELS,
+  OPERATIONAL_TASK_TYPE_LABELS,
+  type OperationalTaskBoard,
+  type OperationalTaskListItem,
+} from '@/types/operational-task'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+const SERVICE_RELATIONSHIPS = [...new Set(Object.values(TASK_ASSIGNEE_RELATIONSHIPS))]
+
+/**
+ * Tasks of a date range with the service contacts they can be assigned to
+ */
+export async function getOperationalTaskBoard(
+  filters: OperationalTaskFilters
+): Promise<ActionResult<OperationalTaskBoard>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.TASK_VIEW)
+
+    const validated = operationalTaskFiltersSchema.parse(filters)
+
+    const propertyWhere: Prisma.PropertyWhereInput = {
+      AND: [
+        propertyScopeWhere(await getAccessScope()),
+        validated.destinationId ? { destinationId: validated.destinationId } : {},
+      ],
+    }
+
+    const tasks = await prisma.operationalTask.findMany({
+      where: {
+        scheduledDate: { gte: startOfDay(validated.from), lte: endOfDay(validated.to) },
+        propertyId: validated.propertyId,
+        type: validated.type,
+        assigneeContactId: validated.assigneeContactId,
+        status: validated.includeCancelled ? undefined : { not: OperationalTaskStatus.CANCELLED },
+        property: propertyWhere,
+      },
+      include: {
+        property: { select: { name: true, destination: { select: { name: true } } } },
+        booking: { select: { guestName: true } },
+        assignee: { select: { id: true, firstName: true, lastName: true, phone: true } },
+      },
+      orderBy: [{ scheduledDate: 'asc' }, { scheduledTime: 'asc' }, { property: { name: 'asc' } }],
+    })
+
+    const links = await prisma.contactProperty.findMany({
+      where: {
+        relationship: { in: SERVICE_RELATIONSHIPS },
+        propertyId: validated.propertyId,
+        property: propertyWhere,
+      },
+      include: { contact: { select: { firstName: true, lastName: true } } },
+      orderBy: [{ contact: { firstName: 'asc' } }, { contact: { lastName: 'asc' } }],
+    })
+
+    const data: OperationalTaskListItem[] = tasks.map(task => ({
+      id: task.id,
+      propertyId: task.propertyId,
+      propertyName: task.property.name,
+      destinationName: task.property.destination.name,
+      bookingId: task.bookingId,
+      guestName: task.booking?.guestName ?? null,
+      type: task.type,
+      status: task.status,
+      scheduledDate: task.scheduledDate,
+      scheduledTime: task.scheduledTime,
+      assignee: task.assignee
+        ? {
+            id: task.assignee.id,
+            name: `${task.assignee.firstName} ${task.assignee.lastName}`.trim(),
+            phone: task.assignee.phone,
+          }
+        : null,
+      notes: task.notes,
+      completedAt: task.completedAt,
+    }))
+
+    return {
+      success: true,
+      data: {
+        tasks: data,
+        assignees: links.map(link => ({
+          contactId: link.contactId,
+          propertyId: link.propertyId,
+          name: `${link.contact.firstName} ${link.contact.lastName}`.trim(),
+          relationship: link.relationship,
+        })),
+      },
+    }
+  } catch (error) {
+    console.error('Error fetching operational tasks:', error)
+    return toErrorResult(error, 'Failed to fetch tasks')
+  }
+}
+
+/**
+ * Updates the status, assignee, time or notes of a task
+ * - Completing a task records who completed it and when
+ */
+export async function updateOperationalTask(
+  input: UpdateOperationalTaskInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = updateOperationalTaskSchema.parse(input)
+
+    const task = await prisma.operationalTask.findUnique({
+      where: { id: validated.id },
+      select: { id: true, propertyId: true, type: true, status: true, property: { select: { name: true } } },
+    })
+    if (!task) {
+      return { success: false, error: 'Task not found' }
+    }
+
+    await requirePermission(Permission.TASK_EDIT, { propertyId: task.propertyId })
+
+    if (validated.assigneeContactId) {
+      const link = await prisma.contactProperty.findUnique({
+        where: { contactId_propertyId: { contactId: validated.assigneeContactId, propertyId: task.propertyId } },
+        select: { id: true },
+      })
+      if (!link) {
+        return { success: false, error: 'The contact is not linked to this property' }
+      }
+    }
+
+    const data: Prisma.OperationalTaskUncheckedUpdateInput = {
+      assigneeContactId: validated.assigneeContactId,
+      scheduledTime: validated.scheduledTime,
+      notes: validated.notes,
+    }
+    if (validated.status && validated.status !== task.status) {
+      data.status = validated.status
+      data.completedAt = validated.status === OperationalTaskStatus.DONE ? new Date() : null
+      data.completedBy = validated.status === OperationalTaskStatus.DONE ? userId : null
+    }
+
+    const summary = data.status
+      ? `Marked ${OPERATIONAL_TASK_TYPE_LABELS[task.type].toLowerCase()} at ${task.property.name} as ${OPERATIONAL_TASK_STATUS_LABELS[validated.status!].toLowerCase()}`
+      : `Updated ${OPERATIONAL_TASK_TYPE_LABELS[task.type].toLowerCase()} at ${task.property.name}`
+
+    await withAuditContext(
+      { summary, details: { propertyName: task.property.name } },
+      () => prisma.operationalTask.update({ where: { id: task.id }, data })
+    )
+
+    revalidatePath('/tasks')
+
+    return { success: true, data: { id: task.id } }
+  } catch (error) {
+    console.error('Error updating operational task:', error)
+    return toErrorResult(error, 'Failed to update task')
+  }
+}
+
+/**
+ * Generates the tasks of a date range on demand, the scheduled job does the same every night
+ */
+export async function generateTasks(
+  input: GenerateOperationalTasksInput
+): Promise<ActionResult<TaskGenerationResult>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = generateOperationalTasksSchema.parse(input)
+
+    await requirePermission(
+      Permission.TASK_EDIT,
+      validated.propertyId ? { propertyId: validated.propertyId } : undefined
+    )
+
+    const result = await generateOperationalTasks(userId, validated)
+
+    revalidatePath('/tasks')
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error('Error generating operational tasks:', error)
+    return toErrorResult(error, 'Failed to generate tasks')
+  }
+}
@@ -0,0 +1,171 @@
+'use server'
+
+import { z } from 'zod'
+import { differenceInCalendarDays, eachDayOfInterval, endOfDay, format, startOfDay } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { getAccessScope, getCurrentUserId, hasPermission, requirePermission } from '@/lib/auth'
+import { propertyScopeWhere } from '@/lib/access-scope'
+import { STAY_BOOKING_TYPES } from '@/lib/operational-tasks'
+import {
+  operationsBoardFiltersSchema,
+  type OperationsBoardFilters,
+} from '@/lib/validations/operations'
+import { BookingStatus, ContactPropertyRelationship } from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+import type { ActionResult } from '@/types'
+import type {
+  OperationsBoard,
+  OperationsDay,
+  OperationsMovement,
+  OperationsMovementKind,
+} from '@/types/operations'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd')
+
+/**
+ * Arrivals and departures of every property in the date range, day by day
+ * - Pending stays are listed too so unconfirmed arrivals are not missed
+ * - A day where a property sees a checkout and a check-in is flagged as a same-day turnover
+ */
+export async function getOperationsBoard(
+  filters: OperationsBoardFilters
+): Promise<ActionResult<OperationsBoard>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_VIEW)
+
+    const validated = operationsBoardFiltersSchema.parse(filters)
+    const from = startOfDay(validated.from)
+    const to = endOfDay(validated.to)
+    const canViewContacts = await hasPermission(Permission.CONTACTS_VIEW)
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        propertyId: validated.propertyId,
+        type: { in: STAY_BOOKING_TYPES },
+        status: { not: BookingStatus.CANCELLED },
+        OR: [
+          { startDate: { gte: from, lte: to } },
+          { endDate: { gte: from, lte: to } },
+        ],
+        property: {
+          AND: [
+            propertyScopeWhere(await getAccessScope()),
+            validated.destinationId ? { destinationId: validated.destinationId } : {},
+          ],
+        },
+      },
+      include: {
+        property: {
+          select: {
+            name: true,
+            maxGuests: true,
+            checkInTime: true,
+            checkOutTime: true,
+            checkInPerson: true,
+            destination: { select: { name: true } },
+            contactProperties: {
+              where: { relationship: ContactPropertyRelationship.CHECK_IN_MANAGER },
+              select: { contact: { select: { id: true, firstName: true, lastName: true, phone: true } } },
+              orderBy: [{ isApproved: 'desc' }, { createdAt: 'asc' }],
+              take: 1,
+            },
+          },
+        },
+      },
+      orderBy: [{ property: { name: 'asc' } }, { startDate: 'asc' }],
+    })
+
+    const days = new Map<string, OperationsDay>(
+      eachDayOfInterval({ start: from, end: startOfDay(to) }).map(day => [
+        dayKey(day),
+        { date: dayKey(day), arrivals: [], departures: [], turnoverPropertyIds: [] },
+      ])
+    )
+
+    const toMovement = (booking: (typeof bookings)[number], kind: OperationsMovementKind): OperationsMovement => {
+      const { property } = booking
+      const manager = property.contactProperties[0]?.contact
+      return {
+        bookingId: booking.id,
+        kind,
+        propertyId: booking.propertyId,
+        propertyName: property.name,
+        destinationName: property.destination.name,
+        bookingType: booking.type,
+        bookingStatus: booking.status,
+        guestName: booking.guestName,
+        guestPhone: booking.guestPhone,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        nights: differenceInCalendarDays(booking.endDate, booking.startDate),
+        time: kind === 'arrival' ? property.checkInTime : property.checkOutTime,
+        numberOfGuests: booking.numberOfGuests,
+        maxGuests: property.maxGuests,
+        overCapacity: !!booking.numberOfGuests && property.maxGuests > 0 && booking.numberOfGuests > property.maxGuests,
+        checkInPerson: property.checkInPerson,
+        checkInManager: manager
+          ? {
+              id: manager.id,
+              name: `${manager.firstName} ${manager.lastName}`.trim(),
+              phone: canViewContacts ? manager.phone : null,
+            }
+          : null,
+        sameDayTurnover: false,
+      }
+    }
+
+    for (const booking of bookings) {
+      days.get(dayKey(booking.startDate))?.arrivals.push(toMovement(booking, 'arrival'))
+      days.get(dayKey(booking.endDate))?.departures.push(toMovement(booking, 'departure'))
+    }
+
+    let turnovers = 0
+    for (const day of days.values()) {
+      const departing = new Set(day.departures.map(movement => movement.propertyId))
+      const turnoverIds = new Set(
+        day.arrivals.filter(movement => departing.has(movement.propertyId)).map(movement => movement.propertyId)
+      )
+      for (const movement of [...day.arrivals, ...day.departures]) {
+        movement.sameDayTurnover = turnoverIds.has(movement.propertyId)
+      }
+      day.turnoverPropertyIds = [...turnoverIds]
+      turnovers += turnoverIds.size
+    }
+
+    const allDays = [...days.values()]
+    const arrivals = allDays.flatMap(day => day.arrivals)
+
+    return {
+      success: true,
+      data: {
+        days: allDays,
+        totals: {
+          arrivals: arrivals.length,
+          departures: allDays.reduce((sum, day) => sum + day.departures.length, 0),
+          turnovers,
+          overCapacity: arrivals.filter(movement => movement.overCapacity).length,
+        },
+      },
+    }
+  } catch (error) {
+    console.error('Error fetching the operations board:', error)
+    return toErrorResult(error, 'Failed to load arrivals and departures')
+  }
+}
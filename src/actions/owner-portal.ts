@@ -0,0 +1,416 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { addYears, format, startOfYear } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { getOwnerContext, assertOwnsProperty } from '@/lib/owner-portal'
+import { notifyUsersWithPermission } from '@/lib/notifications'
+import { withAuditContext } from '@/lib/request-context'
+import { addAmounts, emptyAmounts, loadFinanceData, roundAmounts, splitBooking } from '@/lib/finance-report'
+import {
+  ownerCalendarFiltersSchema,
+  ownerStatementFiltersSchema,
+  ownerStayRequestSchema,
+  type OwnerCalendarFilters,
+  type OwnerStatementFilters,
+  type OwnerStayRequestInput,
+} from '@/lib/validations/owner-portal'
+import { analyzeAdvancedAvailability } from '@/lib/booking-availability'
+import {
+  BookingSource,
+  BookingStatus,
+  BookingType,
+  LegalDocumentStatus,
+  NotificationType,
+  Prisma,
+} from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+import type { ActionResult } from '@/types'
+import type { FinanceAmounts, FinanceMonthRow } from '@/types/finance'
+import type {
+  OwnerCalendarEntry,
+  OwnerDocument,
+  OwnerPortal,
+  OwnerStatement,
+  OwnerStatementMonth,
+  OwnerStayRequest,
+} from '@/types/owner-portal'
+
+const OWNER_BOOKING_TYPES: BookingType[] = [BookingType.OWNER, BookingType.OWNER_STAY]
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+// Owners see rental income and commission, never the agency costs and margin
+function toStatementAmounts(amounts: FinanceAmounts): Omit<OwnerStatementMonth, 'month'> {
+  const rounded = roundAmounts(amounts)
+  return {
+    nights: rounded.nights,
+    bookings: rounded.bookings,
+    revenue: rounded.revenue,
+    commission: rounded.commission,
+    ownerPayout: rounded.ownerPayout,
+  }
+}
+
+/**
+ * Owner contact and the properties it owns
+ */
+export async function getOwnerPortal(): Promise<ActionResult<OwnerPortal>> {
+  try {
+    const context = await getOwnerContext()
+
+    const properties = await prisma.property.findMany({
+      where: { id: { in: context.propertyIds } },
+      select: {
+        id: true,
+        name: true,
+        destination: { select: { name: true } },
+        pricing: { select: { currency: true } },
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    return {
+      success: true,
+      data: {
+        contact: {
+          id: context.contact.id,
+          name: `${context.contact.firstName} ${context.contact.lastName}`.trim(),
+        },
+        properties: properties.map(property => ({
+          id: property.id,
+          name: property.name,
+          destinationName: property.destination.name,
+          currency: property.pricing?.currency ?? 'EUR',
+        })),
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to load the owner portal')
+  }
+}
+
+/**
+ * Occupancy of an owned property, without guest details or amounts
+ */
+export async function getOwnerCalendar(
+  input: OwnerCalendarFilters
+): Promise<ActionResult<OwnerCalendarEntry[]>> {
+  try {
+    const context = await getOwnerContext()
+    const filters = ownerCalendarFiltersSchema.parse(input)
+    assertOwnsProperty(context, filters.propertyId)
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        propertyId: filters.propertyId,
+        status: { not: BookingStatus.CANCELLED },
+        startDate: { lt: filters.endDate },
+        endDate: { gt: filters.startDate },
+      },
+      select: { id: true, propertyId: true, type: true, status: true, startDate: true, endDate: true },
+      orderBy: { startDate: 'asc' },
+    })
+
+    return {
+      success: true,
+      data: bookings.map(booking => ({
+        ...booking,
+        isOwnerStay: OWNER_BOOKING_TYPES.includes(booking.type),
+      })),
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to load the calendar')
+  }
+}
+
+/**
+ * Owner stays of the owner contact, latest first
+ */
+export async function getOwnerStayRequests(): Promise<ActionResult<OwnerStayRequest[]>> {
+  try {
+    const context = await getOwnerContext()
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        propertyId: { in: context.propertyIds },
+        contactId: context.contact.id,
+        type: { in: OWNER_BOOKING_TYPES },
+      },
+      select: {
+        id: true,
+        propertyId: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        numberOfGuests: true,
+        notes: true,
+        createdAt: true,
+        property: { select: { name: true } },
+      },
+      orderBy: { startDate: 'desc' },
+    })
+
+    return {
+      success: true,
+      data: bookings.map(({ property, ...booking }) => ({ ...booking, propertyName: property.name })),
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to load owner stays')
+  }
+}
+
+/**
+ * Asks to block dates for an owner stay
+ * - The stay is created as a pending OWNER_STAY booking so the dates are held right away
+ * - Managers who can edit properties are notified to confirm or decline it
+ */
+export async function requestOwnerStay(input: OwnerStayRequestInput): Promise<ActionResult<OwnerStayRequest>> {
+  try {
+    const context = await getOwnerContext()
+    const validated = ownerStayRequestSchema.parse(input)
+    assertOwnsProperty(context, validated.propertyId)
+
+    const property = await prisma.property.findUniqueOrThrow({
+      where: { id: validated.propertyId },
+      select: { id: true, name: true },
+    })
+
+    const ownerName = `${context.contact.firstName} ${context.contact.lastName}`.trim()
+
+    // Availability is checked in the same serializable transaction as the booking creation,
+    // so two requests for the same dates cannot both hold them
+    const booking = await prisma.$transaction(async (tx) => {
+      const availability = await analyzeAdvancedAvailability(tx, {
+        propertyId: property.id,
+        startDate: validated.startDate,
+        endDate: validated.endDate,
+        includeNearbyDates: false,
+        suggestAlternatives: false,
+        gracePeriodHours: 0,
+      })
+
+      if (!availability.available) {
+        throw new Error('The property is not available for these dates')
+      }
+
+      return withAuditContext(
+        { summary: `Owner stay requested for ${property.name}`, details: { propertyName: property.name } },
+        () => tx.booking.create({
+          data: {
+            propertyId: property.id,
+            type: BookingType.OWNER_STAY,
+            status: BookingStatus.PENDING,
+            source: BookingSource.WEBSITE,
+            startDate: validated.startDate,
+            endDate: validated.endDate,
+            guestName: ownerName,
+            contactId: context.contact.id,
+            numberOfGuests: validated.numberOfGuests,
+            notes: validated.notes,
+            metadata: { requestedFromOwnerPortal: true, requestedBy: context.userId },
+            createdBy: context.userId,
+          },
+        })
+      )
+    }, {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    })
+
+    await notifyUsersWithPermission(Permission.PROPERTY_EDIT, {
+      type: NotificationType.OWNER_STAY_REQUEST,
+      title: `Owner stay requested for ${property.name}`,
+      message: `${ownerName}, ${format(validated.startDate, 'MMM d')} – ${format(validated.endDate, 'MMM d, yyyy')}`,
+      link: `/houses/${property.id}`,
+      entityType: 'Booking',
+      entityId: booking.id,
+    }, context.userId, { propertyId: property.id })
+
+    revalidatePath(`/houses/${property.id}`)
+    revalidatePath('/owner')
+
+    return {
+      success: true,
+      data: {
+        id: booking.id,
+        propertyId: booking.propertyId,
+        propertyName: property.name,
+        status: booking.status,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        numberOfGuests: booking.numberOfGuests,
+        notes: booking.notes,
+        createdAt: booking.createdAt,
+      },
+    }
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return { success: false, error: 'Another booking was saved for these dates at the same time, please try again' }
+    }
+    return toErrorResult(error, 'Failed to request the owner stay')
+  }
+}
+
+/**
+ * Withdraws an owner stay that was not confirmed yet
+ */
+export async function cancelOwnerStayRequest(id: string): Promise<ActionResult> {
+  try {
+    const context = await getOwnerContext()
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: { id: true, propertyId: true, contactId: true, type: true, status: true, property: { select: { name: true } } },
+    })
+
+    if (
+      !booking ||
+      booking.contactId !== context.contact.id ||
+      booking.type !== BookingType.OWNER_STAY ||
+      !context.propertyIds.includes(booking.propertyId)
+    ) {
+      return { success: false, error: 'Owner stay not found' }
+    }
+    if (booking.status !== BookingStatus.PENDING) {
+      return { success: false, error: 'Only pending requests can be withdrawn, please contact your property manager' }
+    }
+
+    await withAuditContext(
+      { summary: `Owner stay request withdrawn for ${booking.property.name}`, details: { propertyName: booking.property.name } },
+      () => prisma.booking.update({
+        where: { id },
+        data: { status: BookingStatus.CANCELLED, updatedBy: context.userId },
+      })
+    )
+
+    revalidatePath(`/houses/${booking.propertyId}`)
+    revalidatePath('/owner')
+
+    return { success: true }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to withdraw the owner stay request')
+  }
+}
+
+/**
+ * Monthly rental income and payout of an owned property for a year
+ */
+export async function getOwnerStatement(
+  input: OwnerStatementFilters
+): Promise<ActionResult<OwnerStatement>> {
+  try {
+    const context = await getOwnerContext()
+    const validated = ownerStatementFiltersSchema.parse(input)
+    assertOwnsProperty(context, validated.propertyId)
+
+    const startDate = startOfYear(new Date(validated.year, 0, 1))
+    const filters = { startDate, endDate: addYears(startDate, 1), propertyId: validated.propertyId }
+
+    const property = await prisma.property.findUniqueOrThrow({
+      where: { id: validated.propertyId },
+      select: { id: true, name: true, pricing: { select: { currency: true } } },
+    })
+
+    const { bookings, properties } = await loadFinanceData(filters)
+    const financeProperty = properties.get(property.id)
+
+    const totals = emptyAmounts()
+    const byMonth = new Map<string, FinanceMonthRow>()
+    let estimatedBookings = 0
+
+    for (const booking of bookings) {
+      if (!financeProperty) break
+
+      const { nights, estimated } = splitBooking(booking, financeProperty, filters)
+      if (nights.length === 0) continue
+      if (estimated) estimatedBookings++
+
+      for (const night of nights) {
+        let monthRow = byMonth.get(night.month)
+        if (!monthRow) {
+          monthRow = { ...emptyAmounts(), month: night.month }
+          byMonth.set(night.month, monthRow)
+        }
+        addAmounts(monthRow, night)
+        addAmounts(totals, night)
+      }
+
+      byMonth.get(nights[0].month)!.bookings++
+      totals.bookings++
+    }
+
+    // Every month of the year is listed, months without rentals show zero
+    const months = Array.from({ length: 12 }, (_, index) => {
+      const month = format(new Date(validated.year, index, 1), 'yyyy-MM')
+      return { month, ...toStatementAmounts(byMonth.get(month) ?? emptyAmounts()) }
+    })
+
+    return {
+      success: true,
+      data: {
+        propertyId: property.id,
+        propertyName: property.name,
+        currency: property.pricing?.currency ?? 'EUR',
+        year: validated.year,
+        months,
+        totals: toStatementAmounts(totals),
+        estimatedBookings,
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to build the owner statement')
+  }
+}
+
+/**
+ * Active documents shared with owners for the owned properties
+ */
+export async function getOwnerDocuments(): Promise<ActionResult<OwnerDocument[]>> {
+  try {
+    const context = await getOwnerContext()
+
+    const documents = await prisma.legalDocument.findMany({
+      where: {
+        propertyId: { in: context.propertyIds },
+        sharedWithOwners: true,
+        status: { not: LegalDocumentStatus.ARCHIVED },
+      },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        category: true,
+        propertyId: true,
+        property: { select: { name: true } },
+        url: true,
+        mimeType: true,
+        fileSize: true,
+        expiryDate: true,
+        uploadedAt: true,
+      },
+      orderBy: { uploadedAt: 'desc' },
+    })
+
+    return {
+      success: true,
+      data: documents.map(({ property, propertyId, ...document }) => ({
+        ...document,
+        propertyId: propertyId as string,
+        propertyName: property?.name ?? '',
+      })),
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to load documents')
+  }
+}
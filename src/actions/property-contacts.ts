@@ -5,13 +5,23 @@ import { z } from 'zod'
 import { prisma } from '@/lib/db'
 import { requirePermission } from '@/lib/auth'
 import { Permission } from '@/types/auth'
-import { ContactType } from '@/generated/prisma'
+import { ContactPropertyRelationship } from '@/generated/prisma'
 import { auth } from '@clerk/nextjs/server'
+import {
+  findMatchingContact,
+  getCategoryForRelationship,
+  getContactCandidates,
+  propertyContactLinkInclude,
+  propertyContactLinkOrderBy,
+  toPropertyContactView,
+} from '@/lib/property-contacts'
+import type { PropertyContactView } from '@/types/property'
 
 // Schema for contact validation - using modern Zod patterns
 const contactSchema = z.object({
-  id: z.string().optional(),
-  type: z.nativeEnum(ContactType).describe("Please select a valid contact type"),
+  id: z.string().optional(), // ContactProperty link id
+  contactId: z.string().optional(), // Global contact, when the entry is already linked
+  type: z.nativeEnum(ContactPropertyRelationship).describe("Please select a valid contact type"),
   firstName: z.string().min(1, "First name is required").max(100, "First name too long"),
   lastName: z.string().min(1, "Last name is required").max(100, "Last name too long"),
   name: z.string().optional(), // Legacy field - computed from firstName + lastName
@@ -28,7 +38,7 @@ const updateContactsSchema = z.object({
   contacts: z.array(contactSchema).max(50, "Too many contacts - maximum 50 allowed"),
 })
 
-export type UpdateContactsInput = z.infer<typeof updateContactsSchema>
+export type UpdateContactsInput = z.input<typeof updateContactsSchema>
 
 interface ActionResult<T> {
   success: boolean
@@ -38,14 +48,15 @@ interface ActionResult<T> {
 
 /**
  * Updates property contacts - follows modern server action patterns
+ * - Contacts are global: each entry is linked to a Contact through ContactProperty
+ * - Entries without contactId are matched to an existing contact (email, phone, then name) or created
+ * - Links missing from the list are removed, the contacts themselves are kept
  * - Permission-based access control
  * - Audit logging for compliance
- * - Optimistic update support
- * - Proper error handling
  */
 export async function updatePropertyContacts(
   input: UpdateContactsInput
-): Promise<ActionResult<{ contacts: Array<{ id: string; type: ContactType; firstName: string | null; lastName: string | null; name: string; email: string | null; phone: string | null; notes: string | null; spokenLanguage: string | null; isContractSignatory: boolean; isApproved: boolean }> }>> {
+): Promise<ActionResult<{ contacts: PropertyContactView[] }>> {
   try {
     // Authentication check
     const { userId } = await auth()
@@ -73,59 +84,103 @@ export async function updatePropertyContacts(
       return { success: false, error: 'Property not found' }
     }
 
-    // Get existing contacts for comparison (audit purposes)
-    const existingContacts = await prisma.propertyContact.findMany({
-      where: { propertyId },
-    })
-
     // Perform the update in a transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Delete all existing contacts
-      await tx.propertyContact.deleteMany({
-        where: { propertyId },
-      })
-
-      // Create new contacts
-      const newContacts = await Promise.all(
-        contacts.map((contact) =>
-          tx.propertyContact.create({
+      const candidates = await getContactCandidates(tx)
+      const linkedContactIds = new Set<string>()
+
+      for (const entry of contacts) {
+        const email = entry.email?.trim() || null
+        const phone = entry.phone?.trim() || null
+        const name = `${entry.firstName} ${entry.lastName}`.trim()
+        let contactId: string
+
+        if (entry.contactId) {
+          // Editing a linked contact updates the global contact
+          const emailOwner = email && candidates.find(candidate =>
+            candidate.id !== entry.contactId && candidate.email?.toLowerCase() === email.toLowerCase()
+          )
+          if (emailOwner) {
+            throw new Error(`${email} is already used by ${emailOwner.firstName} ${emailOwner.lastName}`.trim())
+          }
+
+          const contact = await tx.contact.update({
+            where: { id: entry.contactId },
             data: {
-              propertyId,
-              type: contact.type,
-              firstName: contact.firstName,
-              lastName: contact.lastName,
-              name: `${contact.firstName} ${contact.lastName}`.trim(), // Computed legacy field
-              email: contact.email || null,
-              phone: contact.phone || null,
-              notes: contact.notes || null,
-              spokenLanguage: contact.spokenLanguage || "English",
-              isContractSignatory: contact.isContractSignatory || false,
-              isApproved: contact.isApproved,
+              firstName: entry.firstName,
+              lastName: entry.lastName,
+              email,
+              phone,
+              language: entry.spokenLanguage || 'English',
             },
           })
-        )
-      )
-
-      // Create audit log entry
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: 'update',
-          entityType: 'property_contacts',
-          entityId: propertyId,
-          changes: {
-            before: existingContacts,
-            after: newContacts,
-            summary: `Updated contacts: ${newContacts.length} contact(s)`,
-          },
-        },
+          contactId = contact.id
+        } else {
+          const match = findMatchingContact(candidates, { firstName: entry.firstName, lastName: entry.lastName, email, phone })
+
+          if (match) {
+            // Fill in what the existing contact is missing, never overwrite it
+            contactId = match.contact.id
+            const fill = {
+              ...(email && !match.contact.email ? { email } : {}),
+              ...(phone && !match.contact.phone ? { phone } : {}),
+            }
+            if (Object.keys(fill).length > 0) {
+              await tx.contact.update({ where: { id: contactId }, data: fill })
+              Object.assign(match.contact, fill)
+            }
+          } else {
+            const contact = await tx.contact.create({
+              data: {
+                firstName: entry.firstName,
+                lastName: entry.lastName,
+                email,
+                phone,
+                language: entry.spokenLanguage || 'English',
+                category: getCategoryForRelationship(entry.type),
+              },
+            })
+            contactId = contact.id
+            candidates.push(contact)
+          }
+        }
+
+        if (linkedContactIds.has(contactId)) {
+          throw new Error(`${name} is listed more than once for this property`)
+        }
+        linkedContactIds.add(contactId)
+
+        const linkData = {
+          relationship: entry.type,
+          notes: entry.notes || null,
+          isContractSignatory: entry.isContractSignatory || false,
+          isApproved: entry.isApproved,
+        }
+        await tx.contactProperty.upsert({
+          where: { contactId_propertyId: { contactId, propertyId } },
+          create: { contactId, propertyId, ...linkData },
+          update: linkData,
+        })
+      }
+
+      // Unlink contacts removed from the list
+      await tx.contactProperty.deleteMany({
+        where: { propertyId, contactId: { notIn: [...linkedContactIds] } },
+      })
+
+      const links = await tx.contactProperty.findMany({
+        where: { propertyId },
+        include: propertyContactLinkInclude,
+        orderBy: propertyContactLinkOrderBy,
       })
+      const newContacts = links.map(toPropertyContactView)
 
       return newContacts
     })
 
-    // Revalidate the property page
+    // Revalidate the property page and the global contacts
     revalidatePath(`/houses/${propertyId}`)
+    revalidatePath('/contacts')
 
     return {
       success: true,
@@ -159,7 +214,7 @@ export async function updatePropertyContacts(
 /**
  * Fetches property contacts with proper permissions
  */
-export async function getPropertyContacts(propertyId: string): Promise<ActionResult<Array<{ id: string; type: ContactType; firstName: string | null; lastName: string | null; name: string; email: string | null; phone: string | null; notes: string | null; spokenLanguage: string | null; isContractSignatory: boolean; isApproved: boolean }>>> {
+export async function getPropertyContacts(propertyId: string): Promise<ActionResult<PropertyContactView[]>> {
   try {
     const { userId } = await auth()
     if (!userId) {
@@ -172,17 +227,15 @@ export async function getPropertyContacts(propertyId: string): Promise<ActionRes
       return { success: false, error: 'You do not have permission to view contacts' }
     }
 
-    const contacts = await prisma.propertyContact.findMany({
+    const links = await prisma.contactProperty.findMany({
       where: { propertyId },
-      orderBy: [
-        { type: 'asc' },
-        { name: 'asc' },
-      ],
+      include: propertyContactLinkInclude,
+      orderBy: propertyContactLinkOrderBy,
     })
 
     return {
       success: true,
-      data: contacts,
+      data: links.map(toPropertyContactView),
     }
   } catch (_error) {
     
@@ -191,4 +244,4 @@ export async function getPropertyContacts(propertyId: string): Promise<ActionRes
       error: 'Failed to fetch contacts',
     }
   }
-}
\ No newline at end of file
+}
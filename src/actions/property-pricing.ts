@@ -2,8 +2,10 @@
 
 import { prisma } from "@/lib/db"
 import { requirePermission } from "@/lib/auth"
+import { logSensitiveDataAccess } from "@/lib/sensitive-data"
 import { auth } from "@clerk/nextjs/server"
 import { Permission } from "@/types/auth"
+import { SensitiveDataAction, SensitiveDataType } from "@/types/sensitive-data"
 import { revalidatePath } from "next/cache"
 import { 
   createPricingPeriodSchema, 
@@ -13,7 +15,9 @@ import {
   createOperationalCostSchema,
   updateOperationalCostSchema,
   updatePropertyPricingSchema,
+  stayQuoteSchema,
   calculatePublicPrice,
+  type StayQuoteFormData,
   type UpdatePropertyPricingFormData,
   type CreatePricingPeriodFormData,
   type UpdatePricingPeriodFormData,
@@ -22,10 +26,11 @@ import {
   type CreateOperationalCostFormData,
   type UpdateOperationalCostFormData
 } from "@/lib/validations/pricing"
+import { buildStayQuote } from "@/lib/stay-quote"
 
 // Get all pricing data for a property
 export async function getPropertyPricing(propertyId: string) {
-  await requirePermission(Permission.FINANCIAL_VIEW)
+  await requirePermission(Permission.FINANCIAL_VIEW, { propertyId })
   const { userId } = await auth()
   if (!userId) throw new Error("Unauthorized")
 
@@ -56,16 +61,13 @@ export async function getPropertyPricing(propertyId: string) {
   }
 
   // Log sensitive data access
-  await prisma.sensitiveDataAccess.create({
-    data: {
-      userId,
-      userRole: 'admin', // This should come from the auth context
-      action: 'VIEW',
-      dataType: 'FINANCIAL_DATA',
-      propertyId,
-      metadata: {
-        section: 'pricing'
-      }
+  await logSensitiveDataAccess({
+    userId,
+    action: SensitiveDataAction.VIEW,
+    dataType: SensitiveDataType.FINANCIAL_DATA,
+    propertyId,
+    metadata: {
+      section: 'pricing'
     }
   })
 
@@ -83,7 +85,7 @@ export async function updatePropertyPricing(
   propertyId: string, 
   data: UpdatePropertyPricingFormData
 ) {
-  await requirePermission(Permission.FINANCIAL_EDIT)
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId })
   const { userId } = await auth()
   if (!userId) throw new Error("Unauthorized")
 
@@ -113,20 +115,6 @@ export async function updatePropertyPricing(
     })
   }
 
-  // Log the update
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'UPDATE',
-      entityType: 'PROPERTY_PRICING',
-      entityId: propertyId,
-      changes: {
-        before: existingPricing,
-        after: result
-      }
-    }
-  })
-
   revalidatePath(`/houses/${propertyId}`)
   return { success: true, data: result }
 }
@@ -136,7 +124,7 @@ export async function createPriceRange(
   propertyId: string,
   data: CreatePricingPeriodFormData
 ) {
-  await requirePermission(Permission.FINANCIAL_EDIT)
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId })
   const { userId } = await auth()
   if (!userId) throw new Error("Unauthorized")
 
@@ -163,16 +151,6 @@ export async function createPriceRange(
     data: { lastPricingUpdate: new Date() }
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'CREATE',
-      entityType: 'PRICE_RANGE',
-      entityId: priceRange.id,
-      changes: { created: priceRange }
-    }
-  })
-
   revalidatePath(`/houses/${propertyId}`)
   return { success: true, data: priceRange }
 }
@@ -197,6 +175,8 @@ export async function updatePriceRange(
     throw new Error("Price range not found")
   }
 
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId: existing.propertyId })
+
   // Calculate public prices if owner prices or commission changed
   let publicNightlyRate = existing.publicNightlyRate
   let publicWeeklyRate = existing.publicWeeklyRate
@@ -228,19 +208,6 @@ export async function updatePriceRange(
     data: { lastPricingUpdate: new Date() }
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'UPDATE',
-      entityType: 'PRICE_RANGE',
-      entityId: id,
-      changes: {
-        before: existing,
-        after: updated
-      }
-    }
-  })
-
   revalidatePath(`/houses/${existing.propertyId}`)
   return { success: true, data: updated }
 }
@@ -259,6 +226,8 @@ export async function deletePriceRange(id: string) {
     throw new Error("Price range not found")
   }
 
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId: priceRange.propertyId })
+
   await prisma.priceRange.delete({
     where: { id }
   })
@@ -269,16 +238,6 @@ export async function deletePriceRange(id: string) {
     data: { lastPricingUpdate: new Date() }
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'DELETE',
-      entityType: 'PRICE_RANGE',
-      entityId: id,
-      changes: { deleted: priceRange }
-    }
-  })
-
   revalidatePath(`/houses/${priceRange.propertyId}`)
   return { success: true }
 }
@@ -288,7 +247,7 @@ export async function createMinimumStayRule(
   propertyId: string,
   data: CreateMinimumStayRuleFormData
 ) {
-  await requirePermission(Permission.FINANCIAL_EDIT)
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId })
   const { userId } = await auth()
   if (!userId) throw new Error("Unauthorized")
 
@@ -301,16 +260,6 @@ export async function createMinimumStayRule(
     }
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'CREATE',
-      entityType: 'MINIMUM_STAY_RULE',
-      entityId: rule.id,
-      changes: { created: rule }
-    }
-  })
-
   revalidatePath(`/houses/${propertyId}`)
   return { success: true, data: rule }
 }
@@ -334,24 +283,13 @@ export async function updateMinimumStayRule(
     throw new Error("Minimum stay rule not found")
   }
 
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId: existing.propertyId })
+
   const updated = await prisma.minimumStayRule.update({
     where: { id },
     data: validated
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'UPDATE',
-      entityType: 'MINIMUM_STAY_RULE',
-      entityId: id,
-      changes: {
-        before: existing,
-        after: updated
-      }
-    }
-  })
-
   revalidatePath(`/houses/${existing.propertyId}`)
   return { success: true, data: updated }
 }
@@ -370,20 +308,12 @@ export async function deleteMinimumStayRule(id: string) {
     throw new Error("Minimum stay rule not found")
   }
 
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId: rule.propertyId })
+
   await prisma.minimumStayRule.delete({
     where: { id }
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'DELETE',
-      entityType: 'MINIMUM_STAY_RULE',
-      entityId: id,
-      changes: { deleted: rule }
-    }
-  })
-
   revalidatePath(`/houses/${rule.propertyId}`)
   return { success: true }
 }
@@ -393,7 +323,7 @@ export async function createOperationalCost(
   propertyId: string,
   data: CreateOperationalCostFormData
 ) {
-  await requirePermission(Permission.FINANCIAL_EDIT)
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId })
   const { userId } = await auth()
   if (!userId) throw new Error("Unauthorized")
 
@@ -406,16 +336,6 @@ export async function createOperationalCost(
     }
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'CREATE',
-      entityType: 'OPERATIONAL_COST',
-      entityId: cost.id,
-      changes: { created: cost }
-    }
-  })
-
   revalidatePath(`/houses/${propertyId}`)
   return { success: true, data: cost }
 }
@@ -439,24 +359,13 @@ export async function updateOperationalCost(
     throw new Error("Operational cost not found")
   }
 
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId: existing.propertyId })
+
   const updated = await prisma.operationalCost.update({
     where: { id },
     data: validated
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'UPDATE',
-      entityType: 'OPERATIONAL_COST',
-      entityId: id,
-      changes: {
-        before: existing,
-        after: updated
-      }
-    }
-  })
-
   revalidatePath(`/houses/${existing.propertyId}`)
   return { success: true, data: updated }
 }
@@ -475,27 +384,19 @@ export async function deleteOperationalCost(id: string) {
     throw new Error("Operational cost not found")
   }
 
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId: cost.propertyId })
+
   await prisma.operationalCost.delete({
     where: { id }
   })
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'DELETE',
-      entityType: 'OPERATIONAL_COST',
-      entityId: id,
-      changes: { deleted: cost }
-    }
-  })
-
   revalidatePath(`/houses/${cost.propertyId}`)
   return { success: true }
 }
 
 // Migrate legacy pricing data
 export async function migrateLegacyPricing(propertyId: string) {
-  await requirePermission(Permission.FINANCIAL_EDIT)
+  await requirePermission(Permission.FINANCIAL_EDIT, { propertyId })
 
   // Get price ranges with legacy data
   const legacyPriceRanges = await prisma.priceRange.findMany({
@@ -526,4 +427,52 @@ export async function migrateLegacyPricing(propertyId: string) {
 
   revalidatePath(`/houses/${propertyId}`)
   return { success: true, migrated: legacyPriceRanges.length }
-}
\ No newline at end of file
+}
+// Quote a stay from price periods, minimum stay rules, operational costs and fees
+export async function getStayQuote(propertyId: string, data: StayQuoteFormData) {
+  await requirePermission(Permission.FINANCIAL_VIEW, { propertyId })
+  const { userId } = await auth()
+  if (!userId) throw new Error("Unauthorized")
+
+  const validated = stayQuoteSchema.parse(data)
+
+  const [property, pricing, priceRanges, minimumStayRules, operationalCosts] = await Promise.all([
+    prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { id: true, name: true, maxGuests: true }
+    }),
+    prisma.propertyPricing.findUnique({
+      where: { propertyId }
+    }),
+    prisma.priceRange.findMany({
+      where: {
+        propertyId,
+        startDate: { lt: validated.endDate },
+        endDate: { gte: validated.startDate }
+      },
+      orderBy: { startDate: 'asc' }
+    }),
+    prisma.minimumStayRule.findMany({
+      where: { propertyId },
+      orderBy: { startDate: 'asc' }
+    }),
+    prisma.operationalCost.findMany({
+      where: { propertyId },
+      orderBy: { createdAt: 'asc' }
+    })
+  ])
+
+  if (!property) {
+    throw new Error("Property not found")
+  }
+
+  const quote = buildStayQuote(validated, {
+    property,
+    pricing,
+    priceRanges,
+    minimumStayRules,
+    operationalCosts
+  })
+
+  return { success: true, data: quote }
+}
@@ -5,6 +5,8 @@ import { requirePermission } from "@/lib/auth"
 import { revalidatePath } from "next/cache"
 import { auth } from "@clerk/nextjs/server"
 import { Permission } from "@/types/auth"
+import { withAuditContext } from "@/lib/request-context"
+import { refreshUpcomingTasks } from "@/lib/operational-tasks"
 import {
   updateSurroundingsSchema,
   updateCheckInDetailsSchema,
@@ -21,32 +23,21 @@ export async function updatePropertySurroundings(data: {
   surroundings: SurroundingsInfo
 }) {
   try {
-    await requirePermission(Permission.PROPERTY_EDIT)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: data.propertyId })
     const { userId } = await auth()
     if (!userId) return { success: false, error: "Unauthorized" }
 
     const validated = updateSurroundingsSchema.parse(data)
 
-    await db.$transaction(async (tx) => {
-      await tx.property.update({
+    await withAuditContext(
+      { summary: "Updated surroundings", details: { section: "surroundings" } },
+      () => db.property.update({
         where: { id: data.propertyId },
         data: {
           surroundings: validated.surroundings as any
         }
       })
-
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: "update",
-          entityType: "property_surroundings",
-          entityId: data.propertyId,
-          changes: {
-            surroundings: validated.surroundings
-          }
-        }
-      })
-    })
+    )
 
     revalidatePath(`/houses/${data.propertyId}`)
     return { success: true }
@@ -63,14 +54,15 @@ export async function updateCheckInDetails(data: {
   checkInPerson?: string | null
 }) {
   try {
-    await requirePermission(Permission.PROPERTY_EDIT)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: data.propertyId })
     const { userId } = await auth()
     if (!userId) return { success: false, error: "Unauthorized" }
 
     const validated = updateCheckInDetailsSchema.parse(data)
 
-    await db.$transaction(async (tx) => {
-      await tx.property.update({
+    await withAuditContext(
+      { summary: "Updated check-in details", details: { section: "check_in" } },
+      () => db.property.update({
         where: { id: data.propertyId },
         data: {
           checkInTime: validated.checkInTime,
@@ -78,17 +70,7 @@ export async function updateCheckInDetails(data: {
           checkInPerson: validated.checkInPerson
         }
       })
-
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: "update",
-          entityType: "property_check_in",
-          entityId: data.propertyId,
-          changes: validated
-        }
-      })
-    })
+    )
 
     revalidatePath(`/houses/${data.propertyId}`)
     return { success: true }
@@ -103,30 +85,21 @@ export async function updateAccessInfo(data: {
   stayMetadata?: StayMetadata
 }) {
   try {
-    await requirePermission(Permission.PROPERTY_EDIT)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: data.propertyId })
     const { userId } = await auth()
     if (!userId) return { success: false, error: "Unauthorized" }
 
     const validated = updateAccessInfoSchema.parse(data)
 
-    await db.$transaction(async (tx) => {
-      await tx.property.update({
+    await withAuditContext(
+      { summary: "Updated access info", details: { section: "access" } },
+      () => db.property.update({
         where: { id: data.propertyId },
         data: {
           stayMetadata: validated.stayMetadata as any
         }
       })
-
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: "update",
-          entityType: "property_access",
-          entityId: data.propertyId,
-          changes: { access: validated.stayMetadata?.access }
-        }
-      })
-    })
+    )
 
     revalidatePath(`/houses/${data.propertyId}`)
     return { success: true }
@@ -141,32 +114,26 @@ export async function updateMaintenanceSchedules(data: {
   stayMetadata?: StayMetadata
 }) {
   try {
-    await requirePermission(Permission.PROPERTY_EDIT)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: data.propertyId })
     const { userId } = await auth()
     if (!userId) return { success: false, error: "Unauthorized" }
 
     const validated = updateMaintenanceSchedulesSchema.parse(data)
 
-    await db.$transaction(async (tx) => {
-      await tx.property.update({
+    await withAuditContext(
+      { summary: "Updated maintenance schedules", details: { section: "maintenance" } },
+      () => db.property.update({
         where: { id: data.propertyId },
         data: {
           stayMetadata: validated.stayMetadata as any
         }
       })
+    )
 
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: "update",
-          entityType: "property_maintenance",
-          entityId: data.propertyId,
-          changes: { maintenance: validated.stayMetadata?.maintenance }
-        }
-      })
-    })
+    await refreshUpcomingTasks(userId, data.propertyId)
 
     revalidatePath(`/houses/${data.propertyId}`)
+    revalidatePath("/tasks")
     return { success: true }
   } catch (error) {
     
@@ -184,14 +151,15 @@ export async function updateNetworkInfo(data: {
   stayMetadata?: StayMetadata
 }) {
   try {
-    await requirePermission(Permission.PROPERTY_EDIT)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: data.propertyId })
     const { userId } = await auth()
     if (!userId) return { success: false, error: "Unauthorized" }
 
     const validated = updateNetworkInfoSchema.parse(data)
 
-    await db.$transaction(async (tx) => {
-      await tx.property.update({
+    await withAuditContext(
+      { summary: "Updated network info", details: { section: "network" } },
+      () => db.property.update({
         where: { id: data.propertyId },
         data: {
           wifiName: validated.wifiName,
@@ -202,24 +170,7 @@ export async function updateNetworkInfo(data: {
           stayMetadata: validated.stayMetadata as any
         }
       })
-
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: "update",
-          entityType: "property_network",
-          entityId: data.propertyId,
-          changes: {
-            wifi: {
-              name: validated.wifiName,
-              speed: validated.wifiSpeed,
-              coverage: validated.mobileNetworkCoverage
-            },
-            network: validated.stayMetadata?.network
-          }
-        }
-      })
-    })
+    )
 
     revalidatePath(`/houses/${data.propertyId}`)
     return { success: true }
@@ -238,14 +189,15 @@ export async function updateSecurityInfo(data: {
   stayMetadata?: StayMetadata
 }) {
   try {
-    await requirePermission(Permission.PROPERTY_EDIT)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: data.propertyId })
     const { userId } = await auth()
     if (!userId) return { success: false, error: "Unauthorized" }
 
     const validated = updateSecurityInfoSchema.parse(data)
 
-    await db.$transaction(async (tx) => {
-      await tx.property.update({
+    await withAuditContext(
+      { summary: "Updated security info", details: { section: "security" } },
+      () => db.property.update({
         where: { id: data.propertyId },
         data: {
           hasFireExtinguisher: validated.hasFireExtinguisher,
@@ -255,27 +207,7 @@ export async function updateSecurityInfo(data: {
           stayMetadata: validated.stayMetadata as any
         }
       })
-
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: "update",
-          entityType: "property_security",
-          entityId: data.propertyId,
-          changes: {
-            fireSafety: {
-              hasExtinguisher: validated.hasFireExtinguisher,
-              hasAlarm: validated.hasFireAlarm
-            },
-            electricMeter: {
-              accessible: validated.electricMeterAccessible,
-              location: validated.electricMeterLocation
-            },
-            security: validated.stayMetadata?.security
-          }
-        }
-      })
-    })
+    )
 
     revalidatePath(`/houses/${data.propertyId}`)
     return { success: true }
@@ -291,51 +223,41 @@ export async function updateVillaBookComment(data: {
   content: string
 }) {
   try {
-    await requirePermission(Permission.PROPERTY_EDIT)
+    await requirePermission(Permission.PROPERTY_EDIT, { propertyId: data.propertyId })
     const { userId } = await auth()
     if (!userId) return { success: false, error: "Unauthorized" }
 
     const validated = updateVillaBookCommentSchema.parse(data)
     
-    await db.$transaction(async (tx) => {
-      // Get existing property data
-      const property = await tx.property.findUnique({
-        where: { id: data.propertyId },
-        select: { stayMetadata: true }
-      })
+    await withAuditContext(
+      { summary: `Updated villa book comment (${validated.language})`, details: { section: "villa_book" } },
+      () => db.$transaction(async (tx) => {
+        // Get existing property data
+        const property = await tx.property.findUnique({
+          where: { id: data.propertyId },
+          select: { stayMetadata: true }
+        })
       
-      const existingMetadata = property?.stayMetadata as StayMetadata | null || {}
-      const existingComments = existingMetadata.villaBookComment || {}
+        const existingMetadata = property?.stayMetadata as StayMetadata | null || {}
+        const existingComments = existingMetadata.villaBookComment || {}
       
-      // Update the specific language
-      const updatedComments = {
-        ...existingComments,
-        [validated.language]: validated.content
-      }
-
-      await tx.property.update({
-        where: { id: data.propertyId },
-        data: {
-          stayMetadata: {
-            ...existingMetadata,
-            villaBookComment: updatedComments
-          } as any
+        // Update the specific language
+        const updatedComments = {
+          ...existingComments,
+          [validated.language]: validated.content
         }
-      })
 
-      await tx.auditLog.create({
-        data: {
-          userId,
-          action: "update",
-          entityType: "property_villa_book",
-          entityId: data.propertyId,
-          changes: { 
-            language: validated.language,
-            contentLength: validated.content.length 
+        await tx.property.update({
+          where: { id: data.propertyId },
+          data: {
+            stayMetadata: {
+              ...existingMetadata,
+              villaBookComment: updatedComments
+            } as any
           }
-        }
+        })
       })
-    })
+    )
 
     revalidatePath(`/houses/${data.propertyId}`)
     return { success: true }
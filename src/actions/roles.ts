@@ -0,0 +1,198 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { revalidatePath } from 'next/cache'
+import { requirePermission, getCurrentUserId } from '@/lib/auth'
+import { listClerkUsers, getClerkUserRole } from '@/lib/clerk-users'
+import { getRoleDefinitions, invalidateRoleDefinitions } from '@/lib/roles'
+import { withAuditContext } from '@/lib/request-context'
+import {
+  createRoleSchema,
+  updateRoleSchema,
+  type CreateRoleInput,
+  type UpdateRoleInput,
+} from '@/lib/validations/role'
+import { Permission, UserRole, type RoleDefinition } from '@/types/auth'
+import type { ActionResult } from '@/types'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+// Key stored in Clerk publicMetadata.role, derived from the name once and never renamed
+function toRoleKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+/**
+ * Every role with its permissions, read by every signed-in user to resolve their own permissions
+ */
+export async function getRoles(): Promise<ActionResult<RoleDefinition[]>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    return { success: true, data: await getRoleDefinitions() }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch roles')
+  }
+}
+
+/**
+ * Creates a custom role
+ */
+export async function createRole(input: CreateRoleInput): Promise<ActionResult<RoleDefinition>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const validated = createRoleSchema.parse(input)
+    const key = toRoleKey(validated.name)
+    if (!key) {
+      return { success: false, error: 'The role name must contain letters or digits' }
+    }
+
+    const roles = await getRoleDefinitions()
+    if (roles.some(role => role.key === key)) {
+      return { success: false, error: `A role named "${validated.name}" already exists` }
+    }
+
+    await withAuditContext({ summary: `Created role ${validated.name}` }, () =>
+      prisma.roleDefinition.create({
+        data: {
+          key,
+          name: validated.name,
+          description: validated.description || null,
+          permissions: validated.permissions,
+          updatedBy: userId,
+        },
+      })
+    )
+
+    invalidateRoleDefinitions()
+    revalidatePath('/admin/roles')
+    return {
+      success: true,
+      data: {
+        key,
+        name: validated.name,
+        description: validated.description || null,
+        permissions: validated.permissions,
+        isSystem: false,
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to create role')
+  }
+}
+
+/**
+ * Renames a role or changes its permissions
+ * - The admin role always grants every permission and cannot be edited
+ */
+export async function updateRole(input: UpdateRoleInput): Promise<ActionResult<RoleDefinition>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const validated = updateRoleSchema.parse(input)
+    if (validated.key === UserRole.ADMIN) {
+      return { success: false, error: 'The admin role cannot be edited' }
+    }
+
+    const existing = (await getRoleDefinitions()).find(role => role.key === validated.key)
+    if (!existing) {
+      return { success: false, error: 'Role not found' }
+    }
+
+    await withAuditContext({ summary: `Updated role ${validated.name}` }, () =>
+      prisma.roleDefinition.update({
+        where: { key: validated.key },
+        data: {
+          name: validated.name,
+          description: validated.description || null,
+          permissions: validated.permissions,
+          updatedBy: userId,
+        },
+      })
+    )
+
+    invalidateRoleDefinitions()
+    revalidatePath('/admin/roles')
+    return {
+      success: true,
+      data: {
+        ...existing,
+        name: validated.name,
+        description: validated.description || null,
+        permissions: validated.permissions,
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to update role')
+  }
+}
+
+/**
+ * Deletes a custom role that no user holds anymore
+ */
+export async function deleteRole(key: string): Promise<ActionResult> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const existing = (await getRoleDefinitions()).find(role => role.key === key)
+    if (!existing) {
+      return { success: false, error: 'Role not found' }
+    }
+    if (existing.isSystem) {
+      return { success: false, error: 'Built-in roles cannot be deleted' }
+    }
+
+    const holders = (await listClerkUsers()).filter(user => getClerkUserRole(user) === key)
+    if (holders.length > 0) {
+      return {
+        success: false,
+        error: `${holders.length} ${holders.length === 1 ? 'user has' : 'users have'} this role, assign them another role first`,
+      }
+    }
+
+    await withAuditContext({ summary: `Deleted role ${existing.name}` }, () =>
+      prisma.roleDefinition.delete({ where: { key } })
+    )
+
+    invalidateRoleDefinitions()
+    revalidatePath('/admin/roles')
+    return { success: true }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to delete role')
+  }
+}
@@ -0,0 +1,289 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { requirePermission } from '@/lib/auth'
+import { getSensitiveDataAlertSettings } from '@/lib/sensitive-data'
+import { auth } from '@clerk/nextjs/server'
+import { Prisma } from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+import {
+  sensitiveAccessFiltersSchema,
+  sensitiveAccessLogQuerySchema,
+  sensitiveDataAlertFiltersSchema,
+  type SensitiveAccessFilters,
+  type SensitiveAccessLogQuery,
+  type SensitiveDataAlertFilters,
+} from '@/lib/validations/sensitive-access'
+import type { ActionResult } from '@/types'
+import type {
+  SensitiveAccessDayStats,
+  SensitiveAccessLogResponse,
+  SensitiveAccessStats,
+  SensitiveAccessUserStats,
+  SensitiveDataAlert,
+  SensitiveDataAlertsResponse,
+} from '@/types/sensitive-data'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+function buildAccessWhere(filters: SensitiveAccessFilters): Prisma.SensitiveDataAccessWhereInput {
+  return {
+    createdAt: { gte: filters.startDate, lt: filters.endDate },
+    ...(filters.userId && { userId: filters.userId }),
+    ...(filters.propertyId && { propertyId: filters.propertyId }),
+    ...(filters.dataType && { dataType: filters.dataType }),
+  }
+}
+
+async function getPropertyNames(propertyIds: string[]): Promise<Map<string, string>> {
+  const properties = await prisma.property.findMany({
+    where: { id: { in: [...new Set(propertyIds)] } },
+    select: { id: true, name: true },
+  })
+  return new Map(properties.map(property => [property.id, property.name]))
+}
+
+/**
+ * Who accessed which property's sensitive data, newest first
+ */
+export async function getSensitiveAccessLog(
+  input: SensitiveAccessLogQuery
+): Promise<ActionResult<SensitiveAccessLogResponse>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.SENSITIVE_ACCESS_VIEW)
+
+    const { page, limit, ...filters } = sensitiveAccessLogQuerySchema.parse(input)
+    const where = buildAccessWhere(filters)
+
+    const [accesses, total] = await Promise.all([
+      prisma.sensitiveDataAccess.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.sensitiveDataAccess.count({ where }),
+    ])
+
+    const propertyNames = await getPropertyNames(accesses.map(access => access.propertyId))
+
+    return {
+      success: true,
+      data: {
+        accesses: accesses.map(access => {
+          const metadata = access.metadata as Record<string, unknown> | null
+          return {
+            id: access.id,
+            userId: access.userId,
+            userRole: access.userRole,
+            action: access.action,
+            dataType: access.dataType,
+            propertyId: access.propertyId,
+            propertyName: propertyNames.get(access.propertyId) ?? null,
+            section: typeof metadata?.section === 'string' ? metadata.section : null,
+            createdAt: access.createdAt,
+          }
+        }),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch sensitive data access log')
+  }
+}
+
+/**
+ * Access volume per user and per day (UTC) over the period
+ */
+export async function getSensitiveAccessStats(
+  input: SensitiveAccessFilters
+): Promise<ActionResult<SensitiveAccessStats>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.SENSITIVE_ACCESS_VIEW)
+
+    const filters = sensitiveAccessFiltersSchema.parse(input)
+    const where = buildAccessWhere(filters)
+
+    const conditions = [
+      Prisma.sql`"createdAt" >= ${filters.startDate}`,
+      Prisma.sql`"createdAt" < ${filters.endDate}`,
+      ...(filters.userId ? [Prisma.sql`"userId" = ${filters.userId}`] : []),
+      ...(filters.propertyId ? [Prisma.sql`"propertyId" = ${filters.propertyId}`] : []),
+      ...(filters.dataType ? [Prisma.sql`"dataType" = ${filters.dataType}`] : []),
+    ]
+
+    const [byUserAndType, byUserAndProperty, latestRoles, days] = await Promise.all([
+      prisma.sensitiveDataAccess.groupBy({
+        by: ['userId', 'dataType'],
+        where,
+        _count: { _all: true },
+      }),
+      prisma.sensitiveDataAccess.groupBy({
+        by: ['userId', 'propertyId'],
+        where,
+      }),
+      prisma.sensitiveDataAccess.findMany({
+        where,
+        distinct: ['userId'],
+        orderBy: { createdAt: 'desc' },
+        select: { userId: true, userRole: true },
+      }),
+      prisma.$queryRaw<{ day: Date; total: bigint }[]>`
+        SELECT date_trunc('day', "createdAt") AS day, COUNT(*) AS total
+        FROM "SensitiveDataAccess"
+        WHERE ${Prisma.join(conditions, ' AND ')}
+        GROUP BY 1
+        ORDER BY 1
+      `,
+    ])
+
+    const users = new Map<string, SensitiveAccessUserStats>()
+    for (const { userId, userRole } of latestRoles) {
+      users.set(userId, { userId, userRole, total: 0, properties: 0, byDataType: {} })
+    }
+    for (const row of byUserAndType) {
+      const user = users.get(row.userId)
+      if (!user) continue
+      user.total += row._count._all
+      user.byDataType[row.dataType] = row._count._all
+    }
+    for (const row of byUserAndProperty) {
+      const user = users.get(row.userId)
+      if (user) user.properties++
+    }
+
+    // One entry per day of the period, days without access included
+    const totalsByDay = new Map(days.map(row => [row.day.toISOString().slice(0, 10), Number(row.total)]))
+    const byDay: SensitiveAccessDayStats[] = []
+    const firstDay = Date.UTC(
+      filters.startDate.getUTCFullYear(),
+      filters.startDate.getUTCMonth(),
+      filters.startDate.getUTCDate()
+    )
+    for (let time = firstDay; time < filters.endDate.getTime(); time += DAY_MS) {
+      const day = new Date(time).toISOString().slice(0, 10)
+      byDay.push({ day, total: totalsByDay.get(day) ?? 0 })
+    }
+
+    const byUser = [...users.values()].sort((a, b) => b.total - a.total)
+
+    return {
+      success: true,
+      data: {
+        byUser,
+        byDay,
+        total: byUser.reduce((sum, user) => sum + user.total, 0),
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch sensitive data access statistics')
+  }
+}
+
+/**
+ * Unusual access volume alerts, newest first, with the current alert settings
+ */
+export async function getSensitiveDataAlerts(
+  input: SensitiveDataAlertFilters = {}
+): Promise<ActionResult<SensitiveDataAlertsResponse>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.SENSITIVE_ACCESS_VIEW)
+
+    const filters = sensitiveDataAlertFiltersSchema.parse(input)
+    const where: Prisma.SensitiveDataAlertWhereInput =
+      filters.status === 'open' ? { acknowledgedAt: null }
+      : filters.status === 'acknowledged' ? { acknowledgedAt: { not: null } }
+      : {}
+
+    const [alerts, openCount] = await Promise.all([
+      prisma.sensitiveDataAlert.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+      }),
+      prisma.sensitiveDataAlert.count({ where: { acknowledgedAt: null } }),
+    ])
+
+    const propertyNames = await getPropertyNames(alerts.flatMap(alert => alert.propertyIds))
+
+    return {
+      success: true,
+      data: {
+        alerts: alerts.map(alert => ({
+          ...alert,
+          properties: alert.propertyIds.map(id => ({ id, name: propertyNames.get(id) ?? id })),
+        })),
+        openCount,
+        settings: getSensitiveDataAlertSettings(),
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch sensitive data alerts')
+  }
+}
+
+/**
+ * Marks an alert as reviewed by the current user
+ */
+export async function acknowledgeSensitiveDataAlert(
+  id: string
+): Promise<ActionResult<SensitiveDataAlert>> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.SENSITIVE_ACCESS_VIEW)
+
+    const alert = await prisma.sensitiveDataAlert.findUnique({ where: { id } })
+    if (!alert) {
+      return { success: false, error: 'Alert not found' }
+    }
+    if (alert.acknowledgedAt) {
+      return { success: true, data: alert }
+    }
+
+    const updated = await prisma.sensitiveDataAlert.update({
+      where: { id },
+      data: { acknowledgedAt: new Date(), acknowledgedBy: userId },
+    })
+
+    return { success: true, data: updated }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to acknowledge alert')
+  }
+}
@@ -0,0 +1,381 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { clerkClient, type User } from '@clerk/nextjs/server'
+import { revalidatePath } from 'next/cache'
+import { requirePermission, getCurrentUserId, getUserRole } from '@/lib/auth'
+import { UNRESTRICTED_SCOPE } from '@/lib/access-scope'
+import { listClerkUsers, getClerkUserRole } from '@/lib/clerk-users'
+import { getRoleDefinitions } from '@/lib/roles'
+import { recordAudit } from '@/lib/audit'
+import { invalidateNotificationRecipients } from '@/lib/notifications'
+import { withAuditContext } from '@/lib/request-context'
+import { ContactPropertyRelationship } from '@/generated/prisma'
+import {
+  inviteUserSchema,
+  linkOwnerContactSchema,
+  updateUserRoleSchema,
+  type InviteUserInput,
+  type LinkOwnerContactInput,
+  type UpdateUserRoleInput,
+} from '@/lib/validations/user'
+import { Permission, UserRole, type ManagedUser, type PendingInvitation } from '@/types/auth'
+import type { ActionResult } from '@/types'
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    const firstError = error.issues[0]
+    return {
+      success: false,
+      error: `Validation error: ${firstError.path.join('.')} - ${firstError.message}`,
+    }
+  }
+
+  return { success: false, error: error instanceof Error ? error.message : fallback }
+}
+
+function getFullName(user: User): string {
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username || 'User'
+}
+
+// Admins manage others, never themselves, so the last admin cannot lock everyone out
+function assertNotSelf(currentUserId: string, userId: string, message: string) {
+  if (currentUserId === userId) {
+    throw new Error(message)
+  }
+}
+
+// Only admins hand out or take back the admin role, other user managers would escalate themselves
+async function assertCanChangeAdminRole(previousRole: string, nextRole: string) {
+  if (previousRole !== UserRole.ADMIN && nextRole !== UserRole.ADMIN) return
+  if ((await getUserRole()) !== UserRole.ADMIN) {
+    throw new Error('Only admins can grant or revoke the admin role')
+  }
+}
+
+async function assertRoleExists(role: string) {
+  const roles = await getRoleDefinitions()
+  if (!roles.some(definition => definition.key === role)) {
+    throw new Error(`Role "${role}" does not exist`)
+  }
+}
+
+/**
+ * Every Clerk user with their role, status, last activity and access scope
+ */
+export async function getManagedUsers(): Promise<ActionResult<ManagedUser[]>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const clerkUsers = await listClerkUsers()
+    const userIds = clerkUsers.map(user => user.id)
+    const [scopes, activity, ownerContacts] = await Promise.all([
+      prisma.userAccessScope.findMany({ where: { userId: { in: userIds } } }),
+      prisma.auditLog.groupBy({
+        by: ['userId'],
+        where: { userId: { in: userIds } },
+        _max: { createdAt: true },
+      }),
+      prisma.contact.findMany({
+        where: { userId: { in: userIds } },
+        select: { id: true, firstName: true, lastName: true, userId: true },
+      }),
+    ])
+    const scopeByUser = new Map(scopes.map(scope => [scope.userId, scope]))
+    const lastActivityByUser = new Map(activity.map(row => [row.userId, row._max.createdAt]))
+    const ownerContactByUser = new Map(ownerContacts.map(contact => [contact.userId, contact]))
+
+    return {
+      success: true,
+      data: clerkUsers.map(user => {
+        const role = getClerkUserRole(user)
+        const scope = scopeByUser.get(user.id)
+        const ownerContact = ownerContactByUser.get(user.id)
+
+        return {
+          id: user.id,
+          fullName: getFullName(user),
+          emailAddress: user.primaryEmailAddress?.emailAddress ?? user.emailAddresses[0]?.emailAddress ?? null,
+          imageUrl: user.imageUrl,
+          role,
+          accessScope: scope && role !== UserRole.ADMIN
+            ? { restricted: true, destinationIds: scope.destinationIds, propertyIds: scope.propertyIds }
+            : UNRESTRICTED_SCOPE,
+          deactivated: user.banned,
+          createdAt: new Date(user.createdAt),
+          lastSignInAt: user.lastSignInAt ? new Date(user.lastSignInAt) : null,
+          lastActivityAt: lastActivityByUser.get(user.id) ?? null,
+          ownerContact: ownerContact
+            ? { id: ownerContact.id, name: `${ownerContact.firstName} ${ownerContact.lastName}`.trim() }
+            : null,
+        }
+      }),
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch users')
+  }
+}
+
+/**
+ * Invitations sent and not accepted yet
+ */
+export async function getPendingInvitations(): Promise<ActionResult<PendingInvitation[]>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const { invitations } = await clerkClient()
+    const { data } = await invitations.getInvitationList({ status: 'pending', limit: 100 })
+
+    return {
+      success: true,
+      data: data.map(invitation => ({
+        id: invitation.id,
+        emailAddress: invitation.emailAddress,
+        role: getClerkUserRole(invitation),
+        createdAt: new Date(invitation.createdAt),
+      })),
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to fetch invitations')
+  }
+}
+
+/**
+ * Invites a team member by email, the role is applied when they sign up
+ */
+export async function inviteUser(input: InviteUserInput): Promise<ActionResult<PendingInvitation>> {
+  try {
+    const currentUserId = await getCurrentUserId()
+    if (!currentUserId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const validated = inviteUserSchema.parse(input)
+    await assertRoleExists(validated.role)
+    await assertCanChangeAdminRole(UserRole.VIEWER, validated.role)
+
+    const { invitations } = await clerkClient()
+    const invitation = await invitations.createInvitation({
+      emailAddress: validated.emailAddress,
+      publicMetadata: { role: validated.role },
+      notify: true,
+    })
+
+    await recordAudit(prisma, {
+      userId: currentUserId,
+      action: 'INVITE_USER',
+      entityType: 'user',
+      entityId: invitation.id,
+      summary: `Invited ${validated.emailAddress} as ${validated.role}`,
+      details: { emailAddress: validated.emailAddress, role: validated.role },
+    })
+
+    revalidatePath('/admin/users')
+    return {
+      success: true,
+      data: {
+        id: invitation.id,
+        emailAddress: invitation.emailAddress,
+        role: validated.role,
+        createdAt: new Date(invitation.createdAt),
+      },
+    }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to invite user')
+  }
+}
+
+/**
+ * Revokes an invitation before it is accepted
+ */
+export async function revokeInvitation(invitationId: string): Promise<ActionResult<void>> {
+  try {
+    const currentUserId = await getCurrentUserId()
+    if (!currentUserId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const { invitations } = await clerkClient()
+    const invitation = await invitations.revokeInvitation(invitationId)
+
+    await recordAudit(prisma, {
+      userId: currentUserId,
+      action: 'REVOKE_INVITATION',
+      entityType: 'user',
+      entityId: invitation.id,
+      summary: `Revoked the invitation of ${invitation.emailAddress}`,
+      details: { emailAddress: invitation.emailAddress },
+    })
+
+    revalidatePath('/admin/users')
+    return { success: true }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to revoke invitation')
+  }
+}
+
+/**
+ * Changes a user's role, stored in Clerk publicMetadata
+ */
+export async function updateUserRole(input: UpdateUserRoleInput): Promise<ActionResult<string>> {
+  try {
+    const currentUserId = await getCurrentUserId()
+    if (!currentUserId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const validated = updateUserRoleSchema.parse(input)
+    assertNotSelf(currentUserId, validated.userId, 'You cannot change your own role')
+    await assertRoleExists(validated.role)
+
+    const { users } = await clerkClient()
+    const user = await users.getUser(validated.userId)
+    const previousRole = getClerkUserRole(user)
+
+    if (previousRole === validated.role) {
+      return { success: true, data: previousRole }
+    }
+
+    await assertCanChangeAdminRole(previousRole, validated.role)
+
+    // updateUserMetadata merges, other publicMetadata keys are kept
+    await users.updateUserMetadata(validated.userId, { publicMetadata: { role: validated.role } })
+    invalidateNotificationRecipients()
+
+    await recordAudit(prisma, {
+      userId: currentUserId,
+      action: 'UPDATE_ROLE',
+      entityType: 'user',
+      entityId: validated.userId,
+      before: { role: previousRole },
+      after: { role: validated.role },
+      summary: `Changed the role of ${getFullName(user)} from ${previousRole} to ${validated.role}`,
+    })
+
+    revalidatePath('/admin/users')
+    return { success: true, data: validated.role }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to update role')
+  }
+}
+
+/**
+ * Deactivates or reactivates a user's access
+ * - Deactivated users are banned in Clerk, their sessions are revoked and they cannot sign in
+ */
+export async function setUserDeactivated(
+  userId: string,
+  deactivated: boolean
+): Promise<ActionResult<void>> {
+  try {
+    const currentUserId = await getCurrentUserId()
+    if (!currentUserId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    assertNotSelf(currentUserId, userId, 'You cannot deactivate your own access')
+
+    const { users } = await clerkClient()
+    const user = deactivated ? await users.banUser(userId) : await users.unbanUser(userId)
+    invalidateNotificationRecipients()
+
+    await recordAudit(prisma, {
+      userId: currentUserId,
+      action: deactivated ? 'DEACTIVATE_USER' : 'REACTIVATE_USER',
+      entityType: 'user',
+      entityId: userId,
+      before: { deactivated: !deactivated },
+      after: { deactivated },
+      summary: `${deactivated ? 'Deactivated' : 'Reactivated'} the access of ${getFullName(user)}`,
+    })
+
+    revalidatePath('/admin/users')
+    return { success: true }
+  } catch (error) {
+    return toErrorResult(error, deactivated ? 'Failed to deactivate user' : 'Failed to reactivate user')
+  }
+}
+
+/**
+ * Links a user to the owner contact whose properties they see in the owner portal
+ * - A contact is linked to at most one user, a user to at most one contact
+ */
+export async function linkOwnerContact(input: LinkOwnerContactInput): Promise<ActionResult<void>> {
+  try {
+    const currentUserId = await getCurrentUserId()
+    if (!currentUserId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.USER_MANAGE)
+
+    const validated = linkOwnerContactSchema.parse(input)
+
+    if (validated.contactId) {
+      const contact = await prisma.contact.findUnique({
+        where: { id: validated.contactId },
+        select: {
+          userId: true,
+          _count: { select: { contactProperties: { where: { relationship: ContactPropertyRelationship.OWNER } } } },
+        },
+      })
+
+      if (!contact) {
+        return { success: false, error: 'Contact not found' }
+      }
+      if (contact.userId && contact.userId !== validated.userId) {
+        return { success: false, error: 'This contact is already linked to another user' }
+      }
+      if (contact._count.contactProperties === 0) {
+        return { success: false, error: 'This contact is not the owner of any property' }
+      }
+    }
+
+    const { users } = await clerkClient()
+    const user = await users.getUser(validated.userId)
+
+    await withAuditContext(
+      {
+        summary: validated.contactId
+          ? `Linked ${getFullName(user)} to an owner contact`
+          : `Unlinked ${getFullName(user)} from their owner contact`,
+      },
+      () => prisma.$transaction(async (tx) => {
+        await tx.contact.updateMany({
+          where: { userId: validated.userId, id: validated.contactId ? { not: validated.contactId } : undefined },
+          data: { userId: null },
+        })
+        if (validated.contactId) {
+          await tx.contact.update({
+            where: { id: validated.contactId },
+            data: { userId: validated.userId },
+          })
+        }
+      })
+    )
+
+    revalidatePath('/admin/users')
+    return { success: true }
+  } catch (error) {
+    return toErrorResult(error, 'Failed to link the owner contact')
+  }
+}
@@ -0,0 +1,59 @@
+'use server'
+
+import { startOfDay } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { getCurrentUserId, requirePermission } from '@/lib/auth'
+import { STAY_BOOKING_TYPES } from '@/lib/operational-tasks'
+import { getWelcomeBookLanguages } from '@/lib/welcome-book/content'
+import { BookingStatus } from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+import type { ActionResult } from '@/types'
+import type { WelcomeBookOptions } from '@/types/welcome-book'
+
+// Upcoming stays offered for a personalised welcome book
+const UPCOMING_STAYS_LIMIT = 20
+
+/**
+ * Languages and upcoming stays a property's welcome book can be generated for
+ */
+export async function getWelcomeBookOptions(propertyId: string): Promise<ActionResult<WelcomeBookOptions>> {
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await requirePermission(Permission.PROPERTY_VIEW, { propertyId })
+
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: {
+        marketingContent: { select: { language: true } },
+        bookings: {
+          where: {
+            type: { in: STAY_BOOKING_TYPES },
+            status: { not: BookingStatus.CANCELLED },
+            endDate: { gte: startOfDay(new Date()) },
+          },
+          select: { id: true, guestName: true, startDate: true, endDate: true },
+          orderBy: { startDate: 'asc' },
+          take: UPCOMING_STAYS_LIMIT,
+        },
+      },
+    })
+    if (!property) {
+      return { success: false, error: 'Property not found' }
+    }
+
+    return {
+      success: true,
+      data: {
+        languages: getWelcomeBookLanguages(property.marketingContent.map(content => content.language)),
+        bookings: property.bookings,
+      },
+    }
+  } catch (error) {
+    console.error('Error loading welcome book options:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to load welcome book options' }
+  }
+}
@@ -0,0 +1,15 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function RolesLoading() {
+  return (
+    <div className="space-y-6 p-6">
+      <Skeleton className="h-7 w-40" />
+      <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-4">
+        <Skeleton className="h-[320px]" />
+        <Skeleton className="h-[480px]" />
+      </div>
+    </div>
+  )
+}
+
+export default RolesLoading
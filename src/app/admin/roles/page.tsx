@@ -0,0 +1,14 @@
+import { Suspense } from "react"
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { RolesContent } from "@/components/admin/roles/roles-content"
+import { RolesLoading } from "./loading"
+
+export default function RolesPage() {
+  return (
+    <DashboardLayout>
+      <Suspense fallback={<RolesLoading />}>
+        <RolesContent />
+      </Suspense>
+    </DashboardLayout>
+  )
+}
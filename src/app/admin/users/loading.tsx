@@ -0,0 +1,12 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function UsersLoading() {
+  return (
+    <div className="space-y-6 p-6">
+      <Skeleton className="h-7 w-56" />
+      <Skeleton className="h-[420px]" />
+    </div>
+  )
+}
+
+export default UsersLoading
@@ -0,0 +1,14 @@
+import { Suspense } from "react"
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { UsersContent } from "@/components/admin/users/users-content"
+import { UsersLoading } from "./loading"
+
+export default function UsersPage() {
+  return (
+    <DashboardLayout>
+      <Suspense fallback={<UsersLoading />}>
+        <UsersContent />
+      </Suspense>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@clerk/nextjs/server"
+import { z } from "zod"
+import { hasRole } from "@/lib/auth"
+import { revertAuditChange } from "@/lib/audit"
+import { UserRole } from "@/types/auth"
+
+const revertSchema = z.object({
+  // Fields to revert, every revertable field of the entry when omitted
+  fields: z.array(z.string()).optional(),
+})
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Reverting rewrites data on behalf of someone else, admins only
+    if (!(await hasRole(UserRole.ADMIN))) {
+      return NextResponse.json(
+        { error: "Forbidden: Only administrators can revert changes" },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await req.json().catch(() => ({}))
+    const { fields } = revertSchema.parse(body)
+
+    const result = await revertAuditChange(id, userId, fields)
+    if (!result.success) {
+      const status = result.error === "Audit log not found" ? 404 : 409
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: "Failed to revert change" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
+import { hasRole } from "@/lib/auth"
+import { getRevertableFields } from "@/lib/audit"
+import { UserRole } from "@/types/auth"
 
 export async function GET(
   req: NextRequest,
@@ -140,9 +143,15 @@ export async function GET(
       entityDetails = null
     }
 
+    // Fields the revert action is offered for, admins only
+    const revertableFields = await hasRole(UserRole.ADMIN)
+      ? await getRevertableFields(log)
+      : []
+
     return NextResponse.json({
       ...log,
       entityDetails,
+      revertableFields,
     })
   } catch (error) {
     
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@clerk/nextjs/server"
+import { z } from "zod"
+import { prisma } from "@/lib/db"
+import { hasRole } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { auditLogQuerySchema, buildAuditLogWhere } from "@/lib/audit-log-query"
+import { createAuditLogExportStream } from "@/lib/audit-log-export"
+import { UserRole } from "@/types/auth"
+
+// Same filters as the list, pagination does not apply to exports
+const exportQuerySchema = auditLogQuerySchema.omit({ page: true, limit: true }).extend({
+  format: z.enum(["csv", "json"]).default("csv"),
+})
+
+// GET /api/audit-logs/export - Stream the audit log entries matching the list filters as CSV or JSON
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (!(await hasRole(UserRole.ADMIN))) {
+      return NextResponse.json({ error: "Only admins can export the audit log" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const params = Object.fromEntries(searchParams.entries())
+
+    const { format, ...filters } = exportQuerySchema.parse(params)
+    const where = buildAuditLogWhere(filters)
+
+    await recordAudit(prisma, {
+      userId,
+      action: "export",
+      entityType: "audit_log",
+      entityId: "export",
+      summary: `Exported the audit log as ${format.toUpperCase()}`,
+      details: { format, filters },
+    })
+
+    const filename = `audit-logs-export-${new Date().toISOString().split("T")[0]}.${format}`
+
+    return new NextResponse(createAuditLogExportStream(where, format), {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 })
+    }
+
+    console.error("Error exporting audit logs:", error)
+    return NextResponse.json(
+      { error: "Failed to export audit logs" },
+      { status: 500 }
+    )
+  }
+}
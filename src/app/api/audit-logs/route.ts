@@ -2,19 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
 import { z } from "zod"
-
-// Query schema for audit logs
-const querySchema = z.object({
-  page: z.string().optional().transform(val => parseInt(val || "1")),
-  limit: z.string().optional().transform(val => parseInt(val || "20")),
-  userId: z.string().optional(),
-  entityType: z.string().optional(),
-  entityId: z.string().optional(),
-  action: z.string().optional(),
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
-  search: z.string().optional(),
-})
+import { auditLogQuerySchema, buildAuditLogWhere } from "@/lib/audit-log-query"
 
 export async function GET(req: NextRequest) {
   try {
@@ -27,45 +15,10 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url)
     const params = Object.fromEntries(searchParams.entries())
     
-    const query = querySchema.parse(params)
+    const query = auditLogQuerySchema.parse(params)
     const { page, limit, ...filters } = query
 
-    // Build where clause
-    const where: any = {}
-    
-    if (filters.userId) {
-      where.userId = filters.userId
-    }
-    
-    if (filters.entityType) {
-      where.entityType = filters.entityType
-    }
-    
-    if (filters.entityId) {
-      where.entityId = filters.entityId
-    }
-    
-    if (filters.action) {
-      where.action = filters.action
-    }
-    
-    if (filters.startDate || filters.endDate) {
-      where.createdAt = {}
-      if (filters.startDate) {
-        where.createdAt.gte = new Date(filters.startDate)
-      }
-      if (filters.endDate) {
-        where.createdAt.lte = new Date(filters.endDate)
-      }
-    }
-    
-    if (filters.search) {
-      where.OR = [
-        { entityType: { contains: filters.search, mode: 'insensitive' } },
-        { action: { contains: filters.search, mode: 'insensitive' } },
-        { entityId: { contains: filters.search, mode: 'insensitive' } },
-      ]
-    }
+    const where = buildAuditLogWhere(filters)
 
     // Execute queries
     const [logs, total] = await Promise.all([
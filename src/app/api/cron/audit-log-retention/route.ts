@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest, SYSTEM_USER_ID } from "@/lib/cron"
+import { archiveAndPurgeAuditLogs } from "@/lib/audit-retention"
+
+// GET /api/cron/audit-log-retention - Archive audit log entries past the retention period and purge them
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await archiveAndPurgeAuditLogs(SYSTEM_USER_ID)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error applying audit log retention:", error)
+    return NextResponse.json(
+      { error: "Failed to apply audit log retention" },
+      { status: 500 }
+    )
+  }
+}
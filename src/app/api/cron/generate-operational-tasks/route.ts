@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { revalidatePath } from "next/cache"
+import { addDays, startOfDay } from "date-fns"
+import { isAuthorizedCronRequest, SYSTEM_USER_ID } from "@/lib/cron"
+import { generateOperationalTasks, TASK_GENERATION_HORIZON_DAYS } from "@/lib/operational-tasks"
+
+// GET /api/cron/generate-operational-tasks - Keep housekeeping and maintenance tasks generated for the coming weeks
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const today = startOfDay(new Date())
+    const result = await generateOperationalTasks(SYSTEM_USER_ID, {
+      from: today,
+      to: addDays(today, TASK_GENERATION_HORIZON_DAYS),
+    })
+    if (result.created + result.reopened + result.cancelled > 0) {
+      revalidatePath("/tasks")
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error generating operational tasks:", error)
+    return NextResponse.json(
+      { error: "Failed to generate operational tasks" },
+      { status: 500 }
+    )
+  }
+}
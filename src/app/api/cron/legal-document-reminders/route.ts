@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { revalidatePath } from "next/cache"
+import { isAuthorizedCronRequest, SYSTEM_USER_ID } from "@/lib/cron"
+import {
+  notifyLegalDocumentTransitions,
+  sendLegalDocumentDigests,
+  syncLegalDocumentStatuses,
+} from "@/lib/legal-document-reminders"
+import { resolveNotifierTransport } from "@/lib/notifier"
+
+// GET /api/cron/legal-document-reminders - Persist expiry statuses and send reminder digests
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const transitions = await syncLegalDocumentStatuses(SYSTEM_USER_ID)
+    if (transitions.length > 0) {
+      revalidatePath("/legals")
+    }
+
+    const notifications = await notifyLegalDocumentTransitions(transitions)
+    const digests = await sendLegalDocumentDigests(transitions, req.nextUrl.origin)
+
+    return NextResponse.json({
+      transport: resolveNotifierTransport(),
+      transitions: transitions.map(({ id, name, from, to }) => ({ id, name, from, to })),
+      notifications,
+      digests,
+    })
+  } catch (error) {
+    console.error("Error running legal document reminders:", error)
+    return NextResponse.json(
+      { error: "Failed to run legal document reminders" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { revalidatePath } from "next/cache"
+import { isAuthorizedCronRequest, SYSTEM_USER_ID } from "@/lib/cron"
+import { releaseExpiredOptions } from "@/lib/booking-options"
+
+// GET /api/cron/release-expired-options - Cancel tentative bookings whose option has expired
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const released = await releaseExpiredOptions(SYSTEM_USER_ID)
+
+    for (const propertyId of new Set(released.map(option => option.propertyId))) {
+      revalidatePath(`/houses/${propertyId}`)
+    }
+    if (released.length > 0) {
+      revalidatePath("/calendar")
+    }
+
+    return NextResponse.json({
+      released: released.length,
+      bookings: released,
+    })
+  } catch (error) {
+    console.error("Error releasing expired options:", error)
+    return NextResponse.json(
+      { error: "Failed to release expired options" },
+      { status: 500 }
+    )
+  }
+}
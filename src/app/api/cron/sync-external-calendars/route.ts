@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/db"
+import { isAuthorizedCronRequest, SYSTEM_USER_ID } from "@/lib/cron"
+import { syncExternalCalendar } from "@/lib/ical-sync"
+
+export const maxDuration = 300
+
+// GET /api/cron/sync-external-calendars - Re-sync every URL-based channel calendar
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const calendars = await prisma.externalCalendar.findMany({
+      where: { url: { not: null } },
+      select: { id: true, name: true, propertyId: true },
+    })
+
+    const results = []
+    // Sequential on purpose: keeps channel servers and the DB pool calm
+    for (const calendar of calendars) {
+      try {
+        const result = await syncExternalCalendar(calendar.id, SYSTEM_USER_ID)
+        results.push({
+          calendarId: calendar.id,
+          success: true,
+          created: result.created,
+          updated: result.updated,
+          cancelled: result.cancelled,
+          conflicts: result.conflicts.length,
+        })
+      } catch (error) {
+        results.push({
+          calendarId: calendar.id,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    return NextResponse.json({
+      synced: results.filter(r => r.success).length,
+      failed: results.filter(r => !r.success).length,
+      results,
+    })
+  } catch (error) {
+    console.error("Error syncing external calendars:", error)
+    return NextResponse.json(
+      { error: "Failed to sync external calendars" },
+      { status: 500 }
+    )
+  }
+}
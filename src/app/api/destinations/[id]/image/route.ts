@@ -153,20 +153,6 @@ export async function POST(
 
     
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "UPDATE",
-        entityType: "DESTINATION",
-        entityId: id,
-        changes: {
-          imageUrl: publicUrl,
-          imageAltText: altText || `${destination.name} hero image`
-        },
-      },
-    })
-
     return NextResponse.json({
       success: true,
       imageUrl: publicUrl,
@@ -243,20 +229,6 @@ export async function DELETE(
       }
     })
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "DELETE",
-        entityType: "DESTINATION",
-        entityId: id,
-        changes: {
-          imageUrl: "removed",
-          imageAltText: "removed"
-        },
-      },
-    })
-
     return NextResponse.json({ success: true })
     
   } catch (error) {
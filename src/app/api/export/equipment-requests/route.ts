@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
 import { formatDataForCSV } from "@/lib/csv/formatter"
-import { hasPermission } from "@/lib/auth"
+import { hasPermission, getAccessScope } from "@/lib/auth"
+import { propertyScopeWhere } from "@/lib/access-scope"
 import { Permission } from "@/types/auth"
 import { Prisma } from "@/generated/prisma"
 
@@ -55,8 +56,11 @@ export async function GET(req: NextRequest) {
     const format = searchParams.get("format") || "csv"
     const ids = searchParams.get("ids")?.split(",").filter(Boolean) || []
 
-    // Build where clause
-    const where = ids.length > 0 ? { id: { in: ids } } : undefined
+    // Build where clause, limited to the properties within the user's access scope
+    const where: Prisma.EquipmentRequestWhereInput = {
+      ...(ids.length > 0 && { id: { in: ids } }),
+      property: propertyScopeWhere(await getAccessScope()),
+    }
 
     // Fetch equipment requests with related data
     const equipmentRequests = await prisma.equipmentRequest.findMany({
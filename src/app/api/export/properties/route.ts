@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
+import { getAccessScope } from "@/lib/auth"
+import { propertyScopeWhere } from "@/lib/access-scope"
 import { formatDataForCSV, flattenPropertyForExport } from "@/lib/csv/formatter"
 
 export async function GET(req: NextRequest) {
@@ -15,8 +17,11 @@ export async function GET(req: NextRequest) {
     const format = searchParams.get("format") || "csv"
     const ids = searchParams.get("ids")?.split(",").filter(Boolean) || []
 
-    // Build where clause
-    const where = ids.length > 0 ? { id: { in: ids } } : undefined
+    // Build where clause, limited to the user's access scope
+    const where = {
+      ...(ids.length > 0 && { id: { in: ids } }),
+      ...propertyScopeWhere(await getAccessScope()),
+    }
 
     // Fetch properties with related data
     const properties = await prisma.property.findMany({
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
+import { withAuditContext } from "@/lib/request-context"
 import { parseSimpleCSV } from "@/lib/csv/simple-parser"
 import { validatePropertyData, validatePropertyRow, getAllFields } from "@/lib/import/validator"
 
@@ -104,194 +105,161 @@ export async function POST(req: NextRequest) {
     }
 
     // Use transaction for atomic import
-    await prisma.$transaction(async (tx) => {
-      for (let i = 0; i < transformedData.length; i++) {
-        const rowNumber = i + 2 // Account for header row
-        const rawData = transformedData[i]
+    await withAuditContext(
+      { details: { source: "property_import" } },
+      () => prisma.$transaction(async (tx) => {
+        for (let i = 0; i < transformedData.length; i++) {
+          const rowNumber = i + 2 // Account for header row
+          const rawData = transformedData[i]
 
-        // Convert string values to appropriate types for Prisma (create structure for both create and update)
-        let propertyData: any = {
-          name: String(rawData.name || '').trim(),
-          numberOfRooms: rawData.numberOfRooms ? Number(rawData.numberOfRooms) : undefined,
-          numberOfBathrooms: rawData.numberOfBathrooms ? Number(rawData.numberOfBathrooms) : undefined,
-          maxGuests: rawData.maxGuests ? Number(rawData.maxGuests) : undefined,
-          address: rawData.address ? String(rawData.address).trim() : undefined,
-          city: rawData.city ? String(rawData.city).trim() : undefined,
-          latitude: rawData.latitude ? Number(rawData.latitude) : undefined,
-          longitude: rawData.longitude ? Number(rawData.longitude) : undefined,
-          status: rawData.status || 'PUBLISHED',
-          segment: rawData.segment ? String(rawData.segment).trim() : undefined,
-          categories: rawData.categories ? String(rawData.categories).split(',').map(c => c.trim()).filter(Boolean) : [],
-        }
+          // Convert string values to appropriate types for Prisma (create structure for both create and update)
+          let propertyData: any = {
+            name: String(rawData.name || '').trim(),
+            numberOfRooms: rawData.numberOfRooms ? Number(rawData.numberOfRooms) : undefined,
+            numberOfBathrooms: rawData.numberOfBathrooms ? Number(rawData.numberOfBathrooms) : undefined,
+            maxGuests: rawData.maxGuests ? Number(rawData.maxGuests) : undefined,
+            address: rawData.address ? String(rawData.address).trim() : undefined,
+            city: rawData.city ? String(rawData.city).trim() : undefined,
+            latitude: rawData.latitude ? Number(rawData.latitude) : undefined,
+            longitude: rawData.longitude ? Number(rawData.longitude) : undefined,
+            status: rawData.status || 'PUBLISHED',
+            segment: rawData.segment ? String(rawData.segment).trim() : undefined,
+            categories: rawData.categories ? String(rawData.categories).split(',').map(c => c.trim()).filter(Boolean) : [],
+          }
         
-        // For property creation, we need destination relation
-        let destinationId = rawData.destinationId
+          // For property creation, we need destination relation
+          let destinationId = rawData.destinationId
 
-        try {
-          // Skip if no name
-          if (!propertyData.name) {
-            result.errors.push({
-              row: rowNumber,
-              message: "Property name is required",
-            })
-            result.failed++
-            continue
-          }
+          try {
+            // Skip if no name
+            if (!propertyData.name) {
+              result.errors.push({
+                row: rowNumber,
+                message: "Property name is required",
+              })
+              result.failed++
+              continue
+            }
 
-          // Map destination name to ID or auto-create
-          if (rawData.destinationName && !destinationId) {
-            let destId = destinationMap.get(String(rawData.destinationName).toLowerCase())
+            // Map destination name to ID or auto-create
+            if (rawData.destinationName && !destinationId) {
+              let destId = destinationMap.get(String(rawData.destinationName).toLowerCase())
             
-            if (!destId) {
-              // Auto-create missing destination
-              try {
-                // Normalize destination name
-                const normalizedName = String(rawData.destinationName).trim()
+              if (!destId) {
+                // Auto-create missing destination
+                try {
+                  // Normalize destination name
+                  const normalizedName = String(rawData.destinationName).trim()
                 
-                // Extract country from common destination names or use a default
-                let country = "Unknown"
-                const commonCountries = {
-                  "mallorca": "Spain", "palma": "Spain", "ibiza": "Spain", "barcelona": "Spain",
-                  "marbella": "Spain", "valencia": "Spain", "madrid": "Spain", "seville": "Spain",
-                  "cannes": "France", "nice": "France", "paris": "France", "monaco": "Monaco",
-                  "london": "United Kingdom", "edinburgh": "United Kingdom", "dublin": "Ireland",
-                  "rome": "Italy", "florence": "Italy", "venice": "Italy", "milan": "Italy",
-                  "athens": "Greece", "mykonos": "Greece", "santorini": "Greece", "crete": "Greece",
-                  "lisbon": "Portugal", "porto": "Portugal", "algarve": "Portugal"
-                }
-                
-                const lowerName = normalizedName.toLowerCase()
-                for (const [city, countryName] of Object.entries(commonCountries)) {
-                  if (lowerName.includes(city)) {
-                    country = countryName
-                    break
+                  // Extract country from common destination names or use a default
+                  let country = "Unknown"
+                  const commonCountries = {
+                    "mallorca": "Spain", "palma": "Spain", "ibiza": "Spain", "barcelona": "Spain",
+                    "marbella": "Spain", "valencia": "Spain", "madrid": "Spain", "seville": "Spain",
+                    "cannes": "France", "nice": "France", "paris": "France", "monaco": "Monaco",
+                    "london": "United Kingdom", "edinburgh": "United Kingdom", "dublin": "Ireland",
+                    "rome": "Italy", "florence": "Italy", "venice": "Italy", "milan": "Italy",
+                    "athens": "Greece", "mykonos": "Greece", "santorini": "Greece", "crete": "Greece",
+                    "lisbon": "Portugal", "porto": "Portugal", "algarve": "Portugal"
                   }
-                }
                 
-                const newDestination = await tx.destination.create({
-                  data: {
-                    name: normalizedName,
-                    country: country,
+                  const lowerName = normalizedName.toLowerCase()
+                  for (const [city, countryName] of Object.entries(commonCountries)) {
+                    if (lowerName.includes(city)) {
+                      country = countryName
+                      break
+                    }
                   }
-                })
                 
-                destId = newDestination.id
-                // Update cache to prevent duplicates within same import
-                destinationMap.set(String(rawData.destinationName).toLowerCase(), destId)
-                
-                // Add audit log for created destination
-                await tx.auditLog.create({
-                  data: {
-                    action: "create",
-                    entityType: "destination",
-                    entityId: newDestination.id,
-                    userId,
-                    changes: {
+                  const newDestination = await tx.destination.create({
+                    data: {
                       name: normalizedName,
                       country: country,
-                      autoCreated: true,
-                      createdDuringImport: true,
-                    },
-                  },
-                })
+                    }
+                  })
+                
+                  destId = newDestination.id
+                  // Update cache to prevent duplicates within same import
+                  destinationMap.set(String(rawData.destinationName).toLowerCase(), destId)
                 
-                result.warnings.push({
-                  row: rowNumber,
-                  field: "destinationName",
-                  message: `Auto-created destination: "${normalizedName}" (${country})`,
-                })
-              } catch (createError: any) {
-                result.errors.push({
-                  row: rowNumber,
-                  message: `Failed to create destination "${rawData.destinationName}": ${createError.message}`,
-                })
-                result.failed++
-                continue
+                  result.warnings.push({
+                    row: rowNumber,
+                    field: "destinationName",
+                    message: `Auto-created destination: "${normalizedName}" (${country})`,
+                  })
+                } catch (createError: any) {
+                  result.errors.push({
+                    row: rowNumber,
+                    message: `Failed to create destination "${rawData.destinationName}": ${createError.message}`,
+                  })
+                  result.failed++
+                  continue
+                }
               }
-            }
             
-            destinationId = destId
-          }
-
-          const existingId = existingPropertyMap.get(propertyData.name.toLowerCase())
+              destinationId = destId
+            }
 
-          if (existingId && mode === "create") {
-            // Skip if property exists and mode is create only
-            result.errors.push({
-              row: rowNumber,
-              message: `Property "${propertyData.name}" already exists`,
-            })
-            result.failed++
-            continue
-          }
+            const existingId = existingPropertyMap.get(propertyData.name.toLowerCase())
 
-          if (!existingId && mode === "update") {
-            // Skip if property doesn't exist and mode is update only
-            result.errors.push({
-              row: rowNumber,
-              message: `Property "${propertyData.name}" not found for update`,
-            })
-            result.failed++
-            continue
-          }
+            if (existingId && mode === "create") {
+              // Skip if property exists and mode is create only
+              result.errors.push({
+                row: rowNumber,
+                message: `Property "${propertyData.name}" already exists`,
+              })
+              result.failed++
+              continue
+            }
 
-          if (existingId && (mode === "update" || mode === "both")) {
-            // Update existing property
-            const updateData = {
-              ...propertyData,
-              ...(destinationId && { destination: { connect: { id: destinationId } } }),
+            if (!existingId && mode === "update") {
+              // Skip if property doesn't exist and mode is update only
+              result.errors.push({
+                row: rowNumber,
+                message: `Property "${propertyData.name}" not found for update`,
+              })
+              result.failed++
+              continue
             }
+
+            if (existingId && (mode === "update" || mode === "both")) {
+              // Update existing property
+              const updateData = {
+                ...propertyData,
+                ...(destinationId && { destination: { connect: { id: destinationId } } }),
+              }
             
-            const updated = await tx.property.update({
-              where: { id: existingId },
-              data: updateData,
-            })
+              await tx.property.update({
+                where: { id: existingId },
+                data: updateData,
+              })
 
-            await tx.auditLog.create({
-              data: {
-                action: "update",
-                entityType: "property",
-                entityId: updated.id,
-                userId,
-                changes: propertyData,
-              },
-            })
+              // Note: Pricing data now handled by separate import dialogs
 
-            // Note: Pricing data now handled by separate import dialogs
+              result.updated++
+            } else {
+              // Create new property
+              await tx.property.create({
+                data: {
+                  ...propertyData,
+                  destination: destinationId ? { connect: { id: destinationId } } : undefined,
+                },
+              })
 
-            result.updated++
-          } else {
-            // Create new property
-            const created = await tx.property.create({
-              data: {
-                ...propertyData,
-                destination: destinationId ? { connect: { id: destinationId } } : undefined,
-              },
-            })
+              // Note: Pricing data now handled by separate import dialogs
 
-            await tx.auditLog.create({
-              data: {
-                action: "create",
-                entityType: "property",
-                entityId: created.id,
-                userId,
-                changes: created,
-              },
+              result.imported++
+            }
+          } catch (error: any) {
+            result.errors.push({
+              row: rowNumber,
+              message: error.message || "Import failed for this row",
             })
-
-            // Note: Pricing data now handled by separate import dialogs
-
-            result.imported++
+            result.failed++
           }
-        } catch (error: any) {
-          result.errors.push({
-            row: rowNumber,
-            message: error.message || "Import failed for this row",
-          })
-          result.failed++
         }
-      }
-    })
+      })
+    )
 
     return NextResponse.json(result)
   } catch (error) {
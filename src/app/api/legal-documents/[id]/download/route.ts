@@ -44,6 +44,10 @@ export async function GET(
       return NextResponse.json({ error: 'Document not found' }, { status: 404 })
     }
 
+    if (!(await hasPermission(Permission.LEGAL_DOCUMENT_VIEW, { propertyId: document.propertyId ?? undefined }))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     // Determine URL to download
     let downloadUrl = document.url
     if (versionNumber && document.versions && document.versions.length > 0) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { requirePermission } from '@/lib/auth'
+import { getAccessScope, requirePermission } from '@/lib/auth'
+import { legalDocumentScopeWhere } from '@/lib/access-scope'
 import { Permission } from '@/types/auth'
 import { createClient } from '@supabase/supabase-js'
 import { Readable } from 'stream'
@@ -33,7 +34,8 @@ export async function GET(request: NextRequest) {
     // Get documents with their versions
     const documents = await prisma.legalDocument.findMany({
       where: {
-        id: { in: documentIds }
+        id: { in: documentIds },
+        AND: [legalDocumentScopeWhere(await getAccessScope())]
       },
       include: {
         versions: includeVersions ? {
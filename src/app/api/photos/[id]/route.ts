@@ -69,16 +69,6 @@ export async function PATCH(
       data: updateData
     })
 
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "UPDATE",
-        entityType: "PHOTO",
-        entityId: id,
-        changes: body,
-      },
-    })
-
     return NextResponse.json({ photo: updatedPhoto })
   } catch (error) {
     
@@ -150,19 +140,6 @@ export async function DELETE(
       }
     })
 
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "DELETE",
-        entityType: "PHOTO",
-        entityId: id,
-        changes: {
-          propertyId: photo.propertyId,
-          url: photo.url,
-        },
-      },
-    })
-
     return NextResponse.json({ success: true })
   } catch (error) {
     
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server"
+import { timingSafeEqual } from "crypto"
+import { prisma } from "@/lib/db"
+import { buildIcalFeed } from "@/lib/ical"
+import { BookingStatus, BookingType } from "@/generated/prisma"
+
+// Past bookings older than this are left out of the feed
+const FEED_HISTORY_DAYS = 90
+
+function tokensMatch(provided: string, expected: string) {
+  const a = Buffer.from(provided)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// GET /api/properties/[id]/calendar.ics?token=... - Public iCal feed of a property
+// Authenticated by the per-property feed token instead of a Clerk session
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const token = req.nextUrl.searchParams.get("token")
+
+    if (!token) {
+      return NextResponse.json({ error: "Missing feed token" }, { status: 401 })
+    }
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+      select: { id: true, name: true, icalFeedToken: true },
+    })
+
+    // Same response for unknown properties and bad tokens to avoid leaking ids
+    if (!property?.icalFeedToken || !tokensMatch(token, property.icalFeedToken)) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 })
+    }
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        propertyId: property.id,
+        status: { not: BookingStatus.CANCELLED },
+        endDate: { gte: since },
+      },
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        updatedAt: true,
+      },
+      orderBy: { startDate: "asc" },
+    })
+
+    const body = buildIcalFeed({
+      calendarName: property.name,
+      events: bookings.map((booking) => ({
+        uid: booking.id,
+        type: booking.type,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        updatedAt: booking.updatedAt,
+        tentative: booking.type === BookingType.TENTATIVE || booking.status === BookingStatus.PENDING,
+      })),
+    })
+
+    const filename = `${property.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.ics`
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${filename}"`,
+        "Cache-Control": "private, max-age=300",
+      },
+    })
+  } catch (error) {
+    console.error("Error generating iCal feed:", error)
+    return NextResponse.json(
+      { error: "Failed to generate calendar feed" },
+      { status: 500 }
+    )
+  }
+}
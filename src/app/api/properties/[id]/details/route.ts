@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
+import { hasPermission } from "@/lib/auth"
+import { Permission } from "@/types/auth"
 import { PropertySidebarData } from "@/hooks/use-property-details"
 
 // GET /api/properties/[id]/details - Get optimized property data for sidebar display
@@ -16,6 +18,13 @@ export async function GET(
 
     const { id } = await params
 
+    if (!(await hasPermission(Permission.PROPERTY_VIEW, { propertyId: id }))) {
+      return NextResponse.json(
+        { error: "Forbidden: This property is outside your access scope" },
+        { status: 403 }
+      )
+    }
+
     // Fetch property with optimized data for sidebar
     const property = await prisma.property.findUnique({
       where: { id },
@@ -116,28 +125,27 @@ export async function GET(
           },
           take: 10 // Limit to last 10 requests
         },
-        contacts: {
-          select: {
-            id: true,
-            type: true,
-            name: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            phone: true,
-            isApproved: true,
-            isContractSignatory: true,
+        contactProperties: {
+          include: {
+            contact: {
+              select: {
+                firstName: true,
+                lastName: true,
+                email: true,
+                phone: true,
+              },
+            },
           },
           where: {
             isApproved: true,
             // Focus on key contact types for sidebar
-            type: {
+            relationship: {
               in: ['OWNER', 'MANAGER', 'AGENCY', 'CHECK_IN_MANAGER', 'SIGNATORY']
             }
           },
           orderBy: [
             { isContractSignatory: 'desc' },
-            { type: 'asc' },
+            { relationship: 'asc' },
             { createdAt: 'desc' }
           ],
           take: 6 // Limit to key contacts
@@ -201,16 +209,16 @@ export async function GET(
         status: request.status,
         createdAt: request.createdAt.toISOString(),
       })),
-      contacts: property.contacts.map(contact => ({
-        id: contact.id,
-        type: contact.type,
-        name: contact.name,
-        firstName: contact.firstName || undefined,
-        lastName: contact.lastName || undefined,
-        email: contact.email || undefined,
-        phone: contact.phone || undefined,
-        isApproved: contact.isApproved,
-        isContractSignatory: contact.isContractSignatory,
+      contacts: property.contactProperties.map(link => ({
+        id: link.id,
+        type: link.relationship,
+        name: `${link.contact.firstName} ${link.contact.lastName}`.trim(),
+        firstName: link.contact.firstName,
+        lastName: link.contact.lastName,
+        email: link.contact.email || undefined,
+        phone: link.contact.phone || undefined,
+        isApproved: link.isApproved,
+        isContractSignatory: link.isContractSignatory,
       })),
       _count: property._count,
     }
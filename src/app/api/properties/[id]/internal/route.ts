@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
-import { requirePermission, getUserRole, getCurrentUserId } from '@/lib/auth';
+import { requirePermission, getCurrentUserId } from '@/lib/auth';
+import { logSensitiveDataAccess } from '@/lib/sensitive-data';
 import { Permission } from '@/types/auth';
+import { SensitiveDataAction, SensitiveDataType } from '@/types/sensitive-data';
 
 export async function GET(
   req: NextRequest,
@@ -10,7 +12,7 @@ export async function GET(
   const { id } = await params;
   try {
     // Check permission to view internal data
-    await requirePermission(Permission.INTERNAL_VIEW);
+    await requirePermission(Permission.INTERNAL_VIEW, { propertyId: id });
     
     const property = await prisma.property.findUnique({
       where: { id },
@@ -30,20 +32,13 @@ export async function GET(
 
     // Log access to sensitive data
     const userId = await getCurrentUserId();
-    const userRole = await getUserRole();
     
-    if (userId && userRole) {
-      await prisma.sensitiveDataAccess.create({
-        data: {
-          userId,
-          userRole,
-          action: 'view',
-          dataType: 'internal',
-          propertyId: id,
-          metadata: {
-            timestamp: new Date().toISOString(),
-          },
-        },
+    if (userId) {
+      await logSensitiveDataAccess({
+        userId,
+        action: SensitiveDataAction.VIEW,
+        dataType: SensitiveDataType.INTERNAL_DATA,
+        propertyId: id,
       });
     }
 
@@ -85,7 +80,7 @@ export async function PATCH(
   const { id } = await params;
   try {
     // Check permission to edit internal data
-    await requirePermission(Permission.INTERNAL_EDIT);
+    await requirePermission(Permission.INTERNAL_EDIT, { propertyId: id });
     
     const body = await req.json();
     const { internalData, warning } = body;
@@ -101,20 +96,15 @@ export async function PATCH(
 
     // Log access to sensitive data
     const userId = await getCurrentUserId();
-    const userRole = await getUserRole();
     
-    if (userId && userRole) {
-      await prisma.sensitiveDataAccess.create({
-        data: {
-          userId,
-          userRole,
-          action: 'edit',
-          dataType: 'internal',
-          propertyId: id,
-          metadata: {
-            timestamp: new Date().toISOString(),
-            changedFields: Object.keys(body),
-          },
+    if (userId) {
+      await logSensitiveDataAccess({
+        userId,
+        action: SensitiveDataAction.EDIT,
+        dataType: SensitiveDataType.INTERNAL_DATA,
+        propertyId: id,
+        metadata: {
+          changedFields: Object.keys(body),
         },
       });
     }
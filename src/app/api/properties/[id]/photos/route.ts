@@ -28,9 +28,11 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    // Check permission to edit properties
+    const { id } = await context.params
+
+    // Check permission to edit this property
     try {
-      await requirePermission(Permission.PROPERTY_EDIT)
+      await requirePermission(Permission.PROPERTY_EDIT, { propertyId: id })
     } catch (error) {
       return NextResponse.json(
         { error: "Forbidden: You don't have permission to upload photos" },
@@ -38,7 +40,6 @@ export async function POST(
       )
     }
 
-    const { id } = await context.params
     
     
     // Check if Supabase is configured
@@ -176,21 +177,6 @@ export async function POST(
       }
     }
 
-    // Log the upload
-    if (uploadedPhotos.length > 0) {
-      await prisma.auditLog.create({
-        data: {
-          userId,
-          action: "CREATE",
-          entityType: "PHOTO",
-          entityId: id,
-          changes: {
-            count: uploadedPhotos.length,
-          },
-        },
-      })
-    }
-
     // Return detailed response
     const response: any = {
       photos: uploadedPhotos,
@@ -288,19 +274,6 @@ export async function PATCH(
       )
     )
 
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "UPDATE",
-        entityType: "PHOTO",
-        entityId: id,
-        changes: {
-          action: "reorder",
-          count: photos.length,
-        },
-      },
-    })
-
     return NextResponse.json({ success: true })
   } catch (error) {
     
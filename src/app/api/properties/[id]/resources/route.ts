@@ -73,9 +73,11 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    // Check permission to edit properties
+    const { id: propertyId } = await params
+
+    // Check permission to edit this property
     try {
-      await requirePermission(Permission.PROPERTY_EDIT)
+      await requirePermission(Permission.PROPERTY_EDIT, { propertyId })
     } catch (error) {
       return NextResponse.json(
         { error: "Forbidden: You don't have permission to add resources" },
@@ -83,7 +85,6 @@ export async function POST(
       )
     }
 
-    const { id: propertyId } = await params
     const body = await req.json()
     
     
@@ -194,17 +195,6 @@ export async function POST(
     
     
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "create",
-        entityType: "resource",
-        entityId: resource.id,
-        changes: resource,
-      },
-    })
-
     return NextResponse.json(resource, { status: 201 })
   } catch (error) {
     
@@ -9,8 +9,9 @@ import {
   updatePropertyContentSchema,
   updatePropertyEventsSchema
 } from "@/lib/validations"
-import { requirePermission, getUserRole, getCurrentUserId } from "@/lib/auth"
+import { requirePermission, hasPermission, getUserRole, getCurrentUserId } from "@/lib/auth"
 import { Permission } from "@/types/auth"
+import { propertyContactLinkInclude, propertyContactLinkOrderBy, toPropertyContactView } from "@/lib/property-contacts"
 
 // GET /api/properties/[id] - Get a single property
 export async function GET(
@@ -25,6 +26,13 @@ export async function GET(
 
     const { id } = await params
 
+    if (!(await hasPermission(Permission.PROPERTY_VIEW, { propertyId: id }))) {
+      return NextResponse.json(
+        { error: "Forbidden: This property is outside your access scope" },
+        { status: 403 }
+      )
+    }
+
     const property = await prisma.property.findUnique({
       where: { id },
       include: {
@@ -32,8 +40,9 @@ export async function GET(
         rooms: {
           orderBy: { position: 'asc' }
         },
-        contacts: {
-          orderBy: { createdAt: 'desc' }
+        contactProperties: {
+          include: propertyContactLinkInclude,
+          orderBy: propertyContactLinkOrderBy,
         },
         bookings: {
           orderBy: { startDate: 'asc' }
@@ -55,7 +64,8 @@ export async function GET(
       return NextResponse.json({ error: "Property not found" }, { status: 404 })
     }
 
-    return NextResponse.json(property)
+    const { contactProperties, ...rest } = property
+    return NextResponse.json({ ...rest, contacts: contactProperties.map(toPropertyContactView) })
   } catch (error) {
     
     return NextResponse.json(
@@ -81,7 +91,7 @@ export async function PUT(
 
     // Check permission to edit properties
     try {
-      await requirePermission(Permission.PROPERTY_EDIT)
+      await requirePermission(Permission.PROPERTY_EDIT, { propertyId: id })
     } catch (error) {
       // Log denied attempt
       const userRole = await getUserRole()
@@ -151,17 +161,6 @@ export async function PUT(
       },
     })
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "update",
-        entityType: "property",
-        entityId: id,
-        changes: validatedData,
-      },
-    })
-
     return NextResponse.json(updatedProperty)
   } catch (error) {
     
@@ -196,7 +195,7 @@ export async function PATCH(
 
     // Check permission to edit properties
     try {
-      await requirePermission(Permission.PROPERTY_EDIT)
+      await requirePermission(Permission.PROPERTY_EDIT, { propertyId: id })
     } catch (error) {
       // Log denied attempt
       const userRole = await getUserRole()
@@ -263,8 +262,9 @@ export async function PATCH(
         rooms: {
           orderBy: { position: 'asc' }
         },
-        contacts: {
-          orderBy: { createdAt: 'desc' }
+        contactProperties: {
+          include: propertyContactLinkInclude,
+          orderBy: propertyContactLinkOrderBy,
         },
         bookings: {
           orderBy: { startDate: 'asc' }
@@ -282,18 +282,8 @@ export async function PATCH(
       },
     })
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "update",
-        entityType: "property",
-        entityId: id,
-        changes: body,
-      },
-    })
-
-    return NextResponse.json(updatedProperty)
+    const { contactProperties, ...rest } = updatedProperty
+    return NextResponse.json({ ...rest, contacts: contactProperties.map(toPropertyContactView) })
   } catch (error) {
     
     
@@ -343,7 +333,7 @@ export async function DELETE(
 
     // Check permission to delete properties (using PROPERTY_EDIT permission)
     try {
-      await requirePermission(Permission.PROPERTY_EDIT)
+      await requirePermission(Permission.PROPERTY_EDIT, { propertyId: id })
     } catch (error) {
       // Log denied attempt
       const userRole = await getUserRole()
@@ -385,16 +375,6 @@ export async function DELETE(
       where: { id },
     })
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "delete",
-        entityType: "property",
-        entityId: id,
-      },
-    })
-
     return NextResponse.json({ success: true }, { status: 200 })
   } catch (error) {
     
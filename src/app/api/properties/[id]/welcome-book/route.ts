@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getCurrentUserId, requirePermission } from "@/lib/auth"
+import { logSensitiveDataAccess } from "@/lib/sensitive-data"
+import { buildWelcomeBook } from "@/lib/welcome-book/content"
+import { renderWelcomeBookHtml, renderWelcomeBookPdf } from "@/lib/welcome-book/render"
+import { welcomeBookQuerySchema } from "@/lib/validations/welcome-book"
+import { Permission } from "@/types/auth"
+import { SensitiveDataAction, SensitiveDataType } from "@/types/sensitive-data"
+
+function toFileName(name: string, language: string, extension: string) {
+  const slug = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase()
+  return `welcome-book-${slug || "property"}-${language}.${extension}`
+}
+
+// GET /api/properties/[id]/welcome-book?format=pdf|html&language=en&bookingId=... - Guest welcome book of a property
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await requirePermission(Permission.PROPERTY_VIEW, { propertyId: id })
+
+    const query = welcomeBookQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams))
+
+    const book = await buildWelcomeBook(id, { language: query.language, bookingId: query.bookingId })
+    if (!book) {
+      return NextResponse.json(
+        { error: query.bookingId ? "Booking not found" : "Property not found" },
+        { status: 404 }
+      )
+    }
+
+    // The book prints the wifi password
+    await logSensitiveDataAccess({
+      userId,
+      action: SensitiveDataAction.VIEW,
+      dataType: SensitiveDataType.INTERNAL_DATA,
+      propertyId: id,
+      metadata: { section: "welcome_book", format: query.format, language: query.language },
+    })
+
+    const fileName = toFileName(book.propertyName, book.language, query.format)
+    const disposition = `${query.download ? "attachment" : "inline"}; filename="${fileName}"`
+
+    if (query.format === "html") {
+      return new NextResponse(renderWelcomeBookHtml(book), {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Content-Disposition": disposition,
+          "Cache-Control": "private, no-store",
+        },
+      })
+    }
+
+    return new NextResponse(new Uint8Array(renderWelcomeBookPdf(book)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": disposition,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message ?? "Invalid request" }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === "Insufficient permissions") {
+      return NextResponse.json({ error: "Forbidden: Insufficient permissions" }, { status: 403 })
+    }
+
+    console.error("Error generating welcome book:", error)
+    return NextResponse.json({ error: "Failed to generate the welcome book" }, { status: 500 })
+  }
+}
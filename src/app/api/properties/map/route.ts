@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
+import { getAccessScope } from "@/lib/auth"
+import { propertyScopeWhere } from "@/lib/access-scope"
 import type { PropertyMapData, PropertiesMapResponse } from "@/hooks/use-properties-map"
 
 // GET /api/properties/map - Get all properties with coordinates for map display
@@ -34,6 +36,9 @@ export async function GET(req: NextRequest) {
       where.destinationId = searchParams.destinationId
     }
 
+    // Only properties within the user's access scope
+    where.AND = [propertyScopeWhere(await getAccessScope())]
+
     // Fetch all properties with coordinates - optimized query
     const properties = await prisma.property.findMany({
       where,
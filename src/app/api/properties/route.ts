@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { prisma } from "@/lib/db"
+import { getAccessScope } from "@/lib/auth"
+import { propertyScopeWhere } from "@/lib/access-scope"
 import { createPropertySchema, propertySearchSchema } from "@/lib/validations/property"
 import { PropertyStatus } from "@/generated/prisma"
 
@@ -291,6 +293,9 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    // Only properties within the user's access scope
+    andConditions.push(propertyScopeWhere(await getAccessScope()))
+
     // Coordinate filter for map display
     if (searchParams.hasCoordinates === 'true') {
       andConditions.push({
@@ -422,17 +427,6 @@ export async function POST(req: NextRequest) {
       },
     })
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "create",
-        entityType: "property",
-        entityId: property.id,
-        changes: validatedData,
-      },
-    })
-
     return NextResponse.json(property, { status: 201 })
   } catch (error) {
     
@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server"
+import { z } from "zod"
+import { guardPublicApiRequest, jsonWithEtag, publicApiError } from "@/lib/public-api"
+import { getPublicProperty } from "@/lib/public-listings"
+import { publicPropertyDetailQuerySchema } from "@/lib/validations/public-api"
+
+// GET /api/public/v1/properties/[id]?lang=fr - A published property with photos, rooms, amenities and prices
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Rate limit headers, also sent on errors once the request passed the guard
+  let headers: Record<string, string> | undefined
+
+  try {
+    const guard = await guardPublicApiRequest(req)
+    if (guard.response) return guard.response
+    headers = guard.headers
+
+    const { id } = await params
+    const query = publicPropertyDetailQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams))
+    const property = await getPublicProperty(id, query.lang)
+
+    // Unpublished properties answer like unknown ones
+    if (!property) {
+      return publicApiError(404, "Property not found", headers)
+    }
+
+    return jsonWithEtag(req, property, { ...headers, "Content-Language": property.language })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return publicApiError(400, `Invalid query: ${error.issues[0].path.join(".")} - ${error.issues[0].message}`, headers)
+    }
+    console.error("Error serving public property:", error)
+    return publicApiError(500, "Failed to load property", headers)
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server"
+import { z } from "zod"
+import { guardPublicApiRequest, jsonWithEtag, publicApiError } from "@/lib/public-api"
+import { listPublicProperties } from "@/lib/public-listings"
+import { publicPropertyListQuerySchema } from "@/lib/validations/public-api"
+
+// GET /api/public/v1/properties?lang=fr&destinationId=...&minGuests=8&page=1&pageSize=24
+// Published properties for the website, authenticated by API key instead of a Clerk session
+export async function GET(req: NextRequest) {
+  // Rate limit headers, also sent on errors once the request passed the guard
+  let headers: Record<string, string> | undefined
+
+  try {
+    const guard = await guardPublicApiRequest(req)
+    if (guard.response) return guard.response
+    headers = guard.headers
+
+    const query = publicPropertyListQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams))
+    const list = await listPublicProperties(query)
+
+    return jsonWithEtag(req, list, { ...headers, "Content-Language": query.lang })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return publicApiError(400, `Invalid query: ${error.issues[0].path.join(".")} - ${error.issues[0].message}`, headers)
+    }
+    console.error("Error serving public properties:", error)
+    return publicApiError(500, "Failed to load properties", headers)
+  }
+}
@@ -94,17 +94,6 @@ export async function PUT(
       data,
     })
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "update",
-        entityType: "resource",
-        entityId: id,
-        changes: data,
-      },
-    })
-
     return NextResponse.json(updatedResource)
   } catch (error) {
     
@@ -157,17 +146,6 @@ export async function DELETE(
       where: { id },
     })
 
-    // Log the action
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "delete",
-        entityType: "resource",
-        entityId: id,
-        changes: { resource: existingResource },
-      },
-    })
-
     return NextResponse.json({ success: true })
   } catch (error) {
     
@@ -106,19 +106,6 @@ export async function PATCH(
       data: updateData as Prisma.RoomUpdateInput,
     })
 
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "UPDATE",
-        entityType: "ROOM",
-        entityId: id,
-        changes: {
-          propertyId: room.propertyId,
-          changes: data,
-        },
-      },
-    })
-
     return NextResponse.json({ room: updatedRoom })
   } catch (error) {
     
@@ -188,19 +175,6 @@ export async function DELETE(
       },
     })
 
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "DELETE",
-        entityType: "ROOM",
-        entityId: id,
-        changes: {
-          propertyId: room.propertyId,
-          roomName: room.name,
-        },
-      },
-    })
-
     return NextResponse.json({ success: true })
   } catch (error) {
     
@@ -78,20 +78,6 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    // Log the creation
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "CREATE",
-        entityType: "ROOM",
-        entityId: room.id,
-        changes: {
-          propertyId: data.propertyId,
-          roomName: data.name,
-        },
-      },
-    })
-
     return NextResponse.json({ room })
   } catch (error) {
     
@@ -144,19 +130,6 @@ export async function PATCH(request: NextRequest) {
       )
     )
 
-    await prisma.auditLog.create({
-      data: {
-        userId,
-        action: "UPDATE",
-        entityType: "ROOM",
-        entityId: propertyId,
-        changes: {
-          action: "reorder",
-          count: rooms.length,
-        },
-      },
-    })
-
     return NextResponse.json({ success: true })
   } catch (error) {
     
@@ -2,10 +2,16 @@ import { Skeleton } from "@/components/ui/skeleton"
 
 export function FinanceLoading() {
   return (
-    <div className="flex items-center justify-center min-h-[60vh]">
-      <Skeleton className="h-8 w-48" />
+    <div className="space-y-6 p-6">
+      <Skeleton className="h-7 w-32" />
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        {Array.from({ length: 5 }, (_, i) => (
+          <Skeleton key={i} className="h-[104px]" />
+        ))}
+      </div>
+      <Skeleton className="h-[320px]" />
     </div>
   )
 }
 
-export default FinanceLoading
\ No newline at end of file
+export default FinanceLoading
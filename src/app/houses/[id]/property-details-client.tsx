@@ -200,7 +200,7 @@ export function PropertyDetailsClient({ property }: PropertyDetailsWrapperProps)
     "good-to-know": !!property.goodToKnow,
     internal: !!property.internalComment || !!property.warning,
     contacts: (property.contacts?.length ?? 0) > 0,
-    marketing: !!property.automaticOffer,
+    marketing: (property.marketingContent?.length ?? 0) > 0,
     photos: (property.photos?.length ?? 0) > 0,
     links: (property.resources?.length ?? 0) > 0,
     rooms: (property.rooms?.length ?? 0) > 0,
@@ -0,0 +1,20 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function OperationsLoading() {
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <Skeleton className="h-7 w-48" />
+        <Skeleton className="h-9 w-[360px]" />
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {Array.from({ length: 4 }, (_, i) => (
+          <Skeleton key={i} className="h-[72px]" />
+        ))}
+      </div>
+      <Skeleton className="h-[360px]" />
+    </div>
+  )
+}
+
+export default OperationsLoading
@@ -0,0 +1,14 @@
+import { Suspense } from "react"
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { OperationsContent } from "@/components/operations/operations-content"
+import { OperationsLoading } from "./loading"
+
+export default function OperationsPage() {
+  return (
+    <DashboardLayout>
+      <Suspense fallback={<OperationsLoading />}>
+        <OperationsContent />
+      </Suspense>
+    </DashboardLayout>
+  )
+}
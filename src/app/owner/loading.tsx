@@ -0,0 +1,16 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function OwnerPortalLoading() {
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <Skeleton className="h-7 w-48" />
+        <Skeleton className="h-9 w-[220px]" />
+      </div>
+      <Skeleton className="h-9 w-[360px]" />
+      <Skeleton className="h-[420px]" />
+    </div>
+  )
+}
+
+export default OwnerPortalLoading
@@ -0,0 +1,14 @@
+import { Suspense } from "react"
+import { OwnerLayout } from "@/components/layout/owner-layout"
+import { OwnerPortalContent } from "@/components/owner-portal/owner-portal-content"
+import { OwnerPortalLoading } from "./loading"
+
+export default function OwnerPortalPage() {
+  return (
+    <OwnerLayout>
+      <Suspense fallback={<OwnerPortalLoading />}>
+        <OwnerPortalContent />
+      </Suspense>
+    </OwnerLayout>
+  )
+}
@@ -0,0 +1,16 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function SensitiveAccessLoading() {
+  return (
+    <div className="space-y-6 p-6">
+      <Skeleton className="h-7 w-56" />
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <Skeleton className="h-[260px]" />
+        <Skeleton className="h-[260px]" />
+      </div>
+      <Skeleton className="h-[320px]" />
+    </div>
+  )
+}
+
+export default SensitiveAccessLoading
@@ -0,0 +1,14 @@
+import { Suspense } from "react"
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { SensitiveAccessContent } from "@/components/sensitive-access/sensitive-access-content"
+import { SensitiveAccessLoading } from "./loading"
+
+export default function SensitiveAccessPage() {
+  return (
+    <DashboardLayout>
+      <Suspense fallback={<SensitiveAccessLoading />}>
+        <SensitiveAccessContent />
+      </Suspense>
+    </DashboardLayout>
+  )
+}
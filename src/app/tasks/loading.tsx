@@ -0,0 +1,20 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function TasksLoading() {
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <Skeleton className="h-7 w-40" />
+        <Skeleton className="h-9 w-[320px]" />
+      </div>
+      <div className="grid grid-cols-7 gap-2">
+        {Array.from({ length: 7 }, (_, i) => (
+          <Skeleton key={i} className="h-[64px]" />
+        ))}
+      </div>
+      <Skeleton className="h-[360px]" />
+    </div>
+  )
+}
+
+export default TasksLoading
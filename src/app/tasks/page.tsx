@@ -0,0 +1,14 @@
+import { Suspense } from "react"
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { TasksContent } from "@/components/tasks/tasks-content"
+import { TasksLoading } from "./loading"
+
+export default function TasksPage() {
+  return (
+    <DashboardLayout>
+      <Suspense fallback={<TasksLoading />}>
+        <TasksContent />
+      </Suspense>
+    </DashboardLayout>
+  )
+}
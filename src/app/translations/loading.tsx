@@ -0,0 +1,20 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function TranslationsLoading() {
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <Skeleton className="h-7 w-48" />
+        <Skeleton className="h-8 w-[320px]" />
+      </div>
+      <div className="flex gap-2">
+        {Array.from({ length: 4 }, (_, i) => (
+          <Skeleton key={i} className="h-8 w-[160px]" />
+        ))}
+      </div>
+      <Skeleton className="h-[420px]" />
+    </div>
+  )
+}
+
+export default TranslationsLoading
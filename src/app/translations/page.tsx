@@ -0,0 +1,14 @@
+import { Suspense } from "react"
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { TranslationsContent } from "@/components/translations/translations-content"
+import { TranslationsLoading } from "./loading"
+
+export default function TranslationsPage() {
+  return (
+    <DashboardLayout>
+      <Suspense fallback={<TranslationsLoading />}>
+        <TranslationsContent />
+      </Suspense>
+    </DashboardLayout>
+  )
+}
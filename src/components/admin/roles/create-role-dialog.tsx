@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useCreateRole } from "@/hooks/use-roles"
+import type { RoleDefinition } from "@/types/auth"
+
+interface CreateRoleDialogProps {
+  roles: RoleDefinition[]
+  onCreated: (key: string) => void
+}
+
+export function CreateRoleDialog({ roles, onCreated }: CreateRoleDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [copyFrom, setCopyFrom] = useState("none")
+  const createRole = useCreateRole()
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (!nextOpen) {
+      setName("")
+      setDescription("")
+      setCopyFrom("none")
+    }
+  }
+
+  const handleCreate = async () => {
+    try {
+      const role = await createRole.mutateAsync({
+        name,
+        description: description || undefined,
+        permissions: roles.find(r => r.key === copyFrom)?.permissions ?? [],
+      })
+      handleOpenChange(false)
+      if (role) onCreated(role.key)
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-2">
+          <Plus className="h-4 w-4" />
+          New role
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>New role</DialogTitle>
+          <DialogDescription>
+            Permissions can be adjusted once the role is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="role-name">Name *</Label>
+            <Input
+              id="role-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Finance assistant"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="role-description">Description</Label>
+            <Input
+              id="role-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Views pricing and finance, no property edits"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Start from</Label>
+            <Select value={copyFrom} onValueChange={setCopyFrom}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No permissions</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.key} value={role.key}>
+                    Permissions of {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!name.trim() || createRole.isPending}>
+            {createRole.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create role
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
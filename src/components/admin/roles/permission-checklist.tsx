@@ -0,0 +1,73 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Permission } from "@/types/auth"
+
+function humanize(value: string) {
+  const text = value.replace(/_/g, " ")
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+// Permissions grouped by their resource prefix ("financial:view" -> "Financial")
+const PERMISSION_GROUPS = Object.values(Permission).reduce<{ resource: string; permissions: Permission[] }[]>(
+  (groups, permission) => {
+    const resource = permission.split(":")[0]
+    const group = groups.find(g => g.resource === resource)
+    if (group) {
+      group.permissions.push(permission)
+    } else {
+      groups.push({ resource, permissions: [permission] })
+    }
+    return groups
+  },
+  []
+)
+
+interface PermissionChecklistProps {
+  value: Permission[]
+  onChange: (permissions: Permission[]) => void
+  disabled?: boolean
+}
+
+export function PermissionChecklist({ value, onChange, disabled }: PermissionChecklistProps) {
+  const selected = new Set(value)
+
+  const toggle = (permissions: Permission[], checked: boolean) => {
+    const next = new Set(selected)
+    permissions.forEach(permission => (checked ? next.add(permission) : next.delete(permission)))
+    // Keep the enum order so saved lists are stable
+    onChange(Object.values(Permission).filter(permission => next.has(permission)))
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {PERMISSION_GROUPS.map(group => {
+        const checkedCount = group.permissions.filter(permission => selected.has(permission)).length
+        return (
+          <div key={group.resource} className="rounded-md border p-3 space-y-2">
+            <label className="flex items-center gap-2 text-xs font-semibold cursor-pointer">
+              <Checkbox
+                checked={checkedCount === group.permissions.length ? true : checkedCount > 0 ? "indeterminate" : false}
+                onCheckedChange={(checked) => toggle(group.permissions, checked === true)}
+                disabled={disabled}
+              />
+              {humanize(group.resource)}
+            </label>
+            <div className="space-y-1.5 pl-6">
+              {group.permissions.map(permission => (
+                <label key={permission} className="flex items-center gap-2 text-xs cursor-pointer">
+                  <Checkbox
+                    checked={selected.has(permission)}
+                    onCheckedChange={(checked) => toggle([permission], checked === true)}
+                    disabled={disabled}
+                  />
+                  {humanize(permission.split(":")[1])}
+                </label>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Lock, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { PermissionChecklist } from "@/components/admin/roles/permission-checklist"
+import { useDeleteRole, useUpdateRole } from "@/hooks/use-roles"
+import { Permission, ROLE_PERMISSIONS, UserRole, type RoleDefinition } from "@/types/auth"
+
+interface RoleEditorProps {
+  role: RoleDefinition
+  onDeleted: () => void
+}
+
+export function RoleEditor({ role, onDeleted }: RoleEditorProps) {
+  const [name, setName] = useState(role.name)
+  const [description, setDescription] = useState(role.description ?? "")
+  const [permissions, setPermissions] = useState<Permission[]>(role.permissions)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const updateRole = useUpdateRole()
+  const deleteRole = useDeleteRole()
+
+  useEffect(() => {
+    setName(role.name)
+    setDescription(role.description ?? "")
+    setPermissions(role.permissions)
+  }, [role])
+
+  const isAdmin = role.key === UserRole.ADMIN
+  const isDirty =
+    name !== role.name ||
+    description !== (role.description ?? "") ||
+    permissions.join(",") !== role.permissions.join(",")
+  const defaults = role.isSystem ? ROLE_PERMISSIONS[role.key as UserRole] : null
+
+  const handleSave = () => {
+    updateRole.mutate({
+      key: role.key,
+      name,
+      description: description || undefined,
+      permissions,
+    })
+  }
+
+  const handleDelete = async () => {
+    try {
+      await deleteRole.mutateAsync(role.key)
+      onDeleted()
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-sm">
+              {role.name}
+              {role.isSystem && (
+                <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-5 font-normal">Built-in</Badge>
+              )}
+            </CardTitle>
+            <CardDescription className="text-xs">
+              Stored as <code className="rounded bg-muted px-1">{role.key}</code> in the user&apos;s profile
+            </CardDescription>
+          </div>
+          {!isAdmin && (
+            <div className="flex items-center gap-2">
+              {defaults && (
+                <Button variant="ghost" size="sm" className="text-xs" onClick={() => setPermissions(defaults)}>
+                  Reset to defaults
+                </Button>
+              )}
+              {!role.isSystem && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1.5 text-xs text-destructive"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Delete
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={!isDirty || !name.trim() || updateRole.isPending}>
+                {updateRole.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin ? (
+          <div className="flex items-center gap-2 rounded-md border bg-muted/40 p-3 text-xs text-muted-foreground">
+            <Lock className="h-3.5 w-3.5" />
+            Admins always hold every permission and are never restricted to properties, this role cannot be edited.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="role-editor-name" className="text-xs">Name</Label>
+              <Input id="role-editor-name" value={name} onChange={(e) => setName(e.target.value)} className="h-8 text-xs" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-editor-description" className="text-xs">Description</Label>
+              <Input
+                id="role-editor-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+        )}
+
+        <PermissionChecklist
+          value={isAdmin ? Object.values(Permission) : permissions}
+          onChange={setPermissions}
+          disabled={isAdmin}
+        />
+      </CardContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete the {role.name} role?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only roles that no user holds can be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { motion } from "framer-motion"
+import { useQueryState } from "nuqs"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { CreateRoleDialog } from "@/components/admin/roles/create-role-dialog"
+import { RoleEditor } from "@/components/admin/roles/role-editor"
+import { useRoles } from "@/hooks/use-roles"
+import { cn } from "@/lib/utils"
+import { Permission, UserRole } from "@/types/auth"
+
+export function RolesContent() {
+  const [selectedKey, setSelectedKey] = useQueryState("role")
+  const { data: roles, isLoading, error } = useRoles()
+
+  const selectedRole = roles?.find(role => role.key === selectedKey) ?? roles?.[0]
+  const permissionCount = Object.values(Permission).length
+
+  return (
+    <ProtectedSection permission={Permission.USER_MANAGE} showUnauthorized>
+      <div className="space-y-6 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            <h1 className="text-xl font-bold tracking-tight">Roles</h1>
+            <p className="text-xs text-muted-foreground">
+              Permissions granted by each role, changes apply within a minute
+            </p>
+          </motion.div>
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            <CreateRoleDialog roles={roles ?? []} onCreated={setSelectedKey} />
+          </motion.div>
+        </div>
+
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading || !roles ? (
+          <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-4">
+            <Skeleton className="h-[320px]" />
+            <Skeleton className="h-[480px]" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-4 items-start">
+            <div className="rounded-md border divide-y">
+              {roles.map(role => (
+                <button
+                  key={role.key}
+                  type="button"
+                  onClick={() => setSelectedKey(role.key)}
+                  className={cn(
+                    "w-full px-3 py-2.5 text-left transition-colors hover:bg-muted/50",
+                    selectedRole?.key === role.key && "bg-muted"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-medium truncate">{role.name}</span>
+                    <Badge variant="secondary" className="text-[10px] py-0 px-1.5 h-5 font-normal tabular-nums">
+                      {role.key === UserRole.ADMIN ? permissionCount : role.permissions.length}/{permissionCount}
+                    </Badge>
+                  </div>
+                  {role.description && (
+                    <p className="mt-0.5 text-[11px] text-muted-foreground line-clamp-2">{role.description}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {selectedRole && (
+              <RoleEditor role={selectedRole} onDeleted={() => setSelectedKey(null)} />
+            )}
+          </div>
+        )}
+      </div>
+    </ProtectedSection>
+  )
+}
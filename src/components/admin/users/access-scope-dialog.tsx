@@ -0,0 +1,260 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Loader2, Search, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Switch } from "@/components/ui/switch"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useDestinations } from "@/hooks/use-destinations"
+import { useProperties } from "@/hooks/use-properties"
+import { useUpdateUserAccessScope } from "@/hooks/use-access-scopes"
+import type { ManagedUser } from "@/types/auth"
+
+interface AccessScopeDialogProps {
+  user: ManagedUser | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function AccessScopeDialog({ user, open, onOpenChange }: AccessScopeDialogProps) {
+  const [restricted, setRestricted] = useState(false)
+  const [destinationIds, setDestinationIds] = useState<Set<string>>(new Set())
+  const [propertyIds, setPropertyIds] = useState<Set<string>>(new Set())
+  const [propertySearch, setPropertySearch] = useState("")
+  const [propertyNames, setPropertyNames] = useState<Map<string, string>>(new Map())
+
+  const { data: destinationsData, isLoading: destinationsLoading } = useDestinations()
+  const { data: propertiesData, isLoading: propertiesLoading } = useProperties(
+    { search: propertySearch, status: "ALL" },
+    1,
+    100,
+    { includeDestination: true, includePhotos: false }
+  )
+  const updateScope = useUpdateUserAccessScope()
+
+  // Reset the form from the user's stored scope every time the dialog opens
+  useEffect(() => {
+    if (open && user) {
+      setRestricted(user.accessScope.restricted)
+      setDestinationIds(new Set(user.accessScope.destinationIds))
+      setPropertyIds(new Set(user.accessScope.propertyIds))
+      setPropertySearch("")
+    }
+  }, [open, user])
+
+  // Remember names of properties seen in search results, selected ones stay labelled after the search changes
+  useEffect(() => {
+    if (!propertiesData?.data.length) return
+    setPropertyNames(previous => {
+      const next = new Map(previous)
+      propertiesData.data.forEach(property => next.set(property.id, property.name))
+      return next
+    })
+  }, [propertiesData])
+
+  const destinations = useMemo(
+    () => [...(destinationsData?.destinations ?? [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [destinationsData]
+  )
+  const destinationNames = useMemo(
+    () => new Map(destinations.map(destination => [destination.id, destination.name])),
+    [destinations]
+  )
+
+  const toggle = (set: Set<string>, id: string, checked: boolean) => {
+    const next = new Set(set)
+    if (checked) {
+      next.add(id)
+    } else {
+      next.delete(id)
+    }
+    return next
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+
+    try {
+      await updateScope.mutateAsync({
+        userId: user.id,
+        restricted,
+        destinationIds: restricted ? Array.from(destinationIds) : [],
+        propertyIds: restricted ? Array.from(propertyIds) : [],
+      })
+      onOpenChange(false)
+    } catch (error) {
+      // Error toast is shown by the mutation
+    }
+  }
+
+  const unnamedSelected = Array.from(propertyIds).filter(id => !propertyNames.has(id)).length
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Property access</DialogTitle>
+          <DialogDescription>
+            {user ? <>Choose which destinations and properties {user.fullName} can work on</> : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="restrict-access" className="text-sm">Restrict access</Label>
+              <p className="text-xs text-muted-foreground">
+                When off, the user reaches every property their role allows
+              </p>
+            </div>
+            <Switch id="restrict-access" checked={restricted} onCheckedChange={setRestricted} />
+          </div>
+
+          {restricted && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-xs">
+                  Destinations <span className="text-muted-foreground">({destinationIds.size} selected)</span>
+                </Label>
+                <p className="text-[11px] text-muted-foreground">
+                  Includes every property of the destination, present and future
+                </p>
+                <ScrollArea className="h-[300px] rounded-md border">
+                  <div className="space-y-1 p-2">
+                    {destinationsLoading ? (
+                      <div className="flex justify-center py-8">
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : destinations.map(destination => (
+                      <label
+                        key={destination.id}
+                        className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-xs hover:bg-muted/50 cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={destinationIds.has(destination.id)}
+                          onCheckedChange={(checked) =>
+                            setDestinationIds(toggle(destinationIds, destination.id, checked === true))
+                          }
+                        />
+                        <span className="flex-1 truncate">{destination.name}</span>
+                        <span className="text-muted-foreground">{destination._count?.properties ?? 0}</span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs">
+                  Properties <span className="text-muted-foreground">({propertyIds.size} selected)</span>
+                </Label>
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+                  <Input
+                    placeholder="Search properties..."
+                    value={propertySearch}
+                    onChange={(e) => setPropertySearch(e.target.value)}
+                    className="h-8 pl-8 text-xs"
+                  />
+                </div>
+                <ScrollArea className="h-[258px] rounded-md border">
+                  <div className="space-y-1 p-2">
+                    {propertiesLoading ? (
+                      <div className="flex justify-center py-8">
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : !propertiesData?.data.length ? (
+                      <p className="py-8 text-center text-xs text-muted-foreground">No properties found</p>
+                    ) : propertiesData.data.map(property => {
+                      const viaDestination = destinationIds.has(property.destinationId)
+                      return (
+                        <label
+                          key={property.id}
+                          className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-xs hover:bg-muted/50 cursor-pointer"
+                        >
+                          <Checkbox
+                            checked={viaDestination || propertyIds.has(property.id)}
+                            disabled={viaDestination}
+                            onCheckedChange={(checked) =>
+                              setPropertyIds(toggle(propertyIds, property.id, checked === true))
+                            }
+                          />
+                          <span className="flex-1 truncate">{property.name}</span>
+                          <span className="truncate text-muted-foreground">
+                            {destinationNames.get(property.destinationId)}
+                          </span>
+                        </label>
+                      )
+                    })}
+                  </div>
+                </ScrollArea>
+              </div>
+            </div>
+          )}
+
+          {restricted && (destinationIds.size > 0 || propertyIds.size > 0) && (
+            <div className="flex flex-wrap gap-1.5">
+              {Array.from(destinationIds).map(id => (
+                <Badge key={id} variant="secondary" className="gap-1 pr-1 text-[10px]">
+                  {destinationNames.get(id) ?? "Destination"}
+                  <button
+                    type="button"
+                    onClick={() => setDestinationIds(toggle(destinationIds, id, false))}
+                    className="rounded-sm hover:bg-muted"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {Array.from(propertyIds).filter(id => propertyNames.has(id)).map(id => (
+                <Badge key={id} variant="outline" className="gap-1 pr-1 text-[10px]">
+                  {propertyNames.get(id)}
+                  <button
+                    type="button"
+                    onClick={() => setPropertyIds(toggle(propertyIds, id, false))}
+                    className="rounded-sm hover:bg-muted"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {unnamedSelected > 0 && (
+                <Badge variant="outline" className="text-[10px]">
+                  +{unnamedSelected} more {unnamedSelected === 1 ? "property" : "properties"}
+                </Badge>
+              )}
+            </div>
+          )}
+
+          {restricted && destinationIds.size === 0 && propertyIds.size === 0 && (
+            <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+              Nothing is selected, this user will not see any property.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!user || updateScope.isPending}>
+            {updateScope.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
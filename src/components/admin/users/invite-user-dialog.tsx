@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Loader2, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useRoles } from "@/hooks/use-roles"
+import { useInviteUser } from "@/hooks/use-users"
+import { inviteUserSchema, type InviteUserInput } from "@/lib/validations/user"
+import { UserRole } from "@/types/auth"
+
+export function InviteUserDialog() {
+  const [open, setOpen] = useState(false)
+  const { data: roles } = useRoles()
+  const inviteUser = useInviteUser()
+
+  const form = useForm<InviteUserInput>({
+    resolver: zodResolver(inviteUserSchema),
+    defaultValues: {
+      emailAddress: "",
+      role: UserRole.STAFF,
+    },
+  })
+  const role = form.watch("role")
+  const roleDefinition = roles?.find(definition => definition.key === role)
+
+  const onSubmit = async (data: InviteUserInput) => {
+    try {
+      await inviteUser.mutateAsync(data)
+      setOpen(false)
+      form.reset()
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-2">
+          <UserPlus className="h-4 w-4" />
+          Invite user
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Invite a team member</DialogTitle>
+          <DialogDescription>
+            They receive an email to create their account, with the role below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="emailAddress">Email *</Label>
+            <Input
+              id="emailAddress"
+              type="email"
+              {...form.register("emailAddress")}
+              placeholder="name@example.com"
+            />
+            {form.formState.errors.emailAddress && (
+              <p className="text-sm text-destructive">{form.formState.errors.emailAddress.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Role *</Label>
+            <Select value={role} onValueChange={(value) => form.setValue("role", value)}>
+              <SelectTrigger>
+                <SelectValue>{roleDefinition?.name ?? role}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {roles?.map((definition) => (
+                  <SelectItem key={definition.key} value={definition.key}>
+                    {definition.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {roleDefinition?.description && (
+              <p className="text-xs text-muted-foreground">{roleDefinition.description}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={inviteUser.isPending}>
+              {inviteUser.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send invitation
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Loader2, Search } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { useContactSearch } from "@/hooks/use-contacts"
+import { useDebounce } from "@/hooks/use-debounce"
+import { useLinkOwnerContact } from "@/hooks/use-users"
+import { cn } from "@/lib/utils"
+import type { ManagedUser } from "@/types/auth"
+
+interface OwnerContactDialogProps {
+  user: ManagedUser | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function OwnerContactDialog({ user, open, onOpenChange }: OwnerContactDialogProps) {
+  const [query, setQuery] = useState("")
+  const [selected, setSelected] = useState<{ id: string; name: string } | null>(null)
+  const debouncedQuery = useDebounce(query, 300)
+  const { data: contacts, isFetching } = useContactSearch({ query: debouncedQuery, limit: 10 })
+  const linkOwnerContact = useLinkOwnerContact()
+
+  const current = selected ?? user?.ownerContact ?? null
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    onOpenChange(nextOpen)
+    if (!nextOpen) {
+      setQuery("")
+      setSelected(null)
+    }
+  }
+
+  const handleSave = async (contactId: string | null) => {
+    if (!user) return
+    try {
+      await linkOwnerContact.mutateAsync({ userId: user.id, contactId })
+      handleOpenChange(false)
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Owner contact of {user?.fullName}</DialogTitle>
+          <DialogDescription>
+            The owner portal shows the properties this contact owns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between rounded-md border bg-muted/40 px-3 py-2 text-xs">
+            <span className="text-muted-foreground">Linked contact</span>
+            {current ? (
+              <span className="font-medium">{current.name}</span>
+            ) : (
+              <span className="text-muted-foreground">None</span>
+            )}
+          </div>
+
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              placeholder="Search contacts by name or email..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="h-8 pl-8 text-xs"
+            />
+          </div>
+
+          <div className="max-h-[240px] overflow-y-auto rounded-md border">
+            {debouncedQuery.length < 2 ? (
+              <p className="p-3 text-center text-xs text-muted-foreground">Type at least 2 characters</p>
+            ) : isFetching ? (
+              <div className="flex justify-center p-3">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : !contacts?.length ? (
+              <p className="p-3 text-center text-xs text-muted-foreground">No contacts found</p>
+            ) : (
+              contacts.map((contact) => {
+                const name = `${contact.firstName} ${contact.lastName}`.trim()
+                const isSelected = current?.id === contact.id
+                return (
+                  <button
+                    key={contact.id}
+                    type="button"
+                    onClick={() => setSelected({ id: contact.id, name })}
+                    className={cn(
+                      "flex w-full items-center justify-between gap-2 border-b px-3 py-2 text-left text-xs last:border-b-0 hover:bg-muted/50",
+                      isSelected && "bg-muted"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{name}</p>
+                      {contact.email && <p className="text-[11px] text-muted-foreground truncate">{contact.email}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-5 font-normal">
+                        {contact.category}
+                      </Badge>
+                      {isSelected && <Check className="h-3.5 w-3.5" />}
+                    </div>
+                  </button>
+                )
+              })
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          {user?.ownerContact && (
+            <Button
+              variant="outline"
+              className="mr-auto text-destructive"
+              onClick={() => handleSave(null)}
+              disabled={linkOwnerContact.isPending}
+            >
+              Unlink
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => selected && handleSave(selected.id)}
+            disabled={!selected || selected.id === user?.ownerContact?.id || linkOwnerContact.isPending}
+          >
+            {linkOwnerContact.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Link contact
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { formatDistanceToNow } from "date-fns"
+import { Mail, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { usePendingInvitations, useRevokeInvitation } from "@/hooks/use-users"
+
+export function PendingInvitations() {
+  const { data: invitations, error } = usePendingInvitations()
+  const revokeInvitation = useRevokeInvitation()
+
+  if (error) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+        {error.message}
+      </div>
+    )
+  }
+
+  if (!invitations?.length) return null
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-sm font-semibold">Pending invitations</h2>
+      <div className="rounded-md border divide-y">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between gap-3 px-4 py-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <Mail className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              <span className="text-xs truncate">{invitation.emailAddress}</span>
+              <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-5 capitalize">
+                {invitation.role}
+              </Badge>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-muted-foreground">
+                Sent {formatDistanceToNow(new Date(invitation.createdAt), { addSuffix: true })}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                disabled={revokeInvitation.isPending}
+                onClick={() => revokeInvitation.mutate(invitation.id)}
+              >
+                <X className="h-3.5 w-3.5" />
+                Revoke
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useState } from "react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useRoles } from "@/hooks/use-roles"
+import { useUpdateUserRole } from "@/hooks/use-users"
+import type { ManagedUser } from "@/types/auth"
+
+interface RoleSelectProps {
+  user: ManagedUser
+  disabled?: boolean
+}
+
+export function RoleSelect({ user, disabled }: RoleSelectProps) {
+  const [pendingRole, setPendingRole] = useState<string | null>(null)
+  const { data: roles } = useRoles()
+  const updateRole = useUpdateUserRole()
+
+  const roleName = (key: string) => roles?.find(role => role.key === key)?.name ?? key
+  const pendingDefinition = roles?.find(role => role.key === pendingRole)
+
+  const handleConfirm = () => {
+    if (!pendingRole) return
+    updateRole.mutate({ userId: user.id, role: pendingRole })
+    setPendingRole(null)
+  }
+
+  return (
+    <>
+      <Select
+        value={user.role}
+        onValueChange={setPendingRole}
+        disabled={disabled || updateRole.isPending}
+      >
+        <SelectTrigger className="h-7 w-[150px] text-xs">
+          <SelectValue>{roleName(user.role)}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {roles?.map((role) => (
+            <SelectItem key={role.key} value={role.key} className="text-xs">
+              {role.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <AlertDialog open={!!pendingRole} onOpenChange={(open) => !open && setPendingRole(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change role of {user.fullName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {roleName(user.role)} → {pendingRole && roleName(pendingRole)}.
+              {pendingDefinition?.description && ` ${pendingDefinition.description}.`} The change applies on their next request and is recorded in the audit log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>Change role</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
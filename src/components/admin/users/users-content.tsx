@@ -0,0 +1,335 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { motion } from "framer-motion"
+import { format, formatDistanceToNow } from "date-fns"
+import { useUser as useClerkUser } from "@clerk/nextjs"
+import { Home, MoreHorizontal, Search, ShieldCheck, UserCheck, UserX } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { AccessScopeDialog } from "@/components/admin/users/access-scope-dialog"
+import { InviteUserDialog } from "@/components/admin/users/invite-user-dialog"
+import { OwnerContactDialog } from "@/components/admin/users/owner-contact-dialog"
+import { PendingInvitations } from "@/components/admin/users/pending-invitations"
+import { RoleSelect } from "@/components/admin/users/role-select"
+import { useManagedUsers, useSetUserDeactivated } from "@/hooks/use-users"
+import { useDestinations } from "@/hooks/use-destinations"
+import { Permission, UserRole, type ManagedUser } from "@/types/auth"
+
+function ScopeSummary({ user, destinationNames }: { user: ManagedUser; destinationNames: Map<string, string> }) {
+  if (user.role === UserRole.ADMIN) {
+    return <span className="text-xs text-muted-foreground">All properties (admin)</span>
+  }
+
+  if (user.role === UserRole.OWNER) {
+    return user.ownerContact ? (
+      <span className="text-xs text-muted-foreground">Owner portal of {user.ownerContact.name}</span>
+    ) : (
+      <Badge variant="destructive" className="text-[10px] py-0 px-1.5 h-5">No owner contact</Badge>
+    )
+  }
+
+  if (!user.accessScope.restricted) {
+    return <span className="text-xs text-muted-foreground">All properties</span>
+  }
+
+  const { destinationIds, propertyIds } = user.accessScope
+  if (destinationIds.length === 0 && propertyIds.length === 0) {
+    return <Badge variant="destructive" className="text-[10px] py-0 px-1.5 h-5">No access</Badge>
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {destinationIds.map(id => (
+        <Badge key={id} variant="secondary" className="text-[10px] py-0 px-1.5 h-5 font-normal">
+          {destinationNames.get(id) ?? "Destination"}
+        </Badge>
+      ))}
+      {propertyIds.length > 0 && (
+        <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-5 font-normal">
+          {propertyIds.length} {propertyIds.length === 1 ? "property" : "properties"}
+        </Badge>
+      )}
+    </div>
+  )
+}
+
+function LastActivity({ user }: { user: ManagedUser }) {
+  const lastActivity = user.lastActivityAt ?? user.lastSignInAt
+  if (!lastActivity) {
+    return <span className="text-xs text-muted-foreground">Never</span>
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(lastActivity), { addSuffix: true })}
+        </TooltipTrigger>
+        <TooltipContent className="text-xs">
+          <p>
+            Last change: {user.lastActivityAt ? format(new Date(user.lastActivityAt), "dd MMM yyyy HH:mm") : "none"}
+          </p>
+          <p>
+            Last sign-in: {user.lastSignInAt ? format(new Date(user.lastSignInAt), "dd MMM yyyy HH:mm") : "never"}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+export function UsersContent() {
+  const [search, setSearch] = useState("")
+  const [editingUser, setEditingUser] = useState<ManagedUser | null>(null)
+  const [deactivatingUser, setDeactivatingUser] = useState<ManagedUser | null>(null)
+  const [linkingUser, setLinkingUser] = useState<ManagedUser | null>(null)
+  const { user: currentUser } = useClerkUser()
+  const { data: users, isLoading, error } = useManagedUsers()
+  const setUserDeactivated = useSetUserDeactivated()
+  const { data: destinationsData } = useDestinations()
+
+  const destinationNames = useMemo(
+    () => new Map((destinationsData?.destinations ?? []).map(destination => [destination.id, destination.name])),
+    [destinationsData]
+  )
+
+  const filteredUsers = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return users ?? []
+    return (users ?? []).filter(user =>
+      user.fullName.toLowerCase().includes(term) || user.emailAddress?.toLowerCase().includes(term)
+    )
+  }, [users, search])
+
+  return (
+    <ProtectedSection permission={Permission.USER_MANAGE} showUnauthorized>
+      <div className="space-y-6 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            <h1 className="text-xl font-bold tracking-tight">Users & Access</h1>
+            <p className="text-xs text-muted-foreground">
+              Team members, their roles and the destinations and properties they work on
+            </p>
+          </motion.div>
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="flex items-center gap-2"
+          >
+            <div className="relative">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+              <Input
+                placeholder="Search users..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="h-8 w-[240px] pl-8 text-xs"
+              />
+            </div>
+            <InviteUserDialog />
+          </motion.div>
+        </div>
+
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50/50">
+                  <TableHead className="text-xs">User</TableHead>
+                  <TableHead className="text-xs">Role</TableHead>
+                  <TableHead className="text-xs">Property access</TableHead>
+                  <TableHead className="text-xs">Last activity</TableHead>
+                  <TableHead className="text-xs w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell><Skeleton className="h-3 w-40" /></TableCell>
+                      <TableCell><Skeleton className="h-7 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-5 w-32" /></TableCell>
+                      <TableCell><Skeleton className="h-3 w-20" /></TableCell>
+                      <TableCell><Skeleton className="h-7 w-7" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : filteredUsers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-xs text-muted-foreground">
+                      No users found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredUsers.map(user => {
+                    const isCurrentUser = user.id === currentUser?.id
+                    return (
+                      <TableRow key={user.id} className={user.deactivated ? "opacity-60" : undefined}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {user.imageUrl && (
+                              <img
+                                src={user.imageUrl}
+                                alt={user.fullName}
+                                className="w-6 h-6 rounded-full"
+                              />
+                            )}
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-1.5">
+                                <p className="text-xs font-medium truncate">{user.fullName}</p>
+                                {isCurrentUser && (
+                                  <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-4">You</Badge>
+                                )}
+                                {user.deactivated && (
+                                  <Badge variant="destructive" className="text-[10px] py-0 px-1.5 h-4">Deactivated</Badge>
+                                )}
+                              </div>
+                              {user.emailAddress && (
+                                <p className="text-[11px] text-muted-foreground truncate">{user.emailAddress}</p>
+                              )}
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <RoleSelect user={user} disabled={isCurrentUser || user.deactivated} />
+                        </TableCell>
+                        <TableCell>
+                          <ScopeSummary user={user} destinationNames={destinationNames} />
+                        </TableCell>
+                        <TableCell>
+                          <LastActivity user={user} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {!isCurrentUser && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" className="h-7 w-7 p-0">
+                                  <span className="sr-only">Open menu</span>
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {user.role === UserRole.OWNER ? (
+                                  <>
+                                    <DropdownMenuItem onClick={() => setLinkingUser(user)}>
+                                      <Home className="mr-2 h-4 w-4" />
+                                      Owner contact
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator />
+                                  </>
+                                ) : user.role !== UserRole.ADMIN && (
+                                  <>
+                                    <DropdownMenuItem onClick={() => setEditingUser(user)}>
+                                      <ShieldCheck className="mr-2 h-4 w-4" />
+                                      Property access
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator />
+                                  </>
+                                )}
+                                {user.deactivated ? (
+                                  <DropdownMenuItem
+                                    onClick={() => setUserDeactivated.mutate({ userId: user.id, deactivated: false })}
+                                  >
+                                    <UserCheck className="mr-2 h-4 w-4" />
+                                    Reactivate
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onClick={() => setDeactivatingUser(user)}
+                                  >
+                                    <UserX className="mr-2 h-4 w-4" />
+                                    Deactivate
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <PendingInvitations />
+
+        <AccessScopeDialog
+          user={editingUser}
+          open={!!editingUser}
+          onOpenChange={(open) => !open && setEditingUser(null)}
+        />
+
+        <OwnerContactDialog
+          user={linkingUser}
+          open={!!linkingUser}
+          onOpenChange={(open) => !open && setLinkingUser(null)}
+        />
+
+        <AlertDialog open={!!deactivatingUser} onOpenChange={(open) => !open && setDeactivatingUser(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Deactivate {deactivatingUser?.fullName}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Their sessions are ended and they can no longer sign in. Their history is kept
+                and their access can be reactivated at any time.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (deactivatingUser) {
+                    setUserDeactivated.mutate({ userId: deactivatingUser.id, deactivated: true })
+                  }
+                  setDeactivatingUser(null)
+                }}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Deactivate
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </ProtectedSection>
+  )
+}
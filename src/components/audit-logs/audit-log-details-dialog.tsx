@@ -10,11 +10,12 @@ import {
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Separator } from "@/components/ui/separator"
-import { useAuditLog } from "@/hooks/use-audit-logs"
+import { useAuditLog, useRevertAuditChange } from "@/hooks/use-audit-logs"
 import { useUser } from "@/hooks/use-user"
 import { format } from "date-fns"
 import { AuditLogDiff } from "./audit-log-diff"
-import { User2, Calendar, Tag, FileText, Hash } from "lucide-react"
+import { getAuditDiff } from "@/lib/audit-diff"
+import { User2, Calendar, Tag, FileText, Hash, Undo2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 
@@ -31,6 +32,7 @@ export function AuditLogDetailsDialog({
 }: AuditLogDetailsDialogProps) {
   const { data: log, isLoading } = useAuditLog(logId)
   const { data: user } = useUser(log?.userId)
+  const revertChange = useRevertAuditChange()
 
   const getEntityLink = () => {
     if (!log?.entityDetails) return null
@@ -73,6 +75,13 @@ export function AuditLogDetailsDialog({
   }
 
   const entityLink = getEntityLink()
+  const hasFieldDiff = !!log && !!getAuditDiff(log.changes)
+  const revertableFields = log?.revertableFields ?? []
+
+  const handleRevert = (fields?: string[]) => {
+    if (!log) return
+    revertChange.mutate({ id: log.id, fields })
+  }
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -352,14 +361,36 @@ export function AuditLogDetailsDialog({
 
             <Separator />
 
-            {getBaseAction(log.action) === "update" && log.changes && (
+            {(hasFieldDiff || getBaseAction(log.action) === "update") && log.changes && (
               <div className="space-y-4">
-                <h3 className="text-sm font-semibold text-muted-foreground">Changes</h3>
-                <AuditLogDiff changes={log.changes} />
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-muted-foreground">Changes</h3>
+                  {revertableFields.length > 1 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-2"
+                      disabled={revertChange.isPending}
+                      onClick={() => handleRevert()}
+                    >
+                      <Undo2 className="h-4 w-4" />
+                      Revert all
+                    </Button>
+                  )}
+                </div>
+                {log.changes.summary && (
+                  <p className="text-sm text-muted-foreground">{log.changes.summary}</p>
+                )}
+                <AuditLogDiff
+                  changes={log.changes}
+                  revertableFields={revertableFields}
+                  onRevert={(field) => handleRevert([field])}
+                  isReverting={revertChange.isPending}
+                />
               </div>
             )}
 
-            {getBaseAction(log.action) === "create" && log.changes && (
+            {!hasFieldDiff && getBaseAction(log.action) === "create" && log.changes && (
               <div className="space-y-4">
                 <h3 className="text-sm font-semibold text-muted-foreground">Created Data</h3>
                 <div className="p-4 bg-muted/50 rounded-lg">
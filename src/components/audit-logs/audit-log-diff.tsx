@@ -3,11 +3,16 @@
 import { useState } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { ChevronDown, ChevronRight } from "lucide-react"
+import { ChevronDown, ChevronRight, Undo2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { getAuditDiff, type AuditFieldChange } from "@/lib/audit-diff"
 
 interface AuditLogDiffProps {
   changes: any
+  // Fields offered a revert button
+  revertableFields?: string[]
+  onRevert?: (field: string) => void
+  isReverting?: boolean
 }
 
 function formatValue(value: any): string {
@@ -71,7 +76,104 @@ function DiffItem({ field, value }: { field: string; value: any }) {
   )
 }
 
-export function AuditLogDiff({ changes }: AuditLogDiffProps) {
+// "pricePerNight" -> "Price Per Night"
+function formatFieldName(field: string): string {
+  return field
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/_/g, " ")
+    .replace(/\b\w/g, (l) => l.toUpperCase())
+}
+
+function DiffValue({ value, variant }: { value: unknown; variant: "before" | "after" }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const colors = variant === "before"
+    ? "bg-red-50 text-red-800 dark:bg-red-950/40 dark:text-red-300"
+    : "bg-green-50 text-green-800 dark:bg-green-950/40 dark:text-green-300"
+
+  if (!isComplexValue(value)) {
+    return (
+      <div className={cn("rounded px-2 py-1 text-sm break-all whitespace-pre-wrap", colors)}>
+        {value === null || value === "" ? <span className="italic opacity-60">empty</span> : formatValue(value)}
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("rounded px-2 py-1 text-sm", colors)}>
+      <button
+        type="button"
+        className="flex items-center gap-1"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        {formatValue(value)}
+      </button>
+      {isExpanded && (
+        <pre className="mt-2 text-xs overflow-x-auto">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+function FieldDiff({
+  changes,
+  revertableFields = [],
+  onRevert,
+  isReverting,
+}: Omit<AuditLogDiffProps, "changes"> & { changes: AuditFieldChange[] }) {
+  if (changes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground italic">
+        No field changed
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[160px_1fr_1fr_auto] gap-3 text-xs font-medium text-muted-foreground">
+        <span>Field</span>
+        <span>Before</span>
+        <span>After</span>
+        <span className="w-20" />
+      </div>
+      {changes.map((change) => (
+        <div
+          key={change.field}
+          className="grid grid-cols-[160px_1fr_1fr_auto] gap-3 items-start border-t pt-2"
+        >
+          <span className="text-sm font-medium">{formatFieldName(change.field)}</span>
+          <DiffValue value={change.before} variant="before" />
+          <DiffValue value={change.after} variant="after" />
+          <div className="w-20 flex justify-end">
+            {onRevert && revertableFields.includes(change.field) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 gap-1 px-2"
+                disabled={isReverting}
+                onClick={() => onRevert(change.field)}
+              >
+                <Undo2 className="h-3 w-3" />
+                Revert
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function AuditLogDiff({ changes, ...revertProps }: AuditLogDiffProps) {
+  // Structured entries: render before / after per field
+  const diff = getAuditDiff(changes)
+  if (diff) {
+    return <FieldDiff changes={diff} {...revertProps} />
+  }
+
   // If changes is an array (for properties API), extract the data object
   const changeData = Array.isArray(changes) && changes[0]?.data 
     ? changes[0].data 
@@ -142,6 +142,7 @@ export function AuditLogFiltersComponent({
                 <SelectItem value="room">Room</SelectItem>
                 <SelectItem value="photo">Photo</SelectItem>
                 <SelectItem value="resource">Resource</SelectItem>
+                <SelectItem value="user">User</SelectItem>
               </SelectContent>
             </Select>
           </div>
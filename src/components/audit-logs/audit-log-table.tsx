@@ -27,7 +27,7 @@ interface AuditLogTableProps {
   onPageChange: (page: number) => void
 }
 
-function UserCell({ userId }: { userId: string }) {
+export function UserCell({ userId }: { userId: string }) {
   const { data: user, isLoading } = useUser(userId)
 
   if (isLoading) {
@@ -7,10 +7,19 @@ import { useAuditLogs, AuditLogFilters } from "@/hooks/use-audit-logs"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Search, FilterX } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Search, FilterX, Download, FileJson, FileSpreadsheet } from "lucide-react"
 import { useSearchParams } from "next/navigation"
 import { motion } from "framer-motion"
 import { useDebounce } from "@/hooks/use-debounce"
+import { useExportAuditLogs } from "@/hooks/use-export-audit-logs"
+import { usePermissions } from "@/hooks/use-permissions"
+import { UserRole } from "@/types/auth"
 
 export function AuditLogsContent() {
   const searchParams = useSearchParams()
@@ -49,6 +58,8 @@ export function AuditLogsContent() {
   }, [filters])
   
   const { data, isLoading } = useAuditLogs(filters, page)
+  const { exportAuditLogs, isExporting } = useExportAuditLogs()
+  const { hasRole } = usePermissions()
 
   return (
     <div className="space-y-6 p-6">
@@ -64,6 +75,26 @@ export function AuditLogsContent() {
             View all changes and activities across your properties
           </p>
         </motion.div>
+        {hasRole(UserRole.ADMIN) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isExporting} className="gap-2">
+                <Download className="h-4 w-4" />
+                {isExporting ? "Exporting..." : "Export"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportAuditLogs("csv", filters)}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export as CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportAuditLogs("json", filters)}>
+                <FileJson className="h-4 w-4 mr-2" />
+                Export as JSON
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
       <motion.div 
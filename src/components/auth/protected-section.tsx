@@ -32,7 +32,7 @@ export function ProtectedSection({
   } else if (permission) {
     hasAccess = hasPermission(permission);
   } else if (roles) {
-    hasAccess = roles.includes(userRole);
+    hasAccess = roles.some(role => role === userRole);
   }
   
   if (!hasAccess) {
@@ -1,6 +1,12 @@
 "use client"
 
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Timer } from 'lucide-react'
 import { CustomCalendar } from './custom-calendar'
+import { useBookings } from '@/hooks/use-bookings'
+import { BookingStatus, BookingType } from '@/generated/prisma'
+import { cn } from '@/lib/utils'
 
 
 interface AvailabilityCalendarProps {
@@ -12,22 +18,92 @@ interface AvailabilityCalendarProps {
   view: 'month' | 'year'
 }
 
-export function AvailabilityCalendar({ 
-  propertyId, 
-  onDateSelect, 
+// Remaining time of an option, e.g. "2d 4h" or "35m"
+function formatRemaining(expiresAt: Date, now: Date): string | null {
+  const minutes = Math.floor((expiresAt.getTime() - now.getTime()) / 60000)
+  if (minutes <= 0) return null
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${minutes}m`
+}
+
+function OptionCountdowns({ propertyId }: { propertyId: string }) {
+  const [now, setNow] = useState(() => new Date())
+
+  const { data } = useBookings({
+    propertyId,
+    type: [BookingType.TENTATIVE],
+    status: [BookingStatus.PENDING, BookingStatus.CONFIRMED],
+    page: 1,
+    limit: 100,
+    sortBy: 'startDate',
+    sortOrder: 'asc',
+  })
+
+  // Refresh the countdowns every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const options = (data?.bookings ?? [])
+    .filter(booking => booking.optionExpiresAt)
+    .sort((a, b) => new Date(a.optionExpiresAt!).getTime() - new Date(b.optionExpiresAt!).getTime())
+
+  if (options.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2 rounded-lg border border-amber-200 bg-amber-50/50 p-3">
+      {options.map(booking => {
+        const expiresAt = new Date(booking.optionExpiresAt!)
+        const remaining = formatRemaining(expiresAt, now)
+        const urgent = !remaining || expiresAt.getTime() - now.getTime() < 24 * 60 * 60 * 1000
+
+        return (
+          <div
+            key={booking.id}
+            title={`Option expires ${format(expiresAt, 'MMM d, yyyy HH:mm')}`}
+            className={cn(
+              "flex items-center gap-2 rounded-md border bg-white px-2.5 py-1 text-xs",
+              urgent ? "border-red-200 text-red-700" : "border-amber-200 text-amber-800"
+            )}
+          >
+            <Timer className="h-3.5 w-3.5" />
+            <span className="font-medium">{booking.guestName || 'Option'}</span>
+            <span className="text-gray-500">
+              {format(new Date(booking.startDate), 'MMM d')} – {format(new Date(booking.endDate), 'MMM d')}
+            </span>
+            <span className="font-semibold tabular-nums">
+              {remaining ? `expires in ${remaining}` : 'expired, releasing'}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export function AvailabilityCalendar({
+  propertyId,
+  onDateSelect,
   onSlotSelect,
   currentDate,
   onDateChange,
   view
 }: AvailabilityCalendarProps) {
   return (
-    <CustomCalendar
-      propertyId={propertyId}
-      currentDate={currentDate}
-      onDateChange={onDateChange}
-      onDateSelect={onDateSelect}
-      onSlotSelect={onSlotSelect}
-      view={view}
-    />
+    <div className="space-y-3">
+      <OptionCountdowns propertyId={propertyId} />
+      <CustomCalendar
+        propertyId={propertyId}
+        currentDate={currentDate}
+        onDateChange={onDateChange}
+        onDateSelect={onDateSelect}
+        onSlotSelect={onSlotSelect}
+        view={view}
+      />
+    </div>
   )
-}
\ No newline at end of file
+}
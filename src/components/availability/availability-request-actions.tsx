@@ -19,6 +19,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { usePermissions } from "@/hooks/use-permissions"
 import { 
   MoreHorizontal, 
@@ -29,7 +31,9 @@ import {
 } from "lucide-react"
 import { toast } from "sonner"
 
-import { AvailabilityRequestStatus, AvailabilityRequestUrgency } from "@/generated/prisma"
+import { AvailabilityRequestStatus, AvailabilityRequestUrgency, BookingType } from "@/generated/prisma"
+
+export type ConfirmBookingType = typeof BookingType.TENTATIVE | typeof BookingType.CONFIRMED
 
 interface AvailabilityRequest {
   id: string
@@ -49,7 +53,7 @@ interface AvailabilityRequest {
 
 interface AvailabilityRequestActionsProps {
   request: AvailabilityRequest
-  onConfirm?: (request: AvailabilityRequest) => void
+  onConfirm?: (request: AvailabilityRequest, bookingType: ConfirmBookingType) => void
   onReject?: (request: AvailabilityRequest) => void
   onView?: (request: AvailabilityRequest) => void
 }
@@ -63,6 +67,7 @@ export function AvailabilityRequestActions({
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
   const [showRejectDialog, setShowRejectDialog] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [bookingType, setBookingType] = useState<ConfirmBookingType>(BookingType.TENTATIVE)
   const { canEditSection } = usePermissions()
 
   const canManageRequests = canEditSection('bookings')
@@ -78,7 +83,7 @@ export function AvailabilityRequestActions({
 
     setIsLoading(true)
     try {
-      await onConfirm(request)
+      await onConfirm(request, bookingType)
       setShowConfirmDialog(false)
       toast.success("Availability request confirmed successfully")
     } catch (error) {
@@ -160,7 +165,8 @@ export function AvailabilityRequestActions({
           <AlertDialogHeader>
             <AlertDialogTitle>Confirm Availability Request</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to confirm the availability request from <strong>{request.guestName}</strong>?
+              Confirming the availability request from <strong>{request.guestName}</strong> creates a booking
+              for these dates if they are still available.
               <br /><br />
               <strong>Dates:</strong> {request.startDate.toLocaleDateString()} - {request.endDate.toLocaleDateString()}
               <br />
@@ -173,6 +179,18 @@ export function AvailabilityRequestActions({
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-1">
+            <Label>Create booking as</Label>
+            <Select value={bookingType} onValueChange={(value) => setBookingType(value as ConfirmBookingType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BookingType.TENTATIVE}>Tentative (option)</SelectItem>
+                <SelectItem value={BookingType.CONFIRMED}>Confirmed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isLoading}>
               Cancel
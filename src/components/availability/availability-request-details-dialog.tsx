@@ -33,7 +33,9 @@ import {
   MapPin
 } from "lucide-react"
 import { format, formatDistanceToNow } from "date-fns"
-import { AvailabilityRequestStatus, AvailabilityRequestUrgency } from "@/generated/prisma"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AvailabilityRequestStatus, AvailabilityRequestUrgency, BookingType } from "@/generated/prisma"
+import type { ConfirmBookingType } from "./availability-request-actions"
 import { usePermissions } from "@/hooks/use-permissions"
 import { toast } from "sonner"
 
@@ -51,6 +53,7 @@ interface AvailabilityRequest {
   createdAt: Date
   urgency: AvailabilityRequestUrgency
   requestedBy: string
+  bookingId?: string | null
   property?: {
     id: string
     name: string
@@ -61,7 +64,7 @@ interface AvailabilityRequestDetailsDialogProps {
   request: AvailabilityRequest | null
   open: boolean
   onOpenChange: (open: boolean) => void
-  onConfirm?: (request: AvailabilityRequest) => Promise<void>
+  onConfirm?: (request: AvailabilityRequest, bookingType: ConfirmBookingType) => Promise<void>
   onReject?: (request: AvailabilityRequest) => Promise<void>
 }
 
@@ -73,6 +76,7 @@ export function AvailabilityRequestDetailsDialog({
   onReject
 }: AvailabilityRequestDetailsDialogProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const [bookingType, setBookingType] = useState<ConfirmBookingType>(BookingType.TENTATIVE)
   const { canEditSection } = usePermissions()
   
   const canManageRequests = canEditSection('bookings')
@@ -126,7 +130,7 @@ export function AvailabilityRequestDetailsDialog({
     
     setIsLoading(true)
     try {
-      await onConfirm(request)
+      await onConfirm(request, bookingType)
       toast.success("Availability request confirmed successfully")
       onOpenChange(false)
     } catch (error) {
@@ -179,6 +183,12 @@ export function AvailabilityRequestDetailsDialog({
                 >
                   {request.urgency} Priority
                 </Badge>
+                {request.bookingId && (
+                  <Badge variant="outline" className="bg-blue-100/80 text-blue-700 border-blue-200/50 font-medium">
+                    <Calendar className="h-3 w-3 mr-1" />
+                    Booking created
+                  </Badge>
+                )}
               </div>
               {request.property && (
                 <div className="flex items-center text-sm text-gray-600">
@@ -307,6 +317,15 @@ export function AvailabilityRequestDetailsDialog({
         {isPending && canManageRequests && (
           <div className="px-6 py-4 border-t bg-gray-50/50">
             <div className="flex justify-end space-x-3">
+              <Select value={bookingType} onValueChange={(value) => setBookingType(value as ConfirmBookingType)}>
+                <SelectTrigger className="w-[180px]" disabled={isLoading}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BookingType.TENTATIVE}>Tentative (option)</SelectItem>
+                  <SelectItem value={BookingType.CONFIRMED}>Confirmed</SelectItem>
+                </SelectContent>
+              </Select>
               <Button
                 variant="outline"
                 onClick={handleReject}
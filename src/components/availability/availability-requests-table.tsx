@@ -9,10 +9,14 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { GlassCard } from "@/components/ui/glass-card"
 import { DataTable } from "@/components/data-table/data-table"
-import { AvailabilityRequestActions } from "./availability-request-actions"
+import { AvailabilityRequestActions, type ConfirmBookingType } from "./availability-request-actions"
 import { CreateAvailabilityRequestDialog } from "./create-availability-request-dialog"
 import { AvailabilityRequestDetailsDialog } from "./availability-request-details-dialog"
-import { useAvailabilityRequests, useUpdateAvailabilityRequestStatus } from "@/hooks/use-availability-requests"
+import {
+  useAvailabilityRequests,
+  useUpdateAvailabilityRequestStatus,
+  useConvertAvailabilityRequest,
+} from "@/hooks/use-availability-requests"
 import { AvailabilityRequestStatus, AvailabilityRequestUrgency } from "@/generated/prisma"
 
 interface AvailabilityRequest {
@@ -29,6 +33,7 @@ interface AvailabilityRequest {
   createdAt: Date
   urgency: AvailabilityRequestUrgency
   requestedBy: string
+  bookingId?: string | null
   property?: {
     id: string
     name: string
@@ -54,12 +59,13 @@ export function AvailabilityRequestsTable({ propertyId }: AvailabilityRequestsTa
   })
 
   const updateStatusMutation = useUpdateAvailabilityRequestStatus()
+  const convertMutation = useConvertAvailabilityRequest()
   const requests = requestData?.requests || []
 
-  const handleConfirm = async (request: AvailabilityRequest) => {
-    await updateStatusMutation.mutateAsync({
+  const handleConfirm = async (request: AvailabilityRequest, bookingType: ConfirmBookingType) => {
+    await convertMutation.mutateAsync({
       id: request.id,
-      status: AvailabilityRequestStatus.CONFIRMED,
+      bookingType,
     })
   }
 
@@ -7,8 +7,11 @@ import { CalendarFullscreenModal } from './calendar-fullscreen-modal'
 import { CalendarLegend } from './calendar-legend'
 import { AvailabilityRequestsTable } from './availability-requests-table'
 import { BookingHistoryTable } from './booking-history-table'
+import { CalendarFeedDialog } from './calendar-feed-dialog'
+import { ExternalCalendarsDialog } from './external-calendars-dialog'
 import { Button } from "@/components/ui/button"
-import { ChevronLeft, ChevronRight, Plus, Maximize2 } from "lucide-react"
+import { ChevronLeft, ChevronRight, Plus, Maximize2, Rss, CalendarSync } from "lucide-react"
+import { usePermissions } from "@/hooks/use-permissions"
 import { format, subMonths, addMonths } from 'date-fns'
 import type { PropertyWithRelations } from "@/types"
 
@@ -26,6 +29,9 @@ export const AvailabilitySection = React.memo(function AvailabilitySection({ pro
   const [calendarView, setCalendarView] = React.useState<'month' | 'year'>('month')
   const [formState, setFormState] = React.useState<BookingFormState>({ isOpen: false })
   const [isFullscreenOpen, setIsFullscreenOpen] = React.useState(false)
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = React.useState(false)
+  const [isExternalCalendarsOpen, setIsExternalCalendarsOpen] = React.useState(false)
+  const { canEditSection } = usePermissions()
 
   // Navigation handlers
   const handlePrevious = () => {
@@ -109,6 +115,28 @@ export const AvailabilitySection = React.memo(function AvailabilitySection({ pro
             <Plus className="h-4 w-4 mr-1" />
             New Booking
           </Button>
+          {canEditSection('bookings') && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => setIsExternalCalendarsOpen(true)}
+                title="External calendars"
+              >
+                <CalendarSync className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => setIsFeedDialogOpen(true)}
+                title="iCal feed"
+              >
+                <Rss className="h-4 w-4" />
+              </Button>
+            </>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -166,6 +194,20 @@ export const AvailabilitySection = React.memo(function AvailabilitySection({ pro
         onSlotSelect={handleSlotSelect}
       />
 
+      <CalendarFeedDialog
+        isOpen={isFeedDialogOpen}
+        onClose={() => setIsFeedDialogOpen(false)}
+        propertyId={property.id}
+        propertyName={property.name}
+      />
+
+      <ExternalCalendarsDialog
+        isOpen={isExternalCalendarsOpen}
+        onClose={() => setIsExternalCalendarsOpen(false)}
+        propertyId={property.id}
+        propertyName={property.name}
+      />
+
       <div className="mt-6">
         <CalendarLegend />
       </div>
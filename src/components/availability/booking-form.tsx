@@ -19,6 +19,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -50,6 +51,7 @@ interface BookingFormProps {
     numberOfGuests?: number | null
     totalAmount?: number | null
     notes?: string | null
+    optionExpiresAt?: Date | null
   } // Optional booking for edit mode
 }
 
@@ -82,6 +84,7 @@ export const BookingForm = React.memo(function BookingForm({ isOpen, onClose, pr
       numberOfGuests: booking?.numberOfGuests || undefined,
       totalAmount: booking?.totalAmount || undefined,
       notes: booking?.notes || '',
+      optionExpiresAt: booking?.optionExpiresAt || null,
     },
   })
 
@@ -123,6 +126,7 @@ export const BookingForm = React.memo(function BookingForm({ isOpen, onClose, pr
         numberOfGuests: booking?.numberOfGuests || undefined,
         totalAmount: booking?.totalAmount || undefined,
         notes: booking?.notes || '',
+        optionExpiresAt: booking?.optionExpiresAt || null,
       })
     }
   }, [isOpen, dateRange?.start, dateRange?.end, booking, form])
@@ -202,6 +206,7 @@ export const BookingForm = React.memo(function BookingForm({ isOpen, onClose, pr
           numberOfGuests: data.numberOfGuests || null,
           totalAmount: data.totalAmount || null,
           notes: data.notes || null,
+          optionExpiresAt: data.type === BookingType.TENTATIVE ? data.optionExpiresAt || null : null,
         }
         await updateMutation.mutateAsync({ id: booking.id, data: updateData })
         toast.success('Booking updated successfully')
@@ -220,6 +225,7 @@ export const BookingForm = React.memo(function BookingForm({ isOpen, onClose, pr
           numberOfGuests: data.numberOfGuests || null,
           totalAmount: data.totalAmount || null,
           notes: data.notes || null,
+          optionExpiresAt: data.type === BookingType.TENTATIVE ? data.optionExpiresAt || null : null,
         }
         await createMutation.mutateAsync(createData)
         toast.success('Booking created successfully')
@@ -407,6 +413,29 @@ export const BookingForm = React.memo(function BookingForm({ isOpen, onClose, pr
               )}
             </div>
 
+            {bookingType === BookingType.TENTATIVE && (
+              <FormField
+                control={form.control}
+                name="optionExpiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Option Expires</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        value={field.value ? format(field.value, "yyyy-MM-dd'T'HH:mm") : ''}
+                        onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      The dates are released automatically after this time. Leave empty to hold them for a week.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {checkingAvailability && (
               <Alert>
                 <Loader2 className="h-4 w-4 animate-spin" />
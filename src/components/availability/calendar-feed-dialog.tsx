@@ -0,0 +1,130 @@
+"use client"
+
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { Copy, Link2, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import {
+  useCalendarFeed,
+  useRegenerateCalendarFeed,
+  useRevokeCalendarFeed,
+} from "@/hooks/use-bookings"
+
+interface CalendarFeedDialogProps {
+  propertyId: string
+  propertyName: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function CalendarFeedDialog({
+  propertyId,
+  propertyName,
+  isOpen,
+  onClose,
+}: CalendarFeedDialogProps) {
+  const { data: feed, isLoading } = useCalendarFeed(propertyId, isOpen)
+  const regenerateMutation = useRegenerateCalendarFeed()
+  const revokeMutation = useRevokeCalendarFeed()
+
+  const feedUrl = useMemo(() => {
+    if (!feed?.token || typeof window === 'undefined') return null
+    return `${window.location.origin}/api/properties/${propertyId}/calendar.ics?token=${feed.token}`
+  }, [feed?.token, propertyId])
+
+  const isMutating = regenerateMutation.isPending || revokeMutation.isPending
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      toast.success("Feed link copied to clipboard")
+    } catch {
+      toast.error("Failed to copy link")
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>iCal feed</DialogTitle>
+          <DialogDescription>
+            Share a read-only calendar of {propertyName} with owners, concierges or channel partners.
+            Guest names and contact details are never included.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : feedUrl ? (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Input value={feedUrl} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="sm" onClick={handleCopy} className="h-9 shrink-0">
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+            </div>
+            {feed?.createdAt && (
+              <p className="text-xs text-gray-500">
+                Link created on {format(new Date(feed.createdAt), 'MMM d, yyyy HH:mm')}.
+                Regenerating or revoking it immediately disables the current link.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="rounded-md border border-dashed p-6 text-center text-sm text-gray-500">
+            <Link2 className="h-6 w-6 mx-auto mb-2 text-gray-300" />
+            No feed link is active for this property.
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {feedUrl ? (
+            <Button
+              variant="outline"
+              onClick={() => revokeMutation.mutate(propertyId)}
+              disabled={isMutating}
+              className="text-red-600 hover:text-red-700"
+            >
+              {revokeMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="mr-2 h-4 w-4" />
+              )}
+              Revoke link
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button
+            onClick={() => regenerateMutation.mutate(propertyId)}
+            disabled={isMutating || isLoading}
+            className="bg-[#B5985A] hover:bg-[#B5985A]/90 text-white"
+          >
+            {regenerateMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            {feedUrl ? 'Regenerate link' : 'Generate link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
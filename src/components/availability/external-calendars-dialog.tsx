@@ -0,0 +1,247 @@
+"use client"
+
+import { useRef, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { AlertCircle, CheckCircle2, Loader2, Plus, RefreshCw, Trash2, Upload } from 'lucide-react'
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog"
+import {
+  useExternalCalendars,
+  useCreateExternalCalendar,
+  useSyncExternalCalendar,
+  useUploadExternalCalendarFile,
+  useDeleteExternalCalendar,
+} from "@/hooks/use-external-calendars"
+import { formatBookingDisplay } from "@/lib/validations/booking"
+import { BookingType } from "@/generated/prisma"
+
+interface ExternalCalendarsDialogProps {
+  propertyId: string
+  propertyName: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Imported channel events carry no guest data, so only non-guest types make sense
+const IMPORTABLE_BOOKING_TYPES = [
+  BookingType.BLOCKED,
+  BookingType.OWNER_STAY,
+  BookingType.MAINTENANCE,
+] as const
+
+export function ExternalCalendarsDialog({
+  propertyId,
+  propertyName,
+  isOpen,
+  onClose,
+}: ExternalCalendarsDialogProps) {
+  const { data: calendars = [], isLoading } = useExternalCalendars(propertyId, isOpen)
+  const createMutation = useCreateExternalCalendar()
+  const syncMutation = useSyncExternalCalendar()
+  const uploadMutation = useUploadExternalCalendarFile()
+  const deleteMutation = useDeleteExternalCalendar()
+
+  const [name, setName] = useState('')
+  const [url, setUrl] = useState('')
+  const [bookingType, setBookingType] = useState<BookingType>(BookingType.BLOCKED)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [uploadTargetId, setUploadTargetId] = useState<string | null>(null)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await createMutation.mutateAsync({
+        propertyId,
+        name: name.trim(),
+        url: url.trim() || null,
+        bookingType,
+      })
+      setName('')
+      setUrl('')
+      setBookingType(BookingType.BLOCKED)
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  }
+
+  const handleUploadClick = (calendarId: string) => {
+    setUploadTargetId(calendarId)
+    fileInputRef.current?.click()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !uploadTargetId) return
+
+    const content = await file.text()
+    uploadMutation.mutate({ calendarId: uploadTargetId, content })
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>External calendars</DialogTitle>
+          <DialogDescription>
+            Import blocks from other platforms listing {propertyName}. Calendars with a URL are re-synced
+            every hour; moved events are updated and removed ones are cancelled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : calendars.length === 0 ? (
+          <div className="rounded-md border border-dashed p-6 text-center text-sm text-gray-500">
+            No external calendar registered yet.
+          </div>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {calendars.map((calendar) => (
+              <div key={calendar.id} className="flex items-start justify-between gap-4 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{calendar.name}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {formatBookingDisplay({ type: calendar.bookingType })}
+                    </Badge>
+                    <span className="text-xs text-gray-500">{calendar._count.bookings} bookings</span>
+                  </div>
+                  <p className="truncate text-xs text-gray-500 font-mono">
+                    {calendar.url || 'File upload'}
+                  </p>
+                  {calendar.lastSyncedAt && (
+                    <p className="flex items-center gap-1 text-xs">
+                      {calendar.lastSyncStatus === 'error' ? (
+                        <>
+                          <AlertCircle className="h-3 w-3 text-red-500" />
+                          <span className="text-red-600">{calendar.lastSyncError}</span>
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle2 className="h-3 w-3 text-green-600" />
+                          <span className="text-gray-500">
+                            Synced {formatDistanceToNow(new Date(calendar.lastSyncedAt), { addSuffix: true })}
+                          </span>
+                        </>
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {calendar.url && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Sync now"
+                      disabled={syncMutation.isPending}
+                      onClick={() => syncMutation.mutate(calendar.id)}
+                    >
+                      <RefreshCw className={syncMutation.isPending && syncMutation.variables === calendar.id ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title="Upload .ics file"
+                    disabled={uploadMutation.isPending}
+                    onClick={() => handleUploadClick(calendar.id)}
+                  >
+                    <Upload className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                    title="Remove calendar"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(calendar.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3 rounded-md border bg-gray-50 p-4">
+          <h3 className="text-sm font-medium text-gray-900">Add a calendar</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="external-calendar-name">Name</Label>
+              <Input
+                id="external-calendar-name"
+                placeholder="e.g. Airbnb"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Imported as</Label>
+              <Select value={bookingType} onValueChange={(value) => setBookingType(value as BookingType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORTABLE_BOOKING_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {formatBookingDisplay({ type })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="external-calendar-url">iCal URL (leave empty to upload files)</Label>
+            <Input
+              id="external-calendar-url"
+              placeholder="https://www.example.com/calendar/ical/123.ics"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || !name.trim()}
+              className="bg-[#B5985A] hover:bg-[#B5985A]/90 text-white"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add calendar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -21,9 +21,12 @@ import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Separator } from "@/components/ui/separator"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { useContact } from "@/hooks/use-contacts"
+import { useContact, useContactBookingHistory } from "@/hooks/use-contacts"
 import { CONTACT_CATEGORIES, PROPERTY_RELATIONSHIPS } from "@/types/contact"
-import { formatDistanceToNow } from "date-fns"
+import { BOOKING_TYPE_COLORS } from "@/lib/validations/booking"
+import { formatCurrency } from "@/lib/finance"
+import { cn } from "@/lib/utils"
+import { format, formatDistanceToNow } from "date-fns"
 import { 
   Mail, 
   Phone, 
@@ -36,7 +39,8 @@ import {
   User,
   Building,
   Users,
-  Archive
+  Archive,
+  BedDouble
 } from "lucide-react"
 import { EditContactDialog } from "./edit-contact-dialog"
 import { LinkPropertyDialog } from "./link-property-dialog"
@@ -54,6 +58,7 @@ export function ContactDetailDialog({
 }: ContactDetailDialogProps) {
   const router = useRouter()
   const { data: contact, isLoading } = useContact(contactId)
+  const { data: history, isLoading: historyLoading } = useContactBookingHistory(contactId, open)
   const [showEditDialog, setShowEditDialog] = useState(false)
   const [showLinkDialog, setShowLinkDialog] = useState(false)
 
@@ -179,6 +184,111 @@ export function ContactDetailDialog({
                   </Card>
                 )}
 
+                {(contact.category === 'CLIENT' || (history && history.stays.length > 0)) && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm">Stay History</CardTitle>
+                      <CardDescription>Bookings linked to this client</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {historyLoading ? (
+                        <Skeleton className="h-24 w-full" />
+                      ) : history && history.stays.length > 0 ? (
+                        <>
+                          <div className="grid grid-cols-3 gap-3">
+                            <div className="rounded-lg border p-3">
+                              <p className="text-xs text-muted-foreground">Stays</p>
+                              <p className="text-lg font-semibold">{history.totalStays}</p>
+                              {history.upcomingStays > 0 && (
+                                <p className="text-xs text-muted-foreground">{history.upcomingStays} upcoming</p>
+                              )}
+                            </div>
+                            <div className="rounded-lg border p-3">
+                              <p className="text-xs text-muted-foreground">Nights</p>
+                              <p className="text-lg font-semibold">{history.totalNights}</p>
+                            </div>
+                            <div className="rounded-lg border p-3">
+                              <p className="text-xs text-muted-foreground">Total spend</p>
+                              {history.totalSpend.length > 0 ? (
+                                history.totalSpend.map(spend => (
+                                  <p key={spend.currency} className="text-lg font-semibold">
+                                    {formatCurrency(spend.amount, spend.currency)}
+                                  </p>
+                                ))
+                              ) : (
+                                <p className="text-lg font-semibold">—</p>
+                              )}
+                            </div>
+                          </div>
+
+                          {history.pendingRequests > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {history.pendingRequests} pending availability request{history.pendingRequests === 1 ? '' : 's'}
+                            </p>
+                          )}
+
+                          <div className="flex flex-wrap gap-2">
+                            {history.properties.map(property => (
+                              <Badge
+                                key={property.propertyId}
+                                variant="outline"
+                                className="cursor-pointer"
+                                onClick={() => {
+                                  router.push(`/houses/${property.propertyId}`)
+                                  onOpenChange(false)
+                                }}
+                              >
+                                <Home className="h-3 w-3 mr-1" />
+                                {property.propertyName} · {property.stays} stay{property.stays === 1 ? '' : 's'}
+                              </Badge>
+                            ))}
+                          </div>
+
+                          <div className="space-y-2">
+                            {history.stays.map(stay => (
+                              <div
+                                key={stay.id}
+                                className={cn(
+                                  "flex items-center justify-between p-3 rounded-lg border text-sm",
+                                  stay.status === 'CANCELLED' && "opacity-60"
+                                )}
+                              >
+                                <div className="flex items-center gap-3">
+                                  <BedDouble className="h-4 w-4 text-muted-foreground" />
+                                  <div>
+                                    <p className="font-medium">{stay.propertyName}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {format(new Date(stay.startDate), 'MMM d, yyyy')} – {format(new Date(stay.endDate), 'MMM d, yyyy')}
+                                      {' · '}
+                                      {stay.nights} night{stay.nights === 1 ? '' : 's'}
+                                      {stay.numberOfGuests ? ` · ${stay.numberOfGuests} guests` : ''}
+                                    </p>
+                                  </div>
+                                </div>
+                                <div className="flex flex-col items-end gap-1">
+                                  <Badge variant="outline" className={cn("text-xs", BOOKING_TYPE_COLORS[stay.type].border, BOOKING_TYPE_COLORS[stay.type].text)}>
+                                    {stay.status === 'CANCELLED' ? 'Cancelled' : stay.type.charAt(0) + stay.type.slice(1).toLowerCase()}
+                                  </Badge>
+                                  {stay.totalAmount != null && (
+                                    <span className="text-xs tabular-nums">
+                                      {formatCurrency(stay.totalAmount, stay.currency)}
+                                    </span>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-center py-6 text-muted-foreground text-sm">
+                          <BedDouble className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                          <p>No stays yet</p>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader className="flex flex-row items-center justify-between">
                     <CardTitle className="text-sm">
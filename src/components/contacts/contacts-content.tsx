@@ -11,11 +11,12 @@ import { ContactDetailDialog } from "@/components/contacts/contact-detail-dialog
 import { LinkPropertyDialog } from "@/components/contacts/link-property-dialog"
 import { ExportContactsDialog } from "@/components/contacts/export-contacts-dialog"
 import { ImportContactsDialog } from "@/components/contacts/import-contacts-dialog"
+import { DuplicateContactsDialog } from "@/components/contacts/duplicate-contacts-dialog"
 import { useContacts, useBulkDeleteContacts } from "@/hooks/use-contacts"
 import { ContactFilters as IContactFilters, ContactListItem } from "@/types/contact"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
-import { Search, FilterX, Download, Upload, Plus, Trash2 } from "lucide-react"
+import { Search, FilterX, Download, Upload, Plus, Trash2, Users } from "lucide-react"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Button } from "@/components/ui/button"
 import { useDebounce } from "@/hooks/use-debounce"
@@ -238,6 +239,12 @@ export function ContactsContent() {
                   Import Contacts
                 </DropdownMenuItem>
               </ImportContactsDialog>
+              <DuplicateContactsDialog>
+                <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                  <Users className="mr-2 h-4 w-4" />
+                  Find Duplicates
+                </DropdownMenuItem>
+              </DuplicateContactsDialog>
             </DropdownMenuContent>
           </DropdownMenu>
           
@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { Users, Mail, Phone, RefreshCw } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useDuplicateContacts } from "@/hooks/use-contacts"
+import { DUPLICATE_REASON_LABELS } from "@/lib/contact-duplicates"
+import type { DuplicateContactPair, DuplicateContactSummary } from "@/types/contact"
+import { MergeContactsDialog } from "./merge-contacts-dialog"
+
+interface DuplicateContactsDialogProps {
+  children?: React.ReactNode
+}
+
+function ContactSummary({ contact }: { contact: DuplicateContactSummary }) {
+  return (
+    <div className="min-w-0 space-y-1">
+      <div className="font-medium truncate">{contact.firstName} {contact.lastName}</div>
+      {contact.email && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+          <Mail className="h-3 w-3 shrink-0" />
+          {contact.email}
+        </div>
+      )}
+      {contact.phone && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Phone className="h-3 w-3 shrink-0" />
+          {contact.phone}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function DuplicateContactsDialog({ children }: DuplicateContactsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [reviewing, setReviewing] = useState<DuplicateContactPair | null>(null)
+  const { data: pairs, isLoading, isFetching, refetch } = useDuplicateContacts(open)
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          {children || (
+            <Button variant="outline" className="gap-2">
+              <Users className="h-4 w-4" />
+              Find Duplicates
+            </Button>
+          )}
+        </DialogTrigger>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Duplicate Contacts</DialogTitle>
+            <DialogDescription>
+              Contacts matched on phone number, email and similar names. Review a pair to merge it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              {isLoading ? "Searching..." : `${pairs?.length ?? 0} possible duplicate${pairs?.length === 1 ? "" : "s"}`}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isFetching} className="gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+
+          <ScrollArea className="max-h-[60vh] pr-4">
+            {isLoading ? (
+              <div className="space-y-3">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton key={i} className="h-20 w-full" />
+                ))}
+              </div>
+            ) : !pairs?.length ? (
+              <div className="py-8 text-center text-sm text-muted-foreground">
+                No duplicate contacts found
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {pairs.map(pair => (
+                  <div key={`${pair.a.id}:${pair.b.id}`} className="rounded-md border p-3 space-y-2">
+                    <div className="grid grid-cols-[1fr_1fr_auto] gap-4 items-start">
+                      <ContactSummary contact={pair.a} />
+                      <ContactSummary contact={pair.b} />
+                      <Button size="sm" onClick={() => setReviewing(pair)}>
+                        Review
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary">{pair.score}% match</Badge>
+                      {pair.reasons.map(reason => (
+                        <Badge key={reason} variant="outline">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <MergeContactsDialog
+        pair={reviewing}
+        open={!!reviewing}
+        onOpenChange={(isOpen) => !isOpen && setReviewing(null)}
+      />
+    </>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { ArrowLeftRight, GitMerge, Home, BedDouble } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useMergeContacts } from "@/hooks/use-contacts"
+import {
+  CONTACT_CATEGORIES,
+  MERGEABLE_CONTACT_FIELDS,
+  type DuplicateContactPair,
+  type DuplicateContactSummary,
+  type MergeableContactField,
+} from "@/types/contact"
+import { DUPLICATE_REASON_LABELS } from "@/lib/contact-duplicates"
+import { cn } from "@/lib/utils"
+
+type Side = "survivor" | "duplicate"
+
+const FIELD_LABELS: Record<MergeableContactField, string> = {
+  firstName: "First Name",
+  lastName: "Last Name",
+  email: "Email",
+  phone: "Phone",
+  language: "Language",
+  category: "Category",
+  comments: "Comments",
+}
+
+const formatValue = (contact: DuplicateContactSummary, field: MergeableContactField) => {
+  if (field === "category") return CONTACT_CATEGORIES[contact.category].label
+  return contact[field] || "—"
+}
+
+// Fills the survivor's empty fields from the duplicate by default
+const defaultWinners = (survivor: DuplicateContactSummary, duplicate: DuplicateContactSummary) =>
+  Object.fromEntries(
+    MERGEABLE_CONTACT_FIELDS.map(field => [
+      field,
+      !survivor[field] && duplicate[field] ? "duplicate" : "survivor",
+    ])
+  ) as Record<MergeableContactField, Side>
+
+interface MergeContactsDialogProps {
+  pair: DuplicateContactPair | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function MergeContactsDialog({ pair, open, onOpenChange }: MergeContactsDialogProps) {
+  const mergeContacts = useMergeContacts()
+  // The older contact survives by default, it usually carries the history
+  const [swapped, setSwapped] = useState(false)
+  const [winners, setWinners] = useState<Record<MergeableContactField, Side> | null>(null)
+
+  const survivor = pair ? (swapped ? pair.b : pair.a) : null
+  const duplicate = pair ? (swapped ? pair.a : pair.b) : null
+
+  useEffect(() => {
+    if (pair) setSwapped(new Date(pair.b.createdAt) < new Date(pair.a.createdAt))
+  }, [pair])
+
+  useEffect(() => {
+    if (survivor && duplicate) setWinners(defaultWinners(survivor, duplicate))
+  }, [survivor?.id, duplicate?.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!pair || !survivor || !duplicate || !winners) return null
+
+  const handleMerge = async () => {
+    await mergeContacts.mutateAsync({
+      survivorId: survivor.id,
+      duplicateId: duplicate.id,
+      fields: winners,
+    })
+    onOpenChange(false)
+  }
+
+  const renderHeader = (contact: DuplicateContactSummary, side: Side) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">{contact.firstName} {contact.lastName}</span>
+        <Badge variant={side === "survivor" ? "default" : "outline"}>
+          {side === "survivor" ? "Keep" : "Merge & delete"}
+        </Badge>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Created {format(new Date(contact.createdAt), "MMM d, yyyy")}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Home className="h-3 w-3" />
+          {contact.linkedProperties.length} propert{contact.linkedProperties.length === 1 ? "y" : "ies"}
+        </span>
+        <span className="flex items-center gap-1">
+          <BedDouble className="h-3 w-3" />
+          {contact.bookingCount} booking{contact.bookingCount === 1 ? "" : "s"}
+        </span>
+      </div>
+      {contact.linkedProperties.length > 0 && (
+        <div className="text-xs text-muted-foreground truncate">
+          {contact.linkedProperties.join(", ")}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Contacts
+          </DialogTitle>
+          <DialogDescription>
+            Pick the value to keep for each field. Property links, bookings and availability
+            requests move to the kept contact and the other one is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{pair.score}% match</Badge>
+          {pair.reasons.map(reason => (
+            <Badge key={reason} variant="outline">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+          ))}
+        </div>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="grid grid-cols-[140px_1fr_1fr] gap-x-4 gap-y-3 items-start">
+            <div />
+            {renderHeader(survivor, "survivor")}
+            {renderHeader(duplicate, "duplicate")}
+
+            {MERGEABLE_CONTACT_FIELDS.map(field => (
+              <RadioGroup
+                key={field}
+                value={winners[field]}
+                onValueChange={(value) => setWinners({ ...winners, [field]: value as Side })}
+                className="col-span-3 grid grid-cols-[140px_1fr_1fr] gap-x-4 border-t pt-3"
+              >
+                <div className="text-sm font-medium">{FIELD_LABELS[field]}</div>
+                {(["survivor", "duplicate"] as const).map(side => {
+                  const contact = side === "survivor" ? survivor : duplicate
+                  const id = `merge-${field}-${side}`
+                  return (
+                    <div key={side} className="flex items-start gap-2">
+                      <RadioGroupItem value={side} id={id} className="mt-0.5" />
+                      <Label
+                        htmlFor={id}
+                        className={cn(
+                          "font-normal break-all whitespace-pre-wrap",
+                          winners[field] !== side && "text-muted-foreground"
+                        )}
+                      >
+                        {formatValue(contact, field)}
+                      </Label>
+                    </div>
+                  )
+                })}
+              </RadioGroup>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="outline" onClick={() => setSwapped(!swapped)} className="gap-2">
+            <ArrowLeftRight className="h-4 w-4" />
+            Keep the other contact
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={mergeContacts.isPending} className="gap-2">
+              <GitMerge className="h-4 w-4" />
+              {mergeContacts.isPending ? "Merging..." : "Merge Contacts"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -25,6 +25,7 @@ import {
 import { EquipmentRequest, EquipmentRequestStatus, EquipmentRequestPriority } from "@/types/equipment-request"
 import { EquipmentRequestItemsTable } from "./equipment-request-items-table"
 import { EquipmentRequestStatusActions } from "./equipment-request-status-actions"
+import { EquipmentRequestStatusHistory } from "./equipment-request-status-history"
 import { DeleteEquipmentRequestDialog } from "./delete-equipment-request-dialog"
 import { usePermissions } from "@/hooks/use-permissions"
 import { Permission } from "@/types/auth"
@@ -196,33 +197,31 @@ export function EquipmentRequestDetail({ request }: EquipmentRequestDetailProps)
           </div>
         </div>
 
-        {(request.approvedAt || request.completedAt) && (
+        {(request.supplier || request.orderReference) && (
           <>
             <Separator />
-            <div className="space-y-3">
-              <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-                <Clock className="h-4 w-4" />
-                Timeline
-              </h3>
-              <div className="space-y-2">
-                {request.approvedAt && (
-                  <div className="flex items-center gap-2 text-sm">
-                    <CheckCircle className="h-4 w-4 text-green-600" />
-                    <span className="text-muted-foreground">Approved on</span>
-                    <span className="font-medium">{format(new Date(request.approvedAt), "PPP")}</span>
-                  </div>
-                )}
-                {request.completedAt && (
-                  <div className="flex items-center gap-2 text-sm">
-                    <Truck className="h-4 w-4 text-blue-600" />
-                    <span className="text-muted-foreground">Delivered on</span>
-                    <span className="font-medium">{format(new Date(request.completedAt), "PPP")}</span>
-                  </div>
-                )}
+            <div className="flex items-start gap-3">
+              <Truck className="h-5 w-5 text-muted-foreground mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Order</p>
+                <p className="text-base">
+                  {request.supplier}
+                  {request.orderReference && ` · Ref. ${request.orderReference}`}
+                  {request.orderedAt && ` · ${format(new Date(request.orderedAt), "PPP")}`}
+                </p>
               </div>
             </div>
           </>
         )}
+
+        <Separator />
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Status History
+          </h3>
+          <EquipmentRequestStatusHistory history={request.statusHistory} />
+        </div>
       </Card>
 
       <Card className="p-6 space-y-4">
@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
+import { format } from "date-fns"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,6 +20,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
@@ -26,74 +28,117 @@ import { MoreVertical, CheckCircle, XCircle, Package, Truck, Ban } from "lucide-
 import { EquipmentRequest, EquipmentRequestStatus } from "@/types/equipment-request"
 import { updateEquipmentRequestStatus } from "@/actions/equipment-requests"
 import { usePermissions } from "@/hooks/use-permissions"
-import { Permission } from "@/types/auth"
+import {
+  getAllowedTransitions,
+  getMissingTransitionFields,
+  type EquipmentRequestTransition,
+} from "@/lib/equipment-request-workflow"
 
 interface EquipmentRequestStatusActionsProps {
   request: EquipmentRequest
 }
 
+// How each target status is offered in the menu and the confirmation dialog
+const STATUS_ACTIONS: Partial<Record<EquipmentRequestStatus, {
+  label: string
+  title: string
+  description: string
+  icon: typeof CheckCircle
+}>> = {
+  APPROVED: {
+    label: "Approve",
+    title: "Approve Equipment Request",
+    description: "Are you sure you want to approve this equipment request?",
+    icon: CheckCircle,
+  },
+  REJECTED: {
+    label: "Reject",
+    title: "Reject Equipment Request",
+    description: "Please provide a reason for rejecting this request.",
+    icon: XCircle,
+  },
+  ORDERED: {
+    label: "Mark as Ordered",
+    title: "Mark as Ordered",
+    description: "Record where the equipment was ordered.",
+    icon: Package,
+  },
+  DELIVERED: {
+    label: "Mark as Delivered",
+    title: "Mark as Delivered",
+    description: "Record when the equipment was delivered.",
+    icon: Truck,
+  },
+  CANCELLED: {
+    label: "Cancel",
+    title: "Cancel Equipment Request",
+    description: "Are you sure you want to cancel this equipment request?",
+    icon: Ban,
+  },
+}
+
+const today = () => format(new Date(), "yyyy-MM-dd")
+
 export function EquipmentRequestStatusActions({ request }: EquipmentRequestStatusActionsProps) {
   const router = useRouter()
   const { hasPermission } = usePermissions()
   const [isLoading, setIsLoading] = useState(false)
-  const [dialogOpen, setDialogOpen] = useState(false)
-  const [dialogType, setDialogType] = useState<"approve" | "reject" | "cancel" | null>(null)
+  const [transition, setTransition] = useState<EquipmentRequestTransition | null>(null)
   const [rejectedReason, setRejectedReason] = useState("")
+  const [supplier, setSupplier] = useState("")
+  const [orderReference, setOrderReference] = useState("")
+  const [deliveryDate, setDeliveryDate] = useState(today)
+  const [note, setNote] = useState("")
   const [internalNotes, setInternalNotes] = useState("")
 
-  const canApprove = hasPermission(Permission.EQUIPMENT_REQUEST_APPROVE) && request.status === "PENDING"
-  const canUpdateStatus = hasPermission(Permission.EQUIPMENT_REQUEST_EDIT)
-  
-  // Define available actions based on current status and permissions
-  const getAvailableActions = () => {
-    const actions = []
-
-    switch (request.status) {
-      case "PENDING":
-        if (canApprove) {
-          actions.push({ type: "approve" as const, label: "Approve", icon: CheckCircle })
-          actions.push({ type: "reject" as const, label: "Reject", icon: XCircle })
-        }
-        if (canUpdateStatus) {
-          actions.push({ type: "cancel" as const, label: "Cancel", icon: Ban })
-        }
-        break
-      case "APPROVED":
-        if (canUpdateStatus) {
-          actions.push({ type: "order" as const, label: "Mark as Ordered", icon: Package })
-        }
-        break
-      case "ORDERED":
-        if (canUpdateStatus) {
-          actions.push({ type: "deliver" as const, label: "Mark as Delivered", icon: Truck })
-        }
-        break
-    }
+  // Transitions allowed from the current status that the user may perform
+  const availableTransitions = getAllowedTransitions(request.status).filter(
+    (allowed) => hasPermission(allowed.permission) && STATUS_ACTIONS[allowed.to]
+  )
 
-    return actions
+  if (availableTransitions.length === 0) {
+    return null
   }
 
-  const availableActions = getAvailableActions()
+  const values = {
+    rejectedReason,
+    supplier,
+    orderReference,
+    deliveryDate: deliveryDate ? new Date(`${deliveryDate}T12:00:00`) : undefined,
+  }
+  const missingFields = transition ? getMissingTransitionFields(transition, values) : []
+  const config = transition ? STATUS_ACTIONS[transition.to] : undefined
 
-  if (availableActions.length === 0) {
-    return null
+  const resetForm = () => {
+    setRejectedReason("")
+    setSupplier("")
+    setOrderReference("")
+    setDeliveryDate(today())
+    setNote("")
+    setInternalNotes("")
   }
 
-  const handleStatusUpdate = async (status: EquipmentRequestStatus, reason?: string) => {
+  const handleStatusUpdate = async () => {
+    if (!transition) return
     setIsLoading(true)
-    
+
     try {
-      await updateEquipmentRequestStatus(request.id, {
-        status,
-        rejectedReason: reason,
+      const result = await updateEquipmentRequestStatus(request.id, {
+        status: transition.to,
+        ...values,
+        note: note || undefined,
         internalNotes: internalNotes || undefined,
       })
-      
-      toast.success(`Request ${status.toLowerCase().replace('_', ' ')} successfully`)
+
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+
+      toast.success(`Request ${transition.to.toLowerCase().replace('_', ' ')} successfully`)
       router.refresh()
-      setDialogOpen(false)
-      setRejectedReason("")
-      setInternalNotes("")
+      setTransition(null)
+      resetForm()
     } catch {
       toast.error("Failed to update request status")
     } finally {
@@ -101,27 +146,6 @@ export function EquipmentRequestStatusActions({ request }: EquipmentRequestStatu
     }
   }
 
-  const openDialog = (type: "approve" | "reject" | "cancel") => {
-    setDialogType(type)
-    setDialogOpen(true)
-  }
-
-  const handleAction = (type: string) => {
-    switch (type) {
-      case "approve":
-      case "reject":
-      case "cancel":
-        openDialog(type as "approve" | "reject" | "cancel")
-        break
-      case "order":
-        handleStatusUpdate("ORDERED")
-        break
-      case "deliver":
-        handleStatusUpdate("DELIVERED")
-        break
-    }
-  }
-
   return (
     <>
       <DropdownMenu>
@@ -134,12 +158,13 @@ export function EquipmentRequestStatusActions({ request }: EquipmentRequestStatu
         <DropdownMenuContent align="end">
           <DropdownMenuLabel>Status Actions</DropdownMenuLabel>
           <DropdownMenuSeparator />
-          {availableActions.map((action) => {
+          {availableTransitions.map((available) => {
+            const action = STATUS_ACTIONS[available.to]!
             const Icon = action.icon
             return (
               <DropdownMenuItem
-                key={action.type}
-                onClick={() => handleAction(action.type)}
+                key={available.to}
+                onClick={() => setTransition(available)}
                 className="gap-2"
               >
                 <Icon className="h-4 w-4" />
@@ -150,23 +175,15 @@ export function EquipmentRequestStatusActions({ request }: EquipmentRequestStatu
         </DropdownMenuContent>
       </DropdownMenu>
 
-      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+      <Dialog open={!!transition} onOpenChange={(open) => !open && setTransition(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>
-              {dialogType === "approve" && "Approve Equipment Request"}
-              {dialogType === "reject" && "Reject Equipment Request"}
-              {dialogType === "cancel" && "Cancel Equipment Request"}
-            </DialogTitle>
-            <DialogDescription>
-              {dialogType === "approve" && "Are you sure you want to approve this equipment request?"}
-              {dialogType === "reject" && "Please provide a reason for rejecting this request."}
-              {dialogType === "cancel" && "Are you sure you want to cancel this equipment request?"}
-            </DialogDescription>
+            <DialogTitle>{config?.title}</DialogTitle>
+            <DialogDescription>{config?.description}</DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 py-4">
-            {dialogType === "reject" && (
+            {transition?.requiredFields.includes("rejectedReason") && (
               <div className="space-y-2">
                 <Label htmlFor="reason">Rejection Reason *</Label>
                 <Textarea
@@ -179,6 +196,54 @@ export function EquipmentRequestStatusActions({ request }: EquipmentRequestStatu
               </div>
             )}
 
+            {transition?.requiredFields.includes("supplier") && (
+              <div className="space-y-2">
+                <Label htmlFor="supplier">Supplier *</Label>
+                <Input
+                  id="supplier"
+                  value={supplier}
+                  onChange={(e) => setSupplier(e.target.value)}
+                  placeholder="e.g. Amazon, local hardware store..."
+                />
+              </div>
+            )}
+
+            {transition?.requiredFields.includes("orderReference") && (
+              <div className="space-y-2">
+                <Label htmlFor="orderReference">Order Reference *</Label>
+                <Input
+                  id="orderReference"
+                  value={orderReference}
+                  onChange={(e) => setOrderReference(e.target.value)}
+                  placeholder="Order or invoice number"
+                />
+              </div>
+            )}
+
+            {transition?.requiredFields.includes("deliveryDate") && (
+              <div className="space-y-2">
+                <Label htmlFor="deliveryDate">Delivery Date *</Label>
+                <Input
+                  id="deliveryDate"
+                  type="date"
+                  value={deliveryDate}
+                  max={today()}
+                  onChange={(e) => setDeliveryDate(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="note">Comment (Optional)</Label>
+              <Textarea
+                id="note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Shown in the request history..."
+                className="min-h-[60px]"
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="notes">Internal Notes (Optional)</Label>
               <Textarea
@@ -194,26 +259,14 @@ export function EquipmentRequestStatusActions({ request }: EquipmentRequestStatu
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => setDialogOpen(false)}
+              onClick={() => setTransition(null)}
               disabled={isLoading}
             >
               Cancel
             </Button>
             <Button
-              onClick={() => {
-                if (dialogType === "approve") {
-                  handleStatusUpdate("APPROVED")
-                } else if (dialogType === "reject") {
-                  if (!rejectedReason.trim()) {
-                    toast.error("Please provide a rejection reason")
-                    return
-                  }
-                  handleStatusUpdate("REJECTED", rejectedReason)
-                } else if (dialogType === "cancel") {
-                  handleStatusUpdate("CANCELLED")
-                }
-              }}
-              disabled={isLoading || (dialogType === "reject" && !rejectedReason.trim())}
+              onClick={handleStatusUpdate}
+              disabled={isLoading || missingFields.length > 0}
             >
               {isLoading ? "Processing..." : "Confirm"}
             </Button>
@@ -222,4 +275,4 @@ export function EquipmentRequestStatusActions({ request }: EquipmentRequestStatu
       </Dialog>
     </>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { format } from "date-fns"
+import { Ban, CheckCircle, Clock, Package, Plus, Truck, XCircle } from "lucide-react"
+import { EquipmentRequestStatus, EquipmentRequestStatusChange } from "@/types/equipment-request"
+import { cn } from "@/lib/utils"
+
+const statusIcons: Record<EquipmentRequestStatus, typeof Clock> = {
+  PENDING: Plus,
+  APPROVED: CheckCircle,
+  REJECTED: XCircle,
+  ORDERED: Package,
+  DELIVERED: Truck,
+  CANCELLED: Ban,
+}
+
+const statusIconColors: Record<EquipmentRequestStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-700",
+  APPROVED: "bg-green-100 text-green-700",
+  REJECTED: "bg-red-100 text-red-700",
+  ORDERED: "bg-blue-100 text-blue-700",
+  DELIVERED: "bg-gray-100 text-gray-700",
+  CANCELLED: "bg-gray-100 text-gray-500",
+}
+
+const describeChange = (change: EquipmentRequestStatusChange) => {
+  if (change.toStatus === "PENDING" && !change.fromStatus) return "Request created"
+  if (!change.fromStatus) return `Marked as ${change.toStatus.toLowerCase()}`
+  return `${change.fromStatus.toLowerCase()} → ${change.toStatus.toLowerCase()}`
+}
+
+interface EquipmentRequestStatusHistoryProps {
+  history: EquipmentRequestStatusChange[]
+}
+
+export function EquipmentRequestStatusHistory({ history }: EquipmentRequestStatusHistoryProps) {
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet</p>
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-6">
+      {history.map((change) => {
+        const Icon = statusIcons[change.toStatus]
+        const details = change.details
+        return (
+          <li key={change.id} className="relative">
+            <span
+              className={cn(
+                "absolute -left-[37px] flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background",
+                statusIconColors[change.toStatus]
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <div className="flex flex-wrap items-baseline gap-x-2">
+              <span className="text-sm font-medium capitalize">{describeChange(change)}</span>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(change.createdAt), "PPP p")}
+                {change.changedByEmail && ` · ${change.changedByEmail}`}
+              </span>
+            </div>
+            {details?.rejectedReason && (
+              <p className="text-sm text-muted-foreground">Reason: {details.rejectedReason}</p>
+            )}
+            {details?.supplier && (
+              <p className="text-sm text-muted-foreground">
+                Ordered from {details.supplier}
+                {details.orderReference && ` (ref. ${details.orderReference})`}
+              </p>
+            )}
+            {details?.deliveryDate && (
+              <p className="text-sm text-muted-foreground">
+                Delivered on {format(new Date(details.deliveryDate), "PPP")}
+              </p>
+            )}
+            {change.note && (
+              <p className="mt-1 text-sm whitespace-pre-wrap">{change.note}</p>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
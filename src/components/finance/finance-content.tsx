@@ -1,15 +1,249 @@
 "use client"
 
+import { useMemo, useState } from "react"
 import { motion } from "framer-motion"
+import { format, parse, startOfMonth, startOfYear, addMonths, addYears, subMonths } from "date-fns"
+import { useQueryStates, parseAsInteger, parseAsString } from "nuqs"
+import { AlertTriangle, FilterX } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { FinanceSummaryCards } from "@/components/finance/finance-summary-cards"
+import { FinanceTable, type FinanceTableRow } from "@/components/finance/finance-table"
+import { FinancePropertyDialog } from "@/components/finance/finance-property-dialog"
+import { useFinanceReport } from "@/hooks/use-finance"
+import { useDestinations } from "@/hooks/use-destinations"
+import { Permission } from "@/types/auth"
+import type { FinanceReportFilters } from "@/lib/validations/finance"
+
+// Year 0 in the URL means "last 12 months"
+const ROLLING_YEAR = 0
+
+function getPeriod(year: number, month: number | null): { startDate: Date; endDate: Date } {
+  if (year === ROLLING_YEAR) {
+    const endDate = addMonths(startOfMonth(new Date()), 1)
+    return { startDate: subMonths(endDate, 12), endDate }
+  }
+
+  if (month) {
+    const startDate = new Date(year, month - 1, 1)
+    return { startDate, endDate: addMonths(startDate, 1) }
+  }
+
+  const startDate = startOfYear(new Date(year, 0, 1))
+  return { startDate, endDate: addYears(startDate, 1) }
+}
 
 export function FinanceContent() {
+  const currentYear = new Date().getFullYear()
+
+  const [urlState, setUrlState] = useQueryStates(
+    {
+      year: parseAsInteger.withDefault(currentYear),
+      month: parseAsInteger,
+      destinationId: parseAsString,
+      view: parseAsString.withDefault('month'),
+    },
+    {
+      history: 'push',
+    }
+  )
+
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null)
+
+  const filters: FinanceReportFilters = useMemo(() => {
+    const result: FinanceReportFilters = getPeriod(urlState.year, urlState.month)
+    if (urlState.destinationId) result.destinationId = urlState.destinationId
+    return result
+  }, [urlState.year, urlState.month, urlState.destinationId])
+
+  const { data: report, isLoading, error } = useFinanceReport(filters)
+  const { data: destinationsData } = useDestinations()
+
+  const yearOptions = Array.from({ length: 5 }, (_, i) => currentYear + 1 - i)
+  const hasActiveFilters = urlState.year !== currentYear || !!urlState.month || !!urlState.destinationId
+
+  const currencies = new Set((report?.byProperty ?? []).map((row) => row.currency))
+  const multiCurrency = currencies.size > 1
+
+  const monthRows: FinanceTableRow[] = (report?.byMonth ?? []).map((row) => ({
+    ...row,
+    key: `${row.month}:${row.currency}`,
+    label: format(parse(row.month, 'yyyy-MM', new Date()), 'MMMM yyyy'),
+    sublabel: multiCurrency ? row.currency : undefined,
+  }))
+
+  const propertyRows: FinanceTableRow[] = (report?.byProperty ?? []).map((row) => ({
+    ...row,
+    key: row.propertyId,
+    label: row.propertyName,
+    sublabel: row.destinationName,
+  }))
+
+  const destinationRows: FinanceTableRow[] = (report?.byDestination ?? []).map((row) => ({
+    ...row,
+    key: `${row.destinationId}:${row.currency}`,
+    label: row.destinationName,
+    sublabel: `${row.properties} ${row.properties === 1 ? 'property' : 'properties'}${multiCurrency ? ` · ${row.currency}` : ''}`,
+  }))
+
+  // Row keys are "<month or destination id>:<currency>"
+  const handleMonthClick = (row: FinanceTableRow) => {
+    const date = parse(row.key.split(':')[0], 'yyyy-MM', new Date())
+    setUrlState({ year: date.getFullYear(), month: date.getMonth() + 1, view: 'property' })
+  }
+
+  const handleDestinationClick = (row: FinanceTableRow) => {
+    setUrlState({ destinationId: row.key.split(':')[0], view: 'property' })
+  }
+
+  const clearAllFilters = () => {
+    setUrlState({ year: currentYear, month: null, destinationId: null })
+  }
+
   return (
-    <motion.div
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      className="flex items-center justify-center min-h-[60vh] p-6"
-    >
-      <h1 className="text-xl font-bold text-muted-foreground">Coming Soon...</h1>
-    </motion.div>
+    <ProtectedSection permission={Permission.FINANCIAL_VIEW} showUnauthorized>
+      <div className="space-y-6 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <motion.h1
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="text-xl font-bold tracking-tight"
+          >
+            Finance
+          </motion.h1>
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="flex flex-wrap items-center gap-2"
+          >
+            <Select
+              value={String(urlState.year)}
+              onValueChange={(value) => setUrlState({ year: Number(value), month: null })}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={String(ROLLING_YEAR)}>Last 12 months</SelectItem>
+                {yearOptions.map((year) => (
+                  <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {urlState.year !== ROLLING_YEAR && (
+              <Select
+                value={urlState.month ? String(urlState.month) : 'all'}
+                onValueChange={(value) => setUrlState({ month: value === 'all' ? null : Number(value) })}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Whole year</SelectItem>
+                  {Array.from({ length: 12 }, (_, i) => (
+                    <SelectItem key={i + 1} value={String(i + 1)}>
+                      {format(new Date(2000, i, 1), 'MMMM')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select
+              value={urlState.destinationId ?? 'all'}
+              onValueChange={(value) => setUrlState({ destinationId: value === 'all' ? null : value })}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All destinations" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All destinations</SelectItem>
+                {destinationsData?.destinations.map((destination) => (
+                  <SelectItem key={destination.id} value={destination.id}>
+                    {destination.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" className="gap-2" onClick={clearAllFilters}>
+                <FilterX className="h-3.5 w-3.5" />
+                Reset
+              </Button>
+            )}
+          </motion.div>
+        </div>
+
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading || !report ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+              {Array.from({ length: 5 }, (_, i) => (
+                <Skeleton key={i} className="h-[104px]" />
+              ))}
+            </div>
+            <Skeleton className="h-[320px]" />
+          </div>
+        ) : (
+          <>
+            {report.totals.map((totals) => (
+              <div key={totals.currency} className="space-y-2">
+                {multiCurrency && <h2 className="text-sm font-medium text-gray-500">{totals.currency}</h2>}
+                <FinanceSummaryCards totals={totals} currency={totals.currency} />
+              </div>
+            ))}
+
+            {(report.estimatedBookings > 0 || multiCurrency) && (
+              <div className="flex items-start gap-2 rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                <div className="space-y-1">
+                  {report.estimatedBookings > 0 && (
+                    <p>
+                      {report.estimatedBookings} {report.estimatedBookings === 1 ? 'booking has' : 'bookings have'} no
+                      total amount; revenue was estimated from the property price periods.
+                    </p>
+                  )}
+                  {multiCurrency && (
+                    <p>Properties use several currencies ({[...currencies].join(', ')}); totals, months and destinations are shown per currency.</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <Tabs value={urlState.view} onValueChange={(view) => setUrlState({ view })}>
+              <TabsList>
+                <TabsTrigger value="month">By month</TabsTrigger>
+                <TabsTrigger value="property">By property</TabsTrigger>
+                <TabsTrigger value="destination">By destination</TabsTrigger>
+              </TabsList>
+              <TabsContent value="month" className="mt-4">
+                <FinanceTable rows={monthRows} labelHeader="Month" onRowClick={handleMonthClick} />
+              </TabsContent>
+              <TabsContent value="property" className="mt-4">
+                <FinanceTable
+                  rows={propertyRows}
+                  labelHeader="Property"
+                  onRowClick={(row) => setSelectedPropertyId(row.key)}
+                />
+              </TabsContent>
+              <TabsContent value="destination" className="mt-4">
+                <FinanceTable rows={destinationRows} labelHeader="Destination" onRowClick={handleDestinationClick} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+
+        <FinancePropertyDialog
+          propertyId={selectedPropertyId}
+          filters={filters}
+          onClose={() => setSelectedPropertyId(null)}
+        />
+      </div>
+    </ProtectedSection>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { FinanceSummaryCards } from "@/components/finance/finance-summary-cards"
+import { useFinancePropertyBreakdown } from "@/hooks/use-finance"
+import { formatBookingDisplay } from "@/lib/validations/booking"
+import { formatCurrency } from "@/lib/finance"
+import type { FinanceReportFilters } from "@/lib/validations/finance"
+
+interface FinancePropertyDialogProps {
+  propertyId: string | null
+  filters: FinanceReportFilters
+  onClose: () => void
+}
+
+export function FinancePropertyDialog({ propertyId, filters, onClose }: FinancePropertyDialogProps) {
+  const { data: breakdown, isLoading, error } = useFinancePropertyBreakdown(propertyId, filters)
+
+  return (
+    <Dialog open={!!propertyId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{breakdown?.propertyName ?? "Property finances"}</DialogTitle>
+          <DialogDescription>
+            Bookings between {format(filters.startDate, "MMM d, yyyy")} and{" "}
+            {format(filters.endDate, "MMM d, yyyy")}. Stays crossing the period are prorated per night.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : breakdown ? (
+          <div className="space-y-6">
+            <FinanceSummaryCards totals={breakdown.totals} currency={breakdown.currency} />
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stay</TableHead>
+                    <TableHead>Guest</TableHead>
+                    <TableHead className="text-right">Nights</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                    <TableHead className="text-right">Owner payout</TableHead>
+                    <TableHead className="text-right">Commission</TableHead>
+                    <TableHead className="text-right">Costs</TableHead>
+                    <TableHead className="text-right">Net margin</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {breakdown.bookings.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                        No bookings in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    breakdown.bookings.map((booking) => (
+                      <TableRow key={booking.bookingId}>
+                        <TableCell>
+                          <div className="font-medium text-gray-900">
+                            {format(new Date(booking.startDate), "MMM d")} – {format(new Date(booking.endDate), "MMM d, yyyy")}
+                          </div>
+                          <div className="flex items-center gap-1 text-xs text-gray-500">
+                            {formatBookingDisplay({ type: booking.type })}
+                            {booking.estimated && (
+                              <Badge variant="outline" className="text-[10px] px-1 py-0 text-orange-600 border-orange-200">
+                                Estimated
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{booking.guestName || "—"}</TableCell>
+                        <TableCell className="text-right">{booking.nights}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(booking.revenue, breakdown.currency)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(booking.ownerPayout, breakdown.currency)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(booking.commission, breakdown.currency)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(booking.operationalCosts, breakdown.currency)}</TableCell>
+                        <TableCell className={booking.netMargin < 0 ? "text-right tabular-nums text-red-600" : "text-right tabular-nums"}>
+                          {formatCurrency(booking.netMargin, breakdown.currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Banknote, HandCoins, Percent, Wrench, TrendingUp } from "lucide-react"
+import { formatCurrency } from "@/lib/finance"
+import type { FinanceAmounts } from "@/types/finance"
+
+interface FinanceSummaryCardsProps {
+  totals: FinanceAmounts
+  currency?: string
+}
+
+export function FinanceSummaryCards({ totals, currency = 'EUR' }: FinanceSummaryCardsProps) {
+  const commissionShare = totals.revenue > 0
+    ? Math.round((totals.commission / totals.revenue) * 1000) / 10
+    : 0
+
+  const cards = [
+    {
+      title: "Revenue",
+      value: formatCurrency(totals.revenue, currency),
+      hint: `${totals.bookings} bookings · ${totals.nights} nights`,
+      icon: Banknote,
+      iconClass: "text-[#B5985A]",
+    },
+    {
+      title: "Owner payouts",
+      value: formatCurrency(totals.ownerPayout, currency),
+      hint: "Owner share of revenue",
+      icon: HandCoins,
+      iconClass: "text-blue-600",
+    },
+    {
+      title: "Commission earned",
+      value: formatCurrency(totals.commission, currency),
+      hint: `${commissionShare}% of revenue`,
+      icon: Percent,
+      iconClass: "text-green-600",
+    },
+    {
+      title: "Operational costs",
+      value: formatCurrency(totals.operationalCosts, currency),
+      hint: "Housekeeping, linen and packages",
+      icon: Wrench,
+      iconClass: "text-orange-600",
+    },
+    {
+      title: "Net margin",
+      value: formatCurrency(totals.netMargin, currency),
+      hint: "Commission minus costs",
+      icon: TrendingUp,
+      iconClass: totals.netMargin >= 0 ? "text-green-600" : "text-red-600",
+    },
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+      {cards.map(({ title, value, hint, icon: Icon, iconClass }) => (
+        <Card key={title}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">{title}</CardTitle>
+            <Icon className={`h-4 w-4 ${iconClass}`} />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-900">{value}</div>
+            <p className="text-xs text-gray-500">{hint}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
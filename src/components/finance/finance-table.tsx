@@ -0,0 +1,98 @@
+"use client"
+
+import { ChevronRight } from "lucide-react"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import { formatCurrency } from "@/lib/finance"
+import type { FinanceAmounts } from "@/types/finance"
+
+export interface FinanceTableRow extends FinanceAmounts {
+  key: string
+  label: string
+  sublabel?: string
+  currency?: string
+}
+
+interface FinanceTableProps {
+  rows: FinanceTableRow[]
+  labelHeader: string
+  onRowClick?: (row: FinanceTableRow) => void
+  emptyMessage?: string
+}
+
+export function FinanceTable({ rows, labelHeader, onRowClick, emptyMessage = "No revenue in this period" }: FinanceTableProps) {
+  const maxRevenue = Math.max(...rows.map(row => row.revenue), 0)
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{labelHeader}</TableHead>
+            <TableHead className="text-right">Bookings</TableHead>
+            <TableHead className="text-right">Nights</TableHead>
+            <TableHead className="w-[220px]">Revenue</TableHead>
+            <TableHead className="text-right">Owner payouts</TableHead>
+            <TableHead className="text-right">Commission</TableHead>
+            <TableHead className="text-right">Costs</TableHead>
+            <TableHead className="text-right">Net margin</TableHead>
+            {onRowClick && <TableHead className="w-8" />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={onRowClick ? 9 : 8} className="h-24 text-center text-muted-foreground">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow
+                key={row.key}
+                className={cn(onRowClick && "cursor-pointer hover:bg-gray-50")}
+                onClick={() => onRowClick?.(row)}
+              >
+                <TableCell>
+                  <div className="font-medium text-gray-900">{row.label}</div>
+                  {row.sublabel && <div className="text-xs text-gray-500">{row.sublabel}</div>}
+                </TableCell>
+                <TableCell className="text-right">{row.bookings}</TableCell>
+                <TableCell className="text-right">{row.nights}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 flex-1 rounded-full bg-gray-100">
+                      <div
+                        className="h-2 rounded-full bg-[#B5985A]"
+                        style={{ width: maxRevenue > 0 ? `${(row.revenue / maxRevenue) * 100}%` : 0 }}
+                      />
+                    </div>
+                    <span className="w-24 text-right tabular-nums">{formatCurrency(row.revenue, row.currency)}</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(row.ownerPayout, row.currency)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(row.commission, row.currency)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(row.operationalCosts, row.currency)}</TableCell>
+                <TableCell className={cn("text-right tabular-nums", row.netMargin < 0 && "text-red-600")}>
+                  {formatCurrency(row.netMargin, row.currency)}
+                </TableCell>
+                {onRowClick && (
+                  <TableCell>
+                    <ChevronRight className="h-4 w-4 text-gray-400" />
+                  </TableCell>
+                )}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -9,8 +9,14 @@ import {
   FileText,
   Scale,
   Activity,
+  ShieldAlert,
+  UserCog,
+  KeyRound,
   User,
   Settings,
+  Sparkles,
+  DoorOpen,
+  Languages,
 } from "lucide-react"
 import {
   Sidebar,
@@ -38,8 +44,19 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { useSidebar } from "@/components/ui/sidebar"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Permission } from "@/types/auth"
 
-const menuGroups = [
+interface MenuItem {
+  title: string
+  icon: typeof Home
+  href: string
+  description: string
+  // Hidden from users without this permission
+  permission?: Permission
+}
+
+const menuGroups: { label: string; items: MenuItem[] }[] = [
   {
     label: "Property Management",
     items: [
@@ -61,6 +78,13 @@ const menuGroups = [
         href: "/places",
         description: "Nearby attractions",
       },
+      {
+        title: "Translations",
+        icon: Languages,
+        href: "/translations",
+        description: "Marketing copy per language",
+        permission: Permission.PROPERTY_VIEW,
+      },
     ],
   },
   {
@@ -78,6 +102,20 @@ const menuGroups = [
         href: "/equipment-requests",
         description: "Maintenance requests",
       },
+      {
+        title: "Check-ins",
+        icon: DoorOpen,
+        href: "/operations",
+        description: "Arrivals and departures",
+        permission: Permission.PROPERTY_VIEW,
+      },
+      {
+        title: "Housekeeping",
+        icon: Sparkles,
+        href: "/tasks",
+        description: "Cleaning, linen and pool tasks",
+        permission: Permission.TASK_VIEW,
+      },
     ],
   },
   {
@@ -106,6 +144,27 @@ const menuGroups = [
         href: "/audit-logs",
         description: "System activity logs",
       },
+      {
+        title: "Sensitive Access",
+        icon: ShieldAlert,
+        href: "/sensitive-access",
+        description: "Financial & internal data views",
+        permission: Permission.SENSITIVE_ACCESS_VIEW,
+      },
+      {
+        title: "Users & Access",
+        icon: UserCog,
+        href: "/admin/users",
+        description: "Roles, invitations and property access",
+        permission: Permission.USER_MANAGE,
+      },
+      {
+        title: "Roles",
+        icon: KeyRound,
+        href: "/admin/roles",
+        description: "Permissions granted by each role",
+        permission: Permission.USER_MANAGE,
+      },
     ],
   },
 ]
@@ -128,6 +187,14 @@ export function AppSidebar() {
   const { user } = useUser()
   const { state } = useSidebar()
   const isCollapsed = state === "collapsed"
+  const { hasPermission } = usePermissions()
+
+  const visibleGroups = menuGroups
+    .map((group) => ({
+      ...group,
+      items: group.items.filter((item) => !item.permission || hasPermission(item.permission)),
+    }))
+    .filter((group) => group.items.length > 0)
 
   return (
     <Sidebar aria-label="Main navigation">
@@ -151,7 +218,7 @@ export function AppSidebar() {
       </SidebarHeader>
 
       <SidebarContent>
-        {menuGroups.map((group, groupIndex) => (
+        {visibleGroups.map((group, groupIndex) => (
           <SidebarGroup key={group.label}>
             {!isCollapsed && (
               <SidebarGroupLabel className="text-xs font-medium uppercase tracking-wider text-sidebar-foreground/60 mb-2">
@@ -207,7 +274,7 @@ export function AppSidebar() {
                 })}
               </SidebarMenu>
             </SidebarGroupContent>
-            {groupIndex < menuGroups.length - 1 && <SidebarSeparator className="my-2" />}
+            {groupIndex < visibleGroups.length - 1 && <SidebarSeparator className="my-2" />}
           </SidebarGroup>
         ))}
       </SidebarContent>
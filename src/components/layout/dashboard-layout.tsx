@@ -3,6 +3,7 @@
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
 import { AppSidebar } from "./app-sidebar"
 import { UserButton } from "@clerk/nextjs"
+import { NotificationBell } from "@/components/notifications/notification-bell"
 
 export function DashboardLayout({ children }: { children: React.ReactNode }) {
   return (
@@ -15,35 +16,38 @@ export function DashboardLayout({ children }: { children: React.ReactNode }) {
         <main id="main-content" className="flex-1 flex flex-col">
           <div className="flex h-14 items-center justify-between border-b px-4 sticky top-0 z-40 bg-white">
             <SidebarTrigger />
-            <UserButton 
-              appearance={{
-                baseTheme: undefined,
-                variables: {
-                  colorPrimary: "#B5985A",
-                  colorText: "#0A0A0A",
-                  colorTextSecondary: "#6B7280",
-                  colorBackground: "#FFFFFF",
-                  colorInputBackground: "#FAFAF8",
-                  colorInputText: "#0A0A0A",
-                  borderRadius: "0.5rem",
-                  fontFamily: "var(--font-inter), system-ui, sans-serif",
-                },
-                elements: {
-                  avatarBox: "w-10 h-10",
-                  userButtonTrigger: "focus:ring-2 focus:ring-[#B5985A] focus:ring-offset-2 transition-all duration-200",
-                  userButtonPopoverCard: "shadow-xl border-gray-200",
-                  userButtonPopoverActions: "space-y-1",
-                  userButtonPopoverActionButton: "hover:bg-gray-50 transition-colors",
-                  userButtonPopoverActionButtonText: "text-gray-700",
-                  userButtonPopoverActionButtonIcon: "text-gray-500",
-                  userButtonPopoverFooter: "border-t border-gray-200",
-                  userButtonPopoverMain: "space-y-4",
-                }
-              }}
-              afterSignOutUrl="/sign-in"
-              userProfileMode="navigation"
-              userProfileUrl="/profile"
-            />
+            <div className="flex items-center gap-3">
+              <NotificationBell />
+              <UserButton 
+                appearance={{
+                  baseTheme: undefined,
+                  variables: {
+                    colorPrimary: "#B5985A",
+                    colorText: "#0A0A0A",
+                    colorTextSecondary: "#6B7280",
+                    colorBackground: "#FFFFFF",
+                    colorInputBackground: "#FAFAF8",
+                    colorInputText: "#0A0A0A",
+                    borderRadius: "0.5rem",
+                    fontFamily: "var(--font-inter), system-ui, sans-serif",
+                  },
+                  elements: {
+                    avatarBox: "w-10 h-10",
+                    userButtonTrigger: "focus:ring-2 focus:ring-[#B5985A] focus:ring-offset-2 transition-all duration-200",
+                    userButtonPopoverCard: "shadow-xl border-gray-200",
+                    userButtonPopoverActions: "space-y-1",
+                    userButtonPopoverActionButton: "hover:bg-gray-50 transition-colors",
+                    userButtonPopoverActionButtonText: "text-gray-700",
+                    userButtonPopoverActionButtonIcon: "text-gray-500",
+                    userButtonPopoverFooter: "border-t border-gray-200",
+                    userButtonPopoverMain: "space-y-4",
+                  }
+                }}
+                afterSignOutUrl="/sign-in"
+                userProfileMode="navigation"
+                userProfileUrl="/profile"
+              />
+            </div>
           </div>
           <div className="flex-1">
             {children}
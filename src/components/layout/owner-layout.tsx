@@ -0,0 +1,31 @@
+"use client"
+
+import { UserButton } from "@clerk/nextjs"
+import { NotificationBell } from "@/components/notifications/notification-bell"
+
+// Owner portal shell, owners never see the back-office sidebar
+export function OwnerLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50/40">
+      <header className="flex h-14 items-center justify-between border-b px-4 sticky top-0 z-40 bg-white">
+        <span className="text-sm font-semibold tracking-wide">Owner portal</span>
+        <div className="flex items-center gap-3">
+          <NotificationBell />
+          <UserButton
+            appearance={{
+              elements: {
+                avatarBox: "w-9 h-9",
+              },
+            }}
+            afterSignOutUrl="/sign-in"
+            userProfileMode="navigation"
+            userProfileUrl="/profile"
+          />
+        </div>
+      </header>
+      <main id="main-content" className="flex-1 w-full max-w-6xl mx-auto">
+        {children}
+      </main>
+    </div>
+  )
+}
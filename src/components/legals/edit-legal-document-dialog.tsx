@@ -41,6 +41,7 @@ import {
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Calendar } from "@/components/ui/calendar"
@@ -130,6 +131,7 @@ export function EditLegalDocumentDialog({
       reminderDays: null,
       tags: [],
       metadata: {},
+      sharedWithOwners: false,
     },
   })
 
@@ -147,6 +149,7 @@ export function EditLegalDocumentDialog({
         reminderDays: document.reminderDays || null,
         tags: document.tags || [],
         metadata: document.metadata as Record<string, unknown> || {},
+        sharedWithOwners: document.sharedWithOwners,
       })
     }
   }, [document, form])
@@ -492,6 +495,30 @@ export function EditLegalDocumentDialog({
                     />
                   </div>
 
+                  <FormField
+                    control={form.control}
+                    name="sharedWithOwners"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div className="space-y-0.5">
+                          <FormLabel>Share with owners</FormLabel>
+                          <FormDescription className="text-xs">
+                            {form.watch("propertyId")
+                              ? "Listed in the owner portal of this property's owners"
+                              : "Link the document to a property to share it with its owners"}
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={!!field.value}
+                            onCheckedChange={field.onChange}
+                            disabled={!form.watch("propertyId")}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="tags"
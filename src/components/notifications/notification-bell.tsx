@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { formatDistanceToNow } from "date-fns"
+import { Bell, CalendarCheck, CheckCheck, ClipboardList, CalendarPlus, KeyRound, Scale, Settings2, ShieldAlert } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/use-notifications"
+import { cn } from "@/lib/utils"
+import { NotificationType, type Notification } from "@/types/notification"
+import { NotificationPreferencesDialog } from "./notification-preferences-dialog"
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  [NotificationType.EQUIPMENT_REQUEST_STATUS]: ClipboardList,
+  [NotificationType.AVAILABILITY_REQUEST_CREATED]: CalendarPlus,
+  [NotificationType.LEGAL_DOCUMENT_EXPIRY]: Scale,
+  [NotificationType.SENSITIVE_DATA_ALERT]: ShieldAlert,
+  [NotificationType.OWNER_STAY_REQUEST]: KeyRound,
+  [NotificationType.OWNER_STAY_REVIEWED]: CalendarCheck,
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [showPreferences, setShowPreferences] = useState(false)
+  const { data, isLoading } = useNotifications()
+  const markRead = useMarkNotificationsRead()
+
+  const unreadCount = data?.unreadCount ?? 0
+  const notifications = data?.notifications ?? []
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead.mutate({ ids: [notification.id] })
+    }
+    if (notification.link) {
+      setOpen(false)
+      router.push(notification.link)
+    }
+  }
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative"
+            aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+          >
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-[#B5985A] px-1 text-[10px] font-semibold text-white">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="flex items-center justify-between border-b px-4 py-3">
+            <p className="text-sm font-semibold">Notifications</p>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={unreadCount === 0 || markRead.isPending}
+                onClick={() => markRead.mutate({})}
+              >
+                <CheckCheck className="mr-1 h-3.5 w-3.5" />
+                Mark all read
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Notification preferences"
+                onClick={() => {
+                  setOpen(false)
+                  setShowPreferences(true)
+                }}
+              >
+                <Settings2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2 p-4">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="py-10 text-center text-sm text-muted-foreground">
+              <Bell className="mx-auto mb-2 h-8 w-8 opacity-50" />
+              <p>You&apos;re all caught up</p>
+            </div>
+          ) : (
+            <ScrollArea className="max-h-[400px]">
+              <div className="divide-y">
+                {notifications.map(notification => {
+                  const Icon = TYPE_ICONS[notification.type]
+                  return (
+                    <button
+                      key={notification.id}
+                      type="button"
+                      onClick={() => handleSelect(notification)}
+                      className={cn(
+                        "flex w-full items-start gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/50",
+                        !notification.readAt && "bg-[#B5985A]/5"
+                      )}
+                    >
+                      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-[#B5985A]" />
+                      <div className="min-w-0 flex-1">
+                        <p className={cn("text-sm", !notification.readAt && "font-semibold")}>
+                          {notification.title}
+                        </p>
+                        <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                        <p className="mt-1 text-[11px] text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      {!notification.readAt && (
+                        <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-[#B5985A]" />
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+            </ScrollArea>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <NotificationPreferencesDialog open={showPreferences} onOpenChange={setShowPreferences} />
+    </>
+  )
+}
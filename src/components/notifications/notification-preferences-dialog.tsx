@@ -0,0 +1,64 @@
+"use client"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import { useNotificationPreferences, useUpdateNotificationPreference } from "@/hooks/use-notifications"
+import { NOTIFICATION_TYPES } from "@/types/notification"
+
+interface NotificationPreferencesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function NotificationPreferencesDialog({ open, onOpenChange }: NotificationPreferencesDialogProps) {
+  const { data: preferences, isLoading } = useNotificationPreferences(open)
+  const updatePreference = useUpdateNotificationPreference()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Notification Preferences</DialogTitle>
+          <DialogDescription>Choose which events you want to be notified about</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {preferences?.map(preference => {
+              const config = NOTIFICATION_TYPES[preference.type]
+              return (
+                <div key={preference.type} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`notification-${preference.type}`} className="text-sm font-medium">
+                      {config.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{config.description}</p>
+                  </div>
+                  <Switch
+                    id={`notification-${preference.type}`}
+                    checked={preference.enabled}
+                    onCheckedChange={(enabled) => updatePreference.mutate({ type: preference.type, enabled })}
+                  />
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import Link from "next/link"
+import { format } from "date-fns"
+import { AlertTriangle, LogIn, LogOut, Phone, Repeat } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatBookingDisplay } from "@/lib/validations/booking"
+import { cn } from "@/lib/utils"
+import { BookingStatus } from "@/generated/prisma"
+import type { OperationsMovement, OperationsMovementKind } from "@/types/operations"
+
+interface MovementTableProps {
+  kind: OperationsMovementKind
+  movements: OperationsMovement[]
+}
+
+function GuestCount({ movement }: { movement: OperationsMovement }) {
+  if (!movement.numberOfGuests) {
+    return <span className="text-muted-foreground">– / {movement.maxGuests || "–"}</span>
+  }
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 tabular-nums", movement.overCapacity && "font-medium text-red-700")}
+      title={movement.overCapacity ? "More guests than the property sleeps" : undefined}
+    >
+      {movement.overCapacity && <AlertTriangle className="h-3 w-3" />}
+      {movement.numberOfGuests} / {movement.maxGuests || "–"}
+    </span>
+  )
+}
+
+export function MovementTable({ kind, movements }: MovementTableProps) {
+  const isArrival = kind === "arrival"
+  const Icon = isArrival ? LogIn : LogOut
+
+  return (
+    <div className="rounded-md border bg-white">
+      <div className="flex items-center gap-2 border-b bg-gray-50/50 px-3 py-2">
+        <Icon className={cn("h-3.5 w-3.5", isArrival ? "text-green-600" : "text-orange-600")} />
+        <p className="text-xs font-semibold">{isArrival ? "Arrivals" : "Departures"}</p>
+        <span className="text-[11px] text-muted-foreground">{movements.length}</span>
+      </div>
+      {movements.length === 0 ? (
+        <p className="px-3 py-6 text-center text-xs text-muted-foreground">
+          {isArrival ? "No arrivals" : "No departures"}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs w-[60px]">Time</TableHead>
+              <TableHead className="text-xs">Property</TableHead>
+              <TableHead className="text-xs">Guest</TableHead>
+              <TableHead className="text-xs text-right">Guests</TableHead>
+              {isArrival && <TableHead className="text-xs">Check-in</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {movements.map(movement => (
+              <TableRow key={`${movement.bookingId}-${kind}`}>
+                <TableCell className="text-xs tabular-nums">{movement.time ?? "–"}</TableCell>
+                <TableCell className="text-xs">
+                  <Link href={`/houses/${movement.propertyId}`} className="font-medium hover:underline">
+                    {movement.propertyName}
+                  </Link>
+                  <p className="text-[11px] text-muted-foreground">{movement.destinationName}</p>
+                  {movement.sameDayTurnover && (
+                    <Badge
+                      variant="outline"
+                      className="mt-1 h-5 gap-1 border-amber-300 bg-amber-50 px-1.5 py-0 text-[10px] font-normal text-amber-800"
+                    >
+                      <Repeat className="h-3 w-3" />
+                      Same-day turnover
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">
+                  <div className="flex items-center gap-1.5">
+                    <span>{formatBookingDisplay({ type: movement.bookingType, guestName: movement.guestName })}</span>
+                    {movement.bookingStatus === BookingStatus.PENDING && (
+                      <Badge variant="outline" className="h-5 px-1.5 py-0 text-[10px] font-normal">
+                        Unconfirmed
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-[11px] text-muted-foreground">
+                    {isArrival
+                      ? `Until ${format(new Date(movement.endDate), "dd MMM")}`
+                      : `Since ${format(new Date(movement.startDate), "dd MMM")}`}
+                    {` · ${movement.nights} ${movement.nights === 1 ? "night" : "nights"}`}
+                  </p>
+                  {movement.guestPhone && (
+                    <a
+                      href={`tel:${movement.guestPhone}`}
+                      className="inline-flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground"
+                    >
+                      <Phone className="h-3 w-3" />
+                      {movement.guestPhone}
+                    </a>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  <GuestCount movement={movement} />
+                </TableCell>
+                {isArrival && (
+                  <TableCell className="text-xs">
+                    {movement.checkInPerson || movement.checkInManager ? (
+                      <>
+                        {movement.checkInPerson && <p>{movement.checkInPerson}</p>}
+                        {movement.checkInManager && (
+                          <p className="text-[11px] text-muted-foreground">
+                            Manager: {movement.checkInManager.name}
+                            {movement.checkInManager.phone && (
+                              <a href={`tel:${movement.checkInManager.phone}`} className="ml-1 hover:text-foreground">
+                                {movement.checkInManager.phone}
+                              </a>
+                            )}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">Nobody assigned</span>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useMemo } from "react"
+import { motion } from "framer-motion"
+import { addDays, format, isToday, isTomorrow, parse } from "date-fns"
+import { parseAsInteger, parseAsString, useQueryStates } from "nuqs"
+import { AlertTriangle, ChevronLeft, ChevronRight, LogIn, LogOut, Repeat, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { MovementTable } from "@/components/operations/movement-table"
+import { useOperationsBoard } from "@/hooks/use-operations"
+import { useDestinations } from "@/hooks/use-destinations"
+import { Permission } from "@/types/auth"
+import type { OperationsBoardFilters } from "@/lib/validations/operations"
+
+const DATE_FORMAT = "yyyy-MM-dd"
+
+const PERIOD_OPTIONS = [
+  { days: 1, label: "Day" },
+  { days: 7, label: "7 days" },
+  { days: 14, label: "14 days" },
+]
+
+function parseDay(value: string | null): Date {
+  const date = value ? parse(value, DATE_FORMAT, new Date()) : new Date()
+  return isNaN(date.getTime()) ? new Date() : date
+}
+
+function dayTitle(date: Date): string {
+  if (isToday(date)) return `Today · ${format(date, "EEEE dd MMMM")}`
+  if (isTomorrow(date)) return `Tomorrow · ${format(date, "EEEE dd MMMM")}`
+  return format(date, "EEEE dd MMMM yyyy")
+}
+
+export function OperationsContent() {
+  const [urlState, setUrlState] = useQueryStates(
+    {
+      date: parseAsString,
+      days: parseAsInteger.withDefault(7),
+      destinationId: parseAsString,
+    },
+    {
+      history: "push",
+    }
+  )
+
+  const startDay = parseDay(urlState.date)
+  const days = PERIOD_OPTIONS.some(option => option.days === urlState.days) ? urlState.days : 7
+
+  const filters: OperationsBoardFilters = useMemo(() => ({
+    from: startDay,
+    to: addDays(startDay, days - 1),
+    destinationId: urlState.destinationId ?? undefined,
+  }), [format(startDay, DATE_FORMAT), days, urlState.destinationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const { data: board, isLoading, error } = useOperationsBoard(filters)
+  const { data: destinationsData } = useDestinations()
+
+  const setStartDay = (day: Date) => setUrlState({ date: isToday(day) ? null : format(day, DATE_FORMAT) })
+
+  // A single day is always shown, longer periods skip the quiet days
+  const visibleDays = (board?.days ?? []).filter(day =>
+    days === 1 || day.arrivals.length > 0 || day.departures.length > 0
+  )
+
+  const summary = [
+    { label: "Arrivals", value: board?.totals.arrivals, icon: LogIn, className: "text-green-600" },
+    { label: "Departures", value: board?.totals.departures, icon: LogOut, className: "text-orange-600" },
+    { label: "Same-day turnovers", value: board?.totals.turnovers, icon: Repeat, className: "text-amber-600" },
+    { label: "Over capacity", value: board?.totals.overCapacity, icon: Users, className: "text-red-600" },
+  ]
+
+  return (
+    <ProtectedSection permission={Permission.PROPERTY_VIEW} showUnauthorized>
+      <div className="space-y-6 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            <h1 className="text-xl font-bold tracking-tight">Check-ins & check-outs</h1>
+            <p className="text-xs text-muted-foreground">
+              Who arrives and who leaves across all properties
+            </p>
+          </motion.div>
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="flex flex-wrap items-center gap-2"
+          >
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => setStartDay(addDays(startDay, -days))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                disabled={isToday(startDay)}
+                onClick={() => setUrlState({ date: null })}
+              >
+                Today
+              </Button>
+              <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => setStartDay(addDays(startDay, days))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => setUrlState({ days: Number(value) })}>
+              <SelectTrigger className="h-8 w-[110px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)} className="text-xs">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={urlState.destinationId ?? "all"}
+              onValueChange={(value) => setUrlState({ destinationId: value === "all" ? null : value })}
+            >
+              <SelectTrigger className="h-8 w-[180px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">All destinations</SelectItem>
+                {destinationsData?.destinations.map(destination => (
+                  <SelectItem key={destination.id} value={destination.id} className="text-xs">
+                    {destination.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </motion.div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {summary.map(item => (
+            <Card key={item.label}>
+              <CardContent className="flex items-center justify-between p-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  {isLoading ? (
+                    <Skeleton className="mt-1 h-6 w-10" />
+                  ) : (
+                    <p className="text-xl font-semibold tabular-nums">{item.value ?? 0}</p>
+                  )}
+                </div>
+                <item.icon className={`h-5 w-5 ${item.className}`} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading || !board ? (
+          <Skeleton className="h-[360px]" />
+        ) : visibleDays.length === 0 ? (
+          <div className="rounded-md border bg-white p-8 text-center text-xs text-muted-foreground">
+            No arrivals or departures between {format(filters.from, "dd MMM")} and {format(filters.to, "dd MMM yyyy")}.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {visibleDays.map(day => {
+              const date = parse(day.date, DATE_FORMAT, new Date())
+              const turnoverNames = [...new Set(
+                day.departures
+                  .filter(movement => day.turnoverPropertyIds.includes(movement.propertyId))
+                  .map(movement => movement.propertyName)
+              )]
+              return (
+                <section key={day.date} className="space-y-3">
+                  <div className="flex items-baseline gap-3">
+                    <h2 className="text-sm font-semibold">{dayTitle(date)}</h2>
+                    <p className="text-[11px] text-muted-foreground">
+                      {day.arrivals.length} in · {day.departures.length} out
+                    </p>
+                  </div>
+                  {turnoverNames.length > 0 && (
+                    <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+                      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                      <p>
+                        Same-day turnover at {turnoverNames.join(", ")}: the house must be cleaned and ready
+                        between check-out and check-in.
+                      </p>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                    <MovementTable kind="arrival" movements={day.arrivals} />
+                    <MovementTable kind="departure" movements={day.departures} />
+                  </div>
+                </section>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </ProtectedSection>
+  )
+}
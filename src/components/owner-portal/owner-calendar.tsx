@@ -0,0 +1,128 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useOwnerCalendar } from "@/hooks/use-owner-portal"
+import { cn } from "@/lib/utils"
+import { BookingStatus, BookingType } from "@/generated/prisma"
+import type { OwnerCalendarEntry, OwnerPortalProperty } from "@/types/owner-portal"
+
+type DayKind = "rented" | "option" | "owner" | "requested" | "unavailable"
+
+const DAY_KINDS: Record<DayKind, { label: string; className: string }> = {
+  rented: { label: "Rented", className: "bg-emerald-100 text-emerald-900 border-emerald-300" },
+  option: { label: "Option", className: "bg-sky-100 text-sky-900 border-sky-300" },
+  owner: { label: "Your stay", className: "bg-indigo-100 text-indigo-900 border-indigo-300" },
+  requested: { label: "Requested", className: "border-dashed bg-indigo-50 text-indigo-900 border-indigo-300" },
+  unavailable: { label: "Unavailable", className: "bg-gray-100 text-gray-600 border-gray-300" },
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+
+function dayKind(entry: OwnerCalendarEntry): DayKind {
+  if (entry.isOwnerStay) return entry.status === BookingStatus.PENDING ? "requested" : "owner"
+  if (entry.type === BookingType.TENTATIVE) return "option"
+  if (entry.type === BookingType.BLOCKED || entry.type === BookingType.MAINTENANCE) return "unavailable"
+  return "rented"
+}
+
+export function OwnerCalendar({ property }: { property: OwnerPortalProperty }) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+
+  const days = useMemo(
+    () => eachDayOfInterval({
+      start: startOfWeek(month, { weekStartsOn: 1 }),
+      end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+    }),
+    [month]
+  )
+
+  const { data: entries, isLoading, error } = useOwnerCalendar({
+    propertyId: property.id,
+    startDate: days[0],
+    endDate: addMonths(days[0], 2),
+  })
+
+  // A night belongs to the booking that starts on or before it and ends after it
+  const entryForDay = (day: Date) =>
+    entries?.find(entry => new Date(entry.startDate) <= day && new Date(entry.endDate) > day)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-sm">{property.name}</CardTitle>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setMonth(addMonths(month, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+              <span className="sr-only">Previous month</span>
+            </Button>
+            <span className="w-[120px] text-center text-xs font-medium">{format(month, "MMMM yyyy")}</span>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+              <span className="sr-only">Next month</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading ? (
+          <Skeleton className="h-[360px]" />
+        ) : (
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAYS.map(weekday => (
+              <div key={weekday} className="pb-1 text-center text-[11px] font-medium text-muted-foreground">
+                {weekday}
+              </div>
+            ))}
+            {days.map(day => {
+              const entry = entryForDay(day)
+              const kind = entry ? DAY_KINDS[dayKind(entry)] : null
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={cn(
+                    "flex h-14 flex-col justify-between rounded-md border p-1.5 text-[11px]",
+                    kind ? kind.className : "bg-white",
+                    !isSameMonth(day, month) && "opacity-40",
+                    isToday(day) && "ring-1 ring-gray-900"
+                  )}
+                >
+                  <span className="font-medium tabular-nums">{format(day, "d")}</span>
+                  {kind && <span className="truncate">{kind.label}</span>}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          {Object.entries(DAY_KINDS).map(([key, kind]) => (
+            <div key={key} className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+              <span className={cn("h-3 w-3 rounded-sm border", kind.className)} />
+              {kind.label}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { format } from "date-fns"
+import { Download, FileText } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useOwnerDocuments } from "@/hooks/use-owner-portal"
+import { LEGAL_DOCUMENT_CATEGORY_LABELS, formatFileSize } from "@/types/legal-document"
+
+export function OwnerDocuments() {
+  const { data: documents, isLoading, error } = useOwnerDocuments()
+
+  if (error) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+        {error.message}
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-14" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!documents?.length) {
+    return (
+      <div className="rounded-md border bg-white p-8 text-center text-xs text-muted-foreground">
+        No documents have been shared with you yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-md border bg-white divide-y">
+      {documents.map(document => (
+        <div key={document.id} className="flex items-center justify-between gap-4 px-4 py-3">
+          <div className="flex min-w-0 items-center gap-3">
+            <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="text-xs font-medium truncate">{document.name}</p>
+                <Badge variant="secondary" className="text-[10px] py-0 px-1.5 h-5 font-normal">
+                  {LEGAL_DOCUMENT_CATEGORY_LABELS[document.category]}
+                </Badge>
+              </div>
+              <p className="text-[11px] text-muted-foreground truncate">
+                {document.propertyName} · {formatFileSize(document.fileSize)} · Added {format(new Date(document.uploadedAt), "dd MMM yyyy")}
+                {document.expiryDate && ` · Expires ${format(new Date(document.expiryDate), "dd MMM yyyy")}`}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" asChild>
+            <a href={document.url} target="_blank" rel="noopener noreferrer">
+              <Download className="h-3.5 w-3.5" />
+              Open
+            </a>
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { motion } from "framer-motion"
+import { parseAsStringLiteral, useQueryState } from "nuqs"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { OwnerCalendar } from "@/components/owner-portal/owner-calendar"
+import { OwnerDocuments } from "@/components/owner-portal/owner-documents"
+import { OwnerStatements } from "@/components/owner-portal/owner-statements"
+import { OwnerStays } from "@/components/owner-portal/owner-stays"
+import { useOwnerPortal } from "@/hooks/use-owner-portal"
+import { Permission } from "@/types/auth"
+
+const TABS = ["calendar", "stays", "statements", "documents"] as const
+
+export function OwnerPortalContent() {
+  const [tab, setTab] = useQueryState("tab", parseAsStringLiteral(TABS).withDefault("calendar"))
+  const [propertyId, setPropertyId] = useQueryState("property")
+  const { data: portal, isLoading, error } = useOwnerPortal()
+
+  const properties = portal?.properties ?? []
+  const property = properties.find(p => p.id === propertyId) ?? properties[0]
+
+  return (
+    <ProtectedSection permission={Permission.OWNER_PORTAL_ACCESS} showUnauthorized>
+      <div className="space-y-6 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            <h1 className="text-xl font-bold tracking-tight">
+              {portal ? `Welcome, ${portal.contact.name}` : "Owner portal"}
+            </h1>
+            <p className="text-xs text-muted-foreground">
+              Occupancy, your stays, statements and documents of your properties
+            </p>
+          </motion.div>
+          {properties.length > 1 && property && (
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+            >
+              <Select value={property.id} onValueChange={setPropertyId}>
+                <SelectTrigger className="h-9 w-[240px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map(p => (
+                    <SelectItem key={p.id} value={p.id} className="text-xs">
+                      {p.name} · {p.destinationName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </motion.div>
+          )}
+        </div>
+
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading || !portal ? (
+          <div className="space-y-4">
+            <Skeleton className="h-9 w-[360px]" />
+            <Skeleton className="h-[420px]" />
+          </div>
+        ) : !property ? (
+          <div className="rounded-md border p-8 text-center text-sm text-muted-foreground">
+            No property is linked to your account yet, please contact your property manager.
+          </div>
+        ) : (
+          <Tabs value={tab} onValueChange={(value) => setTab(value as typeof TABS[number])}>
+            <TabsList>
+              <TabsTrigger value="calendar" className="text-xs">Calendar</TabsTrigger>
+              <TabsTrigger value="stays" className="text-xs">My stays</TabsTrigger>
+              <TabsTrigger value="statements" className="text-xs">Statements</TabsTrigger>
+              <TabsTrigger value="documents" className="text-xs">Documents</TabsTrigger>
+            </TabsList>
+            <TabsContent value="calendar" className="mt-4">
+              <OwnerCalendar property={property} />
+            </TabsContent>
+            <TabsContent value="stays" className="mt-4">
+              <OwnerStays properties={properties} defaultPropertyId={property.id} />
+            </TabsContent>
+            <TabsContent value="statements" className="mt-4">
+              <OwnerStatements property={property} />
+            </TabsContent>
+            <TabsContent value="documents" className="mt-4">
+              <OwnerDocuments />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </ProtectedSection>
+  )
+}
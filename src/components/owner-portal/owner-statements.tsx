@@ -0,0 +1,120 @@
+"use client"
+
+import { useState } from "react"
+import { format, parse } from "date-fns"
+import { Info } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useOwnerStatement } from "@/hooks/use-owner-portal"
+import { formatCurrency } from "@/lib/finance"
+import type { OwnerPortalProperty } from "@/types/owner-portal"
+
+// Current year, the two previous ones and next year (bookings already taken)
+function statementYears() {
+  const year = new Date().getFullYear()
+  return [year + 1, year, year - 1, year - 2]
+}
+
+export function OwnerStatements({ property }: { property: OwnerPortalProperty }) {
+  const [year, setYear] = useState(() => new Date().getFullYear())
+  const { data: statement, isLoading, error } = useOwnerStatement({ propertyId: property.id, year })
+  const currency = statement?.currency ?? property.currency
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1">
+            <CardTitle className="text-sm">Statement · {property.name}</CardTitle>
+            <CardDescription className="text-xs">
+              Rental income per month, split night by night, with the agency commission and your payout
+            </CardDescription>
+          </div>
+          <Select value={year.toString()} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="h-8 w-[100px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statementYears().map(option => (
+                <SelectItem key={option} value={option.toString()} className="text-xs">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading || !statement ? (
+          <Skeleton className="h-[420px]" />
+        ) : (
+          <>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50/50">
+                    <TableHead className="text-xs">Month</TableHead>
+                    <TableHead className="text-xs text-right">Nights</TableHead>
+                    <TableHead className="text-xs text-right">Bookings</TableHead>
+                    <TableHead className="text-xs text-right">Rental income</TableHead>
+                    <TableHead className="text-xs text-right">Commission</TableHead>
+                    <TableHead className="text-xs text-right">Your payout</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.months.map(row => (
+                    <TableRow key={row.month} className={row.nights === 0 ? "text-muted-foreground" : undefined}>
+                      <TableCell className="text-xs">{format(parse(row.month, "yyyy-MM", new Date()), "MMMM")}</TableCell>
+                      <TableCell className="text-xs text-right tabular-nums">{row.nights}</TableCell>
+                      <TableCell className="text-xs text-right tabular-nums">{row.bookings}</TableCell>
+                      <TableCell className="text-xs text-right tabular-nums">{formatCurrency(row.revenue, currency)}</TableCell>
+                      <TableCell className="text-xs text-right tabular-nums">{formatCurrency(row.commission, currency)}</TableCell>
+                      <TableCell className="text-xs text-right tabular-nums font-medium">{formatCurrency(row.ownerPayout, currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="text-xs font-semibold">{statement.year}</TableCell>
+                    <TableCell className="text-xs text-right tabular-nums font-semibold">{statement.totals.nights}</TableCell>
+                    <TableCell className="text-xs text-right tabular-nums font-semibold">{statement.totals.bookings}</TableCell>
+                    <TableCell className="text-xs text-right tabular-nums font-semibold">{formatCurrency(statement.totals.revenue, currency)}</TableCell>
+                    <TableCell className="text-xs text-right tabular-nums font-semibold">{formatCurrency(statement.totals.commission, currency)}</TableCell>
+                    <TableCell className="text-xs text-right tabular-nums font-semibold">{formatCurrency(statement.totals.ownerPayout, currency)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+            {statement.estimatedBookings > 0 && (
+              <p className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                <Info className="h-3.5 w-3.5" />
+                {statement.estimatedBookings} {statement.estimatedBookings === 1 ? "booking has" : "bookings have"} no
+                final amount yet and {statement.estimatedBookings === 1 ? "is" : "are"} estimated from public rates.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { useState } from "react"
+import { differenceInCalendarDays, format } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { RequestStayDialog } from "@/components/owner-portal/request-stay-dialog"
+import { useCancelOwnerStayRequest, useOwnerStayRequests } from "@/hooks/use-owner-portal"
+import { BookingStatus } from "@/generated/prisma"
+import type { OwnerPortalProperty, OwnerStayRequest } from "@/types/owner-portal"
+
+const STATUS_BADGES: Record<BookingStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  [BookingStatus.PENDING]: { label: "Awaiting confirmation", variant: "outline" },
+  [BookingStatus.CONFIRMED]: { label: "Confirmed", variant: "default" },
+  [BookingStatus.COMPLETED]: { label: "Completed", variant: "secondary" },
+  [BookingStatus.CANCELLED]: { label: "Declined or withdrawn", variant: "destructive" },
+}
+
+interface OwnerStaysProps {
+  properties: OwnerPortalProperty[]
+  defaultPropertyId: string
+}
+
+export function OwnerStays({ properties, defaultPropertyId }: OwnerStaysProps) {
+  const [withdrawing, setWithdrawing] = useState<OwnerStayRequest | null>(null)
+  const { data: stays, isLoading, error } = useOwnerStayRequests()
+  const cancelRequest = useCancelOwnerStayRequest()
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          Stays you requested or that were booked for you
+        </p>
+        <RequestStayDialog properties={properties} defaultPropertyId={defaultPropertyId} />
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error.message}
+        </div>
+      ) : (
+        <div className="rounded-md border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50/50">
+                <TableHead className="text-xs">Property</TableHead>
+                <TableHead className="text-xs">Dates</TableHead>
+                <TableHead className="text-xs">Guests</TableHead>
+                <TableHead className="text-xs">Status</TableHead>
+                <TableHead className="text-xs w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-3 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-3 w-40" /></TableCell>
+                    <TableCell><Skeleton className="h-3 w-8" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                    <TableCell />
+                  </TableRow>
+                ))
+              ) : !stays?.length ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center text-xs text-muted-foreground">
+                    No stays yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                stays.map(stay => {
+                  const badge = STATUS_BADGES[stay.status]
+                  const nights = differenceInCalendarDays(new Date(stay.endDate), new Date(stay.startDate))
+                  return (
+                    <TableRow key={stay.id}>
+                      <TableCell className="text-xs font-medium">{stay.propertyName}</TableCell>
+                      <TableCell className="text-xs">
+                        {format(new Date(stay.startDate), "dd MMM")} – {format(new Date(stay.endDate), "dd MMM yyyy")}
+                        <span className="ml-1 text-muted-foreground">({nights} {nights === 1 ? "night" : "nights"})</span>
+                      </TableCell>
+                      <TableCell className="text-xs">{stay.numberOfGuests ?? "–"}</TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant} className="text-[10px] py-0 px-1.5 h-5 font-normal">
+                          {badge.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {stay.status === BookingStatus.PENDING && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-xs text-destructive"
+                            onClick={() => setWithdrawing(stay)}
+                          >
+                            Withdraw
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <AlertDialog open={!!withdrawing} onOpenChange={(open) => !open && setWithdrawing(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Withdraw this request?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The dates are released and can be rented again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep request</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (withdrawing) cancelRequest.mutate(withdrawing.id)
+                setWithdrawing(null)
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Withdraw
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { addDays, format, startOfDay } from "date-fns"
+import { CalendarIcon, CalendarPlus, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useRequestOwnerStay } from "@/hooks/use-owner-portal"
+import { ownerStayRequestSchema, type OwnerStayRequestInput } from "@/lib/validations/owner-portal"
+import { cn } from "@/lib/utils"
+import type { OwnerPortalProperty } from "@/types/owner-portal"
+
+interface RequestStayDialogProps {
+  properties: OwnerPortalProperty[]
+  defaultPropertyId: string
+}
+
+function DateField({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string
+  value: Date | undefined
+  onChange: (date: Date) => void
+  disabled: (date: Date) => boolean
+}) {
+  return (
+    <FormItem className="flex flex-col">
+      <FormLabel>{label}</FormLabel>
+      <Popover>
+        <PopoverTrigger asChild>
+          <FormControl>
+            <Button
+              variant="outline"
+              className={cn("w-full pl-3 text-left font-normal", !value && "text-muted-foreground")}
+            >
+              {value ? format(value, "PPP") : <span>Pick a date</span>}
+              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+            </Button>
+          </FormControl>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={(date) => date && onChange(startOfDay(date))}
+            disabled={disabled}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <FormMessage />
+    </FormItem>
+  )
+}
+
+export function RequestStayDialog({ properties, defaultPropertyId }: RequestStayDialogProps) {
+  const [open, setOpen] = useState(false)
+  const requestStay = useRequestOwnerStay()
+
+  const defaultValues = (): OwnerStayRequestInput => ({
+    propertyId: defaultPropertyId,
+    startDate: startOfDay(addDays(new Date(), 7)),
+    endDate: startOfDay(addDays(new Date(), 14)),
+    numberOfGuests: undefined,
+    notes: "",
+  })
+
+  const form = useForm<OwnerStayRequestInput>({
+    resolver: zodResolver(ownerStayRequestSchema),
+    defaultValues: defaultValues(),
+  })
+  const startDate = form.watch("startDate")
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) form.reset(defaultValues())
+  }
+
+  const onSubmit = async (data: OwnerStayRequestInput) => {
+    try {
+      await requestStay.mutateAsync({ ...data, notes: data.notes || undefined })
+      setOpen(false)
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-2">
+          <CalendarPlus className="h-4 w-4" />
+          Request a stay
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Request a stay</DialogTitle>
+          <DialogDescription>
+            The dates are held right away, your property manager confirms the stay.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {properties.length > 1 && (
+              <FormField
+                control={form.control}
+                name="propertyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Property</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {properties.map(property => (
+                          <SelectItem key={property.id} value={property.id}>
+                            {property.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <DateField
+                    label="Arrival"
+                    value={field.value}
+                    onChange={field.onChange}
+                    disabled={(date) => date < startOfDay(new Date())}
+                  />
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <DateField
+                    label="Departure"
+                    value={field.value}
+                    onChange={field.onChange}
+                    disabled={(date) => date <= startDate}
+                  />
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="numberOfGuests"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Guests</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={field.value?.toString() ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : e.target.value)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      value={field.value ?? ""}
+                      rows={3}
+                      placeholder="Arrival time, housekeeping or anything to prepare"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={requestStay.isPending}>
+                {requestStay.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send request
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
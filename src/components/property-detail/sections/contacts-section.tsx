@@ -10,7 +10,7 @@ import { usePermissions } from "@/hooks/use-permissions"
 import { ProtectedSection } from "@/components/auth/protected-section"
 import { Permission } from "@/types/auth"
 import { PropertyWithRelations } from "@/types/property"
-import { ContactType } from "@/generated/prisma"
+import { ContactPropertyRelationship } from "@/generated/prisma"
 import { toast } from "sonner"
 import { updatePropertyContacts } from "@/actions/property-contacts"
 import { Plus, Users } from "lucide-react"
@@ -20,7 +20,8 @@ import { ContactDetailsModal, type ContactFormData } from "./contacts/contact-de
 const contactSchema = z.object({
   contacts: z.array(z.object({
     id: z.string().optional(),
-    type: z.nativeEnum(ContactType),
+    contactId: z.string().optional(), // Global contact the entry is linked to
+    type: z.nativeEnum(ContactPropertyRelationship),
     firstName: z.string().min(1, "First name is required"),
     lastName: z.string().min(1, "Last name is required"),
     name: z.string().optional(), // Legacy field
@@ -84,10 +85,14 @@ export function ContactsSection({ property }: ContactsSectionProps) {
       const optimisticData = contactsData.map(contact => ({
         ...contact,
         id: contact.id || 'temp-id',
+        contactId: contact.contactId || 'temp-id',
         createdAt: new Date(),
         updatedAt: new Date(),
         propertyId: property.id,
-        metadata: {},
+        name: `${contact.firstName} ${contact.lastName}`.trim(),
+        email: contact.email || null,
+        phone: contact.phone || null,
+        notes: contact.notes || null,
         spokenLanguage: contact.spokenLanguage || "English",
         isContractSignatory: contact.isContractSignatory || false,
         isApproved: contact.isApproved || false,
@@ -98,6 +103,7 @@ export function ContactsSection({ property }: ContactsSectionProps) {
         const result = await updatePropertyContacts({
           propertyId: property.id,
           contacts: contactsData.map(contact => ({
+            contactId: contact.contactId,
             type: contact.type,
             firstName: contact.firstName,
             lastName: contact.lastName,
@@ -114,6 +120,16 @@ export function ContactsSection({ property }: ContactsSectionProps) {
           throw new Error(result.error || 'Failed to update contacts')
         }
 
+        // Keep the global contact ids of new entries so later saves update them
+        if (result.data) {
+          form.setValue("contacts", result.data.contacts.map(contact => ({
+            ...contact,
+            email: contact.email ?? "",
+            phone: contact.phone ?? "",
+            notes: contact.notes ?? "",
+          })))
+        }
+
         toast.success("Contacts updated successfully")
       } catch (error) {
         setOptimisticContacts(property.contacts || [])
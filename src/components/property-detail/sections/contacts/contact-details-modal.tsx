@@ -20,7 +20,7 @@ import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Checkbox } from "@/components/ui/checkbox"
-import { ContactType } from "@/generated/prisma"
+import { ContactPropertyRelationship } from "@/generated/prisma"
 import { 
   User,
   Building,
@@ -35,13 +35,15 @@ import {
   Trees,
   Waves,
   UserPlus,
+  KeyRound,
+  CircleUser,
   Crown,
   Save,
   X
 } from "lucide-react"
 
 const contactFormSchema = z.object({
-  type: z.nativeEnum(ContactType),
+  type: z.nativeEnum(ContactPropertyRelationship),
   firstName: z.string().min(1, "First name is required").max(100, "First name too long"),
   lastName: z.string().min(1, "Last name is required").max(100, "Last name too long"),
   email: z.string().email("Please enter a valid email address").optional().or(z.literal("")),
@@ -55,35 +57,39 @@ const contactFormSchema = z.object({
 type ContactFormData = z.infer<typeof contactFormSchema>
 
 const contactTypeIcons = {
-  [ContactType.OWNER]: User,
-  [ContactType.MANAGER]: UserCheck,
-  [ContactType.AGENCY]: Building,
-  [ContactType.STAFF]: Users,
-  [ContactType.MAINTENANCE]: Wrench,
-  [ContactType.EMERGENCY]: AlertTriangle,
-  [ContactType.CHECK_IN_MANAGER]: CheckCircle,
-  [ContactType.SECURITY_DEPOSIT_MANAGER]: Shield,
-  [ContactType.SIGNATORY]: FileSignature,
-  [ContactType.HOUSEKEEPING]: Home,
-  [ContactType.GARDENING]: Trees,
-  [ContactType.POOL_MAINTENANCE]: Waves,
-  [ContactType.CHECK_IN_STAFF]: UserPlus,
+  [ContactPropertyRelationship.OWNER]: User,
+  [ContactPropertyRelationship.MANAGER]: UserCheck,
+  [ContactPropertyRelationship.AGENCY]: Building,
+  [ContactPropertyRelationship.STAFF]: Users,
+  [ContactPropertyRelationship.MAINTENANCE]: Wrench,
+  [ContactPropertyRelationship.EMERGENCY]: AlertTriangle,
+  [ContactPropertyRelationship.CHECK_IN_MANAGER]: CheckCircle,
+  [ContactPropertyRelationship.SECURITY_DEPOSIT_MANAGER]: Shield,
+  [ContactPropertyRelationship.SIGNATORY]: FileSignature,
+  [ContactPropertyRelationship.HOUSEKEEPING]: Home,
+  [ContactPropertyRelationship.GARDENING]: Trees,
+  [ContactPropertyRelationship.POOL_MAINTENANCE]: Waves,
+  [ContactPropertyRelationship.CHECK_IN_STAFF]: UserPlus,
+  [ContactPropertyRelationship.RENTER]: KeyRound,
+  [ContactPropertyRelationship.OTHER]: CircleUser,
 }
 
 const contactTypeLabels = {
-  [ContactType.OWNER]: "Owner",
-  [ContactType.MANAGER]: "Manager",
-  [ContactType.AGENCY]: "Agency",
-  [ContactType.STAFF]: "Staff",
-  [ContactType.MAINTENANCE]: "Maintenance",
-  [ContactType.EMERGENCY]: "Emergency",
-  [ContactType.CHECK_IN_MANAGER]: "Check-in Manager",
-  [ContactType.SECURITY_DEPOSIT_MANAGER]: "Security Deposit Manager",
-  [ContactType.SIGNATORY]: "Signatory",
-  [ContactType.HOUSEKEEPING]: "Housekeeping",
-  [ContactType.GARDENING]: "Gardening",
-  [ContactType.POOL_MAINTENANCE]: "Pool Maintenance",
-  [ContactType.CHECK_IN_STAFF]: "Check-in Staff",
+  [ContactPropertyRelationship.OWNER]: "Owner",
+  [ContactPropertyRelationship.MANAGER]: "Manager",
+  [ContactPropertyRelationship.AGENCY]: "Agency",
+  [ContactPropertyRelationship.STAFF]: "Staff",
+  [ContactPropertyRelationship.MAINTENANCE]: "Maintenance",
+  [ContactPropertyRelationship.EMERGENCY]: "Emergency",
+  [ContactPropertyRelationship.CHECK_IN_MANAGER]: "Check-in Manager",
+  [ContactPropertyRelationship.SECURITY_DEPOSIT_MANAGER]: "Security Deposit Manager",
+  [ContactPropertyRelationship.SIGNATORY]: "Signatory",
+  [ContactPropertyRelationship.HOUSEKEEPING]: "Housekeeping",
+  [ContactPropertyRelationship.GARDENING]: "Gardening",
+  [ContactPropertyRelationship.POOL_MAINTENANCE]: "Pool Maintenance",
+  [ContactPropertyRelationship.CHECK_IN_STAFF]: "Check-in Staff",
+  [ContactPropertyRelationship.RENTER]: "Renter",
+  [ContactPropertyRelationship.OTHER]: "Other",
 }
 
 interface ContactDetailsModalProps {
@@ -104,7 +110,7 @@ export function ContactDetailsModal({
   isLoading = false,
 }: ContactDetailsModalProps) {
   const defaultFormValues = {
-    type: ContactType.OWNER,
+    type: ContactPropertyRelationship.OWNER,
     firstName: "",
     lastName: "",
     email: "",
@@ -131,7 +137,7 @@ export function ContactDetailsModal({
   React.useEffect(() => {
     if (!open) {
       reset({
-        type: ContactType.OWNER,
+        type: ContactPropertyRelationship.OWNER,
         firstName: "",
         lastName: "",
         email: "",
@@ -174,8 +180,8 @@ export function ContactDetailsModal({
           </DialogTitle>
           <DialogDescription>
             {mode === "create" 
-              ? "Add a new contact for this property. All fields except name are optional."
-              : "Update the contact information below."
+              ? "Add a contact for this property. An existing contact with the same email, phone or name is linked instead of duplicated."
+              : "Update the contact information below. Changes apply to every property this contact is linked to."
             }
           </DialogDescription>
         </DialogHeader>
@@ -191,7 +197,7 @@ export function ContactDetailsModal({
               <Label htmlFor="type" className="text-base font-medium">Contact Type *</Label>
               <Select
                 value={selectedType}
-                onValueChange={(value) => setValue("type", value as ContactType)}
+                onValueChange={(value) => setValue("type", value as ContactPropertyRelationship)}
               >
                 <SelectTrigger className="mt-2">
                   <SelectValue placeholder="Select contact type">
@@ -204,7 +210,7 @@ export function ContactDetailsModal({
                   </SelectValue>
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(ContactType).map(([, value]) => {
+                  {Object.entries(ContactPropertyRelationship).map(([, value]) => {
                     const Icon = contactTypeIcons[value]
                     return (
                       <SelectItem key={value} value={value}>
@@ -18,6 +18,8 @@ import {
   Trees,
   Waves,
   UserPlus,
+  KeyRound,
+  CircleUser,
   Crown,
   Edit2,
   Trash2
@@ -27,11 +29,11 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { DataTable, DataTableColumnHeader } from "@/components/ui/data-table"
 import { exportToCSV } from "@/components/ui/virtual-data-table"
-import { ContactType } from "@/generated/prisma"
+import { ContactPropertyRelationship } from "@/generated/prisma"
 
 interface ContactTableData {
   id?: string
-  type: ContactType
+  type: ContactPropertyRelationship
   firstName: string
   lastName: string
   name?: string // Legacy field for backward compatibility
@@ -53,35 +55,39 @@ interface ContactsTableProps {
 }
 
 const contactTypeIcons = {
-  [ContactType.OWNER]: User,
-  [ContactType.MANAGER]: UserCheck,
-  [ContactType.AGENCY]: Building,
-  [ContactType.STAFF]: Users,
-  [ContactType.MAINTENANCE]: Wrench,
-  [ContactType.EMERGENCY]: AlertTriangle,
-  [ContactType.CHECK_IN_MANAGER]: CheckCircle,
-  [ContactType.SECURITY_DEPOSIT_MANAGER]: Shield,
-  [ContactType.SIGNATORY]: FileSignature,
-  [ContactType.HOUSEKEEPING]: Home,
-  [ContactType.GARDENING]: Trees,
-  [ContactType.POOL_MAINTENANCE]: Waves,
-  [ContactType.CHECK_IN_STAFF]: UserPlus,
+  [ContactPropertyRelationship.OWNER]: User,
+  [ContactPropertyRelationship.MANAGER]: UserCheck,
+  [ContactPropertyRelationship.AGENCY]: Building,
+  [ContactPropertyRelationship.STAFF]: Users,
+  [ContactPropertyRelationship.MAINTENANCE]: Wrench,
+  [ContactPropertyRelationship.EMERGENCY]: AlertTriangle,
+  [ContactPropertyRelationship.CHECK_IN_MANAGER]: CheckCircle,
+  [ContactPropertyRelationship.SECURITY_DEPOSIT_MANAGER]: Shield,
+  [ContactPropertyRelationship.SIGNATORY]: FileSignature,
+  [ContactPropertyRelationship.HOUSEKEEPING]: Home,
+  [ContactPropertyRelationship.GARDENING]: Trees,
+  [ContactPropertyRelationship.POOL_MAINTENANCE]: Waves,
+  [ContactPropertyRelationship.CHECK_IN_STAFF]: UserPlus,
+  [ContactPropertyRelationship.RENTER]: KeyRound,
+  [ContactPropertyRelationship.OTHER]: CircleUser,
 }
 
 const contactTypeLabels = {
-  [ContactType.OWNER]: "Owner",
-  [ContactType.MANAGER]: "Manager",
-  [ContactType.AGENCY]: "Agency",
-  [ContactType.STAFF]: "Staff",
-  [ContactType.MAINTENANCE]: "Maintenance",
-  [ContactType.EMERGENCY]: "Emergency",
-  [ContactType.CHECK_IN_MANAGER]: "Check-in Manager",
-  [ContactType.SECURITY_DEPOSIT_MANAGER]: "Security Deposit Manager",
-  [ContactType.SIGNATORY]: "Signatory",
-  [ContactType.HOUSEKEEPING]: "Housekeeping",
-  [ContactType.GARDENING]: "Gardening",
-  [ContactType.POOL_MAINTENANCE]: "Pool Maintenance",
-  [ContactType.CHECK_IN_STAFF]: "Check-in Staff",
+  [ContactPropertyRelationship.OWNER]: "Owner",
+  [ContactPropertyRelationship.MANAGER]: "Manager",
+  [ContactPropertyRelationship.AGENCY]: "Agency",
+  [ContactPropertyRelationship.STAFF]: "Staff",
+  [ContactPropertyRelationship.MAINTENANCE]: "Maintenance",
+  [ContactPropertyRelationship.EMERGENCY]: "Emergency",
+  [ContactPropertyRelationship.CHECK_IN_MANAGER]: "Check-in Manager",
+  [ContactPropertyRelationship.SECURITY_DEPOSIT_MANAGER]: "Security Deposit Manager",
+  [ContactPropertyRelationship.SIGNATORY]: "Signatory",
+  [ContactPropertyRelationship.HOUSEKEEPING]: "Housekeeping",
+  [ContactPropertyRelationship.GARDENING]: "Gardening",
+  [ContactPropertyRelationship.POOL_MAINTENANCE]: "Pool Maintenance",
+  [ContactPropertyRelationship.CHECK_IN_STAFF]: "Check-in Staff",
+  [ContactPropertyRelationship.RENTER]: "Renter",
+  [ContactPropertyRelationship.OTHER]: "Other",
 }
 
 function createColumns(
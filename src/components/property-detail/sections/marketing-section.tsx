@@ -11,26 +11,14 @@ import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { useUpdateProperty } from "@/hooks/use-properties"
+import { useMarkTranslationUpToDate, useSaveMarketingContent } from "@/hooks/use-marketing-content"
 import { PropertyWithRelations } from "@/types/property"
-import { toast } from "sonner"
 import { usePermissions } from "@/hooks/use-permissions"
 import { Permission } from "@/types/auth"
-import { Plus, X } from "lucide-react"
+import { AlertTriangle, Check, Plus, X } from "lucide-react"
 import { cn } from "@/lib/utils"
-
-const SUPPORTED_LANGUAGES = [
-  { code: "en", name: "English", flag: "🇬🇧" },
-  { code: "es", name: "Spanish", flag: "🇪🇸" },
-  { code: "fr", name: "French", flag: "🇫🇷" },
-  { code: "de", name: "German", flag: "🇩🇪" },
-  { code: "it", name: "Italian", flag: "🇮🇹" },
-  { code: "pt", name: "Portuguese", flag: "🇵🇹" },
-  { code: "nl", name: "Dutch", flag: "🇳🇱" },
-  { code: "ru", name: "Russian", flag: "🇷🇺" },
-  { code: "zh", name: "Chinese", flag: "🇨🇳" },
-  { code: "ja", name: "Japanese", flag: "🇯🇵" },
-]
+import { getTranslationCell, isMarketingLanguage, toMarketingCopy } from "@/lib/marketing-translations"
+import { MARKETING_LANGUAGES, MARKETING_COPY_FIELD_LABELS, SOURCE_LANGUAGE, type MarketingCopy, type MarketingLanguage } from "@/types/marketing-content"
 
 const marketingSchema = z.object({
   marketingContent: z.record(z.string(), z.object({
@@ -40,13 +28,13 @@ const marketingSchema = z.object({
       (val) => !val || val.length >= 50,
       "Short description must be at least 50 characters when provided"
     ),
-    longDescription: z.string().refine(
+    description: z.string().refine(
       (val) => !val || val.length >= 100,
       "Long description must be at least 100 characters when provided"
     ),
     highlights: z.array(z.string()).default([]),
     seoKeywords: z.array(z.string()).default([]),
-    metaDescription: z.string().max(160, "Meta description must be under 160 characters").optional(),
+    seoDescription: z.string().max(160, "Meta description must be under 160 characters").optional(),
   })).default({}),
 })
 
@@ -58,42 +46,36 @@ interface MarketingSectionProps {
 export function MarketingSection({ property }: MarketingSectionProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [activeLanguage, setActiveLanguage] = useState("en")
-  const updateProperty = useUpdateProperty()
+  const saveMarketingContent = useSaveMarketingContent()
+  const markUpToDate = useMarkTranslationUpToDate()
   const { hasPermission } = usePermissions()
   const canEdit = hasPermission(Permission.PROPERTY_EDIT)
 
-  // Use automaticOffer field temporarily to store marketing content
-  const marketingContent = (property.automaticOffer as { marketingContent?: Record<string, unknown> })?.marketingContent || {}
+  const records = property.marketingContent || []
+  const sourceRecord = records.find(record => record.language === SOURCE_LANGUAGE)
+  const emptyCopy = (): MarketingCopy => ({ ...toMarketingCopy(null), title: property.name || "" })
 
   const form = useForm<z.input<typeof marketingSchema>>({
     resolver: zodResolver(marketingSchema),
     defaultValues: {
-      marketingContent: (marketingContent as any) || { en: {
-        title: property.name || "",
-        tagline: "",
-        shortDescription: "",
-        longDescription: "",
-        highlights: [],
-        seoKeywords: [],
-        metaDescription: "",
-      }},
+      marketingContent: records.length > 0
+        ? Object.fromEntries(records.map(record => [record.language, toMarketingCopy(record)]))
+        : { [SOURCE_LANGUAGE]: emptyCopy() },
     },
   })
 
   const { formState: { errors } } = form
 
   const handleSave = async (data: z.input<typeof marketingSchema>) => {
+    const contents: Partial<Record<MarketingLanguage, MarketingCopy>> = {}
+    for (const [language, copy] of Object.entries(data.marketingContent || {})) {
+      if (isMarketingLanguage(language)) contents[language] = { ...toMarketingCopy(null), ...copy }
+    }
     try {
-      await updateProperty.mutateAsync({
-        id: property.id,
-        data: {
-          automaticOffer: { marketingContent: data.marketingContent },
-        },
-      })
-      toast.success("Marketing content updated successfully")
+      await saveMarketingContent.mutateAsync({ propertyId: property.id, contents })
       setIsEditing(false)
     } catch {
-      toast.error("Failed to update marketing content")
+      // The error is reported by the mutation
     }
   }
 
@@ -105,21 +87,13 @@ export function MarketingSection({ property }: MarketingSectionProps) {
   const addLanguage = (languageCode: string) => {
     const currentContent = form.getValues("marketingContent") || {}
     if (!currentContent[languageCode]) {
-      form.setValue(`marketingContent.${languageCode}`, {
-        title: property.name || "",
-        tagline: "",
-        shortDescription: "",
-        longDescription: "",
-        highlights: [],
-        seoKeywords: [],
-        metaDescription: "",
-      })
+      form.setValue(`marketingContent.${languageCode}`, emptyCopy())
       setActiveLanguage(languageCode)
     }
   }
 
   const removeLanguage = (languageCode: string) => {
-    if (languageCode === "en") return // Can't remove English
+    if (languageCode === SOURCE_LANGUAGE) return // Can't remove English
     const currentContent = form.getValues("marketingContent") || {}
     delete currentContent[languageCode]
     form.setValue("marketingContent", currentContent)
@@ -151,6 +125,8 @@ export function MarketingSection({ property }: MarketingSectionProps) {
   }
 
   const currentLanguageContent = form.watch(`marketingContent.${activeLanguage}`)
+  const activeRecord = records.find(record => record.language === activeLanguage)
+  const activeCell = activeRecord ? getTranslationCell(sourceRecord, activeRecord) : null
 
   // Custom submit handler to prevent auto-focus on validation errors
   const handleSubmitWithoutFocus = async () => {
@@ -181,7 +157,7 @@ export function MarketingSection({ property }: MarketingSectionProps) {
       onEdit={() => setIsEditing(true)}
       onSave={handleSubmitWithoutFocus}
       onCancel={handleCancel}
-      isSaving={updateProperty.isPending}
+      isSaving={saveMarketingContent.isPending}
       canEdit={canEdit}
     >
       <form onSubmit={(e) => e.preventDefault()}>
@@ -191,7 +167,7 @@ export function MarketingSection({ property }: MarketingSectionProps) {
             <Label className="text-base">Available Languages</Label>
             {isEditing && (
               <div className="flex gap-2">
-                {SUPPORTED_LANGUAGES.filter(lang => 
+                {MARKETING_LANGUAGES.filter(lang => 
                   !Object.keys(form.watch("marketingContent") || {}).includes(lang.code)
                 ).map(lang => (
                   <Button
@@ -209,7 +185,9 @@ export function MarketingSection({ property }: MarketingSectionProps) {
           </div>
           <div className="flex gap-2 flex-wrap">
             {Object.keys(form.watch("marketingContent") || {}).map(langCode => {
-              const lang = SUPPORTED_LANGUAGES.find(l => l.code === langCode)
+              const lang = MARKETING_LANGUAGES.find(l => l.code === langCode)
+              const record = records.find(r => r.language === langCode)
+              const needsUpdate = !!record && getTranslationCell(sourceRecord, record).needsUpdate
               return (
                 <Badge
                   key={langCode}
@@ -219,7 +197,10 @@ export function MarketingSection({ property }: MarketingSectionProps) {
                 >
                   <span className="mr-2">{lang?.flag}</span>
                   {lang?.name || langCode}
-                  {isEditing && langCode !== "en" && (
+                  {needsUpdate && (
+                    <AlertTriangle className="ml-2 h-3 w-3 text-amber-500" aria-label="Needs update" />
+                  )}
+                  {isEditing && langCode !== SOURCE_LANGUAGE && (
                     <button
                       onClick={(e) => {
                         e.stopPropagation()
@@ -236,6 +217,33 @@ export function MarketingSection({ property }: MarketingSectionProps) {
           </div>
         </div>
 
+        {activeCell?.needsUpdate && (
+          <div className="flex items-center justify-between gap-4 rounded-md border border-amber-200 bg-amber-50 px-3 py-2">
+            <p className="flex items-center gap-2 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              The English copy changed after this translation was written. Review it, then save or mark it as up to date.
+            </p>
+            {canEdit && !isEditing && isMarketingLanguage(activeLanguage) && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="shrink-0"
+                disabled={markUpToDate.isPending}
+                onClick={() => markUpToDate.mutate({ propertyId: property.id, language: activeLanguage })}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Mark up to date
+              </Button>
+            )}
+          </div>
+        )}
+        {activeCell && activeCell.missingFields.length > 0 && !isEditing && (
+          <p className="text-sm text-muted-foreground">
+            Missing: {activeCell.missingFields.map(field => MARKETING_COPY_FIELD_LABELS[field]).join(", ")}
+          </p>
+        )}
+
         <Tabs value={activeLanguage} className="w-full">
           <TabsContent value={activeLanguage} className="space-y-6">
             <div>
@@ -304,7 +312,7 @@ export function MarketingSection({ property }: MarketingSectionProps) {
               <Textarea
                 className="mt-2"
                 disabled={!isEditing}
-                {...form.register(`marketingContent.${activeLanguage}.longDescription`)}
+                {...form.register(`marketingContent.${activeLanguage}.description`)}
                 placeholder="Detailed property description (100+ characters)"
                 rows={8}
               />
@@ -314,18 +322,18 @@ export function MarketingSection({ property }: MarketingSectionProps) {
                 </p>
                 <p className={cn(
                   "text-sm transition-colors",
-                  currentLanguageContent?.longDescription && currentLanguageContent.longDescription.length >= 100
+                  currentLanguageContent?.description && currentLanguageContent.description.length >= 100
                     ? "text-green-600 font-medium"
-                    : currentLanguageContent?.longDescription && currentLanguageContent.longDescription.length > 0
+                    : currentLanguageContent?.description && currentLanguageContent.description.length > 0
                     ? "text-amber-600"
                     : "text-muted-foreground"
                 )}>
-                  {currentLanguageContent?.longDescription?.length || 0}/100+ characters
+                  {currentLanguageContent?.description?.length || 0}/100+ characters
                 </p>
               </div>
-              {errors.marketingContent?.[activeLanguage]?.longDescription && (
+              {errors.marketingContent?.[activeLanguage]?.description && (
                 <p className="text-sm text-red-500 mt-1">
-                  {errors.marketingContent[activeLanguage].longDescription.message}
+                  {errors.marketingContent[activeLanguage].description.message}
                 </p>
               )}
             </div>
@@ -424,13 +432,13 @@ export function MarketingSection({ property }: MarketingSectionProps) {
               <Textarea
                 className="mt-2"
                 disabled={!isEditing}
-                {...form.register(`marketingContent.${activeLanguage}.metaDescription`)}
+                {...form.register(`marketingContent.${activeLanguage}.seoDescription`)}
                 placeholder="Brief description for search engines (max 160 characters)"
                 rows={2}
                 maxLength={160}
               />
               <p className="text-sm text-muted-foreground mt-1">
-                {currentLanguageContent?.metaDescription?.length || 0} / 160 characters
+                {currentLanguageContent?.seoDescription?.length || 0} / 160 characters
               </p>
             </div>
           </TabsContent>
@@ -451,18 +459,18 @@ export function MarketingSection({ property }: MarketingSectionProps) {
                   const typedContent = content as { 
                     title?: string; 
                     shortDescription?: string; 
-                    longDescription?: string; 
+                    description?: string; 
                     tagline?: string 
                   }
                   return acc + (typedContent.title?.length || 0) + (typedContent.shortDescription?.length || 0) + 
-                         (typedContent.longDescription?.length || 0) + (typedContent.tagline?.length || 0)
+                         (typedContent.description?.length || 0) + (typedContent.tagline?.length || 0)
                 }, 0).toLocaleString()}
               </p>
             </div>
             <div>
               <p className="text-sm text-muted-foreground">SEO Score</p>
               <p className="text-2xl font-semibold">
-                {currentLanguageContent?.metaDescription && (currentLanguageContent?.seoKeywords?.length || 0) > 0 ? "Good" : "Needs Work"}
+                {currentLanguageContent?.seoDescription && (currentLanguageContent?.seoKeywords?.length || 0) > 0 ? "Good" : "Needs Work"}
               </p>
             </div>
           </div>
@@ -8,6 +8,7 @@ import { GeneralPricingSection } from "./pricing/general-pricing-section"
 import { PricePeriodsSection } from "./pricing/price-periods-section"
 import { MinimumStaySection } from "./pricing/minimum-stay-section"
 import { OperationalCostsSection } from "./pricing/operational-costs-section"
+import { StayQuoteSection } from "./pricing/stay-quote-section"
 import { Skeleton } from "@/components/ui/skeleton"
 import { GlassCard } from "@/components/ui/glass-card"
 
@@ -99,6 +100,8 @@ export function PricingSection({ property }: PricingSectionProps) {
         propertyId={property.id} 
         operationalCosts={operationalCosts || []} 
       />
+
+      <StayQuoteSection propertyId={property.id} />
     </div>
   )
 }
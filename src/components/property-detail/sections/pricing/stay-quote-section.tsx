@@ -0,0 +1,228 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { AlertTriangle, Calculator, CheckCircle2, Info, Loader2, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useStayQuote } from "@/hooks/use-property-pricing"
+import { formatCurrency } from "@/lib/finance"
+import { cn } from "@/lib/utils"
+import type { StayQuoteFormData } from "@/lib/validations/pricing"
+import type { StayQuoteLineCategory } from "@/types/pricing"
+
+interface StayQuoteSectionProps {
+  propertyId: string
+}
+
+const CATEGORY_LABELS: Record<StayQuoteLineCategory, string> = {
+  RENTAL: "Rental",
+  OPERATIONAL_COST: "Operational cost",
+  CLIENT_FEE: "Client fees",
+  TAX: "Taxes",
+}
+
+export function StayQuoteSection({ propertyId }: StayQuoteSectionProps) {
+  const [checkIn, setCheckIn] = useState("")
+  const [checkOut, setCheckOut] = useState("")
+  const [guests, setGuests] = useState("")
+  const [params, setParams] = useState<StayQuoteFormData | null>(null)
+
+  const { data: quote, isFetching, error } = useStayQuote(propertyId, params)
+
+  const canQuote = !!checkIn && !!checkOut && checkOut > checkIn
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canQuote) return
+    setParams({
+      startDate: new Date(checkIn),
+      endDate: new Date(checkOut),
+      guests: guests ? Number(guests) : null,
+    })
+  }
+
+  const money = (amount: number) => formatCurrency(amount, quote?.currency)
+
+  return (
+    <div className="rounded-lg shadow-sm border border-amber-200 bg-amber-50/30">
+      <div className="flex items-center justify-between p-6 border-b">
+        <h2 className="text-lg font-semibold">Stay Quote</h2>
+        <Calculator className="h-5 w-5 text-amber-600" />
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center gap-2 p-3 bg-amber-100 rounded-lg border border-amber-300">
+          <Info className="w-5 h-5 text-amber-600" />
+          <p className="text-sm text-amber-800">
+            Price a stay from the price periods, minimum stay rules, operational costs and client fees above.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="quote-check-in">Check-in</Label>
+            <Input
+              id="quote-check-in"
+              type="date"
+              value={checkIn}
+              onChange={(e) => setCheckIn(e.target.value)}
+              className="w-[160px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="quote-check-out">Check-out</Label>
+            <Input
+              id="quote-check-out"
+              type="date"
+              value={checkOut}
+              min={checkIn || undefined}
+              onChange={(e) => setCheckOut(e.target.value)}
+              className="w-[160px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="quote-guests">Guests</Label>
+            <Input
+              id="quote-guests"
+              type="number"
+              min={1}
+              value={guests}
+              onChange={(e) => setGuests(e.target.value)}
+              className="w-[100px]"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!canQuote || isFetching}
+            className="bg-[#B5985A] hover:bg-[#B5985A]/90 text-white"
+          >
+            {isFetching ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Calculator className="mr-2 h-4 w-4" />
+            )}
+            Calculate
+          </Button>
+        </form>
+
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        )}
+
+        {quote && !error && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <p className="text-sm text-gray-700">
+                {format(new Date(quote.startDate), "EEE dd MMM yyyy")} → {format(new Date(quote.endDate), "EEE dd MMM yyyy")}
+                {" · "}
+                {quote.nights} night{quote.nights === 1 ? "" : "s"}
+                {quote.guests ? ` · ${quote.guests} guest${quote.guests === 1 ? "" : "s"}` : ""}
+              </p>
+              {quote.isBookable ? (
+                <Badge className="bg-green-100 text-green-800 border-green-200 gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Bookable
+                </Badge>
+              ) : (
+                <Badge className="bg-red-100 text-red-800 border-red-200 gap-1">
+                  <XCircle className="h-3 w-3" />
+                  Rules not met
+                </Badge>
+              )}
+            </div>
+
+            {quote.violations.length > 0 && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-1">
+                {quote.violations.map((issue, i) => (
+                  <p key={i} className="flex items-start gap-2 text-sm text-red-700">
+                    <XCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {quote.warnings.length > 0 && (
+              <div className="rounded-md border border-orange-200 bg-orange-50 p-3 space-y-1">
+                {quote.warnings.map((issue, i) => (
+                  <p key={i} className="flex items-start gap-2 text-sm text-orange-800">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-md border bg-white">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Detail</TableHead>
+                    <TableHead className="text-right">Owner price</TableHead>
+                    <TableHead className="text-right">Public price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quote.lines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-16 text-center text-muted-foreground">
+                        Nothing to price for these dates
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    quote.lines.map((line, i) => (
+                      <TableRow key={i}>
+                        <TableCell>
+                          <div className="font-medium text-gray-900">{line.label}</div>
+                          <div className="text-xs text-gray-500">{CATEGORY_LABELS[line.category]}</div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{line.detail}</TableCell>
+                        <TableCell className="text-right tabular-nums">{money(line.ownerAmount)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{money(line.publicAmount)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2} className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-semibold tabular-nums">{money(quote.ownerTotal)}</TableCell>
+                    <TableCell className="text-right font-semibold tabular-nums">{money(quote.publicTotal)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+
+            <div className="flex flex-wrap gap-6 text-sm text-gray-600">
+              <p>
+                Commission on rental:{" "}
+                <span className={cn("font-medium", quote.commission < 0 ? "text-red-600" : "text-gray-900")}>
+                  {money(quote.commission)}
+                </span>
+              </p>
+              {quote.securityDeposit != null && (
+                <p>
+                  Security deposit: <span className="font-medium text-gray-900">{money(quote.securityDeposit)}</span>
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { GlassCard } from "@/components/ui/glass-card"
 import { CompletionBadge } from "../shared/completion-indicator"
 import { ChevronDown, Home, Clock, MapPin, Sparkles, Wifi, Shield, MessageSquare } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { WelcomeBookDialog } from "./stay/welcome-book-dialog"
 
 // Lazy load subsections
 import dynamic from 'next/dynamic'
@@ -157,7 +158,10 @@ export function StaySection({ property }: StaySectionProps) {
             </p>
           </div>
         </div>
-        <CompletionBadge completedCount={completedCount} totalCount={totalCount} />
+        <div className="flex items-center gap-3">
+          <WelcomeBookDialog propertyId={property.id} />
+          <CompletionBadge completedCount={completedCount} totalCount={totalCount} />
+        </div>
       </div>
 
       <div className="space-y-3">
@@ -0,0 +1,136 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { BookOpen, Download, ExternalLink } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { getWelcomeBookUrl, useWelcomeBookOptions } from "@/hooks/use-welcome-book"
+import {
+  WELCOME_BOOK_LANGUAGE_LABELS,
+  type WelcomeBookFormat,
+  type WelcomeBookLanguage,
+} from "@/types/welcome-book"
+
+const GENERIC_BOOK = "generic"
+
+interface WelcomeBookDialogProps {
+  propertyId: string
+}
+
+export function WelcomeBookDialog({ propertyId }: WelcomeBookDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [language, setLanguage] = useState<WelcomeBookLanguage>("en")
+  const [bookingId, setBookingId] = useState<string>(GENERIC_BOOK)
+  const { data: options, isLoading, error } = useWelcomeBookOptions(propertyId, open)
+
+  const urlFor = (bookFormat: WelcomeBookFormat, download = false) =>
+    getWelcomeBookUrl(propertyId, {
+      format: bookFormat,
+      language,
+      bookingId: bookingId === GENERIC_BOOK ? null : bookingId,
+      download,
+    })
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <BookOpen className="h-4 w-4" />
+          Welcome book
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Guest welcome book</DialogTitle>
+          <DialogDescription>
+            Check-in, wifi, access, safety, surroundings, local addresses and the villa book comment,
+            assembled into a document to send to guests.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading || !options ? (
+          <div className="space-y-4">
+            <Skeleton className="h-9" />
+            <Skeleton className="h-9" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={language} onValueChange={(value) => setLanguage(value as WelcomeBookLanguage)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.languages.map(code => (
+                    <SelectItem key={code} value={code}>
+                      {WELCOME_BOOK_LANGUAGE_LABELS[code]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The property&apos;s marketing languages. The villa book comment is included when written in that language.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Stay</Label>
+              <Select value={bookingId} onValueChange={setBookingId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={GENERIC_BOOK}>Any guest (no name or dates)</SelectItem>
+                  {options.bookings.map(booking => (
+                    <SelectItem key={booking.id} value={booking.id}>
+                      {booking.guestName || "Unnamed guest"} · {format(new Date(booking.startDate), "dd MMM")} – {format(new Date(booking.endDate), "dd MMM yyyy")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {options && (
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" asChild>
+              <a href={urlFor("html")} target="_blank" rel="noopener noreferrer" className="gap-2">
+                <ExternalLink className="h-4 w-4" />
+                Open HTML
+              </a>
+            </Button>
+            <Button asChild>
+              <a href={urlFor("pdf", true)} className="gap-2">
+                <Download className="h-4 w-4" />
+                Download PDF
+              </a>
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
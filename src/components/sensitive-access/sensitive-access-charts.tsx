@@ -0,0 +1,133 @@
+"use client"
+
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { UserCell } from "@/components/audit-logs/audit-log-table"
+import { cn } from "@/lib/utils"
+import {
+  SENSITIVE_DATA_TYPE_LABELS,
+  SensitiveDataType,
+  type SensitiveAccessStats,
+} from "@/types/sensitive-data"
+
+const DATA_TYPE_COLORS: Record<SensitiveDataType, string> = {
+  [SensitiveDataType.FINANCIAL_DATA]: "bg-[#B5985A]",
+  [SensitiveDataType.INTERNAL_DATA]: "bg-slate-500",
+}
+
+function DataTypeLegend() {
+  return (
+    <div className="flex items-center gap-4 text-xs text-muted-foreground">
+      {Object.values(SensitiveDataType).map((dataType) => (
+        <span key={dataType} className="flex items-center gap-1.5">
+          <span className={cn("h-2.5 w-2.5 rounded-sm", DATA_TYPE_COLORS[dataType])} />
+          {SENSITIVE_DATA_TYPE_LABELS[dataType]}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+interface SensitiveAccessChartsProps {
+  stats: SensitiveAccessStats
+  selectedUserId: string | null
+  onUserClick: (userId: string) => void
+}
+
+export function SensitiveAccessCharts({ stats, selectedUserId, onUserClick }: SensitiveAccessChartsProps) {
+  const maxUserTotal = Math.max(1, ...stats.byUser.map((user) => user.total))
+  const maxDayTotal = Math.max(1, ...stats.byDay.map((day) => day.total))
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">Access volume per user</CardTitle>
+          <CardDescription className="text-xs">
+            {stats.total} accesses · click a user to filter the report
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {stats.byUser.length === 0 ? (
+            <p className="py-8 text-center text-xs text-muted-foreground">No access over this period.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {stats.byUser.map((user) => (
+                  <button
+                    key={user.userId}
+                    type="button"
+                    onClick={() => onUserClick(user.userId)}
+                    className={cn(
+                      "grid w-full grid-cols-[180px_1fr_auto] items-center gap-3 rounded-md px-2 py-1 text-left transition-colors hover:bg-muted/50",
+                      selectedUserId === user.userId && "bg-muted"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <UserCell userId={user.userId} />
+                      <span className="text-[10px] capitalize text-muted-foreground">{user.userRole}</span>
+                    </div>
+                    <div className="flex h-3 overflow-hidden rounded-sm bg-muted">
+                      {Object.values(SensitiveDataType).map((dataType) => {
+                        const count = user.byDataType[dataType] ?? 0
+                        if (count === 0) return null
+                        return (
+                          <div
+                            key={dataType}
+                            className={DATA_TYPE_COLORS[dataType]}
+                            style={{ width: `${(count / maxUserTotal) * 100}%` }}
+                          />
+                        )
+                      })}
+                    </div>
+                    <span className="text-xs tabular-nums text-muted-foreground">
+                      {user.total} · {user.properties} {user.properties === 1 ? "property" : "properties"}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <DataTypeLegend />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">Accesses per day</CardTitle>
+          <CardDescription className="text-xs">
+            {selectedUserId ? "Selected user only" : "All users"} · days in UTC
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TooltipProvider delayDuration={0}>
+            <div className="flex h-40 items-end gap-px">
+              {stats.byDay.map((day) => (
+                <Tooltip key={day.day}>
+                  <TooltipTrigger asChild>
+                    <div className="flex h-full flex-1 items-end">
+                      <div
+                        className="w-full rounded-t-sm bg-[#B5985A]/80 hover:bg-[#B5985A]"
+                        style={{ height: `${(day.total / maxDayTotal) * 100}%`, minHeight: day.total > 0 ? 2 : 0 }}
+                      />
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {format(parseISO(day.day), "EEE d MMM")}: {day.total} {day.total === 1 ? "access" : "accesses"}
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+          </TooltipProvider>
+          {stats.byDay.length > 0 && (
+            <div className="mt-2 flex justify-between text-[10px] text-muted-foreground">
+              <span>{format(parseISO(stats.byDay[0].day), "d MMM")}</span>
+              <span>{format(parseISO(stats.byDay[stats.byDay.length - 1].day), "d MMM")}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+"use client"
+
+import { useMemo } from "react"
+import { motion } from "framer-motion"
+import { addDays, startOfDay, subDays } from "date-fns"
+import { useQueryStates, parseAsInteger, parseAsString } from "nuqs"
+import { FilterX, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { SensitiveAccessCharts } from "@/components/sensitive-access/sensitive-access-charts"
+import { SensitiveAccessTable } from "@/components/sensitive-access/sensitive-access-table"
+import { SensitiveDataAlerts } from "@/components/sensitive-access/sensitive-data-alerts"
+import {
+  useSensitiveAccessLog,
+  useSensitiveAccessStats,
+  useSensitiveDataAlerts,
+} from "@/hooks/use-sensitive-access"
+import { useUser } from "@/hooks/use-user"
+import { Permission } from "@/types/auth"
+import { SENSITIVE_DATA_TYPE_LABELS, SensitiveDataType } from "@/types/sensitive-data"
+import type { SensitiveAccessFilters } from "@/lib/validations/sensitive-access"
+
+const PERIOD_OPTIONS = [
+  { days: 1, label: "Last 24 hours" },
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last 12 months" },
+]
+
+const DEFAULT_PERIOD_DAYS = 30
+
+function UserFilterBadge({ userId, onClear }: { userId: string; onClear: () => void }) {
+  const { data: user } = useUser(userId)
+
+  return (
+    <Badge variant="secondary" className="gap-1 pr-1">
+      User: {user?.fullName || userId}
+      <button type="button" onClick={onClear} className="rounded-sm hover:bg-muted">
+        <X className="h-3 w-3" />
+      </button>
+    </Badge>
+  )
+}
+
+export function SensitiveAccessContent() {
+  const [urlState, setUrlState] = useQueryStates(
+    {
+      days: parseAsInteger.withDefault(DEFAULT_PERIOD_DAYS),
+      dataType: parseAsString,
+      userId: parseAsString,
+      propertyId: parseAsString,
+      page: parseAsInteger.withDefault(1),
+      tab: parseAsString.withDefault("accesses"),
+      status: parseAsString.withDefault("open"),
+    },
+    {
+      history: "push",
+    }
+  )
+
+  const filters: SensitiveAccessFilters = useMemo(() => {
+    const endDate = addDays(startOfDay(new Date()), 1)
+    const result: SensitiveAccessFilters = {
+      startDate: urlState.days === 1 ? subDays(new Date(), 1) : subDays(endDate, urlState.days),
+      endDate,
+    }
+    if (urlState.dataType) result.dataType = urlState.dataType as SensitiveDataType
+    if (urlState.userId) result.userId = urlState.userId
+    if (urlState.propertyId) result.propertyId = urlState.propertyId
+    return result
+  }, [urlState.days, urlState.dataType, urlState.userId, urlState.propertyId])
+
+  const { data: stats, isLoading: statsLoading, error: statsError } = useSensitiveAccessStats(filters)
+  const { data: log, isLoading: logLoading, error: logError } = useSensitiveAccessLog({
+    ...filters,
+    page: urlState.page,
+  })
+  const { data: openAlerts } = useSensitiveDataAlerts({ status: "open" })
+
+  const propertyName = urlState.propertyId
+    ? log?.accesses.find((access) => access.propertyId === urlState.propertyId)?.propertyName
+    : null
+  const hasActiveFilters =
+    urlState.days !== DEFAULT_PERIOD_DAYS || !!urlState.dataType || !!urlState.userId || !!urlState.propertyId
+
+  const clearAllFilters = () => {
+    setUrlState({ days: DEFAULT_PERIOD_DAYS, dataType: null, userId: null, propertyId: null, page: 1 })
+  }
+
+  return (
+    <ProtectedSection permission={Permission.SENSITIVE_ACCESS_VIEW} showUnauthorized>
+      <div className="space-y-6 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            <h1 className="text-xl font-bold tracking-tight">Sensitive Data Access</h1>
+            <p className="text-xs text-muted-foreground">
+              Views and edits of financial and internal (wifi, access codes) property data
+            </p>
+          </motion.div>
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="flex flex-wrap items-center gap-2"
+          >
+            <Select
+              value={String(urlState.days)}
+              onValueChange={(value) => setUrlState({ days: Number(value), page: 1 })}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_OPTIONS.map((option) => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={urlState.dataType ?? "all"}
+              onValueChange={(value) => setUrlState({ dataType: value === "all" ? null : value, page: 1 })}
+            >
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All data</SelectItem>
+                {Object.values(SensitiveDataType).map((dataType) => (
+                  <SelectItem key={dataType} value={dataType}>{SENSITIVE_DATA_TYPE_LABELS[dataType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" className="gap-2" onClick={clearAllFilters}>
+                <FilterX className="h-3.5 w-3.5" />
+                Reset
+              </Button>
+            )}
+          </motion.div>
+        </div>
+
+        {(urlState.userId || urlState.propertyId) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {urlState.userId && (
+              <UserFilterBadge userId={urlState.userId} onClear={() => setUrlState({ userId: null, page: 1 })} />
+            )}
+            {urlState.propertyId && (
+              <Badge variant="secondary" className="gap-1 pr-1">
+                Property: {propertyName ?? urlState.propertyId}
+                <button
+                  type="button"
+                  onClick={() => setUrlState({ propertyId: null, page: 1 })}
+                  className="rounded-sm hover:bg-muted"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+        )}
+
+        {statsError ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {statsError.message}
+          </div>
+        ) : statsLoading || !stats ? (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <Skeleton className="h-[260px]" />
+            <Skeleton className="h-[260px]" />
+          </div>
+        ) : (
+          <SensitiveAccessCharts
+            stats={stats}
+            selectedUserId={urlState.userId}
+            onUserClick={(userId) => setUrlState({
+              userId: urlState.userId === userId ? null : userId,
+              page: 1,
+            })}
+          />
+        )}
+
+        <Tabs value={urlState.tab} onValueChange={(tab) => setUrlState({ tab })}>
+          <TabsList>
+            <TabsTrigger value="accesses">Accesses</TabsTrigger>
+            <TabsTrigger value="alerts" className="gap-2">
+              Alerts
+              {!!openAlerts?.openCount && (
+                <Badge variant="destructive" className="h-4 px-1.5 text-[10px]">
+                  {openAlerts.openCount}
+                </Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="accesses" className="mt-4">
+            {logError ? (
+              <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                {logError.message}
+              </div>
+            ) : (
+              <SensitiveAccessTable
+                accesses={log?.accesses ?? []}
+                isLoading={logLoading}
+                page={urlState.page}
+                totalPages={log?.pagination.totalPages ?? 1}
+                total={log?.pagination.total ?? 0}
+                onPageChange={(page) => setUrlState({ page })}
+                onPropertyClick={(propertyId) => setUrlState({ propertyId, page: 1 })}
+              />
+            )}
+          </TabsContent>
+          <TabsContent value="alerts" className="mt-4">
+            <SensitiveDataAlerts
+              status={urlState.status as "open" | "acknowledged" | "all"}
+              onStatusChange={(status) => setUrlState({ status })}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </ProtectedSection>
+  )
+}
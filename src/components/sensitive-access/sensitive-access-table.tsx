@@ -0,0 +1,176 @@
+"use client"
+
+import Link from "next/link"
+import { format, formatDistanceToNow } from "date-fns"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { UserCell } from "@/components/audit-logs/audit-log-table"
+import {
+  SENSITIVE_DATA_TYPE_LABELS,
+  SensitiveDataAction,
+  type SensitiveAccessRow,
+  type SensitiveDataType,
+} from "@/types/sensitive-data"
+
+interface SensitiveAccessTableProps {
+  accesses: SensitiveAccessRow[]
+  isLoading: boolean
+  page: number
+  totalPages: number
+  total: number
+  onPageChange: (page: number) => void
+  onPropertyClick: (propertyId: string) => void
+}
+
+export function SensitiveAccessTable({
+  accesses,
+  isLoading,
+  page,
+  totalPages,
+  total,
+  onPageChange,
+  onPropertyClick,
+}: SensitiveAccessTableProps) {
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50/50">
+              <TableHead className="text-xs">When</TableHead>
+              <TableHead className="text-xs">User</TableHead>
+              <TableHead className="text-xs">Role</TableHead>
+              <TableHead className="text-xs">Action</TableHead>
+              <TableHead className="text-xs">Data</TableHead>
+              <TableHead className="text-xs">Property</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell><Skeleton className="h-3 w-24" /></TableCell>
+                  <TableCell><Skeleton className="h-3 w-32" /></TableCell>
+                  <TableCell><Skeleton className="h-3 w-16" /></TableCell>
+                  <TableCell><Skeleton className="h-5 w-12" /></TableCell>
+                  <TableCell><Skeleton className="h-3 w-20" /></TableCell>
+                  <TableCell><Skeleton className="h-3 w-40" /></TableCell>
+                </TableRow>
+              ))
+            ) : accesses.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center text-xs text-muted-foreground">
+                  No access matches these filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              accesses.map((access) => (
+                <TableRow key={access.id}>
+                  <TableCell className="text-xs text-muted-foreground">
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger>
+                          {formatDistanceToNow(new Date(access.createdAt), { addSuffix: true })}
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          {format(new Date(access.createdAt), "dd MMM yyyy HH:mm:ss")}
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </TableCell>
+                  <TableCell>
+                    <UserCell userId={access.userId} />
+                  </TableCell>
+                  <TableCell className="text-xs capitalize text-muted-foreground">
+                    {access.userRole}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      className={`font-medium text-[10px] py-0 px-1.5 h-5 ${
+                        access.action === SensitiveDataAction.EDIT
+                          ? "bg-blue-100 text-blue-800 border-blue-300"
+                          : "bg-gray-100 text-gray-800 border-gray-300"
+                      }`}
+                    >
+                      {access.action === SensitiveDataAction.EDIT ? "Edit" : "View"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {SENSITIVE_DATA_TYPE_LABELS[access.dataType as SensitiveDataType] ?? access.dataType}
+                    {access.section && (
+                      <span className="ml-1 text-muted-foreground">({access.section.replace(/_/g, " ")})</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="font-medium hover:underline"
+                        onClick={() => onPropertyClick(access.propertyId)}
+                      >
+                        {access.propertyName ?? access.propertyId}
+                      </button>
+                      {access.propertyName && (
+                        <Link
+                          href={`/houses/${access.propertyId}`}
+                          className="text-muted-foreground hover:text-foreground"
+                        >
+                          Open
+                        </Link>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between px-2">
+          <div className="flex-1 text-xs text-muted-foreground">
+            {total} accesses
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="text-xs font-medium">
+              Page {page} of {totalPages}
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                className="h-7 w-7 p-0"
+                onClick={() => onPageChange(page - 1)}
+                disabled={page <= 1}
+              >
+                <span className="sr-only">Go to previous page</span>
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="outline"
+                className="h-7 w-7 p-0"
+                onClick={() => onPageChange(page + 1)}
+                disabled={page >= totalPages}
+              >
+                <span className="sr-only">Go to next page</span>
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
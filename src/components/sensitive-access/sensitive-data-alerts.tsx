@@ -0,0 +1,122 @@
+"use client"
+
+import Link from "next/link"
+import { format, formatDistanceToNow } from "date-fns"
+import { CheckCircle2, ShieldAlert } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { UserCell } from "@/components/audit-logs/audit-log-table"
+import { useAcknowledgeSensitiveDataAlert, useSensitiveDataAlerts } from "@/hooks/use-sensitive-access"
+import { useUser } from "@/hooks/use-user"
+import { SENSITIVE_DATA_TYPE_LABELS, type SensitiveDataType } from "@/types/sensitive-data"
+
+type AlertStatus = "open" | "acknowledged" | "all"
+
+function AcknowledgedBy({ userId, at }: { userId: string | null; at: Date }) {
+  const { data: user } = useUser(userId ?? undefined)
+
+  return (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+      <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+      Acknowledged {user ? `by ${user.fullName} ` : ""}{formatDistanceToNow(new Date(at), { addSuffix: true })}
+    </span>
+  )
+}
+
+interface SensitiveDataAlertsProps {
+  status: AlertStatus
+  onStatusChange: (status: AlertStatus) => void
+}
+
+export function SensitiveDataAlerts({ status, onStatusChange }: SensitiveDataAlertsProps) {
+  const { data, isLoading, error } = useSensitiveDataAlerts({ status })
+  const acknowledge = useAcknowledgeSensitiveDataAlert()
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {data && (
+            `An alert is raised when a user views the same kind of sensitive data on ${data.settings.threshold} or more properties within ${data.settings.windowMinutes} minutes.`
+          )}
+        </p>
+        <Select value={status} onValueChange={(value) => onStatusChange(value as AlertStatus)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="acknowledged">Acknowledged</SelectItem>
+            <SelectItem value="all">All alerts</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error.message}
+        </div>
+      ) : isLoading || !data ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }, (_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : data.alerts.length === 0 ? (
+        <div className="rounded-md border p-8 text-center text-xs text-muted-foreground">
+          {status === "open" ? "No open alerts." : "No alerts."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {data.alerts.map((alert) => (
+            <div key={alert.id} className="rounded-md border p-4 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="flex items-start gap-3">
+                  <ShieldAlert className={`mt-0.5 h-4 w-4 shrink-0 ${alert.acknowledgedAt ? "text-muted-foreground" : "text-red-600"}`} />
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <UserCell userId={alert.userId} />
+                      <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-5 capitalize">
+                        {alert.userRole}
+                      </Badge>
+                    </div>
+                    <p className="text-sm">
+                      Viewed {(SENSITIVE_DATA_TYPE_LABELS[alert.dataType as SensitiveDataType] ?? alert.dataType).toLowerCase()} data
+                      of <span className="font-semibold">{alert.propertyCount} properties</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(alert.windowStart), "dd MMM yyyy HH:mm")} – {format(new Date(alert.windowEnd), "HH:mm")}
+                    </p>
+                  </div>
+                </div>
+                {alert.acknowledgedAt ? (
+                  <AcknowledgedBy userId={alert.acknowledgedBy} at={alert.acknowledgedAt} />
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={acknowledge.isPending}
+                    onClick={() => acknowledge.mutate(alert.id)}
+                  >
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1.5 pl-7">
+                {alert.properties.map((property) => (
+                  <Link key={property.id} href={`/houses/${property.id}`}>
+                    <Badge variant="secondary" className="text-[10px] font-normal hover:bg-secondary/60">
+                      {property.name}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
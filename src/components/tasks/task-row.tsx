@@ -0,0 +1,203 @@
+"use client"
+
+import { useState } from "react"
+import { Clock, Loader2, Phone, StickyNote, User } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useUpdateOperationalTask } from "@/hooks/use-operational-tasks"
+import { cn } from "@/lib/utils"
+import {
+  OPERATIONAL_TASK_STATUS_COLORS,
+  OPERATIONAL_TASK_STATUS_LABELS,
+  OPERATIONAL_TASK_TYPE_LABELS,
+  OperationalTaskStatus,
+  type OperationalTaskListItem,
+  type TaskAssigneeOption,
+} from "@/types/operational-task"
+
+// Cancelled is set by the generator only, staff skip a task instead
+const EDITABLE_STATUSES = Object.values(OperationalTaskStatus).filter(
+  status => status !== OperationalTaskStatus.CANCELLED
+)
+
+const UNASSIGNED = "unassigned"
+
+interface TaskRowProps {
+  task: OperationalTaskListItem
+  assignees: TaskAssigneeOption[]
+  canEdit: boolean
+}
+
+function TaskDetailsPopover({ task }: { task: OperationalTaskListItem }) {
+  const [open, setOpen] = useState(false)
+  const [scheduledTime, setScheduledTime] = useState(task.scheduledTime ?? "")
+  const [notes, setNotes] = useState(task.notes ?? "")
+  const updateTask = useUpdateOperationalTask()
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setScheduledTime(task.scheduledTime ?? "")
+      setNotes(task.notes ?? "")
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      await updateTask.mutateAsync({
+        id: task.id,
+        scheduledTime: scheduledTime || null,
+        notes: notes.trim() || null,
+      })
+      setOpen(false)
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Time and notes">
+          <StickyNote className={cn("h-3.5 w-3.5", task.notes ? "text-amber-600" : "text-muted-foreground")} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Time</Label>
+          <Input
+            type="time"
+            value={scheduledTime}
+            onChange={(e) => setScheduledTime(e.target.value)}
+            className="h-8 text-xs"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Notes</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className="text-xs"
+            placeholder="Access, special requests, issues found"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={updateTask.isPending}>
+            {updateTask.isPending && <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export function TaskRow({ task, assignees, canEdit }: TaskRowProps) {
+  const updateTask = useUpdateOperationalTask()
+  const propertyAssignees = assignees.filter(option => option.propertyId === task.propertyId)
+  const isClosed = task.status === OperationalTaskStatus.CANCELLED
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-3 px-4 py-2.5", isClosed && "opacity-60")}>
+      <div className="flex w-[72px] shrink-0 items-center gap-1 text-xs tabular-nums text-muted-foreground">
+        <Clock className="h-3 w-3" />
+        {task.scheduledTime ?? "Any time"}
+      </div>
+
+      <div className="min-w-0 flex-1">
+        <p className={cn("text-xs font-medium", task.status === OperationalTaskStatus.DONE && "line-through")}>
+          {OPERATIONAL_TASK_TYPE_LABELS[task.type]}
+        </p>
+        <p className="text-[11px] text-muted-foreground truncate">
+          {task.guestName ? `Stay of ${task.guestName}` : "Recurring service"}
+          {task.notes && ` · ${task.notes}`}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {canEdit && !isClosed ? (
+          <Select
+            value={task.assignee?.id ?? UNASSIGNED}
+            onValueChange={(value) =>
+              updateTask.mutate({ id: task.id, assigneeContactId: value === UNASSIGNED ? null : value })
+            }
+          >
+            <SelectTrigger className="h-7 w-[170px] text-xs">
+              <User className="mr-1 h-3 w-3 shrink-0 text-muted-foreground" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED} className="text-xs">Unassigned</SelectItem>
+              {/* Keep the current assignee selectable even if the contact was unlinked since */}
+              {task.assignee && !propertyAssignees.some(option => option.contactId === task.assignee?.id) && (
+                <SelectItem value={task.assignee.id} className="text-xs">{task.assignee.name}</SelectItem>
+              )}
+              {propertyAssignees.map(option => (
+                <SelectItem key={option.contactId} value={option.contactId} className="text-xs">
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span className="w-[170px] truncate text-xs text-muted-foreground">
+            {task.assignee?.name ?? "Unassigned"}
+          </span>
+        )}
+
+        {task.assignee?.phone ? (
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild title={task.assignee.phone}>
+            <a href={`tel:${task.assignee.phone}`}>
+              <Phone className="h-3.5 w-3.5 text-muted-foreground" />
+            </a>
+          </Button>
+        ) : (
+          <span className="w-7" />
+        )}
+
+        {canEdit && !isClosed ? (
+          <>
+            <Select
+              value={task.status}
+              onValueChange={(value) => updateTask.mutate({ id: task.id, status: value as OperationalTaskStatus })}
+            >
+              <SelectTrigger className={cn("h-7 w-[120px] border text-xs", OPERATIONAL_TASK_STATUS_COLORS[task.status])}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EDITABLE_STATUSES.map(status => (
+                  <SelectItem key={status} value={status} className="text-xs">
+                    {OPERATIONAL_TASK_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <TaskDetailsPopover task={task} />
+          </>
+        ) : (
+          <Badge
+            variant="outline"
+            className={cn("h-5 w-[120px] justify-center px-1.5 py-0 text-[10px] font-normal", OPERATIONAL_TASK_STATUS_COLORS[task.status])}
+          >
+            {OPERATIONAL_TASK_STATUS_LABELS[task.status]}
+          </Badge>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+"use client"
+
+import { useMemo } from "react"
+import { motion } from "framer-motion"
+import {
+  addDays,
+  addWeeks,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  isSameDay,
+  isToday,
+  parse,
+  startOfWeek,
+} from "date-fns"
+import { parseAsBoolean, parseAsString, parseAsStringEnum, useQueryStates } from "nuqs"
+import { ChevronLeft, ChevronRight, FilterX, Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { TaskRow } from "@/components/tasks/task-row"
+import { useGenerateOperationalTasks, useOperationalTaskBoard } from "@/hooks/use-operational-tasks"
+import { useDestinations } from "@/hooks/use-destinations"
+import { usePermissions } from "@/hooks/use-permissions"
+import { cn } from "@/lib/utils"
+import { Permission } from "@/types/auth"
+import {
+  OPERATIONAL_TASK_TYPE_LABELS,
+  OperationalTaskStatus,
+  OperationalTaskType,
+  type OperationalTaskListItem,
+} from "@/types/operational-task"
+import type { OperationalTaskFilters } from "@/lib/validations/operational-task"
+
+const DATE_FORMAT = "yyyy-MM-dd"
+
+const OPEN_STATUSES: OperationalTaskStatus[] = [OperationalTaskStatus.PENDING, OperationalTaskStatus.IN_PROGRESS]
+
+function parseDay(value: string | null): Date {
+  const date = value ? parse(value, DATE_FORMAT, new Date()) : new Date()
+  return isNaN(date.getTime()) ? new Date() : date
+}
+
+export function TasksContent() {
+  const [urlState, setUrlState] = useQueryStates(
+    {
+      date: parseAsString,
+      type: parseAsStringEnum<OperationalTaskType>(Object.values(OperationalTaskType)),
+      destinationId: parseAsString,
+      assigneeContactId: parseAsString,
+      showCancelled: parseAsBoolean.withDefault(false),
+    },
+    {
+      history: "push",
+    }
+  )
+
+  const { hasPermission } = usePermissions()
+  const canEdit = hasPermission(Permission.TASK_EDIT)
+
+  const selectedDay = parseDay(urlState.date)
+  const weekStart = startOfWeek(selectedDay, { weekStartsOn: 1 })
+  const weekEnd = endOfWeek(selectedDay, { weekStartsOn: 1 })
+  const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd })
+
+  // The whole week is loaded so the day strip can show its counts
+  const filters: OperationalTaskFilters = useMemo(() => ({
+    from: weekStart,
+    to: weekEnd,
+    type: urlState.type ?? undefined,
+    destinationId: urlState.destinationId ?? undefined,
+    assigneeContactId: urlState.assigneeContactId ?? undefined,
+    includeCancelled: urlState.showCancelled,
+  }), [weekStart.getTime(), weekEnd.getTime(), urlState.type, urlState.destinationId, urlState.assigneeContactId, urlState.showCancelled]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const { data: board, isLoading, error } = useOperationalTaskBoard(filters)
+  const { data: destinationsData } = useDestinations()
+  const generateTasks = useGenerateOperationalTasks()
+
+  const tasksOfDay = (day: Date) =>
+    (board?.tasks ?? []).filter(task => isSameDay(new Date(task.scheduledDate), day))
+
+  const dayTasks = tasksOfDay(selectedDay)
+  const tasksByProperty = dayTasks.reduce<Map<string, OperationalTaskListItem[]>>((groups, task) => {
+    groups.set(task.propertyId, [...(groups.get(task.propertyId) ?? []), task])
+    return groups
+  }, new Map())
+
+  // One entry per contact, a contact serving several houses appears once
+  const assigneeOptions = useMemo(() => {
+    const options = new Map<string, string>()
+    board?.assignees.forEach(option => options.set(option.contactId, option.name))
+    return [...options].map(([contactId, name]) => ({ contactId, name }))
+  }, [board?.assignees])
+
+  const hasActiveFilters = !!urlState.type || !!urlState.destinationId || !!urlState.assigneeContactId || urlState.showCancelled
+
+  const setDay = (day: Date) => setUrlState({ date: isToday(day) ? null : format(day, DATE_FORMAT) })
+
+  const clearAllFilters = () => {
+    setUrlState({ type: null, destinationId: null, assigneeContactId: null, showCancelled: null })
+  }
+
+  return (
+    <ProtectedSection permission={Permission.TASK_VIEW} showUnauthorized>
+      <div className="space-y-6 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <motion.div
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            <h1 className="text-xl font-bold tracking-tight">Housekeeping</h1>
+            <p className="text-xs text-muted-foreground">
+              Checkout cleanings, linen and towel changes, gardening and pool visits generated from bookings
+            </p>
+          </motion.div>
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="flex flex-wrap items-center gap-2"
+          >
+            <Select
+              value={urlState.type ?? "all"}
+              onValueChange={(value) => setUrlState({ type: value === "all" ? null : value as OperationalTaskType })}
+            >
+              <SelectTrigger className="h-8 w-[170px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">All tasks</SelectItem>
+                {Object.values(OperationalTaskType).map(type => (
+                  <SelectItem key={type} value={type} className="text-xs">
+                    {OPERATIONAL_TASK_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={urlState.destinationId ?? "all"}
+              onValueChange={(value) => setUrlState({ destinationId: value === "all" ? null : value })}
+            >
+              <SelectTrigger className="h-8 w-[170px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">All destinations</SelectItem>
+                {destinationsData?.destinations.map(destination => (
+                  <SelectItem key={destination.id} value={destination.id} className="text-xs">
+                    {destination.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={urlState.assigneeContactId ?? "all"}
+              onValueChange={(value) => setUrlState({ assigneeContactId: value === "all" ? null : value })}
+            >
+              <SelectTrigger className="h-8 w-[170px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">Everyone</SelectItem>
+                {assigneeOptions.map(option => (
+                  <SelectItem key={option.contactId} value={option.contactId} className="text-xs">
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2 px-1">
+              <Switch
+                id="show-cancelled"
+                checked={urlState.showCancelled}
+                onCheckedChange={(checked) => setUrlState({ showCancelled: checked || null })}
+              />
+              <Label htmlFor="show-cancelled" className="text-xs">Cancelled</Label>
+            </div>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" className="gap-2" onClick={clearAllFilters}>
+                <FilterX className="h-3.5 w-3.5" />
+                Reset
+              </Button>
+            )}
+            {canEdit && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={generateTasks.isPending}
+                onClick={() => generateTasks.mutate({ from: weekStart, to: addDays(weekEnd, 7) })}
+              >
+                {generateTasks.isPending ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-3.5 w-3.5" />
+                )}
+                Generate tasks
+              </Button>
+            )}
+          </motion.div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="h-[64px] px-2" onClick={() => setDay(addWeeks(selectedDay, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="grid flex-1 grid-cols-7 gap-2">
+            {weekDays.map(day => {
+              const tasks = tasksOfDay(day)
+              const open = tasks.filter(task => OPEN_STATUSES.includes(task.status)).length
+              const selected = isSameDay(day, selectedDay)
+              return (
+                <button
+                  key={day.toISOString()}
+                  type="button"
+                  onClick={() => setDay(day)}
+                  className={cn(
+                    "rounded-md border bg-white px-3 py-2 text-left transition-colors hover:bg-gray-50",
+                    selected && "border-primary ring-1 ring-primary",
+                    isToday(day) && !selected && "border-blue-300"
+                  )}
+                >
+                  <p className="text-[11px] text-muted-foreground">{format(day, "EEE dd MMM")}</p>
+                  {isLoading ? (
+                    <Skeleton className="mt-1 h-4 w-12" />
+                  ) : (
+                    <p className="text-sm font-semibold tabular-nums">
+                      {open}
+                      <span className="ml-1 text-[11px] font-normal text-muted-foreground">
+                        / {tasks.length} {tasks.length === 1 ? "task" : "tasks"}
+                      </span>
+                    </p>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+          <Button variant="outline" size="sm" className="h-[64px] px-2" onClick={() => setDay(addWeeks(selectedDay, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error.message}
+          </div>
+        ) : isLoading || !board ? (
+          <Skeleton className="h-[360px]" />
+        ) : dayTasks.length === 0 ? (
+          <div className="rounded-md border bg-white p-8 text-center text-xs text-muted-foreground">
+            No tasks on {format(selectedDay, "EEEE dd MMMM")}.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {[...tasksByProperty.values()].map(tasks => (
+              <div key={tasks[0].propertyId} className="rounded-md border bg-white">
+                <div className="flex items-center justify-between border-b bg-gray-50/50 px-4 py-2">
+                  <p className="text-xs font-semibold">{tasks[0].propertyName}</p>
+                  <p className="text-[11px] text-muted-foreground">{tasks[0].destinationName}</p>
+                </div>
+                <div className="divide-y">
+                  {tasks.map(task => (
+                    <TaskRow key={task.id} task={task} assignees={board.assignees} canEdit={canEdit} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </ProtectedSection>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { useExportTranslations } from "@/hooks/use-marketing-content"
+import {
+  MARKETING_LANGUAGES,
+  SOURCE_LANGUAGE,
+  type MarketingLanguage,
+  type TranslationFileFormat,
+} from "@/types/marketing-content"
+
+const TARGET_LANGUAGES = MARKETING_LANGUAGES.filter(language => language.code !== SOURCE_LANGUAGE)
+
+interface ExportTranslationsDialogProps {
+  // Destination filtered on the dashboard, the export follows it
+  destinationId?: string
+  defaultLanguage?: MarketingLanguage
+}
+
+export function ExportTranslationsDialog({ destinationId, defaultLanguage }: ExportTranslationsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<TranslationFileFormat>("xliff")
+  const [languages, setLanguages] = useState<MarketingLanguage[]>([])
+  const [onlyPending, setOnlyPending] = useState(true)
+  const exportTranslations = useExportTranslations()
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setLanguages(defaultLanguage ? [defaultLanguage] : [])
+    setOpen(next)
+  }
+
+  const toggleLanguage = (code: MarketingLanguage, checked: boolean) => {
+    setLanguages(current => checked ? [...current, code] : current.filter(language => language !== code))
+  }
+
+  const handleExport = async () => {
+    try {
+      await exportTranslations.mutateAsync({ format, languages, destinationId, onlyPending })
+      setOpen(false)
+    } catch {
+      // The error is reported by the mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-1.5 text-xs">
+          <Download className="h-3.5 w-3.5" />
+          Export for translation
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Export for translation</DialogTitle>
+          <DialogDescription>
+            One file with the English copy of every property{destinationId ? " of the selected destination" : ""} and
+            the current translations, to send to translators and import back once filled in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label className="text-xs">Languages</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {TARGET_LANGUAGES.map(language => (
+                <label key={language.code} className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={languages.includes(language.code)}
+                    onCheckedChange={(checked) => toggleLanguage(language.code, checked === true)}
+                  />
+                  {language.flag} {language.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Format</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as TranslationFileFormat)}
+              className="flex gap-6"
+            >
+              <label className="flex items-center gap-2 text-xs">
+                <RadioGroupItem value="xliff" />
+                XLIFF 1.2 (translation tools)
+              </label>
+              <label className="flex items-center gap-2 text-xs">
+                <RadioGroupItem value="csv" />
+                CSV (spreadsheets)
+              </label>
+            </RadioGroup>
+          </div>
+
+          <label className="flex items-start gap-2 text-xs">
+            <Checkbox
+              className="mt-0.5"
+              checked={onlyPending}
+              onCheckedChange={(checked) => setOnlyPending(checked === true)}
+            />
+            <span>
+              Only missing, incomplete or outdated translations
+              <span className="block text-muted-foreground">Complete and up to date translations are left out</span>
+            </span>
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={languages.length === 0 || exportTranslations.isPending}>
+            {exportTranslations.isPending ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { AlertCircle, CheckCircle2, FileText, Upload } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useImportTranslations } from "@/hooks/use-marketing-content"
+import { MAX_TRANSLATION_FILE_LENGTH } from "@/lib/validations/marketing-content"
+import type { TranslationFileFormat, TranslationImportResult } from "@/types/marketing-content"
+
+// Translation tools save XLIFF under several extensions
+const formatFromFileName = (name: string): TranslationFileFormat | null => {
+  if (/\.(xlf|xliff|xml)$/i.test(name)) return "xliff"
+  if (/\.csv$/i.test(name)) return "csv"
+  return null
+}
+
+export function ImportTranslationsDialog() {
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [result, setResult] = useState<TranslationImportResult | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const importTranslations = useImportTranslations()
+
+  const reset = () => {
+    setFile(null)
+    setFileError(null)
+    setResult(null)
+    if (inputRef.current) inputRef.current.value = ""
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    setOpen(next)
+  }
+
+  const handleFileChange = (selected: File | undefined) => {
+    setResult(null)
+    setFileError(null)
+    setFile(selected ?? null)
+    if (selected && !formatFromFileName(selected.name)) {
+      setFileError("Choose an XLIFF (.xlf, .xliff) or CSV file")
+    } else if (selected && selected.size > MAX_TRANSLATION_FILE_LENGTH) {
+      setFileError("The file is too large, export fewer languages at once")
+    }
+  }
+
+  const handleImport = async () => {
+    const format = file && formatFromFileName(file.name)
+    if (!file || !format) return
+
+    try {
+      const content = await file.text()
+      setResult(await importTranslations.mutateAsync({ format, content }))
+    } catch {
+      // The error is reported by the mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-1.5 text-xs">
+          <Upload className="h-3.5 w-3.5" />
+          Import translations
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import translations</DialogTitle>
+          <DialogDescription>
+            Upload a file exported from this page once translated. Empty translations keep the current text.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 rounded-md border border-dashed p-4">
+            <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-xs font-medium">{file ? file.name : "No file selected"}</p>
+              <p className="text-[11px] text-muted-foreground">XLIFF 1.2 or CSV</p>
+            </div>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => inputRef.current?.click()}>
+              Choose file
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".xlf,.xliff,.xml,.csv"
+              className="hidden"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </div>
+
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertDescription>
+                  {result.updated} {result.updated === 1 ? "translation" : "translations"} updated.
+                  {result.staleUnits > 0 && (
+                    <> {result.staleUnits} {result.staleUnits === 1 ? "text was" : "texts were"} translated from an
+                    older English copy, those translations stay flagged for update.</>
+                  )}
+                </AlertDescription>
+              </Alert>
+              {result.errors.length > 0 && (
+                <ScrollArea className="h-32 rounded-md border p-3">
+                  <ul className="space-y-1 text-[11px] text-red-700">
+                    {result.errors.map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {result ? "Close" : "Cancel"}
+          </Button>
+          {!result && (
+            <Button onClick={handleImport} disabled={!file || !!fileError || importTranslations.isPending}>
+              {importTranslations.isPending ? "Importing..." : "Import"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useMemo } from "react"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { parseAsString, parseAsStringEnum, useQueryStates } from "nuqs"
+import { AlertTriangle, Check, Circle, Search } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import { ProtectedSection } from "@/components/auth/protected-section"
+import { ExportTranslationsDialog } from "@/components/translations/export-translations-dialog"
+import { ImportTranslationsDialog } from "@/components/translations/import-translations-dialog"
+import { useTranslationDashboard } from "@/hooks/use-marketing-content"
+import { useDestinations } from "@/hooks/use-destinations"
+import { usePermissions } from "@/hooks/use-permissions"
+import { cn } from "@/lib/utils"
+import { Permission } from "@/types/auth"
+import {
+  MARKETING_COPY_FIELD_LABELS,
+  MARKETING_LANGUAGES,
+  MARKETING_LANGUAGE_CODES,
+  SOURCE_LANGUAGE,
+  TRANSLATION_STATUS_LABELS,
+  type MarketingLanguage,
+  type TranslationCell,
+  type TranslationStatus,
+} from "@/types/marketing-content"
+import type { TranslationDashboardFilters } from "@/lib/validations/marketing-content"
+
+const STATUSES = Object.keys(TRANSLATION_STATUS_LABELS) as TranslationStatus[]
+
+const STATUS_STYLES: Record<TranslationStatus, string> = {
+  missing: "border-dashed text-muted-foreground",
+  incomplete: "border-blue-200 bg-blue-50 text-blue-700",
+  outdated: "border-amber-200 bg-amber-50 text-amber-800",
+  complete: "border-green-200 bg-green-50 text-green-700",
+}
+
+const languageLabel = (code: MarketingLanguage) => {
+  const language = MARKETING_LANGUAGES.find(entry => entry.code === code)
+  return language ? `${language.flag} ${language.code.toUpperCase()}` : code
+}
+
+function StatusCell({ cell }: { cell: TranslationCell }) {
+  const Icon = cell.status === "complete" ? Check : cell.status === "outdated" ? AlertTriangle : Circle
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            "inline-flex h-6 min-w-[52px] items-center justify-center gap-1 rounded border px-1.5 text-[11px] tabular-nums",
+            STATUS_STYLES[cell.status]
+          )}
+        >
+          <Icon className="h-3 w-3" />
+          {cell.status === "missing" ? "–" : `${cell.completeness}%`}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs text-xs">
+        <p className="font-medium">{TRANSLATION_STATUS_LABELS[cell.status]}</p>
+        {cell.status === "outdated" && <p>The English copy changed after this translation was written</p>}
+        {cell.status !== "missing" && cell.missingFields.length > 0 && (
+          <p>Missing: {cell.missingFields.map(field => MARKETING_COPY_FIELD_LABELS[field]).join(", ")}</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
+
+export function TranslationsContent() {
+  const [urlState, setUrlState] = useQueryStates(
+    {
+      destinationId: parseAsString,
+      language: parseAsStringEnum<MarketingLanguage>(MARKETING_LANGUAGE_CODES),
+      status: parseAsStringEnum<TranslationStatus>(STATUSES),
+      search: parseAsString,
+    },
+    {
+      history: "push",
+    }
+  )
+
+  const filters: TranslationDashboardFilters = useMemo(() => ({
+    destinationId: urlState.destinationId ?? undefined,
+    language: urlState.language ?? undefined,
+    status: urlState.status ?? undefined,
+    search: urlState.search || undefined,
+  }), [urlState.destinationId, urlState.language, urlState.status, urlState.search])
+
+  const { data: dashboard, isLoading, error } = useTranslationDashboard(filters)
+  const { data: destinationsData } = useDestinations()
+  const { hasPermission } = usePermissions()
+  const languages = dashboard?.languages ?? []
+  const translatedLanguages = languages.filter(code => code !== SOURCE_LANGUAGE)
+
+  return (
+    <ProtectedSection permission={Permission.PROPERTY_VIEW} showUnauthorized>
+      <TooltipProvider delayDuration={200}>
+        <div className="space-y-6 p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+            >
+              <h1 className="text-xl font-bold tracking-tight">Translations</h1>
+              <p className="text-xs text-muted-foreground">
+                Marketing copy of every property per language, checked against the English source
+              </p>
+            </motion.div>
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="flex items-center gap-2"
+            >
+              <ExportTranslationsDialog
+                destinationId={filters.destinationId}
+                defaultLanguage={filters.language !== SOURCE_LANGUAGE ? filters.language : undefined}
+              />
+              {hasPermission(Permission.PROPERTY_EDIT) && <ImportTranslationsDialog />}
+            </motion.div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2 h-4 w-4 text-muted-foreground" />
+              <Input
+                defaultValue={urlState.search ?? ""}
+                onChange={(e) => setUrlState({ search: e.target.value || null })}
+                placeholder="Search properties"
+                className="h-8 w-[220px] pl-8 text-xs"
+              />
+            </div>
+            <Select
+              value={urlState.destinationId ?? "all"}
+              onValueChange={(value) => setUrlState({ destinationId: value === "all" ? null : value })}
+            >
+              <SelectTrigger className="h-8 w-[180px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">All destinations</SelectItem>
+                {destinationsData?.destinations.map(destination => (
+                  <SelectItem key={destination.id} value={destination.id} className="text-xs">
+                    {destination.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={urlState.language ?? "all"}
+              onValueChange={(value) => setUrlState({ language: value === "all" ? null : value as MarketingLanguage })}
+            >
+              <SelectTrigger className="h-8 w-[150px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">All languages</SelectItem>
+                {MARKETING_LANGUAGES.map(language => (
+                  <SelectItem key={language.code} value={language.code} className="text-xs">
+                    {language.flag} {language.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={urlState.status ?? "all"}
+              onValueChange={(value) => setUrlState({ status: value === "all" ? null : value as TranslationStatus })}
+            >
+              <SelectTrigger className="h-8 w-[150px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">Any status</SelectItem>
+                {STATUSES.map(status => (
+                  <SelectItem key={status} value={status} className="text-xs">
+                    {TRANSLATION_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error ? (
+            <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+              {error.message}
+            </div>
+          ) : isLoading || !dashboard ? (
+            <Skeleton className="h-[420px]" />
+          ) : (
+            <div className="rounded-md border bg-white">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50/50">
+                    <TableHead className="text-xs">Property</TableHead>
+                    {languages.map(language => (
+                      <TableHead key={language} className="text-xs text-center whitespace-nowrap">
+                        {languageLabel(language)}
+                        {language === SOURCE_LANGUAGE && (
+                          <span className="ml-1 font-normal text-muted-foreground">source</span>
+                        )}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                  <TableRow className="hover:bg-transparent">
+                    <TableHead className="text-[11px] font-normal text-muted-foreground">
+                      Complete · needs update
+                    </TableHead>
+                    {languages.map(language => {
+                      const counts = dashboard.summary[language]
+                      return (
+                        <TableHead key={language} className="text-center text-[11px] font-normal text-muted-foreground tabular-nums">
+                          {counts?.complete ?? 0}
+                          {language !== SOURCE_LANGUAGE && (
+                            <span className={cn("ml-1", counts?.outdated ? "text-amber-700" : undefined)}>
+                              · {counts?.outdated ?? 0}
+                            </span>
+                          )}
+                        </TableHead>
+                      )
+                    })}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dashboard.rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={languages.length + 1} className="h-24 text-center text-xs text-muted-foreground">
+                        No properties match these filters.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    dashboard.rows.map(row => (
+                      <TableRow key={row.propertyId}>
+                        <TableCell className="text-xs">
+                          <Link href={`/houses/${row.propertyId}`} className="font-medium hover:underline">
+                            {row.propertyName}
+                          </Link>
+                          <p className="text-[11px] text-muted-foreground">{row.destinationName}</p>
+                        </TableCell>
+                        {languages.map(language => (
+                          <TableCell key={language} className="text-center">
+                            {row.cells[language] && <StatusCell cell={row.cells[language]} />}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {translatedLanguages.length > 0 && (
+            <p className="text-[11px] text-muted-foreground">
+              A language is complete once its title, short and full descriptions, highlights, meta description and
+              SEO keywords are written. Translations are flagged for update when the English copy changes after them.
+            </p>
+          )}
+        </div>
+      </TooltipProvider>
+    </ProtectedSection>
+  )
+}
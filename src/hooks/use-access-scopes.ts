@@ -0,0 +1,53 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  getMyAccessScope,
+  updateUserAccessScope,
+} from '@/actions/access-scopes'
+import { userKeys } from '@/hooks/use-users'
+import type { UpdateUserAccessScopeInput } from '@/lib/validations/access-scope'
+
+// Query keys factory
+export const accessScopeKeys = {
+  all: ['access-scopes'] as const,
+  mine: () => [...accessScopeKeys.all, 'mine'] as const,
+}
+
+// Hook to fetch the current user's access scope
+export function useMyAccessScope(enabled = true) {
+  return useQuery({
+    queryKey: accessScopeKeys.mine(),
+    queryFn: async () => {
+      const result = await getMyAccessScope()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch access scope')
+      }
+      return result.data
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Hook to restrict a user to destinations and properties
+export function useUpdateUserAccessScope() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: UpdateUserAccessScopeInput) => {
+      const result = await updateUserAccessScope(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update access scope')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: accessScopeKeys.all })
+      queryClient.invalidateQueries({ queryKey: userKeys.all })
+      toast.success('Access scope updated')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update access scope')
+    },
+  })
+}
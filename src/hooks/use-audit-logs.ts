@@ -1,5 +1,6 @@
-import { useQuery } from "@tanstack/react-query"
-import { api } from "@/lib/api"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { api, handleMutationError } from "@/lib/api"
+import { toast } from "sonner"
 
 export interface AuditLogFilters {
   userId?: string
@@ -31,6 +32,8 @@ export interface AuditLogResponse {
 
 export interface AuditLogDetails extends AuditLog {
   entityDetails: any
+  // Fields the current user can revert, empty for non-admins
+  revertableFields: string[]
 }
 
 export function useAuditLogs(filters: AuditLogFilters = {}, page: number = 1) {
@@ -57,4 +60,21 @@ export function useAuditLog(id: string) {
     queryFn: () => api.get(`/api/audit-logs/${id}`),
     enabled: !!id,
   })
-}
\ No newline at end of file
+}
+
+export function useRevertAuditChange() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, fields }: { id: string; fields?: string[] }) =>
+      api.post<{ fields: string[] }>(`/api/audit-logs/${id}/revert`, { fields }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["audit-logs"] })
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] })
+      toast.success(`Reverted ${data.fields.join(", ")}`)
+    },
+    onError: (error) => {
+      toast.error(handleMutationError(error))
+    },
+  })
+}
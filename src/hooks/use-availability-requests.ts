@@ -3,6 +3,7 @@ import { toast } from 'sonner'
 import {
   createAvailabilityRequest,
   updateAvailabilityRequestStatus,
+  convertAvailabilityRequestToBooking,
   deleteAvailabilityRequest,
   getAvailabilityRequests,
   getAvailabilityRequestById,
@@ -10,9 +11,11 @@ import {
 import type {
   CreateAvailabilityRequestInput,
   UpdateAvailabilityRequestStatusInput,
+  ConvertAvailabilityRequestInput,
   AvailabilityRequestFilters,
   DeleteAvailabilityRequestInput,
 } from '@/lib/validations/availability-request'
+import { bookingKeys } from '@/hooks/use-bookings'
 
 // Query keys factory
 export const availabilityRequestKeys = {
@@ -94,6 +97,9 @@ export function useUpdateAvailabilityRequestStatus() {
     onSuccess: (data, variables) => {
       // Invalidate and refetch relevant queries
       queryClient.invalidateQueries({ queryKey: availabilityRequestKeys.all })
+      if (variables.status === 'CONFIRMED') {
+        queryClient.invalidateQueries({ queryKey: bookingKeys.all })
+      }
       
       // Show success message based on status
       const action = variables.status === 'CONFIRMED' ? 'confirmed' : 'rejected'
@@ -105,6 +111,31 @@ export function useUpdateAvailabilityRequestStatus() {
   })
 }
 
+// Hook to confirm an availability request by creating its booking
+export function useConvertAvailabilityRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: ConvertAvailabilityRequestInput) => {
+      const result = await convertAvailabilityRequestToBooking(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to convert availability request')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      // The new booking shows up in the calendar as well as the request list
+      queryClient.invalidateQueries({ queryKey: availabilityRequestKeys.all })
+      queryClient.invalidateQueries({ queryKey: bookingKeys.all })
+
+      toast.success('Availability request confirmed and booking created')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to convert availability request')
+    },
+  })
+}
+
 // Hook to delete an availability request
 export function useDeleteAvailabilityRequest() {
   const queryClient = useQueryClient()
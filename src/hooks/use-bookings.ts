@@ -10,6 +10,9 @@ import {
   checkAdvancedAvailability,
   importBookings,
   getBookingStats,
+  getCalendarFeed,
+  regenerateCalendarFeedToken,
+  revokeCalendarFeedToken,
 } from '@/actions/bookings'
 import type {
   CreateBookingInput,
@@ -40,6 +43,7 @@ export const bookingKeys = {
     [...bookingKeys.all, 'advanced-availability', input] as const,
   stats: (propertyId: string, startDate: Date, endDate: Date) => 
     [...bookingKeys.all, 'stats', propertyId, startDate, endDate] as const,
+  calendarFeed: (propertyId: string) => [...bookingKeys.all, 'calendar-feed', propertyId] as const,
 }
 
 // Hook to fetch bookings with filters
@@ -247,6 +251,65 @@ export function useImportBookings() {
   })
 }
 
+// Hook to fetch the iCal feed token of a property
+export function useCalendarFeed(propertyId: string, enabled = true) {
+  return useQuery({
+    queryKey: bookingKeys.calendarFeed(propertyId),
+    queryFn: async () => {
+      const result = await getCalendarFeed(propertyId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch calendar feed')
+      }
+      return result.data
+    },
+    enabled: !!propertyId && enabled,
+  })
+}
+
+// Hook to generate (or rotate) the iCal feed token of a property
+export function useRegenerateCalendarFeed() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (propertyId: string) => {
+      const result = await regenerateCalendarFeedToken(propertyId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to generate calendar feed')
+      }
+      return result.data
+    },
+    onSuccess: (data, propertyId) => {
+      queryClient.setQueryData(bookingKeys.calendarFeed(propertyId), data)
+      toast.success('Calendar feed link generated')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to generate calendar feed')
+    },
+  })
+}
+
+// Hook to revoke the iCal feed token of a property
+export function useRevokeCalendarFeed() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (propertyId: string) => {
+      const result = await revokeCalendarFeedToken(propertyId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke calendar feed')
+      }
+      return result.data
+    },
+    onSuccess: (data, propertyId) => {
+      queryClient.setQueryData(bookingKeys.calendarFeed(propertyId), data)
+      toast.success('Calendar feed link revoked')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to revoke calendar feed')
+    },
+  })
+}
+
 // Optimistic update helper for bookings
 export function useOptimisticBookingUpdate() {
   const queryClient = useQueryClient()
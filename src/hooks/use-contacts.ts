@@ -12,11 +12,16 @@ import {
   searchContacts,
   linkContactToProperty,
   unlinkContactFromProperty,
-  importContacts
+  importContacts,
+  getContactBookingHistory,
+  findDuplicateContacts,
+  mergeContacts
 } from '@/actions/contacts'
 import type { 
   ContactsResponse,
   ContactDetail,
+  ContactBookingHistory,
+  DuplicateContactPair,
   ContactListItem,
   ContactPropertyInfo
 } from '@/types/contact'
@@ -29,7 +34,8 @@ import type {
   ContactSearchData,
   LinkContactToPropertyData,
   UnlinkContactFromPropertyData,
-  ImportContactsData
+  ImportContactsData,
+  MergeContactsData
 } from '@/lib/validations/contact'
 
 // Contacts list hook with pagination and filtering
@@ -88,6 +94,23 @@ export function useContact(contactId: string) {
   })
 }
 
+// Client stay history hook (bookings linked to the contact)
+export function useContactBookingHistory(contactId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['contact', contactId, 'bookings'],
+    queryFn: async (): Promise<ContactBookingHistory> => {
+      const result = await getContactBookingHistory(contactId)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to fetch client history')
+      }
+      return result.data
+    },
+    enabled: !!contactId && enabled,
+    staleTime: 1000 * 60, // 1 minute
+    retry: 1,
+  })
+}
+
 // Contact search hook for autocomplete/dropdowns
 export function useContactSearch(searchData: ContactSearchData) {
   return useQuery({
@@ -384,4 +407,46 @@ export function useImportContacts() {
       toast.error(error.message || 'Failed to import contacts')
     },
   })
-}
\ No newline at end of file
+}
+
+// Likely duplicate contacts, computed on demand
+export function useDuplicateContacts(enabled = true) {
+  return useQuery({
+    queryKey: ['contacts-duplicates'],
+    queryFn: async (): Promise<DuplicateContactPair[]> => {
+      const result = await findDuplicateContacts()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to find duplicate contacts')
+      }
+      return result.data || []
+    },
+    enabled,
+    staleTime: 0,
+    retry: 1,
+  })
+}
+
+// Merge contacts mutation
+export function useMergeContacts() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: MergeContactsData) => {
+      const result = await mergeContacts(data)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to merge contacts')
+      }
+      return result.data
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['contacts'] })
+      queryClient.invalidateQueries({ queryKey: ['contacts-duplicates'] })
+      queryClient.invalidateQueries({ queryKey: ['contact', variables.survivorId] })
+      queryClient.removeQueries({ queryKey: ['contact', variables.duplicateId] })
+      toast.success('Contacts merged successfully')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to merge contacts')
+    },
+  })
+}
@@ -78,8 +78,13 @@ export function useUpdateEquipmentRequestStatus() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: UpdateEquipmentRequestStatusInput }) =>
-      updateEquipmentRequestStatus(id, data),
+    mutationFn: async ({ id, data }: { id: string; data: UpdateEquipmentRequestStatusInput }) => {
+      const result = await updateEquipmentRequestStatus(id, data)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result
+    },
     onSuccess: (result, { id, data }) => {
       queryClient.invalidateQueries({ queryKey: ["equipment-requests"] })
       queryClient.invalidateQueries({ queryKey: ["equipment-request", id] })
@@ -0,0 +1,48 @@
+import { useState } from "react"
+import { toast } from "sonner"
+import { saveAs } from "file-saver"
+import type { AuditLogFilters } from "@/hooks/use-audit-logs"
+
+export function useExportAuditLogs() {
+  const [isExporting, setIsExporting] = useState(false)
+
+  const exportAuditLogs = async (format: "csv" | "json", filters: AuditLogFilters = {}) => {
+    try {
+      setIsExporting(true)
+
+      const params = new URLSearchParams({ format })
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== "") {
+          params.append(key, value)
+        }
+      })
+
+      const response = await fetch(`/api/audit-logs/export?${params}`, {
+        method: "GET",
+      })
+
+      if (!response.ok) {
+        throw new Error("Export failed")
+      }
+
+      const contentDisposition = response.headers.get("Content-Disposition")
+      const filename = contentDisposition
+        ?.split("filename=")[1]
+        ?.replace(/"/g, "") || `audit-logs-export.${format}`
+
+      const blob = await response.blob()
+      saveAs(blob, filename)
+
+      toast.success("Export completed successfully")
+    } catch {
+      toast.error("Failed to export audit logs")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return {
+    exportAuditLogs,
+    isExporting,
+  }
+}
@@ -0,0 +1,155 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  getExternalCalendars,
+  createExternalCalendar,
+  syncExternalCalendarNow,
+  uploadExternalCalendarFile,
+  deleteExternalCalendar,
+} from '@/actions/bookings'
+import type {
+  CreateExternalCalendarInput,
+  UploadExternalCalendarInput,
+} from '@/lib/validations/booking'
+import type { ExternalCalendarSyncResult } from '@/types/booking'
+import { bookingKeys } from './use-bookings'
+
+// Query keys factory
+export const externalCalendarKeys = {
+  all: ['external-calendars'] as const,
+  list: (propertyId: string) => [...externalCalendarKeys.all, propertyId] as const,
+}
+
+function describeSync(result: ExternalCalendarSyncResult) {
+  const parts = [
+    `${result.created} added`,
+    `${result.updated} updated`,
+    `${result.cancelled} cancelled`,
+  ]
+  if (result.conflicts.length > 0) {
+    parts.push(`${result.conflicts.length} skipped (conflicts)`)
+  }
+  return parts.join(', ')
+}
+
+// Bookings change on every sync, so calendars and booking lists are refreshed together
+function useInvalidateSyncedData() {
+  const queryClient = useQueryClient()
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: externalCalendarKeys.all })
+    queryClient.invalidateQueries({ queryKey: bookingKeys.all })
+    queryClient.invalidateQueries({ queryKey: ['availability'] })
+    queryClient.invalidateQueries({ queryKey: ['advanced-availability'] })
+  }
+}
+
+// Hook to fetch the external calendars of a property
+export function useExternalCalendars(propertyId: string, enabled = true) {
+  return useQuery({
+    queryKey: externalCalendarKeys.list(propertyId),
+    queryFn: async () => {
+      const result = await getExternalCalendars(propertyId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch external calendars')
+      }
+      return result.data ?? []
+    },
+    enabled: !!propertyId && enabled,
+  })
+}
+
+// Hook to register an external calendar
+export function useCreateExternalCalendar() {
+  const invalidate = useInvalidateSyncedData()
+
+  return useMutation({
+    mutationFn: async (input: CreateExternalCalendarInput) => {
+      const result = await createExternalCalendar(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add external calendar')
+      }
+      return result.data
+    },
+    onSuccess: (data) => {
+      invalidate()
+      if (data?.syncError) {
+        toast.warning('Calendar added, but the first sync failed', { description: data.syncError })
+      } else if (data?.sync) {
+        toast.success('Calendar added and synced', { description: describeSync(data.sync) })
+      } else {
+        toast.success('Calendar added')
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to add external calendar')
+    },
+  })
+}
+
+// Hook to sync an external calendar from its URL
+export function useSyncExternalCalendar() {
+  const invalidate = useInvalidateSyncedData()
+
+  return useMutation({
+    mutationFn: async (calendarId: string) => {
+      const result = await syncExternalCalendarNow(calendarId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to sync external calendar')
+      }
+      return result.data
+    },
+    onSuccess: (data) => {
+      invalidate()
+      toast.success('Calendar synced', { description: data ? describeSync(data) : undefined })
+    },
+    onError: (error) => {
+      invalidate()
+      toast.error(error.message || 'Failed to sync external calendar')
+    },
+  })
+}
+
+// Hook to sync an external calendar from an uploaded .ics file
+export function useUploadExternalCalendarFile() {
+  const invalidate = useInvalidateSyncedData()
+
+  return useMutation({
+    mutationFn: async (input: UploadExternalCalendarInput) => {
+      const result = await uploadExternalCalendarFile(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to import calendar file')
+      }
+      return result.data
+    },
+    onSuccess: (data) => {
+      invalidate()
+      toast.success('Calendar file imported', { description: data ? describeSync(data) : undefined })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to import calendar file')
+    },
+  })
+}
+
+// Hook to remove an external calendar
+export function useDeleteExternalCalendar() {
+  const invalidate = useInvalidateSyncedData()
+
+  return useMutation({
+    mutationFn: async (calendarId: string) => {
+      const result = await deleteExternalCalendar(calendarId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove external calendar')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      invalidate()
+      toast.success('External calendar removed')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to remove external calendar')
+    },
+  })
+}
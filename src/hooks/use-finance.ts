@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query'
+import { getFinanceReport, getFinancePropertyBreakdown } from '@/actions/finance'
+import type { FinanceReportFilters } from '@/lib/validations/finance'
+
+// Query keys factory
+export const financeKeys = {
+  all: ['finance'] as const,
+  report: (filters: FinanceReportFilters) => [...financeKeys.all, 'report', filters] as const,
+  property: (propertyId: string, filters: FinanceReportFilters) =>
+    [...financeKeys.all, 'property', propertyId, filters] as const,
+}
+
+// Hook to fetch the portfolio finance report
+export function useFinanceReport(filters: FinanceReportFilters) {
+  return useQuery({
+    queryKey: financeKeys.report(filters),
+    queryFn: async () => {
+      const result = await getFinanceReport(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch finance report')
+      }
+      return result.data
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Hook to fetch the finance breakdown of a single property
+export function useFinancePropertyBreakdown(propertyId: string | null, filters: FinanceReportFilters) {
+  return useQuery({
+    queryKey: financeKeys.property(propertyId!, filters),
+    queryFn: async () => {
+      if (!propertyId) throw new Error('Property ID is required')
+      const result = await getFinancePropertyBreakdown({ ...filters, propertyId })
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch property finance breakdown')
+      }
+      return result.data
+    },
+    enabled: !!propertyId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  exportTranslations,
+  getTranslationDashboard,
+  importTranslations,
+  markTranslationUpToDate,
+  saveMarketingContent,
+} from '@/actions/marketing-content'
+import { propertyKeys } from '@/hooks/use-properties'
+import type {
+  ExportTranslationsData,
+  ImportTranslationsData,
+  SaveMarketingContentData,
+  TranslationDashboardFilters,
+} from '@/lib/validations/marketing-content'
+import type { MarketingLanguage } from '@/types/marketing-content'
+
+// Query keys factory
+export const translationKeys = {
+  all: ['translations'] as const,
+  dashboards: () => [...translationKeys.all, 'dashboard'] as const,
+  dashboard: (filters: TranslationDashboardFilters) => [...translationKeys.dashboards(), filters] as const,
+}
+
+// Hook to fetch the translation completeness of every property
+export function useTranslationDashboard(filters: TranslationDashboardFilters) {
+  return useQuery({
+    queryKey: translationKeys.dashboard(filters),
+    queryFn: async () => {
+      const result = await getTranslationDashboard(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load translations')
+      }
+      return result.data
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to save the marketing copy of a property in every language
+export function useSaveMarketingContent() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: SaveMarketingContentData) => {
+      const result = await saveMarketingContent(data)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save marketing content')
+      }
+    },
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: propertyKeys.detail(data.propertyId) })
+      queryClient.invalidateQueries({ queryKey: translationKeys.dashboards() })
+      toast.success('Marketing content updated successfully')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save marketing content')
+    },
+  })
+}
+
+// Hook to clear the "needs update" flag of a translation
+export function useMarkTranslationUpToDate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ propertyId, language }: { propertyId: string; language: MarketingLanguage }) => {
+      const result = await markTranslationUpToDate(propertyId, language)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update translation')
+      }
+    },
+    onSuccess: (_, { propertyId }) => {
+      queryClient.invalidateQueries({ queryKey: propertyKeys.detail(propertyId) })
+      queryClient.invalidateQueries({ queryKey: translationKeys.dashboards() })
+      toast.success('Translation marked as up to date')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update translation')
+    },
+  })
+}
+
+// Hook to download a translation file
+export function useExportTranslations() {
+  return useMutation({
+    mutationFn: async (data: ExportTranslationsData) => {
+      const result = await exportTranslations(data)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to export translations')
+      }
+      return result.data!
+    },
+    onSuccess: (data) => {
+      const blob = new Blob([Buffer.from(data.content, 'base64')], {
+        type: data.filename.endsWith('.xlf') ? 'application/x-xliff+xml; charset=utf-8' : 'text/csv; charset=utf-8',
+      })
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.style.display = 'none'
+      a.href = url
+      a.download = data.filename
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+      toast.success(`Exported ${data.units} texts to translate`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to export translations')
+    },
+  })
+}
+
+// Hook to import a translation file returned by translators
+export function useImportTranslations() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: ImportTranslationsData) => {
+      const result = await importTranslations(data)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to import translations')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: translationKeys.dashboards() })
+      queryClient.invalidateQueries({ queryKey: propertyKeys.details() })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to import translations')
+    },
+  })
+}
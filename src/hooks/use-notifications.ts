@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  getNotifications,
+  markNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreference,
+} from '@/actions/notifications'
+import type {
+  NotificationFilters,
+  MarkNotificationsReadInput,
+  UpdateNotificationPreferenceInput,
+} from '@/lib/validations/notification'
+import type { NotificationPreferenceItem } from '@/types/notification'
+
+// Query keys factory
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  list: (filters: NotificationFilters) => [...notificationKeys.all, 'list', filters] as const,
+  preferences: () => [...notificationKeys.all, 'preferences'] as const,
+}
+
+// Hook to fetch the current user's notifications, polled for the bell badge
+export function useNotifications(filters: NotificationFilters = {}) {
+  return useQuery({
+    queryKey: notificationKeys.list(filters),
+    queryFn: async () => {
+      const result = await getNotifications(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch notifications')
+      }
+      return result.data
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to mark notifications as read
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: MarkNotificationsReadInput = {}) => {
+      const result = await markNotificationsRead(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to mark notifications as read')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to mark notifications as read')
+    },
+  })
+}
+
+// Hook to fetch the current user's notification preferences
+export function useNotificationPreferences(enabled = true) {
+  return useQuery({
+    queryKey: notificationKeys.preferences(),
+    queryFn: async () => {
+      const result = await getNotificationPreferences()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch notification preferences')
+      }
+      return result.data
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Hook to turn a notification type on or off
+export function useUpdateNotificationPreference() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: UpdateNotificationPreferenceInput) => {
+      const result = await updateNotificationPreference(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update notification preference')
+      }
+      return result.data
+    },
+    onMutate: async (input) => {
+      // Optimistically flip the switch
+      await queryClient.cancelQueries({ queryKey: notificationKeys.preferences() })
+      const previous = queryClient.getQueryData<NotificationPreferenceItem[]>(notificationKeys.preferences())
+      queryClient.setQueryData<NotificationPreferenceItem[]>(notificationKeys.preferences(), old =>
+        old?.map(preference => preference.type === input.type ? { ...preference, enabled: input.enabled } : preference)
+      )
+      return { previous }
+    },
+    onError: (error, _input, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(notificationKeys.preferences(), context.previous)
+      }
+      toast.error(error.message || 'Failed to update notification preference')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.preferences() })
+    },
+  })
+}
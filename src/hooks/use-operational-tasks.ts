@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  generateTasks,
+  getOperationalTaskBoard,
+  updateOperationalTask,
+} from '@/actions/operational-tasks'
+import type {
+  GenerateOperationalTasksInput,
+  OperationalTaskFilters,
+  UpdateOperationalTaskInput,
+} from '@/lib/validations/operational-task'
+
+// Query keys factory
+export const operationalTaskKeys = {
+  all: ['operational-tasks'] as const,
+  boards: () => [...operationalTaskKeys.all, 'board'] as const,
+  board: (filters: OperationalTaskFilters) => [...operationalTaskKeys.boards(), filters] as const,
+}
+
+// Hook to fetch the tasks of a date range
+export function useOperationalTaskBoard(filters: OperationalTaskFilters) {
+  return useQuery({
+    queryKey: operationalTaskKeys.board(filters),
+    queryFn: async () => {
+      const result = await getOperationalTaskBoard(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load tasks')
+      }
+      return result.data
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+// Hook to change the status, assignee, time or notes of a task
+export function useUpdateOperationalTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: UpdateOperationalTaskInput) => {
+      const result = await updateOperationalTask(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update the task')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: operationalTaskKeys.boards() })
+      toast.success('Task updated')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update the task')
+    },
+  })
+}
+
+// Hook to generate the tasks of a date range from bookings and schedules
+export function useGenerateOperationalTasks() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: GenerateOperationalTasksInput) => {
+      const result = await generateTasks(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to generate tasks')
+      }
+      return result.data!
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: operationalTaskKeys.boards() })
+      const changes = result.created + result.reopened + result.cancelled
+      toast.success(
+        changes === 0
+          ? 'Tasks are already up to date'
+          : `${result.created} created, ${result.reopened} reopened, ${result.cancelled} cancelled`
+      )
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to generate tasks')
+    },
+  })
+}
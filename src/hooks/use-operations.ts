@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query'
+import { getOperationsBoard } from '@/actions/operations'
+import type { OperationsBoardFilters } from '@/lib/validations/operations'
+
+// Query keys factory
+export const operationsKeys = {
+  all: ['operations'] as const,
+  board: (filters: OperationsBoardFilters) => [...operationsKeys.all, 'board', filters] as const,
+}
+
+// Hook to fetch the arrivals and departures of a date range
+export function useOperationsBoard(filters: OperationsBoardFilters) {
+  return useQuery({
+    queryKey: operationsKeys.board(filters),
+    queryFn: async () => {
+      const result = await getOperationsBoard(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load arrivals and departures')
+      }
+      return result.data
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
@@ -0,0 +1,152 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  cancelOwnerStayRequest,
+  getOwnerCalendar,
+  getOwnerDocuments,
+  getOwnerPortal,
+  getOwnerStatement,
+  getOwnerStayRequests,
+  requestOwnerStay,
+} from '@/actions/owner-portal'
+import type {
+  OwnerCalendarFilters,
+  OwnerStatementFilters,
+  OwnerStayRequestInput,
+} from '@/lib/validations/owner-portal'
+
+// Query keys factory
+export const ownerPortalKeys = {
+  all: ['owner-portal'] as const,
+  portal: () => [...ownerPortalKeys.all, 'portal'] as const,
+  calendars: () => [...ownerPortalKeys.all, 'calendar'] as const,
+  calendar: (filters: OwnerCalendarFilters) => [...ownerPortalKeys.calendars(), filters] as const,
+  stays: () => [...ownerPortalKeys.all, 'stays'] as const,
+  statement: (filters: OwnerStatementFilters) => [...ownerPortalKeys.all, 'statement', filters] as const,
+  documents: () => [...ownerPortalKeys.all, 'documents'] as const,
+}
+
+// Hook to fetch the owner contact and its properties
+export function useOwnerPortal() {
+  return useQuery({
+    queryKey: ownerPortalKeys.portal(),
+    queryFn: async () => {
+      const result = await getOwnerPortal()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load the owner portal')
+      }
+      return result.data
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  })
+}
+
+// Hook to fetch the occupancy of an owned property
+export function useOwnerCalendar(filters: OwnerCalendarFilters | null) {
+  return useQuery({
+    queryKey: ownerPortalKeys.calendar(filters!),
+    queryFn: async () => {
+      if (!filters) throw new Error('Property ID is required')
+      const result = await getOwnerCalendar(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load the calendar')
+      }
+      return result.data
+    },
+    enabled: !!filters,
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to fetch the owner stays of the owner
+export function useOwnerStayRequests() {
+  return useQuery({
+    queryKey: ownerPortalKeys.stays(),
+    queryFn: async () => {
+      const result = await getOwnerStayRequests()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load owner stays')
+      }
+      return result.data
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to fetch the yearly statement of an owned property
+export function useOwnerStatement(filters: OwnerStatementFilters | null) {
+  return useQuery({
+    queryKey: ownerPortalKeys.statement(filters!),
+    queryFn: async () => {
+      if (!filters) throw new Error('Property ID is required')
+      const result = await getOwnerStatement(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load the statement')
+      }
+      return result.data
+    },
+    enabled: !!filters,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Hook to fetch the documents shared with the owner
+export function useOwnerDocuments() {
+  return useQuery({
+    queryKey: ownerPortalKeys.documents(),
+    queryFn: async () => {
+      const result = await getOwnerDocuments()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load documents')
+      }
+      return result.data
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Hook to ask for an owner stay
+export function useRequestOwnerStay() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: OwnerStayRequestInput) => {
+      const result = await requestOwnerStay(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to request the owner stay')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ownerPortalKeys.stays() })
+      queryClient.invalidateQueries({ queryKey: ownerPortalKeys.calendars() })
+      toast.success('Stay requested, your property manager will confirm it shortly')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to request the owner stay')
+    },
+  })
+}
+
+// Hook to withdraw a pending owner stay
+export function useCancelOwnerStayRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await cancelOwnerStayRequest(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to withdraw the request')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ownerPortalKeys.stays() })
+      queryClient.invalidateQueries({ queryKey: ownerPortalKeys.calendars() })
+      toast.success('Request withdrawn')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to withdraw the request')
+    },
+  })
+}
@@ -1,19 +1,38 @@
 "use client"
 
 import { useUser } from '@clerk/nextjs';
-import { UserRole, Permission, ROLE_PERMISSIONS } from '@/types/auth';
+import { useMyAccessScope } from '@/hooks/use-access-scopes';
+import { useRoles } from '@/hooks/use-roles';
+import { UserRole, Permission, resolveRolePermissions, type PermissionTarget } from '@/types/auth';
 
 export function usePermissions() {
   const { user } = useUser();
-  const userRole = (user?.publicMetadata?.role as UserRole) || UserRole.VIEWER;
+  const userRole = (user?.publicMetadata?.role as string | undefined) || UserRole.VIEWER;
+  const { data: roles } = useRoles(!!user);
+  const rolePermissions = resolveRolePermissions(roles, userRole);
+  const { data: accessScope } = useMyAccessScope(!!user && userRole !== UserRole.ADMIN);
   
-  const hasRole = (role: UserRole): boolean => {
+  // The server enforces the scope, until it is loaded nothing is hidden
+  const isWithinScope = (target: PermissionTarget): boolean => {
+    if (userRole === UserRole.ADMIN || !accessScope?.restricted) return true;
+    
+    if (target.propertyId && accessScope.propertyIds.includes(target.propertyId)) return true;
+    return !!target.destinationId && accessScope.destinationIds.includes(target.destinationId);
+  };
+  
+  const hasRole = (role: UserRole | string): boolean => {
     return userRole === role;
   };
   
-  const hasPermission = (permission: Permission | string): boolean => {
-    const rolePermissions = ROLE_PERMISSIONS[userRole];
-    return rolePermissions.includes(permission as Permission);
+  // Pass the property's destinationId with its propertyId, a property is reached through either
+  const hasPermission = (permission: Permission | string, target?: PermissionTarget): boolean => {
+    if (!rolePermissions.includes(permission as Permission)) return false;
+    
+    return !target || isWithinScope(target);
+  };
+  
+  const canAccessProperty = (property: { id: string; destinationId: string }): boolean => {
+    return isWithinScope({ propertyId: property.id, destinationId: property.destinationId });
   };
   
   const canViewSection = (section: string): boolean => {
@@ -47,13 +66,15 @@ export function usePermissions() {
   };
   
   const getUserPermissions = (): Permission[] => {
-    return ROLE_PERMISSIONS[userRole];
+    return rolePermissions;
   };
   
   return {
     userRole,
+    accessScope,
     hasRole,
     hasPermission,
+    canAccessProperty,
     canViewSection,
     canEditSection,
     getUserPermissions,
@@ -14,8 +14,10 @@ import {
   createOperationalCost,
   updateOperationalCost,
   deleteOperationalCost,
-  migrateLegacyPricing
+  migrateLegacyPricing,
+  getStayQuote
 } from "@/actions/property-pricing"
+import type { StayQuoteFormData } from "@/lib/validations/pricing"
 
 // Query hook for fetching all pricing data
 export function usePropertyPricing(propertyId: string) {
@@ -29,6 +31,21 @@ export function usePropertyPricing(propertyId: string) {
   })
 }
 
+// Query hook for quoting a stay; disabled until dates are complete
+export function useStayQuote(propertyId: string, params: StayQuoteFormData | null) {
+  const { hasPermission } = usePermissions()
+  const hasFinancialView = hasPermission(Permission.FINANCIAL_VIEW)
+
+  return useQuery({
+    queryKey: ["property-pricing", propertyId, "quote", params],
+    queryFn: async () => {
+      const result = await getStayQuote(propertyId, params!)
+      return result.data
+    },
+    enabled: !!propertyId && !!params && hasFinancialView
+  })
+}
+
 // Mutation hooks for general pricing
 export function useUpdatePropertyPricing(propertyId: string) {
   const queryClient = useQueryClient()
@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { createRole, deleteRole, getRoles, updateRole } from '@/actions/roles'
+import type { CreateRoleInput, UpdateRoleInput } from '@/lib/validations/role'
+
+// Query keys factory
+export const roleKeys = {
+  all: ['roles'] as const,
+  lists: () => [...roleKeys.all, 'list'] as const,
+}
+
+// Hook to fetch every role with its permissions
+export function useRoles(enabled = true) {
+  return useQuery({
+    queryKey: roleKeys.lists(),
+    queryFn: async () => {
+      const result = await getRoles()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch roles')
+      }
+      return result.data
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+// Hook to create a custom role
+export function useCreateRole() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: CreateRoleInput) => {
+      const result = await createRole(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create role')
+      }
+      return result.data
+    },
+    onSuccess: (role) => {
+      queryClient.invalidateQueries({ queryKey: roleKeys.all })
+      toast.success(`Role ${role?.name} created`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to create role')
+    },
+  })
+}
+
+// Hook to rename a role or change its permissions
+export function useUpdateRole() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: UpdateRoleInput) => {
+      const result = await updateRole(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update role')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: roleKeys.all })
+      toast.success('Role updated')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update role')
+    },
+  })
+}
+
+// Hook to delete a custom role
+export function useDeleteRole() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (key: string) => {
+      const result = await deleteRole(key)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete role')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: roleKeys.all })
+      toast.success('Role deleted')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete role')
+    },
+  })
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  getSensitiveAccessLog,
+  getSensitiveAccessStats,
+  getSensitiveDataAlerts,
+  acknowledgeSensitiveDataAlert,
+} from '@/actions/sensitive-access'
+import type {
+  SensitiveAccessFilters,
+  SensitiveAccessLogQuery,
+  SensitiveDataAlertFilters,
+} from '@/lib/validations/sensitive-access'
+
+// Query keys factory
+export const sensitiveAccessKeys = {
+  all: ['sensitive-access'] as const,
+  log: (query: SensitiveAccessLogQuery) => [...sensitiveAccessKeys.all, 'log', query] as const,
+  stats: (filters: SensitiveAccessFilters) => [...sensitiveAccessKeys.all, 'stats', filters] as const,
+  alerts: (filters: SensitiveDataAlertFilters) => [...sensitiveAccessKeys.all, 'alerts', filters] as const,
+}
+
+// Hook to fetch the sensitive data access log
+export function useSensitiveAccessLog(query: SensitiveAccessLogQuery) {
+  return useQuery({
+    queryKey: sensitiveAccessKeys.log(query),
+    queryFn: async () => {
+      const result = await getSensitiveAccessLog(query)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch sensitive data access log')
+      }
+      return result.data
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+// Hook to fetch the access volume per user and per day
+export function useSensitiveAccessStats(filters: SensitiveAccessFilters) {
+  return useQuery({
+    queryKey: sensitiveAccessKeys.stats(filters),
+    queryFn: async () => {
+      const result = await getSensitiveAccessStats(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch sensitive data access statistics')
+      }
+      return result.data
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to fetch the unusual access alerts
+export function useSensitiveDataAlerts(filters: SensitiveDataAlertFilters = {}) {
+  return useQuery({
+    queryKey: sensitiveAccessKeys.alerts(filters),
+    queryFn: async () => {
+      const result = await getSensitiveDataAlerts(filters)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch sensitive data alerts')
+      }
+      return result.data
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+// Hook to acknowledge an alert
+export function useAcknowledgeSensitiveDataAlert() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await acknowledgeSensitiveDataAlert(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to acknowledge alert')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...sensitiveAccessKeys.all, 'alerts'] })
+      toast.success('Alert acknowledged')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to acknowledge alert')
+    },
+  })
+}
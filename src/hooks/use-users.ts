@@ -0,0 +1,156 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  getManagedUsers,
+  getPendingInvitations,
+  inviteUser,
+  linkOwnerContact,
+  revokeInvitation,
+  setUserDeactivated,
+  updateUserRole,
+} from '@/actions/users'
+import type { InviteUserInput, LinkOwnerContactInput, UpdateUserRoleInput } from '@/lib/validations/user'
+
+// Query keys factory
+export const userKeys = {
+  all: ['users'] as const,
+  lists: () => [...userKeys.all, 'list'] as const,
+  invitations: () => [...userKeys.all, 'invitations'] as const,
+}
+
+// Hook to fetch every user with their role, status and access scope
+export function useManagedUsers() {
+  return useQuery({
+    queryKey: userKeys.lists(),
+    queryFn: async () => {
+      const result = await getManagedUsers()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch users')
+      }
+      return result.data
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to fetch invitations that were not accepted yet
+export function usePendingInvitations() {
+  return useQuery({
+    queryKey: userKeys.invitations(),
+    queryFn: async () => {
+      const result = await getPendingInvitations()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch invitations')
+      }
+      return result.data
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// Hook to invite a team member
+export function useInviteUser() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: InviteUserInput) => {
+      const result = await inviteUser(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to invite user')
+      }
+      return result.data
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.invitations() })
+      toast.success(`Invitation sent to ${input.emailAddress}`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to invite user')
+    },
+  })
+}
+
+// Hook to revoke a pending invitation
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      const result = await revokeInvitation(invitationId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke invitation')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: userKeys.invitations() })
+      toast.success('Invitation revoked')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to revoke invitation')
+    },
+  })
+}
+
+// Hook to change a user's role
+export function useUpdateUserRole() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: UpdateUserRoleInput) => {
+      const result = await updateUserRole(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update role')
+      }
+      return result.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: userKeys.lists() })
+      toast.success('Role updated')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update role')
+    },
+  })
+}
+
+// Hook to deactivate or reactivate a user's access
+export function useSetUserDeactivated() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ userId, deactivated }: { userId: string; deactivated: boolean }) => {
+      const result = await setUserDeactivated(userId, deactivated)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update user access')
+      }
+    },
+    onSuccess: (_, { deactivated }) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.lists() })
+      toast.success(deactivated ? 'User deactivated' : 'User reactivated')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update user access')
+    },
+  })
+}
+
+// Hook to link a user to the owner contact shown in their owner portal
+export function useLinkOwnerContact() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: LinkOwnerContactInput) => {
+      const result = await linkOwnerContact(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to link the owner contact')
+      }
+    },
+    onSuccess: (_, { contactId }) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.lists() })
+      toast.success(contactId ? 'Owner contact linked' : 'Owner contact unlinked')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to link the owner contact')
+    },
+  })
+}
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query'
+import { getWelcomeBookOptions } from '@/actions/welcome-book'
+import type { WelcomeBookFormat, WelcomeBookLanguage } from '@/types/welcome-book'
+
+// Query keys factory
+export const welcomeBookKeys = {
+  all: ['welcome-book'] as const,
+  options: (propertyId: string) => [...welcomeBookKeys.all, 'options', propertyId] as const,
+}
+
+// Hook to fetch the languages and upcoming stays of a property's welcome book
+export function useWelcomeBookOptions(propertyId: string, enabled = true) {
+  return useQuery({
+    queryKey: welcomeBookKeys.options(propertyId),
+    queryFn: async () => {
+      const result = await getWelcomeBookOptions(propertyId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load welcome book options')
+      }
+      return result.data
+    },
+    enabled: enabled && !!propertyId,
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+// URL of the generated welcome book, served by the welcome book route
+export function getWelcomeBookUrl(
+  propertyId: string,
+  options: { format: WelcomeBookFormat; language: WelcomeBookLanguage; bookingId?: string | null; download?: boolean }
+): string {
+  const params = new URLSearchParams({ format: options.format, language: options.language })
+  if (options.bookingId) params.set('bookingId', options.bookingId)
+  if (options.download) params.set('download', 'true')
+  return `/api/properties/${propertyId}/welcome-book?${params}`
+}
@@ -0,0 +1,101 @@
+import { prisma } from '@/lib/db'
+import { Prisma } from '@/generated/prisma'
+import type { AccessScope, PermissionTarget } from '@/types/auth'
+
+export const UNRESTRICTED_SCOPE: AccessScope = { restricted: false, destinationIds: [], propertyIds: [] }
+
+// Nothing is reachable, used when no user is signed in
+const EMPTY_SCOPE: AccessScope = { restricted: true, destinationIds: [], propertyIds: [] }
+
+/**
+ * Destinations and properties a user is restricted to
+ * - Users without a stored scope see every property
+ */
+export async function loadAccessScope(userId: string | null): Promise<AccessScope> {
+  if (!userId) return EMPTY_SCOPE
+
+  const scope = await prisma.userAccessScope.findUnique({ where: { userId } })
+  if (!scope) return UNRESTRICTED_SCOPE
+
+  return { restricted: true, destinationIds: scope.destinationIds, propertyIds: scope.propertyIds }
+}
+
+/**
+ * Property where clause limited to the scope, to AND with the list filters
+ */
+export function propertyScopeWhere(scope: AccessScope): Prisma.PropertyWhereInput {
+  if (!scope.restricted) return {}
+
+  return {
+    OR: [
+      { destinationId: { in: scope.destinationIds } },
+      { id: { in: scope.propertyIds } },
+    ],
+  }
+}
+
+/**
+ * Legal document where clause limited to the scope
+ * - Documents not attached to a property stay visible to everyone
+ */
+export function legalDocumentScopeWhere(scope: AccessScope): Prisma.LegalDocumentWhereInput {
+  if (!scope.restricted) return {}
+
+  return { OR: [{ propertyId: null }, { property: propertyScopeWhere(scope) }] }
+}
+
+/**
+ * Users among `userIds` whose access scope reaches a property or a destination
+ * - One query for every scope, users without a stored scope reach everything
+ * - Same rules as isWithinScope
+ */
+export async function filterUserIdsWithinScope(userIds: string[], target: PermissionTarget): Promise<string[]> {
+  if (userIds.length === 0) return []
+
+  const scopes = await prisma.userAccessScope.findMany({ where: { userId: { in: userIds } } })
+  if (scopes.length === 0) return userIds
+
+  const property = target.propertyId
+    ? await prisma.property.findUnique({ where: { id: target.propertyId }, select: { destinationId: true } })
+    : null
+  const scopeByUser = new Map(scopes.map(scope => [scope.userId, scope]))
+
+  return userIds.filter(userId => {
+    const scope = scopeByUser.get(userId)
+    if (!scope) return true
+
+    if (target.propertyId) {
+      return scope.propertyIds.includes(target.propertyId) ||
+        (!!property && scope.destinationIds.includes(property.destinationId))
+    }
+    if (target.destinationId) {
+      return scope.destinationIds.includes(target.destinationId)
+    }
+    return true
+  })
+}
+
+/**
+ * Whether the scope reaches a property or a destination
+ * - A property is reached through its own id or its destination
+ * - A destination is only reached when the whole destination is in scope
+ */
+export async function isWithinScope(scope: AccessScope, target: PermissionTarget): Promise<boolean> {
+  if (!scope.restricted) return true
+
+  if (target.propertyId) {
+    if (scope.propertyIds.includes(target.propertyId)) return true
+
+    const property = await prisma.property.findUnique({
+      where: { id: target.propertyId },
+      select: { destinationId: true },
+    })
+    return !!property && scope.destinationIds.includes(property.destinationId)
+  }
+
+  if (target.destinationId) {
+    return scope.destinationIds.includes(target.destinationId)
+  }
+
+  return true
+}
@@ -0,0 +1,109 @@
+// Field-level audit diffs
+// - Pure functions, shared by the server helper writing audit entries and the audit log diff view
+
+export interface AuditFieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+// Shape of AuditLog.changes written by recordAudit
+export interface AuditChanges {
+  summary?: string
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+  diff?: AuditFieldChange[]
+  [key: string]: unknown
+}
+
+// Bookkeeping fields that change on every write
+export const AUDIT_IGNORED_FIELDS = ['createdAt', 'updatedAt']
+
+// Secrets kept out of the audit trail
+export const AUDIT_REDACTED_FIELDS = ['wifiPassword', 'icalFeedToken']
+
+/**
+ * JSON copy of a value as stored in AuditLog.changes (dates become ISO strings, decimals strings)
+ */
+export function toAuditJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Fields whose value differs between two snapshots
+ * - Only fields present in both snapshots are compared, so snapshots loaded with different includes stay comparable
+ * - Values are compared on their JSON form
+ */
+export function diffAuditSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  ignore: string[] = AUDIT_IGNORED_FIELDS
+): AuditFieldChange[] {
+  const previous = toAuditJson(before)
+  const next = toAuditJson(after)
+
+  return Object.keys(next)
+    .filter(field => field in previous && !ignore.includes(field))
+    .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .sort()
+    .map(field => ({ field, before: previous[field] ?? null, after: next[field] ?? null }))
+}
+
+const toSnapshot = (value: object | null | undefined) => {
+  if (!value) return undefined
+  const snapshot = toAuditJson(value) as Record<string, unknown>
+  for (const field of AUDIT_REDACTED_FIELDS) {
+    if (snapshot[field] != null) snapshot[field] = '[redacted]'
+  }
+  return snapshot
+}
+
+/**
+ * AuditLog.changes for a mutation: snapshots, the field-level diff between them, a summary and extra details
+ * - On updates the after snapshot keeps the fields of the before snapshot, relations loaded for the response are dropped
+ */
+export function buildAuditChanges(entry: {
+  before?: object | null
+  after?: object | null
+  summary?: string
+  details?: Record<string, unknown>
+}): AuditChanges {
+  const before = toSnapshot(entry.before)
+  let after = toSnapshot(entry.after)
+  if (before && after) {
+    after = Object.fromEntries(Object.entries(after).filter(([field]) => field in before))
+  }
+
+  return {
+    ...toAuditJson(entry.details),
+    ...(entry.summary ? { summary: entry.summary } : {}),
+    ...(before ? { before } : {}),
+    ...(after ? { after } : {}),
+    ...(before && after ? { diff: diffAuditSnapshots(before, after) } : {}),
+  }
+}
+
+/**
+ * Field changes of an audit entry
+ * - Entries written since field-level auditing carry a diff
+ * - Older entries with before / after snapshots are diffed on the fly
+ * - Returns null when the entry has no comparable snapshots
+ */
+export function getAuditDiff(changes: unknown): AuditFieldChange[] | null {
+  if (!isRecord(changes)) return null
+  if (Array.isArray(changes.diff)) return changes.diff as AuditFieldChange[]
+  if (isRecord(changes.before) && isRecord(changes.after)) {
+    return diffAuditSnapshots(changes.before, changes.after)
+  }
+  return null
+}
+
+/**
+ * Plain values a field can be reverted to: strings, numbers, booleans and null (dates and decimals are stored as strings)
+ */
+export function isScalarAuditValue(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value)
+}
@@ -0,0 +1,98 @@
+import Papa from "papaparse"
+import { prisma } from "@/lib/db"
+import { Prisma } from "@/generated/prisma"
+
+export type AuditLogExportFormat = "csv" | "json"
+
+type AuditLogRecord = Prisma.AuditLogGetPayload<object>
+
+// Entries read per query, the export never holds more than one batch in memory
+const EXPORT_BATCH_SIZE = 1000
+
+const CSV_COLUMNS = ["id", "createdAt", "userId", "action", "entityType", "entityId", "summary", "changes"]
+
+/**
+ * Audit log entries matching a where clause, newest first, read in batches
+ * - Keyset pagination on (createdAt, id), stable while new entries are written
+ */
+export async function* iterateAuditLogs(
+  where: Prisma.AuditLogWhereInput,
+  order: Prisma.SortOrder = "desc",
+  batchSize = EXPORT_BATCH_SIZE
+): AsyncGenerator<AuditLogRecord[]> {
+  let cursor: string | undefined
+
+  while (true) {
+    const batch = await prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: order }, { id: order }],
+      take: batchSize,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    })
+    if (batch.length === 0) return
+
+    yield batch
+    if (batch.length < batchSize) return
+    cursor = batch[batch.length - 1].id
+  }
+}
+
+/**
+ * Flat CSV row of an entry, changes kept as JSON
+ */
+function toAuditLogCsvRow(log: AuditLogRecord): Record<string, string> {
+  const changes = log.changes as Record<string, unknown> | null
+
+  return {
+    id: log.id,
+    createdAt: log.createdAt.toISOString(),
+    userId: log.userId,
+    action: log.action,
+    entityType: log.entityType,
+    entityId: log.entityId,
+    summary: typeof changes?.summary === "string" ? changes.summary : "",
+    changes: log.changes === null ? "" : JSON.stringify(log.changes),
+  }
+}
+
+/**
+ * Streams the entries matching a where clause as CSV or as a JSON array
+ */
+export function createAuditLogExportStream(
+  where: Prisma.AuditLogWhereInput,
+  format: AuditLogExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const batches = iterateAuditLogs(where)
+  let first = true
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Add BOM for Excel UTF-8 compatibility
+      controller.enqueue(encoder.encode(
+        format === "csv" ? "\uFEFF" + CSV_COLUMNS.join(",") : "["
+      ))
+    },
+    async pull(controller) {
+      try {
+        const { value: batch, done } = await batches.next()
+        if (done) {
+          if (format === "json") controller.enqueue(encoder.encode("\n]\n"))
+          controller.close()
+          return
+        }
+
+        const chunk = format === "csv"
+          ? "\r\n" + Papa.unparse(batch.map(toAuditLogCsvRow), { header: false, columns: CSV_COLUMNS, newline: "\r\n" })
+          : batch.map((log, index) => `${first && index === 0 ? "" : ","}\n${JSON.stringify(log)}`).join("")
+        first = false
+        controller.enqueue(encoder.encode(chunk))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await batches.return(undefined)
+    },
+  })
+}
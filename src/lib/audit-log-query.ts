@@ -0,0 +1,57 @@
+import { z } from "zod"
+import { Prisma } from "@/generated/prisma"
+
+// Query schema for audit logs, shared by the list and the export
+export const auditLogQuerySchema = z.object({
+  page: z.string().optional().transform(val => parseInt(val || "1")),
+  limit: z.string().optional().transform(val => parseInt(val || "20")),
+  userId: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  action: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  search: z.string().optional(),
+})
+
+export type AuditLogQueryFilters = Omit<z.infer<typeof auditLogQuerySchema>, "page" | "limit">
+
+/**
+ * Where clause matching the audit log filters
+ */
+export function buildAuditLogWhere(filters: AuditLogQueryFilters): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {}
+
+  if (filters.userId) {
+    where.userId = filters.userId
+  }
+
+  if (filters.entityType) {
+    where.entityType = filters.entityType
+  }
+
+  if (filters.entityId) {
+    where.entityId = filters.entityId
+  }
+
+  if (filters.action) {
+    where.action = filters.action
+  }
+
+  if (filters.startDate || filters.endDate) {
+    where.createdAt = {
+      ...(filters.startDate && { gte: new Date(filters.startDate) }),
+      ...(filters.endDate && { lte: new Date(filters.endDate) }),
+    }
+  }
+
+  if (filters.search) {
+    where.OR = [
+      { entityType: { contains: filters.search, mode: 'insensitive' } },
+      { action: { contains: filters.search, mode: 'insensitive' } },
+      { entityId: { contains: filters.search, mode: 'insensitive' } },
+    ]
+  }
+
+  return where
+}
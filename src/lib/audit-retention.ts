@@ -0,0 +1,140 @@
+import { createGzip } from 'zlib'
+import { format, subMonths } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { recordAudit } from '@/lib/audit'
+import { iterateAuditLogs } from '@/lib/audit-log-export'
+import { createServerSupabaseClient } from '@/lib/supabase'
+
+// Private storage bucket holding the archived audit log entries
+export const AUDIT_ARCHIVE_BUCKET = 'audit-archives'
+
+// Entries kept when AUDIT_LOG_RETENTION_MONTHS is not set
+const DEFAULT_RETENTION_MONTHS = 24
+
+// Entries archived per run, older ones are picked up by the next run
+const MAX_ARCHIVED_PER_RUN = 50000
+
+const PURGE_BATCH_SIZE = 1000
+
+export interface AuditRetentionResult {
+  retentionMonths: number | null
+  cutoff: Date | null
+  archived: number
+  archivePath: string | null
+  // More entries older than the cutoff are left for the next run
+  hasMore: boolean
+}
+
+/**
+ * Months of audit log kept in the database (AUDIT_LOG_RETENTION_MONTHS)
+ * - Defaults to 24, 0 keeps every entry
+ */
+export function getAuditRetentionMonths(): number | null {
+  const value = process.env.AUDIT_LOG_RETENTION_MONTHS
+  if (value === undefined || value.trim() === '') return DEFAULT_RETENTION_MONTHS
+
+  const months = Number(value)
+  if (!Number.isInteger(months) || months < 0) {
+    throw new Error(`Invalid AUDIT_LOG_RETENTION_MONTHS: ${value}`)
+  }
+  return months === 0 ? null : months
+}
+
+// Gzipped JSON lines, one entry per line
+async function compress(lines: AsyncIterable<string>): Promise<Buffer> {
+  const gzip = createGzip()
+  const chunks: Buffer[] = []
+  gzip.on('data', (chunk: Buffer) => chunks.push(chunk))
+  const finished = new Promise<void>((resolve, reject) => {
+    gzip.on('end', resolve)
+    gzip.on('error', reject)
+  })
+
+  for await (const line of lines) {
+    if (!gzip.write(line)) {
+      await new Promise(resolve => gzip.once('drain', resolve))
+    }
+  }
+  gzip.end()
+  await finished
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Archives audit log entries older than the retention period, then purges them
+ * - The archive (gzipped JSON lines) is uploaded to storage before anything is deleted
+ * - Only the archived entries are deleted, entries written meanwhile are left alone
+ * - The purge itself is audited, with the archive path
+ */
+export async function archiveAndPurgeAuditLogs(
+  userId: string,
+  now: Date = new Date()
+): Promise<AuditRetentionResult> {
+  const retentionMonths = getAuditRetentionMonths()
+  if (retentionMonths === null) {
+    return { retentionMonths, cutoff: null, archived: 0, archivePath: null, hasMore: false }
+  }
+
+  const cutoff = subMonths(now, retentionMonths)
+  const where = { createdAt: { lt: cutoff } }
+  const ids: string[] = []
+  const range: { oldest?: Date; newest?: Date } = {}
+
+  async function* lines() {
+    for await (const batch of iterateAuditLogs(where, 'asc')) {
+      for (const log of batch) {
+        if (ids.length >= MAX_ARCHIVED_PER_RUN) return
+        ids.push(log.id)
+        range.oldest ??= log.createdAt
+        range.newest = log.createdAt
+        yield JSON.stringify(log) + '\n'
+      }
+    }
+  }
+
+  const archive = await compress(lines())
+  if (ids.length === 0) {
+    return { retentionMonths, cutoff, archived: 0, archivePath: null, hasMore: false }
+  }
+
+  const { oldest, newest } = range as { oldest: Date; newest: Date }
+  const archivePath = `audit-logs/${format(oldest, 'yyyy-MM-dd')}_${format(newest, 'yyyy-MM-dd')}_${now.getTime()}.jsonl.gz`
+  const { error: uploadError } = await createServerSupabaseClient().storage
+    .from(AUDIT_ARCHIVE_BUCKET)
+    .upload(archivePath, archive, { contentType: 'application/gzip', upsert: false })
+
+  if (uploadError) {
+    throw new Error(`Audit log archive upload failed: ${uploadError.message}`)
+  }
+
+  let purged = 0
+  for (let i = 0; i < ids.length; i += PURGE_BATCH_SIZE) {
+    const { count } = await prisma.auditLog.deleteMany({
+      where: { id: { in: ids.slice(i, i + PURGE_BATCH_SIZE) } },
+    })
+    purged += count
+  }
+
+  const hasMore = (await prisma.auditLog.count({ where })) > 0
+
+  await recordAudit(prisma, {
+    userId,
+    action: 'purge',
+    entityType: 'audit_log',
+    entityId: archivePath,
+    summary: `Archived and purged ${purged} audit log entries older than ${retentionMonths} months`,
+    details: {
+      retentionMonths,
+      cutoff: cutoff.toISOString(),
+      count: purged,
+      oldest: oldest.toISOString(),
+      newest: newest.toISOString(),
+      archiveBucket: AUDIT_ARCHIVE_BUCKET,
+      archivePath,
+      hasMore,
+    },
+  })
+
+  return { retentionMonths, cutoff, archived: purged, archivePath, hasMore }
+}
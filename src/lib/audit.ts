@@ -0,0 +1,242 @@
+import { prisma, type TransactionClient } from '@/lib/db'
+import { BookingStatus, Prisma } from '@/generated/prisma'
+import type { ActionResult } from '@/types'
+import { withAuditContext } from '@/lib/request-context'
+import { analyzeAdvancedAvailability } from '@/lib/booking-availability'
+import { formatBookingDisplay } from '@/lib/validations/booking'
+import {
+  AUDIT_IGNORED_FIELDS,
+  AUDIT_REDACTED_FIELDS,
+  buildAuditChanges,
+  getAuditDiff,
+  isScalarAuditValue,
+  toAuditJson,
+} from '@/lib/audit-diff'
+
+type AuditDb = TransactionClient | typeof prisma
+
+export interface AuditEntry {
+  userId: string
+  action: string
+  entityType: string
+  entityId: string
+  // Snapshot before the mutation, omitted for creations
+  before?: object | null
+  // Snapshot after the mutation, omitted for deletions
+  after?: object | null
+  summary?: string
+  // Extra context kept next to the snapshots (property name, counts...)
+  details?: Record<string, unknown>
+}
+
+/**
+ * Writes an audit entry for a business event (merge, import, export...)
+ * - Creates, updates and deletes of audited models are logged automatically by the client extension in db.ts
+ */
+export async function recordAudit(db: AuditDb, entry: AuditEntry) {
+  return db.auditLog.create({
+    data: {
+      userId: entry.userId,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      changes: buildAuditChanges(entry) as Prisma.InputJsonObject,
+    },
+  })
+}
+
+interface RevertableEntity {
+  load: (db: AuditDb, id: string) => Promise<Record<string, unknown> | null>
+  update: (db: AuditDb, id: string, data: Record<string, unknown>) => Promise<Record<string, unknown>>
+}
+
+// Entity types whose scalar field updates can be reverted from the audit log
+const REVERTABLE_ENTITIES: Record<string, RevertableEntity> = {
+  property: {
+    load: (db, id) => db.property.findUnique({ where: { id } }),
+    update: (db, id, data) => db.property.update({ where: { id }, data: data as Prisma.PropertyUpdateInput }),
+  },
+  booking: {
+    load: (db, id) => db.booking.findUnique({ where: { id } }),
+    update: (db, id, data) => db.booking.update({ where: { id }, data: data as Prisma.BookingUpdateInput }),
+  },
+  contact: {
+    load: (db, id) => db.contact.findUnique({ where: { id } }),
+    update: (db, id, data) => db.contact.update({ where: { id }, data: data as Prisma.ContactUpdateInput }),
+  },
+  LegalDocument: {
+    load: (db, id) => db.legalDocument.findUnique({ where: { id } }),
+    update: (db, id, data) => db.legalDocument.update({ where: { id }, data: data as Prisma.LegalDocumentUpdateInput }),
+  },
+  PROPERTY_PRICING: {
+    load: (db, propertyId) => db.propertyPricing.findUnique({ where: { propertyId } }),
+    update: (db, propertyId, data) =>
+      db.propertyPricing.update({ where: { propertyId }, data: data as Prisma.PropertyPricingUpdateInput }),
+  },
+  PRICE_RANGE: {
+    load: (db, id) => db.priceRange.findUnique({ where: { id } }),
+    update: (db, id, data) => db.priceRange.update({ where: { id }, data: data as Prisma.PriceRangeUpdateInput }),
+  },
+  MINIMUM_STAY_RULE: {
+    load: (db, id) => db.minimumStayRule.findUnique({ where: { id } }),
+    update: (db, id, data) => db.minimumStayRule.update({ where: { id }, data: data as Prisma.MinimumStayRuleUpdateInput }),
+  },
+  OPERATIONAL_COST: {
+    load: (db, id) => db.operationalCost.findUnique({ where: { id } }),
+    update: (db, id, data) => db.operationalCost.update({ where: { id }, data: data as Prisma.OperationalCostUpdateInput }),
+  },
+}
+
+// Ids, foreign keys, timestamps and redacted secrets are never reverted
+const isProtectedField = (field: string) =>
+  field === 'id' ||
+  field.endsWith('Id') ||
+  AUDIT_IGNORED_FIELDS.includes(field) ||
+  AUDIT_REDACTED_FIELDS.includes(field)
+
+// Current value of a column that holds a plain value (dates and decimals included, JSON and lists excluded)
+const isScalarColumn = (value: unknown) =>
+  value instanceof Date || Prisma.Decimal.isDecimal(value) || isScalarAuditValue(value)
+
+type AuditLogRecord = { entityType: string; entityId: string; changes: Prisma.JsonValue }
+
+/**
+ * Fields of an audit entry that can be reverted now
+ * - Scalar fields of a revertable entity type, both sides of the change being plain values
+ * - The field must still hold the value the entry set, later edits are never overwritten
+ */
+export async function getRevertableFields(log: AuditLogRecord, db: AuditDb = prisma): Promise<string[]> {
+  const entity = REVERTABLE_ENTITIES[log.entityType]
+  const diff = getAuditDiff(log.changes)
+  if (!entity || !diff?.length) return []
+
+  const current = await entity.load(db, log.entityId)
+  if (!current) return []
+
+  return diff
+    .filter(change =>
+      !isProtectedField(change.field) &&
+      change.field in current &&
+      isScalarColumn(current[change.field]) &&
+      isScalarAuditValue(change.before) &&
+      isScalarAuditValue(change.after) &&
+      JSON.stringify(toAuditJson(current[change.field]) ?? null) === JSON.stringify(change.after)
+    )
+    .map(change => change.field)
+}
+
+/**
+ * Conflict check of a booking revert, the same one a booking update runs
+ * - Only when dates or status come back and the booking is not left cancelled
+ * @returns the error to report, or null when the booking stays clear of other bookings
+ */
+async function checkRevertedBookingAvailability(
+  db: TransactionClient,
+  id: string,
+  current: Record<string, unknown>,
+  data: Record<string, unknown>
+): Promise<string | null> {
+  if (!['startDate', 'endDate', 'status'].some(field => field in data)) return null
+
+  const reverted = { ...current, ...data }
+  if (reverted.status === BookingStatus.CANCELLED) return null
+
+  const availability = await analyzeAdvancedAvailability(db, {
+    propertyId: reverted.propertyId as string,
+    startDate: reverted.startDate as Date,
+    endDate: reverted.endDate as Date,
+    excludeBookingId: id,
+    includeNearbyDates: false,
+    suggestAlternatives: false,
+    gracePeriodHours: 0,
+  })
+  if (availability.available) return null
+
+  const conflicts = availability.conflicts
+    ?.filter(conflict => conflict.severity === 'blocking')
+    .map(conflict => formatBookingDisplay(conflict))
+    .join(', ')
+  return `Cannot revert: the booking would overlap ${conflicts}`
+}
+
+/**
+ * Puts fields back to the value they had before an audit entry
+ * - Defaults to every revertable field of the entry
+ * - The revert is itself audited, with a reference to the reverted entry
+ * - Booking reverts are checked for overlaps in a serializable transaction, like a booking update
+ */
+export async function revertAuditChange(
+  logId: string,
+  userId: string,
+  fields?: string[]
+): Promise<ActionResult<{ fields: string[] }>> {
+  try {
+    return await revertInTransaction(logId, userId, fields)
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return { success: false, error: 'The record changed at the same time, please try again' }
+    }
+    throw error
+  }
+}
+
+function revertInTransaction(logId: string, userId: string, fields?: string[]) {
+  return prisma.$transaction(async (tx) => {
+    const log = await tx.auditLog.findUnique({ where: { id: logId } })
+    if (!log) {
+      return { success: false as const, error: 'Audit log not found' }
+    }
+
+    const entity = REVERTABLE_ENTITIES[log.entityType]
+    if (!entity) {
+      return { success: false as const, error: `Changes to ${log.entityType} cannot be reverted` }
+    }
+
+    const revertable = await getRevertableFields(log, tx)
+    const requested = fields?.length ? fields : revertable
+    const blocked = requested.filter(field => !revertable.includes(field))
+
+    if (requested.length === 0) {
+      return { success: false as const, error: 'This entry has no field that can be reverted' }
+    }
+    if (blocked.length > 0) {
+      return {
+        success: false as const,
+        error: `Cannot revert ${blocked.join(', ')}: the field changed since or is not a plain value`,
+      }
+    }
+
+    const current = (await entity.load(tx, log.entityId))!
+    const diff = getAuditDiff(log.changes)!
+    const data: Record<string, unknown> = {}
+
+    for (const change of diff.filter(change => requested.includes(change.field))) {
+      // Dates were stored as ISO strings
+      data[change.field] = current[change.field] instanceof Date && change.before !== null
+        ? new Date(change.before as string)
+        : change.before
+    }
+
+    if (log.entityType === 'booking') {
+      const conflict = await checkRevertedBookingAvailability(tx, log.entityId, current, data)
+      if (conflict) {
+        return { success: false as const, error: conflict }
+      }
+    }
+
+    // Logged by the audit extension, as a revert pointing to the reverted entry
+    await withAuditContext(
+      {
+        userId,
+        action: 'revert',
+        summary: `Reverted ${requested.join(', ')}`,
+        details: { revertedLogId: log.id, revertedAction: log.action },
+      },
+      () => entity.update(tx, log.entityId, data)
+    )
+
+    return { success: true as const, data: { fields: requested } }
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  })
+}
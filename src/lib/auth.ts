@@ -1,6 +1,8 @@
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
-import { UserRole, Permission, ROLE_PERMISSIONS } from "@/types/auth";
+import { UserRole, Permission, type AccessScope, type PermissionTarget } from "@/types/auth";
+import { loadAccessScope, isWithinScope, UNRESTRICTED_SCOPE } from "@/lib/access-scope";
+import { getRolePermissions } from "@/lib/roles";
 
 /**
  * Get the current authenticated user
@@ -46,9 +48,9 @@ export async function requireAuth() {
 
 /**
  * Get the current user's role
- * @returns The user's role or null
+ * @returns The user's role key (built-in UserRole or custom role) or null
  */
-export async function getUserRole(): Promise<UserRole | null> {
+export async function getUserRole(): Promise<UserRole | string | null> {
   try {
     const user = await currentUser();
     if (!user) {
@@ -56,7 +58,7 @@ export async function getUserRole(): Promise<UserRole | null> {
       return null;
     }
     
-    const role = user.publicMetadata?.role as UserRole | undefined;
+    const role = user.publicMetadata?.role as string | undefined;
     const finalRole = role || UserRole.VIEWER;
     
     console.log('👤 getUserRole: User ID:', user.id)
@@ -86,12 +88,28 @@ export async function hasRole(role: string | UserRole): Promise<boolean> {
   }
 }
 
+/**
+ * Get the destinations and properties the current user is restricted to
+ * Admins are never restricted
+ * @returns The user's access scope
+ */
+export async function getAccessScope(): Promise<AccessScope> {
+  const role = await getUserRole();
+  if (role === UserRole.ADMIN) return UNRESTRICTED_SCOPE;
+
+  return loadAccessScope(await getCurrentUserId());
+}
+
 /**
  * Check if the current user has a specific permission
  * @param permission - The permission to check
+ * @param target - Property or destination the permission must apply to (checked against the user's access scope)
  * @returns True if the user has the permission, false otherwise
  */
-export async function hasPermission(permission: Permission | string): Promise<boolean> {
+export async function hasPermission(
+  permission: Permission | string,
+  target?: PermissionTarget
+): Promise<boolean> {
   try {
     const role = await getUserRole();
     if (!role) {
@@ -99,7 +117,7 @@ export async function hasPermission(permission: Permission | string): Promise<bo
       return false;
     }
     
-    const rolePermissions = ROLE_PERMISSIONS[role];
+    const rolePermissions = await getRolePermissions(role);
     const hasAccess = rolePermissions.includes(permission as Permission);
     
     console.log('🔐 hasPermission: Checking permission:', permission)
@@ -107,6 +125,12 @@ export async function hasPermission(permission: Permission | string): Promise<bo
     console.log('📜 hasPermission: Role permissions:', rolePermissions)
     console.log('✅/❌ hasPermission: Access granted:', hasAccess)
     
+    if (hasAccess && target && role !== UserRole.ADMIN) {
+      const inScope = await isWithinScope(await loadAccessScope(await getCurrentUserId()), target);
+      console.log('🗺️ hasPermission: Target in access scope:', target, inScope)
+      return inScope;
+    }
+    
     return hasAccess;
   } catch (error) {
     console.error('❌ hasPermission: Error occurred:', error)
@@ -117,11 +141,12 @@ export async function hasPermission(permission: Permission | string): Promise<bo
 /**
  * Require a specific permission for an operation
  * @param permission - The permission required
+ * @param target - Property or destination the permission must apply to
  * @throws Error if the user doesn't have the permission
  */
-export async function requirePermission(permission: Permission | string) {
+export async function requirePermission(permission: Permission | string, target?: PermissionTarget) {
   console.log('🛡️ requirePermission: Requiring permission:', permission)
-  const hasAccess = await hasPermission(permission);
+  const hasAccess = await hasPermission(permission, target);
   if (!hasAccess) {
     console.error('❌ requirePermission: Access denied for permission:', permission)
     throw new Error('Insufficient permissions');
@@ -159,7 +184,7 @@ export async function getUserPermissions(): Promise<Permission[]> {
     const role = await getUserRole();
     if (!role) return [];
     
-    return ROLE_PERMISSIONS[role];
+    return getRolePermissions(role);
   } catch (error) {
     
     return [];
@@ -0,0 +1,78 @@
+import { prisma, type TransactionClient } from '@/lib/db'
+import { withAuditContext } from '@/lib/request-context'
+import { GlobalContactCategory, Prisma } from '@/generated/prisma'
+
+type ContactDb = TransactionClient | typeof prisma
+
+export interface GuestDetails {
+  guestName?: string | null
+  guestEmail?: string | null
+  guestPhone?: string | null
+}
+
+/**
+ * Splits a free-text guest name into contact first / last name
+ */
+export function splitGuestName(name: string | null | undefined, fallback: string): { firstName: string; lastName: string } {
+  const parts = (name ?? '').trim().split(/\s+/).filter(Boolean)
+  if (parts.length === 0) return { firstName: fallback, lastName: '' }
+  if (parts.length === 1) return { firstName: parts[0], lastName: '' }
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') }
+}
+
+/**
+ * Finds the contact owning a guest email, or creates a CLIENT contact for it
+ * - Matching is case-insensitive on the email
+ * - Missing phone numbers are filled in on existing contacts, nothing else is overwritten
+ * - Returns null when the guest has no email
+ */
+export async function matchOrCreateClientContact(
+  db: ContactDb,
+  guest: GuestDetails,
+  userId: string
+): Promise<string | null> {
+  const email = guest.guestEmail?.trim().toLowerCase()
+  if (!email) return null
+
+  const existing = await db.contact.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    select: { id: true, phone: true },
+  })
+
+  if (existing) {
+    if (!existing.phone && guest.guestPhone) {
+      await db.contact.update({
+        where: { id: existing.id },
+        data: { phone: guest.guestPhone },
+      })
+    }
+    return existing.id
+  }
+
+  let contact
+  try {
+    contact = await withAuditContext(
+      { userId, summary: `Created client contact from booking guest: ${guest.guestName || email}` },
+      () => db.contact.create({
+        data: {
+          ...splitGuestName(guest.guestName, email.split('@')[0]),
+          email,
+          phone: guest.guestPhone || null,
+          category: GlobalContactCategory.CLIENT,
+        },
+      })
+    )
+  } catch (error) {
+    // Created concurrently by another booking: link to that contact
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const created = await db.contact.findFirst({
+        where: { email: { equals: email, mode: 'insensitive' } },
+        select: { id: true },
+      })
+      if (created) return created.id
+    }
+    throw error
+  }
+
+  return contact.id
+}
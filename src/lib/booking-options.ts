@@ -0,0 +1,81 @@
+import { addDays } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { withAuditContext } from '@/lib/request-context'
+import { BookingStatus, BookingType } from '@/generated/prisma'
+
+// How long a tentative booking holds the dates when no expiry is given
+export const DEFAULT_OPTION_HOLD_DAYS = 7
+
+/**
+ * Default option expiry for a tentative booking: the hold period, capped at check-in
+ */
+export function getDefaultOptionExpiry(startDate: Date, from: Date = new Date()): Date {
+  const expiry = addDays(from, DEFAULT_OPTION_HOLD_DAYS)
+  return expiry < startDate ? expiry : startDate
+}
+
+/**
+ * Option expiry to store for a booking: only tentative bookings keep one
+ */
+export function resolveOptionExpiry(
+  type: BookingType,
+  startDate: Date,
+  optionExpiresAt: Date | null | undefined
+): Date | null {
+  if (type !== BookingType.TENTATIVE) return null
+  return optionExpiresAt ?? getDefaultOptionExpiry(startDate)
+}
+
+export interface ReleasedOption {
+  bookingId: string
+  propertyId: string
+  guestName: string | null
+  optionExpiresAt: Date
+}
+
+/**
+ * Cancels tentative bookings whose option has expired and audits each release
+ */
+export async function releaseExpiredOptions(userId: string, now: Date = new Date()): Promise<ReleasedOption[]> {
+  const expired = await prisma.booking.findMany({
+    where: {
+      type: BookingType.TENTATIVE,
+      status: { not: BookingStatus.CANCELLED },
+      optionExpiresAt: { lte: now },
+    },
+    include: { property: { select: { id: true, name: true } } },
+    orderBy: { optionExpiresAt: 'asc' },
+  })
+
+  const released: ReleasedOption[] = []
+
+  for (const booking of expired) {
+    // Guarded update so a booking confirmed or extended meanwhile is left alone
+    const { count } = await withAuditContext(
+      {
+        userId,
+        summary: `Released expired option${booking.guestName ? ` for ${booking.guestName}` : ''} at ${booking.property.name}`,
+        details: { propertyName: booking.property.name },
+      },
+      () => prisma.booking.updateMany({
+        where: {
+          id: booking.id,
+          type: BookingType.TENTATIVE,
+          status: { not: BookingStatus.CANCELLED },
+          optionExpiresAt: { lte: now },
+        },
+        data: { status: BookingStatus.CANCELLED, updatedBy: userId },
+      })
+    )
+    if (count === 0) continue
+
+    released.push({
+      bookingId: booking.id,
+      propertyId: booking.propertyId,
+      guestName: booking.guestName,
+      optionExpiresAt: booking.optionExpiresAt!,
+    })
+  }
+
+  return released
+}
@@ -0,0 +1,26 @@
+import { clerkClient, type User } from '@clerk/nextjs/server'
+import { UserRole } from '@/types/auth'
+
+/**
+ * Every Clerk user, fetched page by page
+ */
+export async function listClerkUsers(): Promise<User[]> {
+  const { users } = await clerkClient()
+  const clerkUsers: User[] = []
+  const limit = 100
+
+  for (let offset = 0; ; offset += limit) {
+    const { data, totalCount } = await users.getUserList({ limit, offset, orderBy: '-created_at' })
+    clerkUsers.push(...data)
+    if (data.length < limit || offset + limit >= totalCount) break
+  }
+
+  return clerkUsers
+}
+
+/**
+ * Role key stored in a user's publicMetadata (users without role are viewers)
+ */
+export function getClerkUserRole(user: { publicMetadata: Record<string, unknown> | null }): string {
+  return (user.publicMetadata?.role as string | undefined) || UserRole.VIEWER
+}
@@ -0,0 +1,229 @@
+// Duplicate detection over global contacts
+// - Pure functions, the normalizers are also used to match contacts when linking them to properties
+
+export interface DuplicateCandidate {
+  id: string
+  firstName: string
+  lastName: string
+  email: string | null
+  phone: string | null
+}
+
+export type DuplicateReason =
+  | 'same_email'
+  | 'same_phone'
+  | 'similar_name'
+  | 'swapped_name'
+  | 'same_initial_and_last_name'
+  | 'same_email_domain'
+  | 'same_email_name'
+
+export interface DuplicateMatch {
+  score: number
+  reasons: DuplicateReason[]
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  same_email: 'Same email',
+  same_phone: 'Same phone number',
+  similar_name: 'Similar name',
+  swapped_name: 'First and last name swapped',
+  same_initial_and_last_name: 'Same last name and initial',
+  same_email_domain: 'Same company email domain',
+  same_email_name: 'Same email name on another domain',
+}
+
+// Pairs scoring at least this much are reported as likely duplicates
+export const DUPLICATE_SCORE_THRESHOLD = 60
+
+// Webmail domains say nothing about two people being related
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'hotmail.com', 'hotmail.fr', 'outlook.com', 'outlook.fr', 'live.com', 'live.fr',
+  'yahoo.com', 'yahoo.fr', 'icloud.com', 'me.com', 'aol.com', 'orange.fr', 'wanadoo.fr', 'free.fr', 'sfr.fr',
+  'laposte.net', 'gmx.com', 'gmx.fr', 'protonmail.com', 'proton.me', 'msn.com', 'bbox.fr',
+])
+
+export const normalizeEmail = (email: string | null | undefined) => email?.trim().toLowerCase() || null
+
+/**
+ * Digits only, compared on the last 9 so "+33 6 12 34 56 78", "0033612345678" and "06.12.34.56.78" match
+ */
+export const normalizePhone = (phone: string | null | undefined) => {
+  const digits = phone?.replace(/\D/g, '') ?? ''
+  return digits.length >= 6 ? digits.slice(-9) : null
+}
+
+/**
+ * Lowercase, without accents, punctuation or repeated spaces ("Jean-Pierre  Dupont" -> "jean pierre dupont")
+ */
+export const normalizeName = (value: string | null | undefined) =>
+  (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+const emailParts = (email: string | null | undefined) => {
+  const normalized = normalizeEmail(email)
+  if (!normalized || !normalized.includes('@')) return null
+  const [local, domain] = normalized.split('@')
+  return { local, domain }
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Similarity between 0 and 1 of two normalized strings
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  if (longest === 0) return 0
+  return 1 - levenshtein(a, b) / longest
+}
+
+/**
+ * How likely two contacts are the same person
+ * - Email and phone are strong signals, names and email domains only add up
+ * - A shared company domain alone stays below the threshold, it only backs up a name match
+ */
+export function scoreDuplicate(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateMatch {
+  const reasons: DuplicateReason[] = []
+  let score = 0
+
+  const emailA = normalizeEmail(a.email)
+  const emailB = normalizeEmail(b.email)
+  if (emailA && emailA === emailB) {
+    reasons.push('same_email')
+    score += 100
+  } else {
+    const partsA = emailParts(a.email)
+    const partsB = emailParts(b.email)
+    if (partsA && partsB) {
+      if (partsA.domain === partsB.domain && !PUBLIC_EMAIL_DOMAINS.has(partsA.domain)) {
+        reasons.push('same_email_domain')
+        score += 15
+      } else if (partsA.local === partsB.local && partsA.local.length >= 4) {
+        reasons.push('same_email_name')
+        score += 30
+      }
+    }
+  }
+
+  const phoneA = normalizePhone(a.phone)
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    reasons.push('same_phone')
+    score += 90
+  }
+
+  // Different emails and different phones point to two people
+  const phoneB = normalizePhone(b.phone)
+  if (emailA && emailB && emailA !== emailB && phoneA && phoneB && phoneA !== phoneB) {
+    score -= 20
+  }
+
+  const firstA = normalizeName(a.firstName)
+  const lastA = normalizeName(a.lastName)
+  const firstB = normalizeName(b.firstName)
+  const lastB = normalizeName(b.lastName)
+  const fullA = `${firstA} ${lastA}`.trim()
+  const fullB = `${firstB} ${lastB}`.trim()
+
+  if (fullA && fullB) {
+    if (nameSimilarity(fullA, fullB) >= 0.85) {
+      reasons.push('similar_name')
+      score += 60
+    } else if (nameSimilarity(fullA, `${lastB} ${firstB}`.trim()) >= 0.9) {
+      reasons.push('swapped_name')
+      score += 55
+    } else if (lastA && lastA === lastB && firstA[0] && firstA[0] === firstB[0]) {
+      reasons.push('same_initial_and_last_name')
+      score += 35
+    }
+  }
+
+  return { score: Math.max(0, Math.min(score, 100)), reasons }
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate = DuplicateCandidate> extends DuplicateMatch {
+  a: T
+  b: T
+}
+
+// Buckets larger than this are too generic to compare pairwise (e.g. a shared agency domain)
+const MAX_BUCKET_SIZE = 200
+
+/**
+ * Likely duplicate pairs among contacts, best matches first
+ * - Only contacts sharing a blocking key (phone, email, domain, name prefix) are compared
+ */
+export function findDuplicatePairs<T extends DuplicateCandidate>(
+  contacts: T[],
+  threshold: number = DUPLICATE_SCORE_THRESHOLD
+): DuplicatePair<T>[] {
+  const buckets = new Map<string, number[]>()
+  const addToBucket = (key: string, index: number) => {
+    const bucket = buckets.get(key)
+    if (bucket) bucket.push(index)
+    else buckets.set(key, [index])
+  }
+
+  contacts.forEach((contact, index) => {
+    const phone = normalizePhone(contact.phone)
+    if (phone) addToBucket(`phone:${phone}`, index)
+
+    const parts = emailParts(contact.email)
+    if (parts) {
+      addToBucket(`email:${parts.local}`, index)
+      if (!PUBLIC_EMAIL_DOMAINS.has(parts.domain)) addToBucket(`domain:${parts.domain}`, index)
+    }
+
+    // Name prefixes in both orders so swapped names land in the same bucket
+    const first = normalizeName(contact.firstName).replace(/ /g, '')
+    const last = normalizeName(contact.lastName).replace(/ /g, '')
+    if (last) addToBucket(`name:${last.slice(0, 3)}`, index)
+    if (first) addToBucket(`name:${first.slice(0, 3)}`, index)
+  })
+
+  const seen = new Set<string>()
+  const pairs: DuplicatePair<T>[] = []
+
+  for (const indexes of buckets.values()) {
+    if (indexes.length < 2 || indexes.length > MAX_BUCKET_SIZE) continue
+
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = contacts[indexes[i]]
+        const b = contacts[indexes[j]]
+        const key = a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const match = scoreDuplicate(a, b)
+        if (match.score >= threshold) {
+          pairs.push({ a, b, ...match })
+        }
+      }
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score)
+}
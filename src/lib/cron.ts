@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+
+// Audit log user id for changes made by scheduled jobs
+export { SYSTEM_USER_ID } from '@/lib/request-context'
+
+/**
+ * Checks the bearer token sent by the scheduler (Vercel Cron sends
+ * `Authorization: Bearer $CRON_SECRET`). Jobs are disabled when no secret is configured.
+ */
+export function isAuthorizedCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const header = req.headers.get('authorization') ?? ''
+  const provided = Buffer.from(header)
+  const expected = Buffer.from(`Bearer ${secret}`)
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
@@ -1,12 +1,217 @@
-import { PrismaClient } from '@/generated/prisma'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { Prisma, PrismaClient } from '@/generated/prisma'
+import { buildAuditChanges } from '@/lib/audit-diff'
+import { getAuditContext, getAuditUserId } from '@/lib/request-context'
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined
 }
 
+// Models whose creates, updates and deletes are logged automatically, with the entity type used in AuditLog
+// - untrackedFields: updates touching only these fields (bookkeeping timestamps) are not logged
+const AUDITED_MODELS: Partial<Record<Prisma.ModelName, { entityType: string; idField?: string; untrackedFields?: string[] }>> = {
+  Property: { entityType: 'property' },
+  Room: { entityType: 'room' },
+  Photo: { entityType: 'photo' },
+  Resource: { entityType: 'resource' },
+  Destination: { entityType: 'destination' },
+  Booking: { entityType: 'booking' },
+  AvailabilityRequest: { entityType: 'AvailabilityRequest' },
+  Contact: { entityType: 'contact' },
+  ContactProperty: { entityType: 'contact_property_link' },
+  PropertyPricing: { entityType: 'PROPERTY_PRICING', idField: 'propertyId' },
+  PriceRange: { entityType: 'PRICE_RANGE' },
+  MinimumStayRule: { entityType: 'MINIMUM_STAY_RULE' },
+  OperationalCost: { entityType: 'OPERATIONAL_COST' },
+  LegalDocument: { entityType: 'LegalDocument', untrackedFields: ['lastAccessedAt'] },
+  ActivityProvider: { entityType: 'activity_provider' },
+  UserAccessScope: { entityType: 'user_access_scope', idField: 'userId' },
+  RoleDefinition: { entityType: 'role', idField: 'key' },
+  OperationalTask: { entityType: 'operational_task' },
+  MarketingContent: { entityType: 'marketing_content' },
+}
+
+// Bulk writes touching more rows than this are logged as one entry instead of one per row
+const MAX_AUDITED_ROWS = 100
+
+type Row = Record<string, unknown>
+
+// Update operators whose result can be computed from the value before the write
+const NUMBER_OPERATORS: Record<string, (value: number, operand: number) => number> = {
+  increment: (value, operand) => value + operand,
+  decrement: (value, operand) => value - operand,
+  multiply: (value, operand) => value * operand,
+  divide: (value, operand) => value / operand,
+}
+
+const isPlainObject = (value: unknown): value is Row =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !Prisma.Decimal.isDecimal(value)
+
+/**
+ * Row as an updateMany leaves it, derived from the row before the write and the update data
+ * - Plain values and `set` replace the field, number operators and `push` apply to the previous value
+ * - Any other object is a JSON value and replaces the field
+ */
+function applyUpdateData(row: Row, data: unknown): Row {
+  const after = { ...row }
+  if (!isPlainObject(data)) return after
+
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue
+
+    const operations = isPlainObject(value) ? Object.entries(value) : []
+    const [operator, operand] = operations.length === 1 ? operations[0] : []
+    const current = after[field]
+
+    if (operator === 'set') {
+      after[field] = operand
+    } else if (operator && operator in NUMBER_OPERATORS && typeof current === 'number' && typeof operand === 'number') {
+      after[field] = NUMBER_OPERATORS[operator](current, operand)
+    } else if (operator === 'push' && Array.isArray(current)) {
+      after[field] = current.concat(operand)
+    } else {
+      after[field] = value
+    }
+  }
+
+  return after
+}
+
+interface AuditedDelegate {
+  findUnique: (args: { where: unknown }) => Promise<Row | null>
+  findMany: (args: { where: unknown; take?: number }) => Promise<Row[]>
+}
+
+// Client of the interactive transaction the current code runs in, set by the $transaction of the exported client
+const transactionStorage = new AsyncLocalStorage<TransactionClient>()
+
+/**
+ * Prisma client extension logging every create, update and delete of the audited models to AuditLog
+ * - The acting user comes from the request context (withAuditContext) or the Clerk session, 'system' otherwise
+ * - Inside an interactive transaction, snapshots are read and entries written with the transaction client:
+ *   entries roll back with the writes they describe. Batch transactions ($transaction([...])) are not tracked,
+ *   their snapshots and entries use the base client
+ * - Rows after an updateMany are derived from their before snapshot and the update data;
+ *   updatedAt and values set by database triggers are not reflected
+ * - Nested writes (e.g. links created with their contact) are not logged
+ * - A failed audit write is reported but never fails a mutation made outside a transaction
+ *   (inside one, the database aborts the transaction)
+ */
+export function auditExtension(base: PrismaClient) {
+  return Prisma.defineExtension({
+    name: 'audit',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const audited = AUDITED_MODELS[model as Prisma.ModelName]
+          if (!audited) return query(args)
+
+          if ((operation === 'update' || operation === 'updateMany') && audited.untrackedFields) {
+            const data = (args as { data?: Row }).data ?? {}
+            if (Object.keys(data).every(field => audited.untrackedFields?.includes(field))) return query(args)
+          }
+
+          const db = transactionStorage.getStore() ?? base
+          const delegate = (db as unknown as Record<string, AuditedDelegate>)[
+            model.charAt(0).toLowerCase() + model.slice(1)
+          ]
+          const where = (args as { where?: unknown }).where
+          const entityIdOf = (row: Row | null | undefined) =>
+            String(row?.[audited.idField ?? 'id'] ?? (where as Row | undefined)?.[audited.idField ?? 'id'] ?? 'unknown')
+
+          type Entry = { action: string; entityId: string; before?: Row | null; after?: Row | null; details?: Row }
+          let entries: Entry[]
+          let result: unknown
+
+          switch (operation) {
+            case 'create': {
+              result = await query(args)
+              entries = [{ action: 'create', entityId: entityIdOf(result as Row), after: result as Row }]
+              break
+            }
+            case 'update':
+            case 'upsert':
+            case 'delete': {
+              const before = await delegate.findUnique({ where })
+              result = await query(args)
+              const action = operation === 'upsert' ? (before ? 'update' : 'create') : operation
+              entries = [{
+                action,
+                entityId: entityIdOf(before ?? (result as Row)),
+                before,
+                after: operation === 'delete' ? undefined : (result as Row),
+              }]
+              break
+            }
+            case 'updateMany':
+            case 'updateManyAndReturn':
+            case 'deleteMany': {
+              const rows = await delegate.findMany({ where, take: MAX_AUDITED_ROWS + 1 })
+              result = await query(args)
+              const action = operation === 'deleteMany' ? 'delete' : 'update'
+              const count = (result as { count?: number }).count ?? (result as Row[]).length
+              if (count === 0) return result
+
+              if (rows.length > MAX_AUDITED_ROWS) {
+                entries = [{ action: `bulk_${action}`, entityId: 'bulk', details: { count, where } }]
+              } else if (action === 'delete') {
+                entries = rows.map(row => ({ action, entityId: entityIdOf(row), before: row }))
+              } else {
+                // updateManyAndReturn hands back the rows as written, updateMany only a count
+                const returned = Array.isArray(result) ? new Map((result as Row[]).map(row => [entityIdOf(row), row])) : null
+                const data = (args as { data?: unknown }).data
+                entries = rows.map(row => ({
+                  action,
+                  entityId: entityIdOf(row),
+                  before: row,
+                  after: returned?.get(entityIdOf(row)) ?? applyUpdateData(row, data),
+                }))
+              }
+              break
+            }
+            case 'createMany':
+            case 'createManyAndReturn': {
+              result = await query(args)
+              const count = (result as { count?: number }).count ?? (result as Row[]).length
+              entries = [{ action: 'bulk_create', entityId: 'bulk', details: { count } }]
+              break
+            }
+            default:
+              return query(args)
+          }
+
+          try {
+            const context = getAuditContext()
+            const userId = await getAuditUserId()
+
+            await db.auditLog.createMany({
+              data: entries.map(entry => ({
+                userId,
+                action: context.action ?? entry.action,
+                entityType: audited.entityType,
+                entityId: entry.entityId,
+                changes: buildAuditChanges({
+                  before: entry.before,
+                  after: entry.after,
+                  summary: context.summary,
+                  details: { ...entry.details, ...context.details },
+                }) as Prisma.InputJsonObject,
+              })),
+            })
+          } catch (error) {
+            console.error(`Error writing audit log for ${model}.${operation}:`, error)
+          }
+
+          return result
+        },
+      },
+    },
+  })
+}
+
 // Configure Prisma Client with better error handling and connection pooling
-export const prisma = 
-  globalForPrisma.prisma ?? 
+const basePrisma =
+  globalForPrisma.prisma ??
   new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
     datasources: {
@@ -17,9 +222,37 @@ export const prisma =
     errorFormat: 'pretty',
   })
 
+const extendedPrisma = basePrisma.$extends(auditExtension(basePrisma))
+
+export type ExtendedPrismaClient = typeof extendedPrisma
+
+// Client passed to interactive transaction callbacks
+export type TransactionClient = Parameters<Parameters<ExtendedPrismaClient['$transaction']>[0]>[0]
+
+/**
+ * Same client whose interactive transactions are tracked, so the audit extension works on the transaction client
+ */
+function trackInteractiveTransactions(client: ExtendedPrismaClient): ExtendedPrismaClient {
+  const $transaction = ((input: unknown, options?: unknown) => {
+    if (typeof input !== 'function') {
+      return (client.$transaction as (input: unknown, options?: unknown) => unknown)(input, options)
+    }
+    return client.$transaction(
+      tx => transactionStorage.run(tx, () => (input as (tx: unknown) => Promise<unknown>)(tx)),
+      options as Parameters<ExtendedPrismaClient['$transaction']>[1]
+    )
+  }) as ExtendedPrismaClient['$transaction']
+
+  return new Proxy(client, {
+    get: (target, property) => property === '$transaction' ? $transaction : Reflect.get(target, property),
+  })
+}
+
+export const prisma = trackInteractiveTransactions(extendedPrisma)
+
 // Ensure we're not creating multiple instances in development
 if (process.env.NODE_ENV !== 'production') {
-  globalForPrisma.prisma = prisma
+  globalForPrisma.prisma = basePrisma
 }
 
 // Improved cleanup for hot reload in development
@@ -30,15 +263,15 @@ if (process.env.NODE_ENV === 'development') {
         .catch((_e) => console.error('Error disconnecting Prisma:', _e))
     }
   }
-  
+
   process.on('beforeExit', cleanup)
   process.on('SIGINT', cleanup)
   process.on('SIGTERM', cleanup)
 } else {
   // Production cleanup
   process.on('beforeExit', async () => {
-    await prisma.$disconnect()
+    await basePrisma.$disconnect()
   })
 }
 
-export default prisma
\ No newline at end of file
+export default prisma
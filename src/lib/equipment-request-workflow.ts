@@ -0,0 +1,93 @@
+import { EquipmentRequestStatus } from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+
+// Fields a transition can require from the user
+export type EquipmentRequestTransitionField = 'rejectedReason' | 'supplier' | 'orderReference' | 'deliveryDate'
+
+export interface EquipmentRequestTransition {
+  from: EquipmentRequestStatus
+  to: EquipmentRequestStatus
+  permission: Permission
+  requiredFields: EquipmentRequestTransitionField[]
+}
+
+export const TRANSITION_FIELD_LABELS: Record<EquipmentRequestTransitionField, string> = {
+  rejectedReason: 'Rejection reason',
+  supplier: 'Supplier',
+  orderReference: 'Order reference',
+  deliveryDate: 'Delivery date',
+}
+
+/**
+ * Every status change an equipment request can go through
+ * - REJECTED, DELIVERED and CANCELLED are final
+ */
+export const EQUIPMENT_REQUEST_TRANSITIONS: EquipmentRequestTransition[] = [
+  {
+    from: EquipmentRequestStatus.PENDING,
+    to: EquipmentRequestStatus.APPROVED,
+    permission: Permission.EQUIPMENT_REQUEST_APPROVE,
+    requiredFields: [],
+  },
+  {
+    from: EquipmentRequestStatus.PENDING,
+    to: EquipmentRequestStatus.REJECTED,
+    permission: Permission.EQUIPMENT_REQUEST_APPROVE,
+    requiredFields: ['rejectedReason'],
+  },
+  {
+    from: EquipmentRequestStatus.PENDING,
+    to: EquipmentRequestStatus.CANCELLED,
+    permission: Permission.EQUIPMENT_REQUEST_EDIT,
+    requiredFields: [],
+  },
+  {
+    from: EquipmentRequestStatus.APPROVED,
+    to: EquipmentRequestStatus.ORDERED,
+    permission: Permission.EQUIPMENT_REQUEST_EDIT,
+    requiredFields: ['supplier', 'orderReference'],
+  },
+  {
+    from: EquipmentRequestStatus.APPROVED,
+    to: EquipmentRequestStatus.CANCELLED,
+    permission: Permission.EQUIPMENT_REQUEST_EDIT,
+    requiredFields: [],
+  },
+  {
+    from: EquipmentRequestStatus.ORDERED,
+    to: EquipmentRequestStatus.DELIVERED,
+    permission: Permission.EQUIPMENT_REQUEST_EDIT,
+    requiredFields: ['deliveryDate'],
+  },
+]
+
+/**
+ * Transitions available from a status
+ */
+export function getAllowedTransitions(from: EquipmentRequestStatus): EquipmentRequestTransition[] {
+  return EQUIPMENT_REQUEST_TRANSITIONS.filter(transition => transition.from === from)
+}
+
+export function findTransition(
+  from: EquipmentRequestStatus,
+  to: EquipmentRequestStatus
+): EquipmentRequestTransition | undefined {
+  return EQUIPMENT_REQUEST_TRANSITIONS.find(transition => transition.from === from && transition.to === to)
+}
+
+export function isFinalStatus(status: EquipmentRequestStatus): boolean {
+  return getAllowedTransitions(status).length === 0
+}
+
+/**
+ * Required fields of a transition that were left empty
+ */
+export function getMissingTransitionFields(
+  transition: EquipmentRequestTransition,
+  values: Partial<Record<EquipmentRequestTransitionField, string | Date | null | undefined>>
+): EquipmentRequestTransitionField[] {
+  return transition.requiredFields.filter(field => {
+    const value = values[field]
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+  })
+}
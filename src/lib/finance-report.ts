@@ -0,0 +1,165 @@
+import { prisma } from '@/lib/db'
+import { BookingStatus, Prisma } from '@/generated/prisma'
+import type { FinanceReportFilters } from '@/lib/validations/finance'
+import {
+  DEFAULT_COMMISSION_RATE,
+  REVENUE_BOOKING_TYPES,
+  eachNight,
+  findPricePeriodForNight,
+  getPublicNightlyRate,
+  monthKey,
+  operationalCostAmount,
+  roundAmount,
+} from '@/lib/finance'
+import type { FinanceAmounts, FinanceMonthRow } from '@/types/finance'
+
+export function emptyAmounts(): FinanceAmounts {
+  return {
+    revenue: 0,
+    ownerPayout: 0,
+    commission: 0,
+    operationalCosts: 0,
+    netMargin: 0,
+    nights: 0,
+    bookings: 0,
+  }
+}
+
+export function addAmounts(target: FinanceAmounts, source: Omit<FinanceAmounts, 'bookings'>) {
+  target.revenue += source.revenue
+  target.ownerPayout += source.ownerPayout
+  target.commission += source.commission
+  target.operationalCosts += source.operationalCosts
+  target.netMargin += source.netMargin
+  target.nights += source.nights
+}
+
+export function roundAmounts<T extends FinanceAmounts>(amounts: T): T {
+  return {
+    ...amounts,
+    revenue: roundAmount(amounts.revenue),
+    ownerPayout: roundAmount(amounts.ownerPayout),
+    commission: roundAmount(amounts.commission),
+    operationalCosts: roundAmount(amounts.operationalCosts),
+    netMargin: roundAmount(amounts.netMargin),
+  }
+}
+
+/**
+ * Loads revenue bookings overlapping the period with the pricing data needed
+ * to split them night by night
+ * - propertyIds narrows the report to a set of properties (owner statements)
+ * - propertyScope limits it to the properties the user can reach
+ */
+export async function loadFinanceData(
+  filters: FinanceReportFilters & { propertyIds?: string[] },
+  propertyScope: Prisma.PropertyWhereInput = {}
+) {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      propertyId: filters.propertyIds ? { in: filters.propertyIds } : filters.propertyId,
+      property: {
+        AND: [propertyScope, filters.destinationId ? { destinationId: filters.destinationId } : {}],
+      },
+      type: { in: REVENUE_BOOKING_TYPES },
+      status: { not: BookingStatus.CANCELLED },
+      startDate: { lt: filters.endDate },
+      endDate: { gt: filters.startDate },
+    },
+    select: {
+      id: true,
+      propertyId: true,
+      type: true,
+      startDate: true,
+      endDate: true,
+      guestName: true,
+      totalAmount: true,
+    },
+    orderBy: { startDate: 'asc' },
+  })
+
+  const propertyIds = [...new Set(bookings.map(booking => booking.propertyId))]
+
+  const properties = await prisma.property.findMany({
+    where: { id: { in: propertyIds } },
+    select: {
+      id: true,
+      name: true,
+      destinationId: true,
+      destination: { select: { name: true } },
+      pricing: { select: { currency: true, netOwnerCommission: true } },
+      prices: true,
+      operationalCosts: {
+        select: { priceType: true, estimatedPrice: true, publicPrice: true },
+      },
+    },
+  })
+
+  return { bookings, properties: new Map(properties.map(property => [property.id, property])) }
+}
+
+type FinanceData = Awaited<ReturnType<typeof loadFinanceData>>
+type FinanceBooking = FinanceData['bookings'][number]
+type FinanceProperty = FinanceData extends { properties: Map<string, infer P> } ? P : never
+
+interface NightAmounts {
+  month: string
+  revenue: number
+  ownerPayout: number
+  commission: number
+  operationalCosts: number
+  netMargin: number
+  nights: number
+}
+
+/**
+ * Splits a booking into per-night amounts inside the reporting period
+ * - Revenue comes from totalAmount, or from public nightly rates when missing
+ * - Commission uses the price period rate, then the property rate
+ * - Operational costs are spread evenly over the stay
+ */
+export function splitBooking(
+  booking: FinanceBooking,
+  property: FinanceProperty,
+  filters: FinanceReportFilters
+): { nights: NightAmounts[]; estimated: boolean } {
+  const nights = eachNight(booking.startDate, booking.endDate)
+  if (nights.length === 0) return { nights: [], estimated: false }
+
+  const estimated = booking.totalAmount == null
+  const fallbackRate = property.pricing?.netOwnerCommission ?? DEFAULT_COMMISSION_RATE
+  const costPerNight = property.operationalCosts.reduce(
+    (sum, cost) => sum + operationalCostAmount(cost, nights.length).estimated,
+    0
+  ) / nights.length
+
+  const result: NightAmounts[] = []
+  for (const night of nights) {
+    if (night < filters.startDate || night >= filters.endDate) continue
+
+    const period = findPricePeriodForNight(property.prices, night)
+    const commissionRate = period?.commissionRate ?? fallbackRate
+    const revenue = estimated
+      ? (period ? getPublicNightlyRate(period) ?? 0 : 0)
+      : (booking.totalAmount as number) / nights.length
+    const commission = revenue * commissionRate / 100
+
+    result.push({
+      month: monthKey(night),
+      revenue,
+      ownerPayout: revenue - commission,
+      commission,
+      operationalCosts: costPerNight,
+      netMargin: commission - costPerNight,
+      nights: 1,
+    })
+  }
+
+  return { nights: result, estimated }
+}
+
+export function sortMonths<T extends FinanceMonthRow>(months: Map<string, T>): T[] {
+  return [...months.values()]
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(roundAmounts)
+}
@@ -0,0 +1,147 @@
+import { addDays, differenceInCalendarDays, format } from 'date-fns'
+import { BookingType, PriceType } from '@/generated/prisma'
+
+// Default commission when neither the price period nor the property defines one
+export const DEFAULT_COMMISSION_RATE = 25
+
+// Booking types that generate client revenue
+export const REVENUE_BOOKING_TYPES: BookingType[] = [BookingType.CONFIRMED, BookingType.CONTRACT]
+
+interface PricePeriod {
+  startDate: Date
+  endDate: Date
+  commissionRate: number
+  ownerNightlyRate: number | null
+  ownerWeeklyRate: number | null
+  publicNightlyRate: number | null
+  publicWeeklyRate: number | null
+  nightlyRate: number | null
+}
+
+interface CostItem {
+  priceType: PriceType
+  estimatedPrice: number | null
+  publicPrice: number | null
+}
+
+/**
+ * Number of nights between check-in and check-out
+ */
+export function countNights(startDate: Date, endDate: Date): number {
+  return Math.max(0, differenceInCalendarDays(endDate, startDate))
+}
+
+/**
+ * Lists every night of a stay (check-in day included, check-out day excluded)
+ */
+export function eachNight(startDate: Date, endDate: Date): Date[] {
+  const nights = countNights(startDate, endDate)
+  return Array.from({ length: nights }, (_, i) => addDays(startDate, i))
+}
+
+/**
+ * Month bucket key used by finance reports, e.g. "2025-07"
+ */
+export function monthKey(date: Date): string {
+  return format(date, 'yyyy-MM')
+}
+
+/**
+ * Finds the price period covering a night (period end date inclusive)
+ */
+export function findPricePeriodForNight<T extends Pick<PricePeriod, 'startDate' | 'endDate'>>(
+  periods: T[],
+  night: Date
+): T | undefined {
+  const day = format(night, 'yyyy-MM-dd')
+  return periods.find(period =>
+    format(period.startDate, 'yyyy-MM-dd') <= day && format(period.endDate, 'yyyy-MM-dd') >= day
+  )
+}
+
+/**
+ * Public nightly price of a period, derived from the owner price when not stored
+ */
+export function getPublicNightlyRate(period: PricePeriod): number | null {
+  if (period.publicNightlyRate != null) return period.publicNightlyRate
+  if (period.ownerNightlyRate != null) {
+    return Math.round(period.ownerNightlyRate / (1 - period.commissionRate / 100))
+  }
+  return period.nightlyRate
+}
+
+/**
+ * Owner nightly price of a period, derived from the public price when not stored
+ */
+export function getOwnerNightlyRate(period: PricePeriod): number | null {
+  if (period.ownerNightlyRate != null) return period.ownerNightlyRate
+  const publicRate = period.publicNightlyRate ?? period.nightlyRate
+  if (publicRate == null) return null
+  return Math.round(publicRate * (1 - period.commissionRate / 100))
+}
+
+/**
+ * Public weekly price of a period, derived from the owner price when not stored
+ */
+export function getPublicWeeklyRate(period: PricePeriod & { weeklyRate?: number | null }): number | null {
+  if (period.publicWeeklyRate != null) return period.publicWeeklyRate
+  if (period.ownerWeeklyRate != null) {
+    return Math.round(period.ownerWeeklyRate / (1 - period.commissionRate / 100))
+  }
+  return period.weeklyRate ?? null
+}
+
+/**
+ * Owner weekly price of a period, derived from the public price when not stored
+ */
+export function getOwnerWeeklyRate(period: PricePeriod & { weeklyRate?: number | null }): number | null {
+  if (period.ownerWeeklyRate != null) return period.ownerWeeklyRate
+  const publicRate = period.publicWeeklyRate ?? period.weeklyRate
+  if (publicRate == null) return null
+  return Math.round(publicRate * (1 - period.commissionRate / 100))
+}
+
+/**
+ * How many times an operational cost applies to a stay of the given length
+ */
+export function operationalCostUnits(priceType: PriceType, nights: number): number {
+  switch (priceType) {
+    case PriceType.PER_DAY:
+      return nights
+    case PriceType.PER_WEEK:
+      return Math.max(1, Math.ceil(nights / 7))
+    case PriceType.PER_STAY:
+    case PriceType.FIXED:
+    default:
+      return 1
+  }
+}
+
+/**
+ * Total estimated (owner side) and public amount of an operational cost for a stay
+ */
+export function operationalCostAmount(cost: CostItem, nights: number): { estimated: number; public: number } {
+  const units = operationalCostUnits(cost.priceType, nights)
+  return {
+    estimated: (cost.estimatedPrice ?? 0) * units,
+    public: (cost.publicPrice ?? cost.estimatedPrice ?? 0) * units,
+  }
+}
+
+/**
+ * Rounds a currency amount to cents
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Formats an amount in the property currency
+ */
+export function formatCurrency(amount: number, currency = 'EUR'): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
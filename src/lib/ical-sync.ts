@@ -0,0 +1,237 @@
+import { prisma } from '@/lib/db'
+import { parseIcalEvents } from '@/lib/ical'
+import { checkAvailability } from '@/actions/bookings/availability'
+import { BookingSource, BookingStatus } from '@/generated/prisma'
+import type { ExternalCalendarSyncResult } from '@/types/booking'
+
+const FETCH_TIMEOUT_MS = 15000
+
+/**
+ * Downloads an iCal document from a channel URL
+ * - webcal:// links are fetched over https
+ */
+export async function fetchIcalContent(url: string): Promise<string> {
+  const normalizedUrl = url.replace(/^webcal:\/\//i, 'https://')
+
+  const response = await fetch(normalizedUrl, {
+    headers: { Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.8' },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    cache: 'no-store',
+  })
+
+  if (!response.ok) {
+    throw new Error(`Calendar download failed: HTTP ${response.status}`)
+  }
+
+  const content = await response.text()
+  if (!content.includes('BEGIN:VCALENDAR')) {
+    throw new Error('The URL did not return an iCal document')
+  }
+
+  return content
+}
+
+/**
+ * Reconciles the bookings of an external calendar with an iCal document
+ * - Creates bookings for new VEVENT UIDs (skipping those that conflict)
+ * - Updates bookings whose event moved
+ * - Cancels upcoming bookings whose event disappeared or was cancelled
+ *
+ * Running it twice with the same document is a no-op.
+ */
+export async function syncExternalCalendarContent(
+  calendarId: string,
+  content: string,
+  userId: string
+): Promise<ExternalCalendarSyncResult> {
+  const calendar = await prisma.externalCalendar.findUnique({
+    where: { id: calendarId },
+    include: { property: { select: { id: true, name: true } } },
+  })
+
+  if (!calendar) {
+    throw new Error('External calendar not found')
+  }
+
+  const result: ExternalCalendarSyncResult = {
+    created: 0,
+    updated: 0,
+    cancelled: 0,
+    unchanged: 0,
+    conflicts: [],
+  }
+
+  const events = parseIcalEvents(content)
+  const now = new Date()
+
+  const existingBookings = await prisma.booking.findMany({
+    where: { externalCalendarId: calendar.id },
+  })
+  const bookingsByUid = new Map(
+    existingBookings
+      .filter(booking => booking.externalId)
+      .map(booking => [booking.externalId as string, booking])
+  )
+
+  const seenUids = new Set<string>()
+
+  for (const event of events) {
+    seenUids.add(event.uid)
+    const existing = bookingsByUid.get(event.uid)
+
+    if (event.cancelled) {
+      if (existing && existing.status !== BookingStatus.CANCELLED) {
+        await prisma.booking.update({
+          where: { id: existing.id },
+          data: { status: BookingStatus.CANCELLED, updatedBy: userId },
+        })
+        result.cancelled++
+      }
+      continue
+    }
+
+    // Past events are kept as history but never imported
+    if (!existing && event.endDate < now) continue
+
+    const datesChanged = existing
+      ? existing.startDate.getTime() !== event.startDate.getTime() ||
+        existing.endDate.getTime() !== event.endDate.getTime()
+      : true
+    const reactivated = existing?.status === BookingStatus.CANCELLED
+
+    if (existing && !datesChanged && !reactivated) {
+      result.unchanged++
+      continue
+    }
+
+    const availability = await checkAvailability({
+      propertyId: calendar.propertyId,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      excludeBookingId: existing?.id,
+    })
+
+    if (!availability.success || !availability.data?.available) {
+      result.conflicts.push({
+        uid: event.uid,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        reason: availability.error
+          ?? `Conflicts with ${availability.data?.conflicts?.map(c => c.type).join(', ') || 'existing bookings'}`,
+      })
+      continue
+    }
+
+    if (existing) {
+      await prisma.booking.update({
+        where: { id: existing.id },
+        data: {
+          startDate: event.startDate,
+          endDate: event.endDate,
+          status: BookingStatus.CONFIRMED,
+          updatedBy: userId,
+        },
+      })
+      result.updated++
+    } else {
+      await prisma.booking.create({
+        data: {
+          propertyId: calendar.propertyId,
+          type: calendar.bookingType,
+          status: BookingStatus.CONFIRMED,
+          source: BookingSource.EXTERNAL,
+          startDate: event.startDate,
+          endDate: event.endDate,
+          externalId: event.uid,
+          externalCalendarId: calendar.id,
+          notes: `Imported from ${calendar.name}`,
+          metadata: { icalSummary: event.summary },
+          createdBy: userId,
+        },
+      })
+      result.created++
+    }
+  }
+
+  // Events that vanished from the feed were cancelled on the channel
+  const removed = existingBookings.filter(booking =>
+    booking.externalId &&
+    !seenUids.has(booking.externalId) &&
+    booking.status !== BookingStatus.CANCELLED &&
+    booking.endDate >= now
+  )
+
+  if (removed.length > 0) {
+    await prisma.booking.updateMany({
+      where: { id: { in: removed.map(booking => booking.id) } },
+      data: { status: BookingStatus.CANCELLED, updatedBy: userId },
+    })
+    result.cancelled += removed.length
+  }
+
+  await prisma.$transaction([
+    prisma.externalCalendar.update({
+      where: { id: calendar.id },
+      data: {
+        lastSyncedAt: now,
+        lastSyncStatus: 'success',
+        lastSyncError: null,
+      },
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'sync',
+        entityType: 'external_calendar',
+        entityId: calendar.id,
+        changes: {
+          propertyName: calendar.property.name,
+          calendarName: calendar.name,
+          summary: `Synced ${calendar.name} for ${calendar.property.name}`,
+          created: result.created,
+          updated: result.updated,
+          cancelled: result.cancelled,
+          conflicts: result.conflicts.length,
+        },
+      },
+    }),
+  ])
+
+  return result
+}
+
+/**
+ * Fetches and syncs a URL-based external calendar, recording failures on the calendar
+ */
+export async function syncExternalCalendar(
+  calendarId: string,
+  userId: string
+): Promise<ExternalCalendarSyncResult> {
+  const calendar = await prisma.externalCalendar.findUnique({
+    where: { id: calendarId },
+    select: { id: true, url: true },
+  })
+
+  if (!calendar) {
+    throw new Error('External calendar not found')
+  }
+
+  if (!calendar.url) {
+    throw new Error('This calendar has no URL; upload an .ics file instead')
+  }
+
+  try {
+    const content = await fetchIcalContent(calendar.url)
+    return await syncExternalCalendarContent(calendar.id, content, userId)
+  } catch (error) {
+    await prisma.externalCalendar.update({
+      where: { id: calendar.id },
+      data: {
+        lastSyncedAt: new Date(),
+        lastSyncStatus: 'error',
+        lastSyncError: error instanceof Error ? error.message : String(error),
+      },
+    })
+    throw error
+  }
+}
@@ -0,0 +1,196 @@
+import { BookingType } from '@/generated/prisma'
+
+// Event summaries exposed in the public feed. Guest details are never
+// included so the feed can be shared with owners and channel partners.
+export const ICAL_BOOKING_SUMMARIES: Record<BookingType, string> = {
+  [BookingType.CONFIRMED]: 'Reserved',
+  [BookingType.TENTATIVE]: 'Option (tentative)',
+  [BookingType.CONTRACT]: 'Reserved (contract)',
+  [BookingType.BLOCKED]: 'Blocked',
+  [BookingType.MAINTENANCE]: 'Maintenance',
+  [BookingType.OWNER]: 'Owner',
+  [BookingType.OWNER_STAY]: 'Owner stay',
+}
+
+export interface IcalFeedEvent {
+  uid: string
+  type: BookingType
+  startDate: Date
+  endDate: Date
+  updatedAt: Date
+  tentative?: boolean
+}
+
+export interface IcalFeedOptions {
+  calendarName: string
+  events: IcalFeedEvent[]
+  domain?: string
+}
+
+/**
+ * Escapes a text value according to RFC 5545 section 3.3.11
+ */
+export function escapeIcalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Folds content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line
+
+  const parts: string[] = [line.slice(0, 75)]
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(' ' + line.slice(i, i + 74))
+  }
+  return parts.join('\r\n')
+}
+
+// Bookings are day-based, so events are emitted as all-day DATE values
+function formatIcalDate(date: Date): string {
+  const year = date.getUTCFullYear()
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0')
+  const day = String(date.getUTCDate()).padStart(2, '0')
+  return `${year}${month}${day}`
+}
+
+function formatIcalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Builds a VCALENDAR document from booking events
+ */
+export function buildIcalFeed({ calendarName, events, domain = 'manphil.co' }: IcalFeedOptions): string {
+  const now = formatIcalDateTime(new Date())
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ManPhil&Co//Back Office//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcalText(calendarName)}`,
+  ]
+
+  for (const event of events) {
+    // DTEND is exclusive for all-day events; make sure the event spans at least one day
+    const endDate = event.endDate > event.startDate
+      ? event.endDate
+      : new Date(event.startDate.getTime() + 24 * 60 * 60 * 1000)
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@${domain}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatIcalDateTime(event.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${formatIcalDate(event.startDate)}`,
+      `DTEND;VALUE=DATE:${formatIcalDate(endDate)}`,
+      `SUMMARY:${escapeIcalText(ICAL_BOOKING_SUMMARIES[event.type] ?? 'Unavailable')}`,
+      `STATUS:${event.tentative ? 'TENTATIVE' : 'CONFIRMED'}`,
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export interface ParsedIcalEvent {
+  uid: string
+  summary: string | null
+  startDate: Date
+  endDate: Date
+  cancelled: boolean
+}
+
+/**
+ * Unescapes a text value according to RFC 5545 section 3.3.11
+ */
+function unescapeIcalText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+}
+
+// Parses DATE (20250701) and DATE-TIME (20250701T150000Z) values.
+// Floating and TZID-qualified times are read as UTC, which is precise
+// enough for day-based bookings.
+function parseIcalDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+  if (!match) return null
+
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00'] = match
+  const date = new Date(Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds)
+  ))
+
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Extracts VEVENTs from an iCalendar document
+ * - Unfolds continuation lines
+ * - Skips events without a UID or a valid DTSTART
+ * - Events without DTEND last one day
+ */
+export function parseIcalEvents(content: string): ParsedIcalEvent[] {
+  const lines = content
+    .replace(/\r\n[ \t]/g, '')
+    .replace(/\n[ \t]/g, '')
+    .split(/\r?\n/)
+
+  const events: ParsedIcalEvent[] = []
+  let current: Record<string, string> | null = null
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {}
+      continue
+    }
+
+    if (line === 'END:VEVENT') {
+      if (current) {
+        const startDate = current.DTSTART ? parseIcalDate(current.DTSTART) : null
+        const endDate = current.DTEND ? parseIcalDate(current.DTEND) : null
+
+        if (current.UID && startDate) {
+          events.push({
+            uid: current.UID,
+            summary: current.SUMMARY ? unescapeIcalText(current.SUMMARY) : null,
+            startDate,
+            endDate: endDate && endDate > startDate
+              ? endDate
+              : new Date(startDate.getTime() + 24 * 60 * 60 * 1000),
+            cancelled: current.STATUS?.toUpperCase() === 'CANCELLED',
+          })
+        }
+      }
+      current = null
+      continue
+    }
+
+    if (!current) continue
+
+    const separatorIndex = line.indexOf(':')
+    if (separatorIndex === -1) continue
+
+    // Drop parameters such as ";VALUE=DATE" or ";TZID=Europe/Paris"
+    const name = line.slice(0, separatorIndex).split(';')[0].toUpperCase()
+    current[name] = line.slice(separatorIndex + 1).trim()
+  }
+
+  return events
+}
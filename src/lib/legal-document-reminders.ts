@@ -0,0 +1,287 @@
+import { clerkClient } from '@clerk/nextjs/server'
+import { format } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { withAuditContext } from '@/lib/request-context'
+import { getNotifier, type NotificationMessage } from '@/lib/notifier'
+import { filterRecipientsByPreference, notifyUsers } from '@/lib/notifications'
+import { LegalDocumentCategory, LegalDocumentStatus, NotificationType } from '@/generated/prisma'
+import { LEGAL_DOCUMENT_CATEGORY_LABELS } from '@/types/legal-document'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+interface ExpiringDocument {
+  status: LegalDocumentStatus
+  expiryDate: Date | null
+  reminderDays: number | null
+}
+
+export interface LegalDocumentTransition {
+  id: string
+  name: string
+  category: LegalDocumentCategory
+  propertyId: string | null
+  propertyName: string | null
+  uploadedBy: string
+  expiryDate: Date
+  daysUntilExpiry: number
+  from: LegalDocumentStatus
+  to: LegalDocumentStatus
+}
+
+export interface LegalDocumentDigestResult {
+  userId: string
+  email: string | null
+  documents: number
+  delivered: boolean
+  error?: string
+}
+
+/**
+ * Whole days left before a document expires (negative once expired)
+ */
+export function getDaysUntilExpiry(expiryDate: Date, now: Date = new Date()): number {
+  return Math.floor((expiryDate.getTime() - now.getTime()) / DAY_MS)
+}
+
+/**
+ * Status a document should have given its expiry date and reminder window
+ * - Past the expiry date: EXPIRED
+ * - Inside the reminder window: PENDING_RENEWAL
+ * - Renewed (expiry moved out of the window): back to ACTIVE
+ * Archived documents and documents without expiry date keep their status
+ */
+export function getExpiryStatus(doc: ExpiringDocument, now: Date = new Date()): LegalDocumentStatus {
+  if (!doc.expiryDate || doc.status === LegalDocumentStatus.ARCHIVED) return doc.status
+
+  const daysUntilExpiry = getDaysUntilExpiry(doc.expiryDate, now)
+  if (daysUntilExpiry < 0) return LegalDocumentStatus.EXPIRED
+  if (doc.reminderDays && daysUntilExpiry <= doc.reminderDays) return LegalDocumentStatus.PENDING_RENEWAL
+  return LegalDocumentStatus.ACTIVE
+}
+
+/**
+ * Persists expiry status transitions for every dated document and audits each one
+ */
+export async function syncLegalDocumentStatuses(
+  userId: string,
+  now: Date = new Date()
+): Promise<LegalDocumentTransition[]> {
+  const documents = await prisma.legalDocument.findMany({
+    where: {
+      expiryDate: { not: null },
+      status: { not: LegalDocumentStatus.ARCHIVED },
+    },
+    include: { property: { select: { id: true, name: true } } },
+    orderBy: { expiryDate: 'asc' },
+  })
+
+  const transitions: LegalDocumentTransition[] = []
+
+  for (const doc of documents) {
+    const status = getExpiryStatus(doc, now)
+    if (status === doc.status) continue
+
+    // Guarded update so a document archived or edited meanwhile is left alone
+    const { count } = await withAuditContext(
+      {
+        userId,
+        summary: `${doc.name}: ${doc.status} → ${status}`,
+        details: { propertyName: doc.property?.name ?? null },
+      },
+      () => prisma.legalDocument.updateMany({
+        where: { id: doc.id, status: doc.status, expiryDate: doc.expiryDate },
+        data: { status },
+      })
+    )
+    if (count === 0) continue
+
+    transitions.push({
+      id: doc.id,
+      name: doc.name,
+      category: doc.category,
+      propertyId: doc.propertyId,
+      propertyName: doc.property?.name ?? null,
+      uploadedBy: doc.uploadedBy,
+      expiryDate: doc.expiryDate!,
+      daysUntilExpiry: getDaysUntilExpiry(doc.expiryDate!, now),
+      from: doc.status,
+      to: status,
+    })
+  }
+
+  return transitions
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function describeExpiry(doc: LegalDocumentTransition): string {
+  const date = format(doc.expiryDate, 'MMM d, yyyy')
+  if (doc.to === LegalDocumentStatus.EXPIRED) return `expired on ${date}`
+  if (doc.daysUntilExpiry === 0) return `expires today (${date})`
+  return `expires in ${doc.daysUntilExpiry} day${doc.daysUntilExpiry === 1 ? '' : 's'} (${date})`
+}
+
+/**
+ * Groups documents by property, then by category, in a stable order
+ */
+function groupDocuments(documents: LegalDocumentTransition[]) {
+  const byProperty = new Map<string, Map<LegalDocumentCategory, LegalDocumentTransition[]>>()
+
+  for (const doc of documents) {
+    const property = doc.propertyName ?? 'General documents'
+    const categories = byProperty.get(property) ?? new Map<LegalDocumentCategory, LegalDocumentTransition[]>()
+    categories.set(doc.category, [...(categories.get(doc.category) ?? []), doc])
+    byProperty.set(property, categories)
+  }
+
+  return [...byProperty.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([property, categories]) => ({
+      property,
+      categories: [...categories.entries()]
+        .sort(([a], [b]) => LEGAL_DOCUMENT_CATEGORY_LABELS[a].localeCompare(LEGAL_DOCUMENT_CATEGORY_LABELS[b]))
+        .map(([category, docs]) => ({ label: LEGAL_DOCUMENT_CATEGORY_LABELS[category], documents: docs })),
+    }))
+}
+
+/**
+ * Builds the reminder digest of one user, grouped by property and category
+ */
+export function buildLegalDocumentDigest(
+  to: string,
+  documents: LegalDocumentTransition[],
+  appUrl?: string
+): NotificationMessage {
+  const expired = documents.filter(doc => doc.to === LegalDocumentStatus.EXPIRED).length
+  const renewing = documents.length - expired
+
+  const counts = [
+    renewing > 0 ? `${renewing} to renew` : null,
+    expired > 0 ? `${expired} expired` : null,
+  ].filter(Boolean).join(', ')
+
+  const groups = groupDocuments(documents)
+  const link = appUrl ? `${appUrl.replace(/\/$/, '')}/legals` : null
+
+  const text = [
+    'The following legal documents need your attention:',
+    '',
+    ...groups.flatMap(group => [
+      group.property,
+      ...group.categories.flatMap(category => [
+        `  ${category.label}`,
+        ...category.documents.map(doc => `    - ${doc.name}: ${describeExpiry(doc)}`),
+      ]),
+      '',
+    ]),
+    ...(link ? [`Review them at ${link}`] : []),
+  ].join('\n')
+
+  const html = [
+    '<p>The following legal documents need your attention:</p>',
+    ...groups.map(group => [
+      `<h3>${escapeHtml(group.property)}</h3>`,
+      ...group.categories.map(category => [
+        `<h4>${escapeHtml(category.label)}</h4>`,
+        '<ul>',
+        ...category.documents.map(doc =>
+          `<li><strong>${escapeHtml(doc.name)}</strong>: ${escapeHtml(describeExpiry(doc))}</li>`
+        ),
+        '</ul>',
+      ].join('')),
+    ].join('')),
+    ...(link ? [`<p><a href="${escapeHtml(link)}">Review legal documents</a></p>`] : []),
+  ].join('\n')
+
+  return {
+    to,
+    subject: `Legal documents reminder: ${counts}`,
+    text,
+    html,
+  }
+}
+
+function needsAttention(doc: LegalDocumentTransition): boolean {
+  return doc.to === LegalDocumentStatus.PENDING_RENEWAL || doc.to === LegalDocumentStatus.EXPIRED
+}
+
+/**
+ * Creates an in-app notification for the uploader of each document that
+ * entered its reminder window or expired
+ */
+export async function notifyLegalDocumentTransitions(transitions: LegalDocumentTransition[]): Promise<number> {
+  let created = 0
+
+  for (const doc of transitions.filter(needsAttention)) {
+    created += await notifyUsers([doc.uploadedBy], {
+      type: NotificationType.LEGAL_DOCUMENT_EXPIRY,
+      title: doc.to === LegalDocumentStatus.EXPIRED ? `${doc.name} has expired` : `${doc.name} needs renewal`,
+      message: `${doc.propertyName ?? 'General documents'} · ${LEGAL_DOCUMENT_CATEGORY_LABELS[doc.category]} · ${describeExpiry(doc)}`,
+      link: '/legals',
+      entityType: 'LegalDocument',
+      entityId: doc.id,
+    })
+  }
+
+  return created
+}
+
+/**
+ * Sends one digest per uploader for documents that entered their reminder
+ * window or expired; documents only produce a transition once, so each is
+ * reported a single time. Users who turned legal expiry notifications off are skipped
+ */
+export async function sendLegalDocumentDigests(
+  transitions: LegalDocumentTransition[],
+  appUrl?: string
+): Promise<LegalDocumentDigestResult[]> {
+  const relevant = transitions.filter(needsAttention)
+  if (relevant.length === 0) return []
+
+  const recipients = new Set(await filterRecipientsByPreference(
+    relevant.map(doc => doc.uploadedBy),
+    NotificationType.LEGAL_DOCUMENT_EXPIRY
+  ))
+
+  const byUser = new Map<string, LegalDocumentTransition[]>()
+  for (const doc of relevant) {
+    if (!recipients.has(doc.uploadedBy)) continue
+    byUser.set(doc.uploadedBy, [...(byUser.get(doc.uploadedBy) ?? []), doc])
+  }
+  if (byUser.size === 0) return []
+
+  const notifier = getNotifier()
+  const { users } = await clerkClient()
+  const results: LegalDocumentDigestResult[] = []
+
+  for (const [userId, documents] of byUser) {
+    let email: string | null = null
+    try {
+      const user = await users.getUser(userId)
+      email = user.primaryEmailAddress?.emailAddress ?? user.emailAddresses[0]?.emailAddress ?? null
+      if (!email) {
+        results.push({ userId, email, documents: documents.length, delivered: false, error: 'No email address' })
+        continue
+      }
+
+      await notifier.send(buildLegalDocumentDigest(email, documents, appUrl))
+      results.push({ userId, email, documents: documents.length, delivered: true })
+    } catch (error) {
+      results.push({
+        userId,
+        email,
+        documents: documents.length,
+        delivered: false,
+        error: error instanceof Error ? error.message : 'Failed to send digest',
+      })
+    }
+  }
+
+  return results
+}
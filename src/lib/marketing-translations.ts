@@ -0,0 +1,383 @@
+import Papa from 'papaparse'
+import {
+  MARKETING_COPY_FIELD_LABELS,
+  MARKETING_LANGUAGE_CODES,
+  REQUIRED_COPY_FIELDS,
+  SOURCE_LANGUAGE,
+  type MarketingCopy,
+  type MarketingCopyField,
+  type MarketingLanguage,
+  type TranslationCell,
+  type TranslationUnit,
+} from '@/types/marketing-content'
+
+// Client-safe helpers: the property page computes the same statuses as the translation dashboard
+
+// A MarketingContent row as read from the database, or from the API once dates are serialized
+export interface MarketingContentRecord {
+  language: string
+  title: string
+  tagline: string | null
+  shortDescription: string | null
+  description: string
+  highlights: string[]
+  seoDescription: string | null
+  seoKeywords: string[]
+  contentUpdatedAt: Date | string
+  sourceUpdatedAt: Date | string | null
+}
+
+const LIST_FIELDS: MarketingCopyField[] = ['highlights', 'seoKeywords']
+const COPY_FIELDS = Object.keys(MARKETING_COPY_FIELD_LABELS) as MarketingCopyField[]
+
+export function isMarketingLanguage(code: string): code is MarketingLanguage {
+  return (MARKETING_LANGUAGE_CODES as string[]).includes(code)
+}
+
+export function toMarketingCopy(record: MarketingContentRecord | null | undefined): MarketingCopy {
+  return {
+    title: record?.title ?? '',
+    tagline: record?.tagline ?? '',
+    shortDescription: record?.shortDescription ?? '',
+    description: record?.description ?? '',
+    highlights: record?.highlights ?? [],
+    seoDescription: record?.seoDescription ?? '',
+    seoKeywords: record?.seoKeywords ?? [],
+  }
+}
+
+/**
+ * Trims every text and drops empty list items, so a save with stray spaces is not a change
+ */
+export function normalizeMarketingCopy(copy: MarketingCopy): MarketingCopy {
+  return {
+    title: copy.title.trim(),
+    tagline: copy.tagline.trim(),
+    shortDescription: copy.shortDescription.trim(),
+    description: copy.description.trim(),
+    highlights: copy.highlights.map(item => item.trim()).filter(Boolean),
+    seoDescription: copy.seoDescription.trim(),
+    seoKeywords: copy.seoKeywords.map(item => item.trim()).filter(Boolean),
+  }
+}
+
+export function isSameMarketingCopy(a: MarketingCopy, b: MarketingCopy): boolean {
+  return COPY_FIELDS.every(field => JSON.stringify(a[field]) === JSON.stringify(b[field]))
+}
+
+export function getMissingCopyFields(copy: MarketingCopy): MarketingCopyField[] {
+  return REQUIRED_COPY_FIELDS.filter(field => {
+    const value = copy[field]
+    return Array.isArray(value) ? value.filter(item => item.trim()).length === 0 : !value.trim()
+  })
+}
+
+/**
+ * True when the English copy changed after the translation was written
+ * - A translation with no recorded source predates the tracking and is treated as outdated
+ */
+export function needsTranslationUpdate(
+  source: MarketingContentRecord | null | undefined,
+  translation: MarketingContentRecord
+): boolean {
+  if (!source || translation.language === SOURCE_LANGUAGE) return false
+  if (!translation.sourceUpdatedAt) return true
+  return new Date(source.contentUpdatedAt) > new Date(translation.sourceUpdatedAt)
+}
+
+/**
+ * Status of a language: missing without copy, outdated when the English changed since,
+ * incomplete while required fields are empty, complete otherwise
+ */
+export function getTranslationCell(
+  source: MarketingContentRecord | null | undefined,
+  translation: MarketingContentRecord | null | undefined
+): TranslationCell {
+  if (!translation) {
+    return {
+      status: 'missing',
+      completeness: 0,
+      missingFields: REQUIRED_COPY_FIELDS,
+      needsUpdate: false,
+      contentUpdatedAt: null,
+    }
+  }
+
+  const missingFields = getMissingCopyFields(toMarketingCopy(translation))
+  const needsUpdate = needsTranslationUpdate(source, translation)
+
+  return {
+    status: needsUpdate ? 'outdated' : missingFields.length > 0 ? 'incomplete' : 'complete',
+    completeness: Math.round(((REQUIRED_COPY_FIELDS.length - missingFields.length) / REQUIRED_COPY_FIELDS.length) * 100),
+    missingFields,
+    needsUpdate,
+    contentUpdatedAt: new Date(translation.contentUpdatedAt),
+  }
+}
+
+// Translation files
+
+/**
+ * Key of a unit inside a property and language: the field, followed by the position for list items
+ */
+export function getUnitKey(unit: Pick<TranslationUnit, 'field' | 'index'>): string {
+  return unit.index === null ? unit.field : `${unit.field}.${unit.index}`
+}
+
+export function parseUnitKey(key: string): Pick<TranslationUnit, 'field' | 'index'> | null {
+  const [field, index, ...rest] = key.trim().split('.')
+  if (rest.length > 0 || !COPY_FIELDS.includes(field as MarketingCopyField)) return null
+
+  const isList = LIST_FIELDS.includes(field as MarketingCopyField)
+  if (!isList) return index === undefined ? { field: field as MarketingCopyField, index: null } : null
+  if (index === undefined || !/^\d+$/.test(index)) return null
+  return { field: field as MarketingCopyField, index: Number(index) }
+}
+
+/**
+ * Units to translate for a property in one language, one per English text
+ * - Targets are prefilled with the current translation so translators can revise rather than start over
+ */
+export function toTranslationUnits(
+  property: { id: string; name: string },
+  language: MarketingLanguage,
+  source: MarketingCopy,
+  target: MarketingCopy | null
+): TranslationUnit[] {
+  const units: TranslationUnit[] = []
+
+  for (const field of COPY_FIELDS) {
+    const sourceValue = source[field]
+    const targetValue = target?.[field]
+    if (Array.isArray(sourceValue)) {
+      sourceValue.forEach((item, index) => {
+        if (!item.trim()) return
+        units.push({
+          propertyId: property.id,
+          propertyName: property.name,
+          language,
+          field,
+          index,
+          source: item,
+          target: (Array.isArray(targetValue) ? targetValue[index] : undefined) ?? '',
+        })
+      })
+    } else if (sourceValue.trim()) {
+      units.push({
+        propertyId: property.id,
+        propertyName: property.name,
+        language,
+        field,
+        index: null,
+        source: sourceValue,
+        target: typeof targetValue === 'string' ? targetValue : '',
+      })
+    }
+  }
+
+  return units
+}
+
+/**
+ * Applies translated units over the current copy of a language
+ * - Empty targets leave the current text in place
+ * - A list field present in the file is rebuilt in the order of the English list
+ */
+export function applyTranslationUnits(current: MarketingCopy, units: Pick<TranslationUnit, 'field' | 'index' | 'target'>[]): MarketingCopy {
+  const next: MarketingCopy = { ...current, highlights: [...current.highlights], seoKeywords: [...current.seoKeywords] }
+  const listItems = new Map<MarketingCopyField, Map<number, string>>()
+
+  for (const unit of units) {
+    const target = unit.target.trim()
+    if (unit.index === null) {
+      if (target && !LIST_FIELDS.includes(unit.field)) {
+        (next[unit.field] as string) = target
+      }
+      continue
+    }
+    const items = listItems.get(unit.field) ?? new Map<number, string>()
+    items.set(unit.index, target || (current[unit.field] as string[])[unit.index] || '')
+    listItems.set(unit.field, items)
+  }
+
+  for (const [field, items] of listItems) {
+    (next[field] as string[]) = [...items.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, value]) => value)
+      .filter(Boolean)
+  }
+
+  return next
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3] ?? '')
+  }
+  return attributes
+}
+
+function readElement(body: string, name: string): string | null {
+  const match = body.match(new RegExp(`<${name}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${name}>)`))
+  if (!match) return null
+  return unescapeXml(match[1] ?? '')
+}
+
+/**
+ * XLIFF 1.2 document with a <file> per property and language, the unit ids being the unit keys
+ */
+export function buildXliff(units: TranslationUnit[]): string {
+  const files = new Map<string, TranslationUnit[]>()
+  for (const unit of units) {
+    const key = `${unit.propertyId}:${unit.language}`
+    files.set(key, [...(files.get(key) ?? []), unit])
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+  ]
+  for (const fileUnits of files.values()) {
+    const { propertyId, propertyName, language } = fileUnits[0]
+    lines.push(
+      `  <file original="property/${escapeXml(propertyId)}" product-name="${escapeXml(propertyName)}" ` +
+      `source-language="${SOURCE_LANGUAGE}" target-language="${language}" datatype="plaintext">`,
+      '    <body>'
+    )
+    for (const unit of fileUnits) {
+      const label = MARKETING_COPY_FIELD_LABELS[unit.field] + (unit.index === null ? '' : ` #${unit.index + 1}`)
+      lines.push(
+        `      <trans-unit id="${getUnitKey(unit)}">`,
+        `        <source>${escapeXml(unit.source)}</source>`,
+        `        <target${unit.target ? '' : ' state="needs-translation"'}>${escapeXml(unit.target)}</target>`,
+        `        <note>${escapeXml(label)}</note>`,
+        '      </trans-unit>'
+      )
+    }
+    lines.push('    </body>', '  </file>')
+  }
+  lines.push('</xliff>', '')
+
+  return lines.join('\n')
+}
+
+export interface ParsedTranslationFile {
+  units: TranslationUnit[]
+  errors: string[]
+}
+
+/**
+ * Reads back an XLIFF 1.2 document written by buildXliff, as returned by translation tools
+ */
+export function parseXliff(content: string): ParsedTranslationFile {
+  const units: TranslationUnit[] = []
+  const errors: string[] = []
+
+  if (!/<xliff\b/.test(content)) {
+    return { units, errors: ['Not an XLIFF document'] }
+  }
+
+  for (const file of content.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)) {
+    const attributes = readAttributes(file[1])
+    const propertyId = attributes.original?.replace(/^property\//, '') ?? ''
+    const language = (attributes['target-language'] ?? '').toLowerCase().split(/[-_]/)[0]
+    if (!propertyId || !isMarketingLanguage(language)) {
+      errors.push(`File "${attributes.original ?? '?'}" has no property or an unsupported target language`)
+      continue
+    }
+
+    for (const unit of file[2].matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+      const id = readAttributes(unit[1]).id ?? ''
+      const key = parseUnitKey(id)
+      if (!key) {
+        errors.push(`Unknown unit "${id}" for property ${propertyId}`)
+        continue
+      }
+      units.push({
+        propertyId,
+        propertyName: attributes['product-name'] ?? '',
+        language,
+        ...key,
+        source: readElement(unit[2], 'source') ?? '',
+        target: readElement(unit[2], 'target') ?? '',
+      })
+    }
+  }
+
+  return { units, errors }
+}
+
+const CSV_COLUMNS = ['propertyId', 'propertyName', 'language', 'key', 'source', 'target'] as const
+
+/**
+ * CSV with a row per unit, list items keyed by position like in the XLIFF
+ */
+export function buildTranslationCsv(units: TranslationUnit[]): string {
+  const csv = Papa.unparse({
+    fields: [...CSV_COLUMNS],
+    data: units.map(unit => [
+      unit.propertyId,
+      unit.propertyName,
+      unit.language,
+      getUnitKey(unit),
+      unit.source,
+      unit.target,
+    ]),
+  })
+  // Add BOM for Excel UTF-8 compatibility
+  return '\uFEFF' + csv
+}
+
+export function parseTranslationCsv(content: string): ParsedTranslationFile {
+  const units: TranslationUnit[] = []
+  const errors: string[] = []
+  const parsed = Papa.parse<Record<string, string>>(content.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: true,
+  })
+
+  const missingColumns = CSV_COLUMNS.filter(column => !parsed.meta.fields?.includes(column))
+  if (missingColumns.length > 0) {
+    return { units, errors: [`Missing columns: ${missingColumns.join(', ')}`] }
+  }
+
+  parsed.data.forEach((row, index) => {
+    const line = index + 2
+    const language = (row.language ?? '').trim().toLowerCase()
+    const key = parseUnitKey(row.key ?? '')
+    if (!row.propertyId?.trim() || !isMarketingLanguage(language) || !key) {
+      errors.push(`Row ${line}: missing property, unsupported language or unknown key "${row.key ?? ''}"`)
+      return
+    }
+    units.push({
+      propertyId: row.propertyId.trim(),
+      propertyName: row.propertyName ?? '',
+      language,
+      ...key,
+      source: row.source ?? '',
+      target: row.target ?? '',
+    })
+  })
+
+  return { units, errors }
+}
@@ -0,0 +1,116 @@
+import { prisma } from '@/lib/db'
+import { NotificationType } from '@/generated/prisma'
+import { listClerkUsers, getClerkUserRole } from '@/lib/clerk-users'
+import { getRoleDefinitions } from '@/lib/roles'
+import { filterUserIdsWithinScope } from '@/lib/access-scope'
+import { Permission, UserRole, resolveRolePermissions, type PermissionTarget } from '@/types/auth'
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  message: string
+  link?: string
+  entityType?: string
+  entityId?: string
+}
+
+/**
+ * Recipients among `userIds` that did not turn the notification type off
+ * (types are enabled until a preference says otherwise)
+ */
+export async function filterRecipientsByPreference(
+  userIds: string[],
+  type: NotificationType
+): Promise<string[]> {
+  const unique = [...new Set(userIds)]
+  if (unique.length === 0) return []
+
+  const disabled = await prisma.notificationPreference.findMany({
+    where: { userId: { in: unique }, type, enabled: false },
+    select: { userId: true },
+  })
+  const optedOut = new Set(disabled.map(preference => preference.userId))
+
+  return unique.filter(userId => !optedOut.has(userId))
+}
+
+/**
+ * Creates an in-app notification for each recipient that wants this type
+ * - Never throws: a failed notification must not fail the action producing it
+ */
+export async function notifyUsers(userIds: string[], notification: NotificationInput): Promise<number> {
+  try {
+    const recipients = await filterRecipientsByPreference(userIds, notification.type)
+    if (recipients.length === 0) return 0
+
+    const { count } = await prisma.notification.createMany({
+      data: recipients.map(userId => ({ userId, ...notification })),
+    })
+    return count
+  } catch (error) {
+    console.error('Failed to create notifications:', error)
+    return 0
+  }
+}
+
+// Listing Clerk users pages through its API, the recipients are reused across events for a minute
+const RECIPIENTS_CACHE_TTL_MS = 60 * 1000
+
+interface RecipientUser {
+  id: string
+  role: string
+}
+
+let recipientsCache: { users: RecipientUser[]; loadedAt: number } | null = null
+
+async function getRecipientUsers(): Promise<RecipientUser[]> {
+  if (recipientsCache && Date.now() - recipientsCache.loadedAt < RECIPIENTS_CACHE_TTL_MS) {
+    return recipientsCache.users
+  }
+
+  // Deactivated (banned) users no longer receive anything
+  const users = (await listClerkUsers())
+    .filter(user => !user.banned)
+    .map(user => ({ id: user.id, role: getClerkUserRole(user) }))
+  recipientsCache = { users, loadedAt: Date.now() }
+  return users
+}
+
+/**
+ * Drops the cached recipients after a user's role or access changes
+ */
+export function invalidateNotificationRecipients() {
+  recipientsCache = null
+}
+
+/**
+ * Clerk users whose role grants a permission (users without role are viewers)
+ * - With a target, only users whose access scope reaches it (admins always do)
+ */
+export async function getUserIdsWithPermission(permission: Permission, target?: PermissionTarget): Promise<string[]> {
+  const [users, roles] = await Promise.all([getRecipientUsers(), getRoleDefinitions()])
+  const granted = users.filter(user => resolveRolePermissions(roles, user.role).includes(permission))
+  if (!target) return granted.map(user => user.id)
+
+  const admins = granted.filter(user => user.role === UserRole.ADMIN).map(user => user.id)
+  const others = granted.filter(user => user.role !== UserRole.ADMIN).map(user => user.id)
+  return [...admins, ...await filterUserIdsWithinScope(others, target)]
+}
+
+/**
+ * Notifies every user whose role grants `permission` on `target`, except the user causing the event
+ */
+export async function notifyUsersWithPermission(
+  permission: Permission,
+  notification: NotificationInput,
+  excludeUserId?: string,
+  target?: PermissionTarget
+): Promise<number> {
+  try {
+    const userIds = await getUserIdsWithPermission(permission, target)
+    return notifyUsers(userIds.filter(userId => userId !== excludeUserId), notification)
+  } catch (error) {
+    console.error('Failed to resolve notification recipients:', error)
+    return 0
+  }
+}
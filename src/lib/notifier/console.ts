@@ -0,0 +1,13 @@
+import type { Notifier } from '.'
+
+/**
+ * Prints notifications to the server log (development)
+ */
+export function createConsoleNotifier(): Notifier {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`📧 Notification to ${message.to}: ${message.subject}\n${message.text}`)
+    },
+  }
+}
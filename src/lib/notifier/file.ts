@@ -0,0 +1,29 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import type { Notifier } from '.'
+
+/**
+ * Writes each notification to NOTIFIER_FILE_DIR (default `.notifications`) so
+ * digests can be previewed locally; the HTML body is saved next to the text one
+ */
+export function createFileNotifier(): Notifier {
+  const directory = path.resolve(process.env.NOTIFIER_FILE_DIR || '.notifications')
+
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+
+      const recipient = message.to.replace(/[^a-zA-Z0-9.@_-]/g, '_')
+      const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}`
+
+      await writeFile(
+        path.join(directory, `${baseName}.txt`),
+        `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+      )
+      if (message.html) {
+        await writeFile(path.join(directory, `${baseName}.html`), message.html)
+      }
+    },
+  }
+}
@@ -0,0 +1,52 @@
+import { createConsoleNotifier } from './console'
+import { createFileNotifier } from './file'
+import { createSmtpNotifier } from './smtp'
+
+export interface NotificationMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface Notifier {
+  // Transport name, reported by jobs for troubleshooting
+  name: string
+  send(message: NotificationMessage): Promise<void>
+}
+
+export type NotifierTransport = 'smtp' | 'console' | 'file'
+
+let notifier: Notifier | null = null
+
+/**
+ * Resolves the transport from NOTIFIER_TRANSPORT, defaulting to SMTP when
+ * SMTP_HOST is configured and to the console otherwise (local development)
+ */
+export function resolveNotifierTransport(): NotifierTransport {
+  const transport = process.env.NOTIFIER_TRANSPORT?.toLowerCase()
+  if (transport === 'smtp' || transport === 'console' || transport === 'file') {
+    return transport
+  }
+  return process.env.SMTP_HOST ? 'smtp' : 'console'
+}
+
+/**
+ * Shared notifier for the configured transport
+ */
+export function getNotifier(): Notifier {
+  if (notifier) return notifier
+
+  switch (resolveNotifierTransport()) {
+    case 'smtp':
+      notifier = createSmtpNotifier()
+      break
+    case 'file':
+      notifier = createFileNotifier()
+      break
+    default:
+      notifier = createConsoleNotifier()
+  }
+
+  return notifier
+}
@@ -0,0 +1,42 @@
+import nodemailer from 'nodemailer'
+import type { Notifier } from '.'
+
+/**
+ * Sends notifications by email
+ * - SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+ * - NOTIFIER_FROM is the sender address (defaults to SMTP_USER)
+ */
+export function createSmtpNotifier(): Notifier {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    throw new Error('SMTP_HOST is required for the smtp notifier')
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587)
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  const from = process.env.NOTIFIER_FROM || process.env.SMTP_USER
+  if (!from) {
+    throw new Error('NOTIFIER_FROM or SMTP_USER is required for the smtp notifier')
+  }
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      })
+    },
+  }
+}
@@ -0,0 +1,291 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  getISOWeek,
+  isMonday,
+  startOfDay,
+} from 'date-fns'
+import { prisma } from '@/lib/db'
+import { withAuditContext } from '@/lib/request-context'
+import {
+  BookingStatus,
+  BookingType,
+  ContactPropertyRelationship,
+  OperationalCostType,
+  OperationalTaskStatus,
+  OperationalTaskType,
+} from '@/generated/prisma'
+import type { ServiceSchedule, StayMetadata } from '@/types/property'
+
+// Bookings that put people in the house and need housekeeping
+export const STAY_BOOKING_TYPES: BookingType[] = [
+  BookingType.CONFIRMED,
+  BookingType.CONTRACT,
+  BookingType.OWNER,
+  BookingType.OWNER_STAY,
+]
+
+// Contact relationship each task type is assigned to
+export const TASK_ASSIGNEE_RELATIONSHIPS: Record<OperationalTaskType, ContactPropertyRelationship> = {
+  [OperationalTaskType.CHECKOUT_CLEANING]: ContactPropertyRelationship.HOUSEKEEPING,
+  [OperationalTaskType.LINEN_CHANGE]: ContactPropertyRelationship.HOUSEKEEPING,
+  [OperationalTaskType.TOWEL_CHANGE]: ContactPropertyRelationship.HOUSEKEEPING,
+  [OperationalTaskType.GARDENING]: ContactPropertyRelationship.GARDENING,
+  [OperationalTaskType.POOL_MAINTENANCE]: ContactPropertyRelationship.POOL_MAINTENANCE,
+}
+
+// How far ahead the scheduled job keeps tasks generated
+export const TASK_GENERATION_HORIZON_DAYS = 30
+
+export interface PlannedTask {
+  generationKey: string
+  propertyId: string
+  bookingId: string | null
+  type: OperationalTaskType
+  scheduledDate: Date
+  scheduledTime: string | null
+  assigneeContactId: string | null
+}
+
+export interface TaskGenerationResult {
+  created: number
+  reopened: number
+  cancelled: number
+}
+
+/**
+ * Stable key of a generated task, the same booking and schedule always produce the same keys
+ */
+export function getTaskGenerationKey(
+  type: OperationalTaskType,
+  sourceId: string,
+  date: Date
+): string {
+  return `${type}:${sourceId}:${format(date, 'yyyy-MM-dd')}`
+}
+
+/**
+ * Service days inside a stay (arrival and departure days excluded)
+ * - daily: every day, weekly / biweekly: every 7 / 14 days after arrival, monthly: same day each month
+ * - none and custom schedules produce no dated task
+ */
+export function getStayServiceDates(schedule: ServiceSchedule | undefined, startDate: Date, endDate: Date): Date[] {
+  const arrival = startOfDay(startDate)
+  const departure = startOfDay(endDate)
+  const nights = differenceInCalendarDays(departure, arrival)
+  const dates: Date[] = []
+
+  const step = (i: number): Date | null => {
+    switch (schedule?.frequency) {
+      case 'daily': return addDays(arrival, i)
+      case 'weekly': return addDays(arrival, 7 * i)
+      case 'biweekly': return addDays(arrival, 14 * i)
+      case 'monthly': return addMonths(arrival, i)
+      default: return null
+    }
+  }
+
+  for (let i = 1; i <= nights; i++) {
+    const date = step(i)
+    if (!date || date >= departure) break
+    dates.push(date)
+  }
+
+  return dates
+}
+
+/**
+ * Days of a property-level service (gardening, pool) inside the range
+ * - weekly services fall on Mondays, biweekly ones on Mondays of even ISO weeks, monthly ones on the 1st
+ */
+export function getRecurringServiceDates(schedule: ServiceSchedule | undefined, from: Date, to: Date): Date[] {
+  if (!schedule || from > to) return []
+
+  return eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) }).filter(day => {
+    switch (schedule.frequency) {
+      case 'daily': return true
+      case 'weekly': return isMonday(day)
+      case 'biweekly': return isMonday(day) && getISOWeek(day) % 2 === 0
+      case 'monthly': return day.getDate() === 1
+      default: return false
+    }
+  })
+}
+
+/**
+ * Loads the properties, stays and schedules of the range and plans every task they call for
+ */
+async function planTasks(from: Date, to: Date, propertyId?: string): Promise<PlannedTask[]> {
+  const properties = await prisma.property.findMany({
+    where: { id: propertyId },
+    select: {
+      id: true,
+      checkOutTime: true,
+      stayMetadata: true,
+      operationalCosts: {
+        where: { costType: OperationalCostType.HOUSEKEEPING_AT_CHECKOUT },
+        select: { id: true },
+      },
+      contactProperties: {
+        where: { relationship: { in: Object.values(TASK_ASSIGNEE_RELATIONSHIPS) } },
+        select: { contactId: true, relationship: true, isApproved: true },
+        orderBy: [{ isApproved: 'desc' }, { createdAt: 'asc' }],
+      },
+      bookings: {
+        where: {
+          type: { in: STAY_BOOKING_TYPES },
+          status: { in: [BookingStatus.CONFIRMED, BookingStatus.COMPLETED] },
+          startDate: { lte: to },
+          endDate: { gte: from },
+        },
+        select: { id: true, startDate: true, endDate: true },
+      },
+    },
+  })
+
+  const inRange = (date: Date) => date >= from && date <= to
+  const planned: PlannedTask[] = []
+
+  for (const property of properties) {
+    const maintenance = (property.stayMetadata as StayMetadata | null)?.maintenance
+    const assigneeFor = (relationship: ContactPropertyRelationship) =>
+      property.contactProperties.find(link => link.relationship === relationship)?.contactId ?? null
+    // Pool staff also changing the linen take over the linen changes
+    const linenAssignee = maintenance?.poolMaintenance?.enabled && maintenance.poolMaintenance.includesLinen
+      ? assigneeFor(ContactPropertyRelationship.POOL_MAINTENANCE)
+      : assigneeFor(ContactPropertyRelationship.HOUSEKEEPING)
+
+    const add = (
+      type: OperationalTaskType,
+      sourceId: string,
+      date: Date,
+      scheduledTime: string | null | undefined,
+      bookingId: string | null,
+      assigneeContactId = assigneeFor(TASK_ASSIGNEE_RELATIONSHIPS[type])
+    ) => {
+      if (!inRange(date)) return
+      planned.push({
+        generationKey: getTaskGenerationKey(type, sourceId, date),
+        propertyId: property.id,
+        bookingId,
+        type,
+        scheduledDate: date,
+        scheduledTime: scheduledTime || null,
+        assigneeContactId,
+      })
+    }
+
+    for (const booking of property.bookings) {
+      if (property.operationalCosts.length > 0) {
+        add(OperationalTaskType.CHECKOUT_CLEANING, booking.id, startOfDay(booking.endDate), property.checkOutTime, booking.id)
+      }
+      for (const date of getStayServiceDates(maintenance?.linenChange, booking.startDate, booking.endDate)) {
+        add(OperationalTaskType.LINEN_CHANGE, booking.id, date, maintenance?.linenChange?.arrivalTime, booking.id, linenAssignee)
+      }
+      for (const date of getStayServiceDates(maintenance?.towelChange, booking.startDate, booking.endDate)) {
+        add(OperationalTaskType.TOWEL_CHANGE, booking.id, date, maintenance?.towelChange?.arrivalTime, booking.id)
+      }
+    }
+
+    if (maintenance?.gardeningService?.enabled) {
+      for (const date of getRecurringServiceDates(maintenance.gardeningService, from, to)) {
+        add(OperationalTaskType.GARDENING, property.id, date, maintenance.gardeningService.arrivalTime, null)
+      }
+    }
+    if (maintenance?.poolMaintenance?.enabled) {
+      for (const date of getRecurringServiceDates(maintenance.poolMaintenance, from, to)) {
+        add(OperationalTaskType.POOL_MAINTENANCE, property.id, date, maintenance.poolMaintenance.arrivalTime, null)
+      }
+    }
+  }
+
+  return planned
+}
+
+/**
+ * Brings the generated tasks of a date range in line with the bookings and schedules
+ * - Missing tasks are created and assigned to the property's service contact
+ * - Pending tasks whose booking was cancelled or moved, or whose schedule changed, are cancelled
+ * - Tasks cancelled that way come back as pending when their booking or schedule does
+ * Tasks already started, done or skipped are never touched, neither are manual assignments
+ */
+export async function generateOperationalTasks(
+  userId: string,
+  range: { from: Date; to: Date; propertyId?: string }
+): Promise<TaskGenerationResult> {
+  const from = startOfDay(range.from)
+  const to = startOfDay(range.to)
+  const planned = await planTasks(from, to, range.propertyId)
+  const plannedKeys = planned.map(task => task.generationKey)
+
+  const existing = await prisma.operationalTask.findMany({
+    where: {
+      propertyId: range.propertyId,
+      OR: [
+        { generationKey: { in: plannedKeys } },
+        { scheduledDate: { gte: from, lte: to } },
+      ],
+    },
+    select: { id: true, generationKey: true, status: true },
+  })
+  const existingKeys = new Set(existing.map(task => task.generationKey))
+  const plannedKeySet = new Set(plannedKeys)
+
+  const toCreate = planned.filter(task => !existingKeys.has(task.generationKey))
+  const toReopen = existing.filter(task =>
+    task.status === OperationalTaskStatus.CANCELLED && plannedKeySet.has(task.generationKey)
+  )
+  const toCancel = existing.filter(task =>
+    task.status === OperationalTaskStatus.PENDING && !plannedKeySet.has(task.generationKey)
+  )
+
+  if (toCreate.length === 0 && toReopen.length === 0 && toCancel.length === 0) {
+    return { created: 0, reopened: 0, cancelled: 0 }
+  }
+
+  return withAuditContext(
+    {
+      userId,
+      summary: `Generated housekeeping and maintenance tasks from ${format(from, 'dd MMM')} to ${format(to, 'dd MMM yyyy')}`,
+    },
+    async () => {
+      const created = toCreate.length > 0
+        ? (await prisma.operationalTask.createMany({ data: toCreate, skipDuplicates: true })).count
+        : 0
+      const reopened = toReopen.length > 0
+        ? (await prisma.operationalTask.updateMany({
+            where: { id: { in: toReopen.map(task => task.id) }, status: OperationalTaskStatus.CANCELLED },
+            data: { status: OperationalTaskStatus.PENDING },
+          })).count
+        : 0
+      const cancelled = toCancel.length > 0
+        ? (await prisma.operationalTask.updateMany({
+            where: { id: { in: toCancel.map(task => task.id) }, status: OperationalTaskStatus.PENDING },
+            data: { status: OperationalTaskStatus.CANCELLED },
+          })).count
+        : 0
+
+      return { created, reopened, cancelled }
+    }
+  )
+}
+
+/**
+ * Regenerates the upcoming tasks of a property after its bookings or schedules changed
+ * - Never throws: a failed refresh must not fail the change, the scheduled job catches up
+ */
+export async function refreshUpcomingTasks(userId: string, propertyId: string): Promise<void> {
+  try {
+    const today = startOfDay(new Date())
+    await generateOperationalTasks(userId, {
+      from: today,
+      to: addDays(today, TASK_GENERATION_HORIZON_DAYS),
+      propertyId,
+    })
+  } catch (error) {
+    console.error('Failed to refresh operational tasks:', error)
+  }
+}
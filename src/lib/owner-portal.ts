@@ -0,0 +1,103 @@
+import { format } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { getCurrentUserId, requirePermission } from '@/lib/auth'
+import { notifyUsers } from '@/lib/notifications'
+import {
+  BookingStatus,
+  BookingType,
+  ContactPropertyRelationship,
+  NotificationType,
+  type Booking,
+  type Prisma,
+} from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+
+export interface OwnerContext {
+  userId: string
+  contact: {
+    id: string
+    firstName: string
+    lastName: string
+  }
+  // Properties the linked contact is an owner of
+  propertyIds: string[]
+}
+
+/**
+ * Owner contact linked to the signed-in user with the properties it owns
+ * @throws Error if the user cannot use the owner portal or is not linked to a contact
+ */
+export async function getOwnerContext(): Promise<OwnerContext> {
+  const userId = await getCurrentUserId()
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  await requirePermission(Permission.OWNER_PORTAL_ACCESS)
+
+  const contact = await prisma.contact.findUnique({
+    where: { userId },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      contactProperties: {
+        where: { relationship: ContactPropertyRelationship.OWNER },
+        select: { propertyId: true },
+      },
+    },
+  })
+
+  if (!contact) {
+    throw new Error('Your account is not linked to an owner yet, please contact your property manager')
+  }
+
+  return {
+    userId,
+    contact: { id: contact.id, firstName: contact.firstName, lastName: contact.lastName },
+    propertyIds: contact.contactProperties.map(link => link.propertyId),
+  }
+}
+
+/**
+ * @throws Error if the property is not owned by the owner contact
+ */
+export function assertOwnsProperty(context: OwnerContext, propertyId: string) {
+  if (!context.propertyIds.includes(propertyId)) {
+    throw new Error('Property not found')
+  }
+}
+
+function isOwnerPortalRequest(metadata: Prisma.JsonValue | null) {
+  return !!metadata && typeof metadata === 'object' && !Array.isArray(metadata) && metadata.requestedFromOwnerPortal === true
+}
+
+/**
+ * Tells the owner when a stay they requested from the owner portal is confirmed or declined
+ * - Only pending OWNER_STAY bookings moving to CONFIRMED or CANCELLED are reported
+ */
+export async function notifyOwnerStayReviewed(
+  before: Pick<Booking, 'type' | 'status' | 'contactId' | 'metadata'>,
+  after: Pick<Booking, 'id' | 'status' | 'startDate' | 'endDate'>,
+  propertyName: string
+): Promise<void> {
+  if (before.type !== BookingType.OWNER_STAY || before.status !== BookingStatus.PENDING) return
+  if (after.status !== BookingStatus.CONFIRMED && after.status !== BookingStatus.CANCELLED) return
+  if (!before.contactId || !isOwnerPortalRequest(before.metadata)) return
+
+  const contact = await prisma.contact.findUnique({
+    where: { id: before.contactId },
+    select: { userId: true },
+  })
+  if (!contact?.userId) return
+
+  const decision = after.status === BookingStatus.CONFIRMED ? 'confirmed' : 'declined'
+  await notifyUsers([contact.userId], {
+    type: NotificationType.OWNER_STAY_REVIEWED,
+    title: `Your stay at ${propertyName} was ${decision}`,
+    message: `${format(after.startDate, 'MMM d')} – ${format(after.endDate, 'MMM d, yyyy')}`,
+    link: '/owner?tab=stays',
+    entityType: 'Booking',
+    entityId: after.id,
+  })
+}
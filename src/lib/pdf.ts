@@ -0,0 +1,236 @@
+// Minimal PDF writer for text documents (welcome books and the like)
+// - A4 pages, standard Helvetica fonts so nothing has to be embedded
+// - Text is encoded in WinAnsi: Latin scripts only, other characters print as "?"
+
+export type PdfBlock =
+  | { type: 'title'; text: string }
+  | { type: 'subtitle'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'field'; label: string; value: string }
+  | { type: 'paragraph'; text: string }
+
+export interface PdfDocumentOptions {
+  title: string
+  // Printed in the colored band at the top of the first page
+  brand?: string
+  // Printed at the bottom left of every page, the page number goes on the right
+  footer?: string
+  pageLabel?: string
+  // RGB components between 0 and 1
+  accentColor?: [number, number, number]
+}
+
+type Rgb = [number, number, number]
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN
+const FOOTER_HEIGHT = 28
+const BAND_HEIGHT = 64
+const LABEL_WIDTH = 150
+
+const TEXT_COLOR: Rgb = [0.13, 0.13, 0.15]
+const MUTED_COLOR: Rgb = [0.45, 0.45, 0.5]
+const DEFAULT_ACCENT: Rgb = [0.12, 0.16, 0.27]
+
+// Helvetica advance widths (1/1000 em) of the printable ASCII characters, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+// Helvetica-Bold runs wider, an average factor is close enough for line wrapping
+const BOLD_WIDTH_FACTOR = 1.08
+
+// Characters of Windows-1252 outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+}
+
+function toWinAnsiCode(char: string): number {
+  const code = char.codePointAt(0) ?? 0x3f
+  if (code >= 0x20 && code <= 0x7e) return code
+  if (code >= 0xa0 && code <= 0xff) return code
+  return WIN_ANSI_EXTRAS[char] ?? 0x3f
+}
+
+/**
+ * Encodes text as the body of a PDF literal string, bytes above ASCII are written as octal escapes
+ */
+function encodeText(text: string): string {
+  let encoded = ''
+  for (const char of text) {
+    const code = toWinAnsiCode(char)
+    if (char === '(' || char === ')' || char === '\\') encoded += `\\${char}`
+    else if (code > 0x7e) encoded += `\\${code.toString(8).padStart(3, '0')}`
+    else encoded += String.fromCharCode(code)
+  }
+  return encoded
+}
+
+function textWidth(text: string, size: number, bold = false): number {
+  let units = 0
+  for (const char of text) {
+    const code = toWinAnsiCode(char)
+    units += code >= 0x20 && code <= 0x7e ? HELVETICA_WIDTHS[code - 0x20] : 556
+  }
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1)
+}
+
+/**
+ * Splits text into lines fitting the width, existing line breaks are kept and overlong words are cut
+ */
+function wrapText(text: string, size: number, width: number, bold = false): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+
+      line = ''
+      for (const char of word) {
+        if (line && textWidth(line + char, size, bold) > width) {
+          lines.push(line)
+          line = ''
+        }
+        line += char
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString()
+const colorOperator = ([r, g, b]: Rgb) => `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`
+
+function textOperator(text: string, x: number, y: number, size: number, bold: boolean, color: Rgb): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${colorOperator(color)} ${formatNumber(x)} ${formatNumber(y)} Td (${encodeText(text)}) Tj ET`
+}
+
+/**
+ * Lays the blocks out on as many A4 pages as needed and returns the PDF file
+ */
+export function renderTextPdf(blocks: PdfBlock[], options: PdfDocumentOptions): Buffer {
+  const accent = options.accentColor ?? DEFAULT_ACCENT
+  const pages: string[][] = []
+  let page: string[] = []
+  let y = 0
+
+  const newPage = () => {
+    page = []
+    pages.push(page)
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  // Starts a new page when the next height does not fit above the footer
+  const ensure = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) newPage()
+  }
+
+  const writeLines = (lines: string[], x: number, size: number, leading: number, bold: boolean, color: Rgb) => {
+    for (const line of lines) {
+      ensure(leading)
+      y -= leading
+      page.push(textOperator(line, x, y + (leading - size) / 2, size, bold, color))
+    }
+  }
+
+  newPage()
+  if (options.brand) {
+    page.push(`${colorOperator(accent)} 0 ${formatNumber(PAGE_HEIGHT - BAND_HEIGHT)} ${formatNumber(PAGE_WIDTH)} ${BAND_HEIGHT} re f`)
+    page.push(textOperator(options.brand.toUpperCase(), MARGIN, PAGE_HEIGHT - BAND_HEIGHT / 2 - 4, 11, true, [1, 1, 1]))
+    y = PAGE_HEIGHT - BAND_HEIGHT - 32
+  }
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'title':
+        writeLines(wrapText(block.text, 24, CONTENT_WIDTH, true), MARGIN, 24, 30, true, TEXT_COLOR)
+        break
+      case 'subtitle':
+        writeLines(wrapText(block.text, 12, CONTENT_WIDTH), MARGIN, 12, 17, false, MUTED_COLOR)
+        break
+      case 'heading': {
+        // Keep the heading with the first lines of its section
+        ensure(22 + 18 + 3 * 14)
+        y -= 22
+        writeLines(wrapText(block.text, 13, CONTENT_WIDTH, true), MARGIN, 13, 18, true, accent)
+        page.push(`${colorOperator(accent)} ${MARGIN} ${formatNumber(y - 4)} ${formatNumber(CONTENT_WIDTH)} 0.75 re f`)
+        y -= 8
+        break
+      }
+      case 'field': {
+        const labelLines = wrapText(block.label, 10, LABEL_WIDTH - 12, true)
+        const valueLines = wrapText(block.value, 10, CONTENT_WIDTH - LABEL_WIDTH)
+        const rows = Math.max(labelLines.length, valueLines.length)
+        ensure(rows * 14)
+        const top = y
+        writeLines(labelLines, MARGIN, 10, 14, true, TEXT_COLOR)
+        const labelBottom = y
+        // A row never spans two pages, so the value starts level with the label
+        y = top
+        writeLines(valueLines, MARGIN + LABEL_WIDTH, 10, 14, false, TEXT_COLOR)
+        y = Math.min(y, labelBottom) - 4
+        break
+      }
+      case 'paragraph':
+        writeLines(wrapText(block.text, 10, CONTENT_WIDTH), MARGIN, 10, 14, false, TEXT_COLOR)
+        y -= 6
+        break
+    }
+  }
+
+  pages.forEach((ops, index) => {
+    if (options.footer) {
+      ops.push(textOperator(options.footer, MARGIN, MARGIN / 2, 8, false, MUTED_COLOR))
+    }
+    const pageNumber = `${options.pageLabel ?? 'Page'} ${index + 1} / ${pages.length}`
+    ops.push(textOperator(pageNumber, PAGE_WIDTH - MARGIN - textWidth(pageNumber, 8), MARGIN / 2, 8, false, MUTED_COLOR))
+  })
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${6 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${encodeText(options.title)}) /Producer (ManPhil&Co backoffice) >>`,
+  ]
+  pages.forEach((ops, index) => {
+    const content = ops.join('\n')
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(PAGE_WIDTH)} ${formatNumber(PAGE_HEIGHT)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Everything above is plain ASCII, so string lengths are byte offsets
+  let file = '%PDF-1.4\n'
+  const offsets = objects.map((object, index) => {
+    const offset = file.length
+    file += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xrefOffset = file.length
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  file += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(file, 'latin1')
+}
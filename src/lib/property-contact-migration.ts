@@ -0,0 +1,243 @@
+import { prisma } from '@/lib/db'
+import { ContactPropertyRelationship, ContactType } from '@/generated/prisma'
+import { splitGuestName } from '@/lib/booking-contacts'
+import {
+  CONTACT_TYPE_RELATIONSHIPS,
+  findMatchingContact,
+  getCategoryForRelationship,
+  getContactCandidates,
+  type ContactCandidate,
+  type ContactMatchField,
+} from '@/lib/property-contacts'
+
+type MigrationDb = Parameters<typeof getContactCandidates>[0]
+
+// create: a new global contact is created and linked
+// link: an existing global contact is linked to the property
+// merge: the contact is already linked to the property, flags and notes are merged into that link
+export type PropertyContactMigrationAction = 'create' | 'link' | 'merge'
+
+export interface PropertyContactMigrationEntry {
+  propertyContactId: string
+  propertyId: string
+  propertyName: string
+  type: ContactType
+  relationship: ContactPropertyRelationship
+  firstName: string
+  lastName: string
+  email: string | null
+  phone: string | null
+  action: PropertyContactMigrationAction
+  // Existing global contact, or the key of the contact created by an earlier entry ("new:<n>")
+  contactId: string
+  contactName: string
+  matchedBy: ContactMatchField | null
+  warnings: string[]
+}
+
+export interface PropertyContactMigrationReport {
+  entries: PropertyContactMigrationEntry[]
+  summary: {
+    total: number
+    created: number
+    linked: number
+    merged: number
+    matchedBy: Record<ContactMatchField, number>
+    warnings: number
+  }
+}
+
+const NEW_CONTACT_PREFIX = 'new:'
+
+/**
+ * Works out what migrating every legacy PropertyContact to Contact + ContactProperty would do, without writing
+ */
+export async function planPropertyContactMigration(db: MigrationDb = prisma): Promise<PropertyContactMigrationReport> {
+  const [legacyContacts, candidates, existingLinks] = await Promise.all([
+    db.propertyContact.findMany({
+      include: { property: { select: { name: true } } },
+      orderBy: [{ propertyId: 'asc' }, { createdAt: 'asc' }],
+    }),
+    getContactCandidates(db),
+    db.contactProperty.findMany({
+      select: { contactId: true, propertyId: true, relationship: true },
+    }),
+  ])
+
+  // Contacts planned for creation are candidates for the following rows
+  const pool: ContactCandidate[] = [...candidates]
+  const linkedAs = new Map(existingLinks.map(link => [`${link.contactId}:${link.propertyId}`, link.relationship]))
+  const entries: PropertyContactMigrationEntry[] = []
+
+  for (const legacy of legacyContacts) {
+    const fallback = splitGuestName(legacy.name, 'Unknown')
+    const firstName = legacy.firstName?.trim() || fallback.firstName
+    const lastName = legacy.lastName?.trim() || (legacy.firstName ? '' : fallback.lastName)
+    const email = legacy.email?.trim() || null
+    const phone = legacy.phone?.trim() || null
+    const relationship = CONTACT_TYPE_RELATIONSHIPS[legacy.type]
+    const warnings: string[] = []
+
+    const match = findMatchingContact(pool, { firstName, lastName, email, phone })
+    let contact: ContactCandidate
+
+    if (match) {
+      contact = match.contact
+      if (match.matchedBy === 'name') {
+        warnings.push('Matched by name only, check it is the same person')
+      }
+      if (phone && !contact.phone) warnings.push('Phone will be added to the contact')
+      if (email && !contact.email) warnings.push('Email will be added to the contact')
+    } else {
+      contact = { id: `${NEW_CONTACT_PREFIX}${pool.length - candidates.length}`, firstName, lastName, email, phone }
+      pool.push(contact)
+    }
+
+    const key = `${contact.id}:${legacy.propertyId}`
+    const existingRelationship = linkedAs.get(key)
+    let action: PropertyContactMigrationAction
+
+    if (existingRelationship) {
+      action = 'merge'
+      if (existingRelationship !== relationship) {
+        warnings.push(`Already linked as ${existingRelationship}, the ${relationship} role is kept in the link notes`)
+      }
+    } else {
+      action = match ? 'link' : 'create'
+      linkedAs.set(key, relationship)
+    }
+
+    entries.push({
+      propertyContactId: legacy.id,
+      propertyId: legacy.propertyId,
+      propertyName: legacy.property.name,
+      type: legacy.type,
+      relationship,
+      firstName,
+      lastName,
+      email,
+      phone,
+      action,
+      contactId: contact.id,
+      contactName: `${contact.firstName} ${contact.lastName}`.trim(),
+      matchedBy: match?.matchedBy ?? null,
+      warnings,
+    })
+  }
+
+  return {
+    entries,
+    summary: {
+      total: entries.length,
+      created: entries.filter(entry => entry.action === 'create').length,
+      linked: entries.filter(entry => entry.action === 'link').length,
+      merged: entries.filter(entry => entry.action === 'merge').length,
+      matchedBy: {
+        email: entries.filter(entry => entry.matchedBy === 'email').length,
+        phone: entries.filter(entry => entry.matchedBy === 'phone').length,
+        name: entries.filter(entry => entry.matchedBy === 'name').length,
+      },
+      warnings: entries.reduce((count, entry) => count + entry.warnings.length, 0),
+    },
+  }
+}
+
+/**
+ * Migrates every legacy PropertyContact to Contact + ContactProperty in one transaction
+ * - The plan is recomputed inside the transaction so it matches what gets written
+ * - isContractSignatory / isApproved and the notes move to the link, the spoken language to new contacts
+ * - Migrated PropertyContact rows are deleted, the audit entry keeps the full report
+ */
+export async function applyPropertyContactMigration(userId: string): Promise<PropertyContactMigrationReport> {
+  return prisma.$transaction(async (tx) => {
+    const report = await planPropertyContactMigration(tx)
+    const legacyContacts = await tx.propertyContact.findMany({
+      where: { id: { in: report.entries.map(entry => entry.propertyContactId) } },
+    })
+    const legacyById = new Map(legacyContacts.map(legacy => [legacy.id, legacy]))
+    const createdIds = new Map<string, string>()
+
+    for (const entry of report.entries) {
+      const legacy = legacyById.get(entry.propertyContactId)!
+      let contactId = createdIds.get(entry.contactId) ?? entry.contactId
+
+      if (entry.action === 'create') {
+        const created = await tx.contact.create({
+          data: {
+            firstName: entry.firstName,
+            lastName: entry.lastName,
+            email: entry.email,
+            phone: entry.phone,
+            language: legacy.spokenLanguage || 'English',
+            category: getCategoryForRelationship(entry.relationship),
+          },
+        })
+        createdIds.set(entry.contactId, created.id)
+        contactId = created.id
+      } else if (!entry.contactId.startsWith(NEW_CONTACT_PREFIX) && (entry.email || entry.phone)) {
+        // Fill in what the existing contact is missing, never overwrite
+        const existing = await tx.contact.findUniqueOrThrow({ where: { id: contactId } })
+        const fill = {
+          ...(entry.email && !existing.email ? { email: entry.email } : {}),
+          ...(entry.phone && !existing.phone ? { phone: entry.phone } : {}),
+        }
+        if (Object.keys(fill).length > 0) {
+          await tx.contact.update({ where: { id: contactId }, data: fill })
+        }
+      }
+
+      if (entry.action === 'merge') {
+        const link = await tx.contactProperty.findUniqueOrThrow({
+          where: { contactId_propertyId: { contactId, propertyId: entry.propertyId } },
+        })
+        const notes = [
+          link.notes,
+          link.relationship !== entry.relationship ? `Also ${entry.relationship}` : null,
+          legacy.notes,
+        ].filter(Boolean).join('\n')
+
+        await tx.contactProperty.update({
+          where: { id: link.id },
+          data: {
+            notes: notes || null,
+            isContractSignatory: link.isContractSignatory || legacy.isContractSignatory,
+            isApproved: link.isApproved || legacy.isApproved,
+          },
+        })
+      } else {
+        await tx.contactProperty.create({
+          data: {
+            contactId,
+            propertyId: entry.propertyId,
+            relationship: entry.relationship,
+            notes: legacy.notes,
+            isContractSignatory: legacy.isContractSignatory,
+            isApproved: legacy.isApproved,
+          },
+        })
+      }
+
+      entry.contactId = contactId
+    }
+
+    await tx.propertyContact.deleteMany({
+      where: { id: { in: legacyContacts.map(legacy => legacy.id) } },
+    })
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'migrate',
+        entityType: 'property_contacts',
+        entityId: 'all',
+        changes: JSON.parse(JSON.stringify({
+          before: legacyContacts,
+          summary: report.summary,
+          entries: report.entries,
+        })),
+      },
+    })
+
+    return report
+  }, { timeout: 120_000 })
+}
@@ -0,0 +1,147 @@
+import { prisma, type TransactionClient } from '@/lib/db'
+import { ContactPropertyRelationship, ContactType, GlobalContactCategory, Prisma } from '@/generated/prisma'
+import type { PropertyContactView } from '@/types/property'
+import { normalizeEmail, normalizeName, normalizePhone } from '@/lib/contact-duplicates'
+
+type ContactDb = TransactionClient | typeof prisma
+
+// Include to load the links of a property as PropertyContactView
+export const propertyContactLinkInclude = {
+  contact: true,
+} satisfies Prisma.ContactPropertyInclude
+
+export const propertyContactLinkOrderBy: Prisma.ContactPropertyOrderByWithRelationInput[] = [
+  { relationship: 'asc' },
+  { contact: { lastName: 'asc' } },
+  { contact: { firstName: 'asc' } },
+]
+
+type PropertyContactLink = Prisma.ContactPropertyGetPayload<{ include: typeof propertyContactLinkInclude }>
+
+export function toPropertyContactView(link: PropertyContactLink): PropertyContactView {
+  return {
+    id: link.id,
+    contactId: link.contactId,
+    propertyId: link.propertyId,
+    type: link.relationship,
+    firstName: link.contact.firstName,
+    lastName: link.contact.lastName,
+    name: `${link.contact.firstName} ${link.contact.lastName}`.trim(),
+    email: link.contact.email,
+    phone: link.contact.phone,
+    notes: link.notes,
+    spokenLanguage: link.contact.language,
+    isContractSignatory: link.isContractSignatory,
+    isApproved: link.isApproved,
+    createdAt: link.createdAt,
+    updatedAt: link.updatedAt,
+  }
+}
+
+/**
+ * Relationship of a legacy PropertyContact type (the enum was extended so every type has its own value)
+ */
+export const CONTACT_TYPE_RELATIONSHIPS: Record<ContactType, ContactPropertyRelationship> = {
+  OWNER: ContactPropertyRelationship.OWNER,
+  MANAGER: ContactPropertyRelationship.MANAGER,
+  AGENCY: ContactPropertyRelationship.AGENCY,
+  STAFF: ContactPropertyRelationship.STAFF,
+  MAINTENANCE: ContactPropertyRelationship.MAINTENANCE,
+  EMERGENCY: ContactPropertyRelationship.EMERGENCY,
+  CHECK_IN_MANAGER: ContactPropertyRelationship.CHECK_IN_MANAGER,
+  SECURITY_DEPOSIT_MANAGER: ContactPropertyRelationship.SECURITY_DEPOSIT_MANAGER,
+  SIGNATORY: ContactPropertyRelationship.SIGNATORY,
+  HOUSEKEEPING: ContactPropertyRelationship.HOUSEKEEPING,
+  GARDENING: ContactPropertyRelationship.GARDENING,
+  POOL_MAINTENANCE: ContactPropertyRelationship.POOL_MAINTENANCE,
+  CHECK_IN_STAFF: ContactPropertyRelationship.CHECK_IN_STAFF,
+}
+
+/**
+ * Category given to a contact created from a property relationship
+ */
+export function getCategoryForRelationship(relationship: ContactPropertyRelationship): GlobalContactCategory {
+  switch (relationship) {
+    case ContactPropertyRelationship.OWNER:
+    case ContactPropertyRelationship.SIGNATORY:
+      return GlobalContactCategory.OWNER
+    case ContactPropertyRelationship.AGENCY:
+      return GlobalContactCategory.ORGANIZATION
+    case ContactPropertyRelationship.RENTER:
+      return GlobalContactCategory.CLIENT
+    case ContactPropertyRelationship.EMERGENCY:
+    case ContactPropertyRelationship.OTHER:
+      return GlobalContactCategory.OTHER
+    default:
+      return GlobalContactCategory.PROVIDER
+  }
+}
+
+export interface ContactCandidate {
+  id: string
+  firstName: string
+  lastName: string
+  email: string | null
+  phone: string | null
+}
+
+export interface ContactIdentity {
+  firstName: string
+  lastName: string
+  email?: string | null
+  phone?: string | null
+}
+
+export type ContactMatchField = 'email' | 'phone' | 'name'
+
+export interface ContactMatch<T extends ContactCandidate = ContactCandidate> {
+  contact: T
+  matchedBy: ContactMatchField
+}
+
+/**
+ * Finds the global contact that is the same person, by email, then phone, then full name
+ * - Phone and name matches are ignored when both sides have a different email
+ * - A name match must be unique, homonyms are not merged
+ */
+export function findMatchingContact<T extends ContactCandidate>(
+  candidates: T[],
+  identity: ContactIdentity
+): ContactMatch<T> | null {
+  const email = normalizeEmail(identity.email)
+  const phone = normalizePhone(identity.phone)
+  const name = normalizeName(`${identity.firstName} ${identity.lastName}`)
+
+  const compatible = (candidate: T) => {
+    const candidateEmail = normalizeEmail(candidate.email)
+    return !email || !candidateEmail || candidateEmail === email
+  }
+
+  if (email) {
+    const byEmail = candidates.find(candidate => normalizeEmail(candidate.email) === email)
+    if (byEmail) return { contact: byEmail, matchedBy: 'email' }
+  }
+
+  if (phone) {
+    const byPhone = candidates.find(candidate => compatible(candidate) && normalizePhone(candidate.phone) === phone)
+    if (byPhone) return { contact: byPhone, matchedBy: 'phone' }
+  }
+
+  if (name) {
+    const byName = candidates.filter(candidate =>
+      compatible(candidate) && normalizeName(`${candidate.firstName} ${candidate.lastName}`) === name
+    )
+    if (byName.length === 1) return { contact: byName[0], matchedBy: 'name' }
+  }
+
+  return null
+}
+
+/**
+ * Every global contact as a match candidate
+ */
+export function getContactCandidates(db: ContactDb): Promise<ContactCandidate[]> {
+  return db.contact.findMany({
+    select: { id: true, firstName: true, lastName: true, email: true, phone: true },
+  })
+}
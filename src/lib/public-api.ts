@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createHash, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/db'
+
+// Requests allowed per key and window when PUBLIC_API_RATE_LIMIT is not set
+const DEFAULT_RATE_LIMIT = 120
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+// Windows are kept this long after they end, then dropped
+const RATE_LIMIT_RETENTION_MS = 60 * 60 * 1000
+
+export interface RateLimitState {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number
+}
+
+function configuredKeys(): string[] {
+  return (process.env.PUBLIC_API_KEYS ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Reads the API key sent as `X-Api-Key` or `Authorization: Bearer <key>` and checks it
+ * against PUBLIC_API_KEYS (comma separated, several keys allow rotation).
+ * The API is disabled when no key is configured.
+ * @returns the matching key, or null
+ */
+export function authenticatePublicApiRequest(req: NextRequest): string | null {
+  const header = req.headers.get('x-api-key') ?? req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? ''
+  if (!header) return null
+
+  const provided = Buffer.from(header)
+  return configuredKeys().find(key => {
+    const expected = Buffer.from(key)
+    return provided.length === expected.length && timingSafeEqual(provided, expected)
+  }) ?? null
+}
+
+/**
+ * Counts a request against the key's window
+ * - Fixed windows are counted in PublicApiRateLimit so every server instance shares them
+ * - The count is incremented in a single statement, concurrent requests never lose one
+ */
+export async function consumeRateLimit(apiKey: string): Promise<RateLimitState> {
+  const limit = Number(process.env.PUBLIC_API_RATE_LIMIT) || DEFAULT_RATE_LIMIT
+  const now = Date.now()
+  const windowStart = new Date(now - (now % RATE_LIMIT_WINDOW_MS))
+  // Keys are hashed so the table never holds them in clear
+  const keyHash = createHash('sha256').update(apiKey).digest('hex')
+
+  const [{ count }] = await prisma.$queryRaw<[{ count: number }]>`
+    INSERT INTO "PublicApiRateLimit" ("keyHash", "windowStart", "count")
+    VALUES (${keyHash}, ${windowStart}, 1)
+    ON CONFLICT ("keyHash", "windowStart") DO UPDATE SET "count" = "PublicApiRateLimit"."count" + 1
+    RETURNING "count"
+  `
+
+  // The first request of a window drops the windows of every key that ended long ago
+  if (count === 1) {
+    await prisma.publicApiRateLimit.deleteMany({
+      where: { windowStart: { lt: new Date(now - RATE_LIMIT_RETENTION_MS) } },
+    })
+  }
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetAt: windowStart.getTime() + RATE_LIMIT_WINDOW_MS,
+  }
+}
+
+function rateLimitHeaders(state: RateLimitState): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': state.limit.toString(),
+    'X-RateLimit-Remaining': state.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(state.resetAt / 1000).toString(),
+  }
+}
+
+export function publicApiError(status: number, error: string, headers?: Record<string, string>) {
+  return NextResponse.json({ error }, { status, headers })
+}
+
+/**
+ * Authenticates and rate limits a public API request
+ * @returns the response to send when the request is refused, or the rate limit headers to add otherwise
+ */
+export async function guardPublicApiRequest(
+  req: NextRequest
+): Promise<{ response: NextResponse; headers?: never } | { response?: never; headers: Record<string, string> }> {
+  const apiKey = authenticatePublicApiRequest(req)
+  if (!apiKey) {
+    return { response: publicApiError(401, 'Missing or invalid API key') }
+  }
+
+  const state = await consumeRateLimit(apiKey)
+  const headers = rateLimitHeaders(state)
+  if (!state.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((state.resetAt - Date.now()) / 1000))
+    return { response: publicApiError(429, 'Rate limit exceeded', { ...headers, 'Retry-After': retryAfter.toString() }) }
+  }
+
+  return { headers }
+}
+
+/**
+ * JSON response with an ETag of its body, answered with 304 when the client already has it
+ */
+export function jsonWithEtag(req: NextRequest, body: unknown, headers: Record<string, string> = {}) {
+  const json = JSON.stringify(body)
+  const etag = `W/"${createHash('sha1').update(json).digest('base64url')}"`
+  const cacheHeaders = {
+    ...headers,
+    ETag: etag,
+    // The key is a server-side secret of the website, shared caches must not serve the response without it
+    'Cache-Control': 'private, max-age=60, must-revalidate',
+  }
+
+  const ifNoneMatch = req.headers.get('if-none-match')
+  if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*')) {
+    return new NextResponse(null, { status: 304, headers: cacheHeaders })
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...cacheHeaders, 'Content-Type': 'application/json; charset=utf-8' },
+  })
+}
@@ -0,0 +1,229 @@
+import { startOfDay } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { EQUIPMENT_CATEGORIES, getEquipmentLabel, getRoomTypeLabel } from '@/lib/constants/equipment'
+import { isMarketingLanguage } from '@/lib/marketing-translations'
+import { EquipmentType, Prisma, PropertyStatus } from '@/generated/prisma'
+import { SOURCE_LANGUAGE, type MarketingLanguage } from '@/types/marketing-content'
+import type { RoomEquipment } from '@/types/property'
+import type {
+  PublicAmenity,
+  PublicPrices,
+  PublicPropertyDetail,
+  PublicPropertyList,
+  PublicPropertySummary,
+} from '@/types/public-api'
+import type { PublicPropertyListQuery } from '@/lib/validations/public-api'
+
+// Equipment code to its catalogue category, the first category listing it wins
+const EQUIPMENT_CATEGORY_BY_CODE = new Map<string, string>()
+for (const [category, { items }] of Object.entries(EQUIPMENT_CATEGORIES)) {
+  for (const item of items) {
+    if (!EQUIPMENT_CATEGORY_BY_CODE.has(item)) EQUIPMENT_CATEGORY_BY_CODE.set(item, category)
+  }
+}
+
+const photoSelect = {
+  url: true,
+  caption: true,
+  category: true,
+  isMain: true,
+} satisfies Prisma.PhotoSelect
+
+// Main photo first, then the order set in the back office
+const photoOrder: Prisma.PhotoOrderByWithRelationInput[] = [{ isMain: 'desc' }, { position: 'asc' }]
+
+const marketingSelect = {
+  language: true,
+  title: true,
+  tagline: true,
+  shortDescription: true,
+  description: true,
+  highlights: true,
+  seoTitle: true,
+  seoDescription: true,
+  seoKeywords: true,
+  updatedAt: true,
+} satisfies Prisma.MarketingContentSelect
+
+// Price periods not over yet, only validated ones with a public rate are served
+const upcomingPricesWhere = (): Prisma.PriceRangeWhereInput => ({
+  endDate: { gte: startOfDay(new Date()) },
+  isValidated: true,
+  publicNightlyRate: { gt: 0 },
+})
+
+const summarySelect = (language: MarketingLanguage) => ({
+  id: true,
+  name: true,
+  city: true,
+  categories: true,
+  maxGuests: true,
+  numberOfRooms: true,
+  numberOfBathrooms: true,
+  propertySize: true,
+  updatedAt: true,
+  destination: { select: { id: true, name: true, country: true, region: true } },
+  photos: { select: photoSelect, orderBy: photoOrder, take: 1 },
+  pricing: { select: { currency: true, displayOnWebsite: true } },
+  prices: {
+    where: upcomingPricesWhere(),
+    select: { name: true, startDate: true, endDate: true, publicNightlyRate: true, publicWeeklyRate: true, minimumStay: true },
+    orderBy: { startDate: 'asc' as const },
+  },
+  marketingContent: {
+    where: { language: { in: [language, SOURCE_LANGUAGE] } },
+    select: marketingSelect,
+  },
+}) satisfies Prisma.PropertySelect
+
+type SummaryRecord = Prisma.PropertyGetPayload<{ select: ReturnType<typeof summarySelect> }>
+
+const PUBLISHED: Prisma.PropertyWhereInput = { status: PropertyStatus.PUBLISHED }
+
+function toPublicPrices(property: Pick<SummaryRecord, 'pricing' | 'prices'>): PublicPrices | null {
+  // Without pricing settings the website default (display) applies
+  if (property.pricing && !property.pricing.displayOnWebsite) return null
+
+  const periods = property.prices.map(range => ({
+    name: range.name,
+    startDate: range.startDate.toISOString(),
+    endDate: range.endDate.toISOString(),
+    nightlyRate: range.publicNightlyRate!,
+    weeklyRate: range.publicWeeklyRate,
+    minimumStay: range.minimumStay,
+  }))
+
+  return {
+    currency: property.pricing?.currency ?? 'EUR',
+    fromNightlyRate: periods.length > 0 ? Math.min(...periods.map(period => period.nightlyRate)) : null,
+    periods,
+  }
+}
+
+function toSummary(property: SummaryRecord, language: MarketingLanguage): PublicPropertySummary {
+  const marketing = property.marketingContent.find(content => content.language === language)
+    ?? property.marketingContent.find(content => content.language === SOURCE_LANGUAGE)
+  const prices = toPublicPrices(property)
+  const updatedAt = marketing && marketing.updatedAt > property.updatedAt ? marketing.updatedAt : property.updatedAt
+
+  return {
+    id: property.id,
+    name: property.name,
+    language: marketing && isMarketingLanguage(marketing.language) ? marketing.language : SOURCE_LANGUAGE,
+    title: marketing?.title || property.name,
+    tagline: marketing?.tagline || null,
+    shortDescription: marketing?.shortDescription || null,
+    destination: property.destination,
+    city: property.city,
+    categories: property.categories,
+    maxGuests: property.maxGuests,
+    bedrooms: property.numberOfRooms,
+    bathrooms: property.numberOfBathrooms,
+    propertySize: property.propertySize,
+    mainPhoto: property.photos[0] ?? null,
+    fromNightlyRate: prices?.fromNightlyRate ?? null,
+    currency: prices?.currency ?? null,
+    updatedAt: updatedAt.toISOString(),
+  }
+}
+
+/**
+ * Amenities of a property: every piece of equipment found in its rooms, listed once
+ */
+function deriveAmenities(rooms: { equipment: Prisma.JsonValue }[]): PublicAmenity[] {
+  const amenities = new Map<string, PublicAmenity>()
+
+  for (const room of rooms) {
+    const categories = Array.isArray(room.equipment) ? (room.equipment as unknown as RoomEquipment[]) : []
+    for (const item of categories.flatMap(category => category?.items ?? [])) {
+      if (!item?.name || item.quantity <= 0 || amenities.has(item.name)) continue
+      amenities.set(item.name, {
+        code: item.name,
+        label: getEquipmentLabel(item.name as EquipmentType),
+        category: EQUIPMENT_CATEGORY_BY_CODE.get(item.name) ?? null,
+      })
+    }
+  }
+
+  return [...amenities.values()].sort((a, b) =>
+    (a.category ?? '~').localeCompare(b.category ?? '~') || a.label.localeCompare(b.label)
+  )
+}
+
+/**
+ * Published properties for the website, in the order set in the back office
+ */
+export async function listPublicProperties(query: PublicPropertyListQuery): Promise<PublicPropertyList> {
+  const where: Prisma.PropertyWhereInput = {
+    ...PUBLISHED,
+    destinationId: query.destinationId,
+    maxGuests: query.minGuests ? { gte: query.minGuests } : undefined,
+  }
+
+  const [total, properties] = await Promise.all([
+    prisma.property.count({ where }),
+    prisma.property.findMany({
+      where,
+      select: summarySelect(query.lang),
+      orderBy: [{ position: { sort: 'asc', nulls: 'last' } }, { name: 'asc' }],
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    }),
+  ])
+
+  return {
+    data: properties.map(property => toSummary(property, query.lang)),
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.ceil(total / query.pageSize),
+  }
+}
+
+/**
+ * A published property with everything the website's property page shows
+ * @returns null when the property does not exist or is not published
+ */
+export async function getPublicProperty(id: string, language: MarketingLanguage): Promise<PublicPropertyDetail | null> {
+  const select = summarySelect(language)
+  const property = await prisma.property.findFirst({
+    where: { ...PUBLISHED, id },
+    select: {
+      ...select,
+      photos: { select: photoSelect, orderBy: photoOrder },
+      rooms: {
+        select: { name: true, type: true, groupName: true, view: true, equipment: true },
+        orderBy: { position: 'asc' },
+      },
+      marketingContent: { select: marketingSelect },
+    },
+  })
+  if (!property) return null
+
+  const summary = toSummary(property, language)
+  const marketing = property.marketingContent.find(content => content.language === summary.language)
+
+  return {
+    ...summary,
+    description: marketing?.description || null,
+    highlights: marketing?.highlights ?? [],
+    seo: {
+      title: marketing?.seoTitle || null,
+      description: marketing?.seoDescription || null,
+      keywords: marketing?.seoKeywords ?? [],
+    },
+    availableLanguages: property.marketingContent
+      .map(content => content.language)
+      .filter(isMarketingLanguage),
+    photos: property.photos,
+    rooms: property.rooms.map(room => ({
+      name: room.name,
+      type: room.type,
+      typeLabel: getRoomTypeLabel(room.type),
+      group: room.groupName,
+      view: room.view,
+    })),
+    amenities: deriveAmenities(property.rooms),
+    prices: toPublicPrices(property),
+  }
+}
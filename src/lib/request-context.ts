@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+// Request-scoped context read by the audit extension of the Prisma client
+export interface AuditContext {
+  // Acting user, defaults to the Clerk user of the request and to 'system' outside requests
+  userId?: string
+  // Overrides for the entries logged automatically (e.g. 'revert' instead of 'update')
+  action?: string
+  summary?: string
+  details?: Record<string, unknown>
+}
+
+const storage = new AsyncLocalStorage<AuditContext>()
+
+/**
+ * Runs fn with an audit context, merged into the current one
+ * - fn is awaited inside the context: Prisma queries only run once awaited
+ */
+export function withAuditContext<T>(context: AuditContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ ...storage.getStore(), ...context }, async () => await fn())
+}
+
+export function getAuditContext(): AuditContext {
+  return storage.getStore() ?? {}
+}
+
+// User id for jobs, scripts and anything running outside a request
+export const SYSTEM_USER_ID = 'system'
+
+/**
+ * Acting user of the current request: the audit context first, then the Clerk session
+ */
+export async function getAuditUserId(): Promise<string> {
+  const { userId } = getAuditContext()
+  if (userId) return userId
+
+  try {
+    // Loaded lazily, scripts use the Prisma client without Next.js / Clerk
+    const { auth } = await import('@clerk/nextjs/server')
+    const session = await auth()
+    return session.userId ?? SYSTEM_USER_ID
+  } catch {
+    return SYSTEM_USER_ID
+  }
+}
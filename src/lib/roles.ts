@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/db'
+import {
+  Permission,
+  ROLE_PERMISSIONS,
+  SYSTEM_ROLE_DETAILS,
+  UserRole,
+  resolveRolePermissions,
+  type RoleDefinition,
+} from '@/types/auth'
+
+// Role definitions change rarely and are read on every permission check
+const CACHE_TTL_MS = 60 * 1000
+
+let cache: { roles: RoleDefinition[]; loadedAt: number } | null = null
+
+const PERMISSIONS = new Set<string>(Object.values(Permission))
+
+function toRoleDefinition(role: {
+  key: string
+  name: string
+  description: string | null
+  permissions: string[]
+  isSystem: boolean
+}): RoleDefinition {
+  return {
+    key: role.key,
+    name: role.name,
+    description: role.description,
+    // Permissions removed from the code are dropped instead of failing
+    permissions: role.permissions.filter(permission => PERMISSIONS.has(permission)) as Permission[],
+    isSystem: role.isSystem,
+  }
+}
+
+/**
+ * Creates the built-in roles missing from the database with their ROLE_PERMISSIONS defaults
+ * - Existing rows are kept, edits made in the admin UI win over the defaults
+ */
+async function ensureSystemRoles(existingKeys: Set<string>) {
+  const missing = Object.values(UserRole).filter(role => !existingKeys.has(role))
+  if (missing.length === 0) return false
+
+  await prisma.roleDefinition.createMany({
+    data: missing.map(role => ({
+      key: role,
+      name: SYSTEM_ROLE_DETAILS[role].name,
+      description: SYSTEM_ROLE_DETAILS[role].description,
+      permissions: ROLE_PERMISSIONS[role],
+      isSystem: true,
+    })),
+    skipDuplicates: true,
+  })
+  return true
+}
+
+/**
+ * Every role definition, cached for a minute per server instance
+ */
+export async function getRoleDefinitions(): Promise<RoleDefinition[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.roles
+  }
+
+  let roles = await prisma.roleDefinition.findMany({ orderBy: [{ isSystem: 'desc' }, { createdAt: 'asc' }] })
+  if (await ensureSystemRoles(new Set(roles.map(role => role.key)))) {
+    roles = await prisma.roleDefinition.findMany({ orderBy: [{ isSystem: 'desc' }, { createdAt: 'asc' }] })
+  }
+
+  cache = { roles: roles.map(toRoleDefinition), loadedAt: Date.now() }
+  return cache.roles
+}
+
+/**
+ * Drops the cached definitions after a role is created, edited or deleted
+ */
+export function invalidateRoleDefinitions() {
+  cache = null
+}
+
+/**
+ * Permissions granted by a role key, falling back to ROLE_PERMISSIONS when the database is unreachable
+ */
+export async function getRolePermissions(role: string): Promise<Permission[]> {
+  try {
+    return resolveRolePermissions(await getRoleDefinitions(), role)
+  } catch (error) {
+    console.error('Failed to load role definitions:', error)
+    return resolveRolePermissions(undefined, role)
+  }
+}
@@ -0,0 +1,137 @@
+import { subMinutes } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { getUserRole, getUserFullName } from '@/lib/auth'
+import { notifyUsersWithPermission } from '@/lib/notifications'
+import { NotificationType, Prisma } from '@/generated/prisma'
+import { Permission } from '@/types/auth'
+import {
+  SENSITIVE_DATA_TYPE_LABELS,
+  SensitiveDataAction,
+  SensitiveDataType,
+  type SensitiveDataAlertSettings,
+} from '@/types/sensitive-data'
+
+// Distinct properties viewed within the window that raise an alert
+const DEFAULT_ALERT_THRESHOLD = 15
+const DEFAULT_ALERT_WINDOW_MINUTES = 60
+
+export interface SensitiveDataAccessInput {
+  userId: string
+  action: SensitiveDataAction
+  dataType: SensitiveDataType
+  propertyId: string
+  metadata?: Prisma.InputJsonObject
+}
+
+function readPositiveInteger(name: string, fallback: number): number {
+  const value = process.env[name]
+  if (value === undefined || value.trim() === '') return fallback
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`)
+  }
+  return parsed
+}
+
+/**
+ * Alert settings (SENSITIVE_ACCESS_ALERT_THRESHOLD, SENSITIVE_ACCESS_ALERT_WINDOW_MINUTES)
+ * - Defaults to 15 distinct properties within 60 minutes
+ */
+export function getSensitiveDataAlertSettings(): SensitiveDataAlertSettings {
+  return {
+    threshold: readPositiveInteger('SENSITIVE_ACCESS_ALERT_THRESHOLD', DEFAULT_ALERT_THRESHOLD),
+    windowMinutes: readPositiveInteger('SENSITIVE_ACCESS_ALERT_WINDOW_MINUTES', DEFAULT_ALERT_WINDOW_MINUTES),
+  }
+}
+
+/**
+ * Raises an alert when the user viewed this kind of data on more distinct properties
+ * than the threshold within the window
+ * - At most one alert per user and data type per window
+ * - Users allowed to read the report are notified, except the user concerned
+ */
+async function checkSensitiveAccessVolume(
+  userId: string,
+  userRole: string,
+  dataType: SensitiveDataType,
+  now: Date
+) {
+  const { threshold, windowMinutes } = getSensitiveDataAlertSettings()
+  const windowStart = subMinutes(now, windowMinutes)
+
+  const viewed = await prisma.sensitiveDataAccess.findMany({
+    where: {
+      userId,
+      dataType,
+      action: SensitiveDataAction.VIEW,
+      createdAt: { gte: windowStart, lte: now },
+    },
+    distinct: ['propertyId'],
+    select: { propertyId: true },
+  })
+  if (viewed.length < threshold) return null
+
+  const recentAlert = await prisma.sensitiveDataAlert.findFirst({
+    where: { userId, dataType, windowEnd: { gte: windowStart } },
+    select: { id: true },
+  })
+  if (recentAlert) return null
+
+  const alert = await prisma.sensitiveDataAlert.create({
+    data: {
+      userId,
+      userRole,
+      dataType,
+      propertyCount: viewed.length,
+      propertyIds: viewed.map(access => access.propertyId),
+      windowStart,
+      windowEnd: now,
+    },
+  })
+
+  const userName = (await getUserFullName()) ?? userId
+  await notifyUsersWithPermission(
+    Permission.SENSITIVE_ACCESS_VIEW,
+    {
+      type: NotificationType.SENSITIVE_DATA_ALERT,
+      title: 'Unusual sensitive data access',
+      message: `${userName} viewed ${SENSITIVE_DATA_TYPE_LABELS[dataType].toLowerCase()} data of ${viewed.length} properties in the last ${windowMinutes} minutes`,
+      link: '/sensitive-access?tab=alerts',
+      entityType: 'sensitive_data_alert',
+      entityId: alert.id,
+    },
+    userId
+  )
+
+  return alert
+}
+
+/**
+ * Logs an access to a property's sensitive data with the user's current role
+ * - Views are checked for unusual volume; a failed check never fails the caller
+ */
+export async function logSensitiveDataAccess(input: SensitiveDataAccessInput) {
+  const now = new Date()
+  const userRole = (await getUserRole()) ?? 'unknown'
+
+  await prisma.sensitiveDataAccess.create({
+    data: {
+      userId: input.userId,
+      userRole,
+      action: input.action,
+      dataType: input.dataType,
+      propertyId: input.propertyId,
+      metadata: input.metadata,
+      createdAt: now,
+    },
+  })
+
+  if (input.action !== SensitiveDataAction.VIEW) return
+
+  try {
+    await checkSensitiveAccessVolume(input.userId, userRole, input.dataType, now)
+  } catch (error) {
+    console.error('Failed to check sensitive data access volume:', error)
+  }
+}
@@ -0,0 +1,316 @@
+import { format, getDay } from 'date-fns'
+import {
+  BookingCondition,
+  OperationalCostType,
+  PriceType,
+  type MinimumStayRule,
+  type OperationalCost,
+  type PriceRange,
+  type PropertyPricing,
+} from '@/generated/prisma'
+import {
+  countNights,
+  eachNight,
+  findPricePeriodForNight,
+  formatCurrency,
+  getOwnerNightlyRate,
+  getOwnerWeeklyRate,
+  getPublicNightlyRate,
+  getPublicWeeklyRate,
+  operationalCostAmount,
+  operationalCostUnits,
+  roundAmount,
+} from '@/lib/finance'
+import type { StayQuote, StayQuoteIssue, StayQuoteLine } from '@/types/pricing'
+
+export interface StayQuoteInput {
+  startDate: Date
+  endDate: Date
+  guests?: number | null
+}
+
+export interface StayQuoteData {
+  property: { id: string; name: string; maxGuests: number }
+  pricing: Pick<
+    PropertyPricing,
+    'currency' | 'clientFees' | 'publicTaxes' | 'securityDeposit' | 'minOwnerAcceptedPrice' | 'publicMinimumPrice'
+  > | null
+  priceRanges: PriceRange[]
+  minimumStayRules: MinimumStayRule[]
+  operationalCosts: OperationalCost[]
+}
+
+// Check-in / check-out weekday imposed by weekly booking conditions (0 = Sunday)
+const WEEKLY_CONDITION_DAYS: Partial<Record<BookingCondition, number>> = {
+  [BookingCondition.WEEKLY_SATURDAY_TO_SATURDAY]: 6,
+  [BookingCondition.WEEKLY_SUNDAY_TO_SUNDAY]: 0,
+  [BookingCondition.WEEKLY_MONDAY_TO_MONDAY]: 1,
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const OPERATIONAL_COST_LABELS: Record<OperationalCostType, string> = {
+  HOUSEKEEPING: 'Housekeeping',
+  HOUSEKEEPING_AT_CHECKOUT: 'Housekeeping at checkout',
+  LINEN_CHANGE: 'Linen change',
+  OPERATIONAL_PACKAGE: 'Operational package',
+}
+
+const PRICE_TYPE_UNITS: Record<PriceType, string> = {
+  PER_STAY: 'stay',
+  PER_WEEK: 'week',
+  PER_DAY: 'day',
+  FIXED: 'fixed',
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+function formatDay(date: Date): string {
+  return format(date, 'MMM d, yyyy')
+}
+
+/**
+ * Groups consecutive nights covered by the same price period
+ */
+function groupNightsByPeriod(priceRanges: PriceRange[], nights: Date[]) {
+  const segments: { period: PriceRange | undefined; nights: Date[] }[] = []
+
+  for (const night of nights) {
+    const period = findPricePeriodForNight(priceRanges, night)
+    const last = segments[segments.length - 1]
+    if (last && last.period?.id === period?.id) {
+      last.nights.push(night)
+    } else {
+      segments.push({ period, nights: [night] })
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Whether a minimum stay rule applies to the stay (rules without dates apply all year)
+ */
+function ruleAppliesToStay(rule: MinimumStayRule, firstNight: Date, lastNight: Date): boolean {
+  if (!rule.startDate || !rule.endDate) return true
+  const first = format(firstNight, 'yyyy-MM-dd')
+  const last = format(lastNight, 'yyyy-MM-dd')
+  return format(rule.startDate, 'yyyy-MM-dd') <= last && format(rule.endDate, 'yyyy-MM-dd') >= first
+}
+
+function checkMinimumStayRule(
+  rule: MinimumStayRule,
+  startDate: Date,
+  endDate: Date,
+  nights: number
+): StayQuoteIssue[] {
+  const issues: StayQuoteIssue[] = []
+  const scope = rule.startDate && rule.endDate
+    ? ` between ${formatDay(rule.startDate)} and ${formatDay(rule.endDate)}`
+    : ''
+
+  if (nights < rule.minimumNights) {
+    issues.push({
+      code: 'MINIMUM_STAY',
+      bookingCondition: rule.bookingCondition,
+      message: `Minimum stay is ${plural(rule.minimumNights, 'night')}${scope}`,
+    })
+  }
+
+  const weekday = WEEKLY_CONDITION_DAYS[rule.bookingCondition]
+  if (weekday === undefined) return issues
+
+  const dayName = WEEKDAY_NAMES[weekday]
+  if (getDay(startDate) !== weekday) {
+    issues.push({
+      code: 'CHECK_IN_DAY',
+      bookingCondition: rule.bookingCondition,
+      message: `Check-in must be on a ${dayName}${scope}`,
+    })
+  }
+  if (getDay(endDate) !== weekday) {
+    issues.push({
+      code: 'CHECK_OUT_DAY',
+      bookingCondition: rule.bookingCondition,
+      message: `Check-out must be on a ${dayName}${scope}`,
+    })
+  }
+  if (nights % 7 !== 0) {
+    issues.push({
+      code: 'WEEKLY_STAY',
+      bookingCondition: rule.bookingCondition,
+      message: `Stays must be booked in full weeks (${dayName} to ${dayName})${scope}`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Builds an itemised quote for a stay
+ * - Rental is priced night by night from the covering price periods; full weeks
+ *   inside a period use the weekly rate when one is defined
+ * - Minimum stay rules and price period minimums are reported as violations
+ * - Operational costs are added by price type, client fees and taxes on the public rental
+ */
+export function buildStayQuote(input: StayQuoteInput, data: StayQuoteData): StayQuote {
+  const { property, pricing } = data
+  const currency = pricing?.currency ?? 'EUR'
+  const money = (amount: number) => formatCurrency(amount, currency)
+
+  const nightList = eachNight(input.startDate, input.endDate)
+  const nights = countNights(input.startDate, input.endDate)
+  const lines: StayQuoteLine[] = []
+  const violations: StayQuoteIssue[] = []
+  const warnings: StayQuoteIssue[] = []
+
+  // Rental, per price period
+  for (const segment of groupNightsByPeriod(data.priceRanges, nightList)) {
+    const first = segment.nights[0]
+    const last = segment.nights[segment.nights.length - 1]
+    const { period } = segment
+
+    if (!period) {
+      violations.push({
+        code: 'MISSING_PRICE',
+        message: `No price period covers ${plural(segment.nights.length, 'night')} from ${formatDay(first)} to ${formatDay(last)}`,
+      })
+      continue
+    }
+
+    const ownerNightly = getOwnerNightlyRate(period)
+    const publicNightly = getPublicNightlyRate(period)
+    const ownerWeekly = getOwnerWeeklyRate(period)
+    const publicWeekly = getPublicWeeklyRate(period)
+
+    const weeks = ownerWeekly != null && publicWeekly != null ? Math.floor(segment.nights.length / 7) : 0
+    const remainingNights = segment.nights.length - weeks * 7
+
+    if (remainingNights > 0 && (ownerNightly == null || publicNightly == null)) {
+      violations.push({
+        code: 'MISSING_PRICE',
+        message: `Price period "${period.name}" has no nightly rate for ${plural(remainingNights, 'night')}`,
+      })
+    }
+
+    const details: string[] = []
+    if (weeks > 0) details.push(`${plural(weeks, 'week')} × ${money(publicWeekly!)}`)
+    if (remainingNights > 0) details.push(`${plural(remainingNights, 'night')} × ${money(publicNightly ?? 0)}`)
+
+    lines.push({
+      category: 'RENTAL',
+      label: period.name,
+      detail: `${format(first, 'MMM d')} – ${format(last, 'MMM d')}: ${details.join(' + ')}`,
+      ownerAmount: roundAmount(weeks * (ownerWeekly ?? 0) + remainingNights * (ownerNightly ?? 0)),
+      publicAmount: roundAmount(weeks * (publicWeekly ?? 0) + remainingNights * (publicNightly ?? 0)),
+      priceRangeId: period.id,
+    })
+
+    if (nights < period.minimumStay) {
+      violations.push({
+        code: 'MINIMUM_STAY',
+        message: `Price period "${period.name}" requires at least ${plural(period.minimumStay, 'night')}`,
+      })
+    }
+  }
+
+  // Minimum stay rules
+  if (nightList.length > 0) {
+    const lastNight = nightList[nightList.length - 1]
+    for (const rule of data.minimumStayRules) {
+      if (!ruleAppliesToStay(rule, nightList[0], lastNight)) continue
+      for (const issue of checkMinimumStayRule(rule, input.startDate, input.endDate, nights)) {
+        if (!violations.some(existing => existing.message === issue.message)) {
+          violations.push(issue)
+        }
+      }
+    }
+  }
+
+  if (input.guests && property.maxGuests > 0 && input.guests > property.maxGuests) {
+    violations.push({
+      code: 'MAX_GUESTS',
+      message: `${property.name} accommodates at most ${plural(property.maxGuests, 'guest')}`,
+    })
+  }
+
+  const ownerRental = lines.reduce((sum, line) => sum + line.ownerAmount, 0)
+  const publicRental = lines.reduce((sum, line) => sum + line.publicAmount, 0)
+
+  // Operational costs
+  for (const cost of data.operationalCosts) {
+    const units = operationalCostUnits(cost.priceType, nights)
+    const amounts = operationalCostAmount(cost, nights)
+    const unitPrice = cost.publicPrice ?? cost.estimatedPrice ?? 0
+
+    lines.push({
+      category: 'OPERATIONAL_COST',
+      label: OPERATIONAL_COST_LABELS[cost.costType],
+      detail: cost.priceType === PriceType.FIXED || cost.priceType === PriceType.PER_STAY
+        ? `${money(unitPrice)} per ${PRICE_TYPE_UNITS[cost.priceType]}`
+        : `${units} × ${money(unitPrice)} per ${PRICE_TYPE_UNITS[cost.priceType]}`,
+      ownerAmount: roundAmount(amounts.estimated),
+      publicAmount: roundAmount(amounts.public),
+      costType: cost.costType,
+      priceType: cost.priceType,
+    })
+  }
+
+  // Client fees and taxes
+  if (pricing?.clientFees) {
+    lines.push({
+      category: 'CLIENT_FEE',
+      label: 'Client fees',
+      detail: `${pricing.clientFees}% of rental`,
+      ownerAmount: 0,
+      publicAmount: roundAmount(publicRental * pricing.clientFees / 100),
+    })
+  }
+
+  if (pricing?.publicTaxes) {
+    lines.push({
+      category: 'TAX',
+      label: 'Taxes',
+      detail: `${pricing.publicTaxes}% of rental`,
+      ownerAmount: 0,
+      publicAmount: roundAmount(publicRental * pricing.publicTaxes / 100),
+    })
+  }
+
+  if (pricing?.minOwnerAcceptedPrice && ownerRental > 0 && ownerRental < pricing.minOwnerAcceptedPrice) {
+    warnings.push({
+      code: 'BELOW_MINIMUM_PRICE',
+      message: `Owner rental ${money(ownerRental)} is below the owner's minimum accepted price of ${money(pricing.minOwnerAcceptedPrice)}`,
+    })
+  }
+
+  if (pricing?.publicMinimumPrice && publicRental > 0 && publicRental < pricing.publicMinimumPrice) {
+    warnings.push({
+      code: 'BELOW_MINIMUM_PRICE',
+      message: `Public rental ${money(publicRental)} is below the public minimum price of ${money(pricing.publicMinimumPrice)}`,
+    })
+  }
+
+  const ownerTotal = roundAmount(lines.reduce((sum, line) => sum + line.ownerAmount, 0))
+  const publicTotal = roundAmount(lines.reduce((sum, line) => sum + line.publicAmount, 0))
+
+  return {
+    propertyId: property.id,
+    propertyName: property.name,
+    currency,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    nights,
+    guests: input.guests ?? null,
+    lines,
+    ownerTotal,
+    publicTotal,
+    commission: roundAmount(publicRental - ownerRental),
+    securityDeposit: pricing?.securityDeposit ?? null,
+    violations,
+    warnings,
+    isBookable: violations.length === 0,
+  }
+}
@@ -0,0 +1,11 @@
+import { z } from "zod"
+
+// Destinations and properties a user is restricted to (not restricted: every property)
+export const updateUserAccessScopeSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  restricted: z.boolean(),
+  destinationIds: z.array(z.string().cuid("Invalid destination ID")).default([]),
+  propertyIds: z.array(z.string().cuid("Invalid property ID")).default([]),
+})
+
+export type UpdateUserAccessScopeInput = z.input<typeof updateUserAccessScopeSchema>
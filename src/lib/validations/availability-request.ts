@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { AvailabilityRequestStatus, AvailabilityRequestUrgency } from '@/generated/prisma'
+import { AvailabilityRequestStatus, AvailabilityRequestUrgency, BookingType } from '@/generated/prisma'
 
 // Base availability request schema
 export const availabilityRequestSchema = z.object({
@@ -26,6 +26,15 @@ export const updateAvailabilityRequestStatusSchema = z.object({
   status: z.nativeEnum(AvailabilityRequestStatus),
 })
 
+// Convert availability request to booking schema
+export const convertAvailabilityRequestSchema = z.object({
+  id: z.string().min(1, "Request ID is required"),
+  bookingType: z.enum([BookingType.TENTATIVE, BookingType.CONFIRMED]).default(BookingType.TENTATIVE),
+  totalAmount: z.number().min(0, "Total amount cannot be negative").nullable().optional(),
+  notes: z.string().optional(),
+  optionExpiresAt: z.date().nullable().optional(),
+})
+
 // Availability request filters schema
 export const availabilityRequestFiltersSchema = z.object({
   propertyId: z.string().optional(),
@@ -47,5 +56,6 @@ export const deleteAvailabilityRequestSchema = z.object({
 // Type exports
 export type CreateAvailabilityRequestInput = z.infer<typeof createAvailabilityRequestSchema>
 export type UpdateAvailabilityRequestStatusInput = z.infer<typeof updateAvailabilityRequestStatusSchema>
+export type ConvertAvailabilityRequestInput = z.input<typeof convertAvailabilityRequestSchema>
 export type AvailabilityRequestFilters = z.infer<typeof availabilityRequestFiltersSchema>
 export type DeleteAvailabilityRequestInput = z.infer<typeof deleteAvailabilityRequestSchema>
\ No newline at end of file
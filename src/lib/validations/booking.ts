@@ -23,6 +23,8 @@ const baseBookingSchema = z.object({
   numberOfGuests: z.coerce.number().int().min(1, "At least 1 guest is required").nullable().optional(),
   totalAmount: z.coerce.number().min(0, "Amount cannot be negative").nullable().optional(),
   notes: z.string().max(1000, "Notes are too long").nullable().optional(),
+  optionExpiresAt: z.date().nullable().optional(),
+  contactId: z.string().cuid("Invalid contact ID").nullable().optional(),
   externalId: z.string().max(255, "External ID is too long").nullable().optional(),
   metadata: z.record(z.string(), z.unknown()).nullable().optional(),
 }).refine(data => data.endDate > data.startDate, {
@@ -71,6 +73,7 @@ export const bookingFormSchema = z.object({
   numberOfGuests: z.coerce.number().int().min(1, "At least 1 guest is required").nullable().optional(),
   totalAmount: z.coerce.number().min(0, "Amount cannot be negative").nullable().optional(),
   notes: z.string().max(1000, "Notes are too long").nullable().optional(),
+  optionExpiresAt: z.date().nullable().optional(),
   externalId: z.string().max(255, "External ID is too long").nullable().optional(),
   metadata: z.record(z.string(), z.unknown()).nullable().optional(),
 }).refine(data => data.endDate > data.startDate, {
@@ -170,6 +173,23 @@ export const importBookingsSchema = z.object({
   })).min(1, "At least one booking is required").max(100, "Maximum 100 bookings per import"),
 })
 
+// External calendar (channel iCal) schemas
+export const createExternalCalendarSchema = z.object({
+  propertyId: z.string().cuid("Invalid property ID"),
+  name: z.string().min(1, "Name is required").max(100, "Name is too long"),
+  url: z.string()
+    .regex(/^(https?|webcal):\/\//i, "URL must start with https://, http:// or webcal://")
+    .max(2000, "URL is too long")
+    .nullable()
+    .optional(),
+  bookingType: z.nativeEnum(BookingType).default(BookingType.BLOCKED),
+})
+
+export const uploadExternalCalendarSchema = z.object({
+  calendarId: z.string().cuid("Invalid calendar ID"),
+  content: z.string().min(1, "File is empty").max(5 * 1024 * 1024, "File is too large"),
+})
+
 // Type exports
 export type CreateBookingInput = z.infer<typeof createBookingSchema>
 export type UpdateBookingInput = z.infer<typeof updateBookingSchema>
@@ -177,6 +197,8 @@ export type BookingFilters = z.infer<typeof bookingFiltersSchema>
 export type CheckAvailabilityInput = z.infer<typeof checkAvailabilitySchema>
 export type AdvancedAvailabilityCheckInput = z.infer<typeof advancedAvailabilityCheckSchema>
 export type ImportBookingsInput = z.infer<typeof importBookingsSchema>
+export type CreateExternalCalendarInput = z.infer<typeof createExternalCalendarSchema>
+export type UploadExternalCalendarInput = z.infer<typeof uploadExternalCalendarSchema>
 
 // Helper function to format booking display name
 export function formatBookingDisplay(booking: { type: BookingType; guestName?: string | null }): string {
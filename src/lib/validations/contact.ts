@@ -1,5 +1,6 @@
 import { z } from "zod"
 import { GlobalContactCategory, ContactPropertyRelationship } from '@/generated/prisma'
+import { MERGEABLE_CONTACT_FIELDS } from '@/types/contact'
 
 // Base contact schema
 export const contactSchema = z.object({
@@ -80,6 +81,17 @@ export const checkContactUniquenessSchema = z.object({
   excludeId: z.string().optional(), // For updates, exclude current contact ID
 })
 
+// Merge of two duplicate contacts: the duplicate is folded into the survivor
+// - Each field keeps the survivor's value unless the duplicate's is picked
+export const mergeContactsSchema = z.object({
+  survivorId: z.string().min(1, "Survivor contact ID is required"),
+  duplicateId: z.string().min(1, "Duplicate contact ID is required"),
+  fields: z.partialRecord(z.enum(MERGEABLE_CONTACT_FIELDS), z.enum(['survivor', 'duplicate'])).default({}),
+}).refine(data => data.survivorId !== data.duplicateId, {
+  message: "A contact cannot be merged into itself",
+  path: ["duplicateId"],
+})
+
 // Pagination schema
 export const contactPaginationSchema = z.object({
   page: z.number().int().min(1).default(1),
@@ -105,4 +117,5 @@ export type UnlinkContactFromPropertyData = z.infer<typeof unlinkContactFromProp
 export type ExportContactsData = z.infer<typeof exportContactsSchema>
 export type ImportContactsData = z.infer<typeof importContactsSchema>
 export type ContactPaginationData = z.infer<typeof contactPaginationSchema>
-export type ContactSearchData = z.infer<typeof contactSearchSchema>
\ No newline at end of file
+export type ContactSearchData = z.infer<typeof contactSearchSchema>
+export type MergeContactsData = z.input<typeof mergeContactsSchema>
\ No newline at end of file
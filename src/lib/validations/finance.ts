@@ -0,0 +1,14 @@
+import { z } from "zod"
+
+// Finance report filters
+export const financeReportFiltersSchema = z.object({
+  startDate: z.date(),
+  endDate: z.date(),
+  destinationId: z.string().cuid("Invalid destination ID").optional(),
+  propertyId: z.string().cuid("Invalid property ID").optional(),
+}).refine(data => data.endDate > data.startDate, {
+  message: "End date must be after start date",
+  path: ["endDate"],
+})
+
+export type FinanceReportFilters = z.infer<typeof financeReportFiltersSchema>
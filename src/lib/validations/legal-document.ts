@@ -44,6 +44,8 @@ export const updateLegalDocumentSchema = z.object({
   reminderDays: z.number().int().min(0).max(365).nullish(),
   tags: z.array(z.string().max(50)).optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
+  // Listed in the owner portal of the property owners
+  sharedWithOwners: z.boolean().optional(),
 })
 
 // Upload version schema
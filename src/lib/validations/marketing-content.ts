@@ -0,0 +1,57 @@
+import { z } from "zod"
+import {
+  MARKETING_LANGUAGE_CODES,
+  TRANSLATION_FILE_FORMATS,
+  type TranslationStatus,
+} from "@/types/marketing-content"
+
+const TRANSLATION_STATUSES: [TranslationStatus, ...TranslationStatus[]] = ["missing", "incomplete", "outdated", "complete"]
+
+// Translation files are read in a server action, keep them well under the request body limit
+export const MAX_TRANSLATION_FILE_LENGTH = 800_000
+
+export const marketingCopySchema = z.object({
+  title: z.string().trim().max(200, "Title must be under 200 characters"),
+  tagline: z.string().trim().max(200, "Tagline must be under 200 characters").default(""),
+  shortDescription: z.string().trim().max(1000, "Short description must be under 1000 characters").default(""),
+  description: z.string().trim().max(10000, "Description must be under 10000 characters").default(""),
+  highlights: z.array(z.string().trim().max(300)).max(30).default([]),
+  seoDescription: z.string().trim().max(160, "Meta description must be under 160 characters").default(""),
+  seoKeywords: z.array(z.string().trim().max(100)).max(30).default([]),
+})
+
+export const saveMarketingContentSchema = z.object({
+  propertyId: z.string().cuid("Invalid property ID"),
+  // Every language of the property, languages left out are deleted
+  contents: z.partialRecord(z.enum(MARKETING_LANGUAGE_CODES), marketingCopySchema),
+}).refine(data => !!data.contents.en?.title, {
+  message: "The English title is required",
+  path: ["contents", "en", "title"],
+})
+
+export const translationDashboardFiltersSchema = z.object({
+  destinationId: z.string().cuid("Invalid destination ID").optional(),
+  language: z.enum(MARKETING_LANGUAGE_CODES).optional(),
+  status: z.enum(TRANSLATION_STATUSES).optional(),
+  search: z.string().trim().max(100).optional(),
+})
+
+export const exportTranslationsSchema = z.object({
+  format: z.enum(TRANSLATION_FILE_FORMATS),
+  languages: z.array(z.enum(MARKETING_LANGUAGE_CODES))
+    .min(1, "Select at least one language")
+    .refine(languages => !languages.includes("en"), "English is the source language and cannot be exported for translation"),
+  destinationId: z.string().cuid("Invalid destination ID").optional(),
+  // Leave out translations already complete and up to date
+  onlyPending: z.boolean().default(true),
+})
+
+export const importTranslationsSchema = z.object({
+  format: z.enum(TRANSLATION_FILE_FORMATS),
+  content: z.string().min(1, "The file is empty").max(MAX_TRANSLATION_FILE_LENGTH, "The file is too large, export fewer languages at once"),
+})
+
+export type SaveMarketingContentData = z.input<typeof saveMarketingContentSchema>
+export type TranslationDashboardFilters = z.infer<typeof translationDashboardFiltersSchema>
+export type ExportTranslationsData = z.input<typeof exportTranslationsSchema>
+export type ImportTranslationsData = z.infer<typeof importTranslationsSchema>
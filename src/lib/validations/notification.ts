@@ -0,0 +1,23 @@
+import { z } from "zod"
+import { NotificationType } from "@/generated/prisma"
+
+// Notification list filters
+export const notificationFiltersSchema = z.object({
+  unreadOnly: z.boolean().default(false),
+  limit: z.number().int().min(1).max(100).default(20),
+})
+
+// Mark notifications read (all unread ones when no ids are given)
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().cuid("Invalid notification ID")).optional(),
+})
+
+// Per-user notification preference
+export const updateNotificationPreferenceSchema = z.object({
+  type: z.nativeEnum(NotificationType),
+  enabled: z.boolean(),
+})
+
+export type NotificationFilters = z.input<typeof notificationFiltersSchema>
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadSchema>
+export type UpdateNotificationPreferenceInput = z.infer<typeof updateNotificationPreferenceSchema>
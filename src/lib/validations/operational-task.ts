@@ -0,0 +1,46 @@
+import { z } from "zod"
+import { OperationalTaskStatus, OperationalTaskType } from "@/generated/prisma"
+
+export const operationalTaskFiltersSchema = z.object({
+  from: z.date(),
+  to: z.date(),
+  destinationId: z.string().cuid("Invalid destination ID").optional(),
+  propertyId: z.string().cuid("Invalid property ID").optional(),
+  type: z.nativeEnum(OperationalTaskType).optional(),
+  assigneeContactId: z.string().cuid("Invalid contact ID").optional(),
+  // Cancelled tasks are hidden unless asked for
+  includeCancelled: z.boolean().default(false),
+}).refine(data => data.to >= data.from, {
+  message: "End date must be on or after start date",
+  path: ["to"],
+}).refine(data => (data.to.getTime() - data.from.getTime()) / 86400000 <= 62, {
+  message: "The board shows at most two months at once",
+  path: ["to"],
+})
+
+export const updateOperationalTaskSchema = z.object({
+  id: z.string().cuid("Invalid task ID"),
+  // Cancelled is set by the generator only, the generator reopens cancelled tasks it still plans
+  status: z.nativeEnum(OperationalTaskStatus)
+    .refine(status => status !== OperationalTaskStatus.CANCELLED, "Skip the task instead of cancelling it")
+    .optional(),
+  assigneeContactId: z.string().cuid("Invalid contact ID").nullable().optional(),
+  scheduledTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time format (HH:MM)").nullable().optional(),
+  notes: z.string().max(1000, "Notes are too long").nullable().optional(),
+})
+
+export const generateOperationalTasksSchema = z.object({
+  from: z.date(),
+  to: z.date(),
+  propertyId: z.string().cuid("Invalid property ID").optional(),
+}).refine(data => data.to >= data.from, {
+  message: "End date must be on or after start date",
+  path: ["to"],
+}).refine(data => (data.to.getTime() - data.from.getTime()) / 86400000 <= 92, {
+  message: "Tasks are generated for at most three months at once",
+  path: ["to"],
+})
+
+export type OperationalTaskFilters = z.input<typeof operationalTaskFiltersSchema>
+export type UpdateOperationalTaskInput = z.infer<typeof updateOperationalTaskSchema>
+export type GenerateOperationalTasksInput = z.infer<typeof generateOperationalTasksSchema>
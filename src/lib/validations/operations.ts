@@ -0,0 +1,16 @@
+import { z } from "zod"
+
+export const operationsBoardFiltersSchema = z.object({
+  from: z.date(),
+  to: z.date(),
+  destinationId: z.string().cuid("Invalid destination ID").optional(),
+  propertyId: z.string().cuid("Invalid property ID").optional(),
+}).refine(data => data.to >= data.from, {
+  message: "End date must be on or after start date",
+  path: ["to"],
+}).refine(data => (data.to.getTime() - data.from.getTime()) / 86400000 <= 31, {
+  message: "The board shows at most a month at once",
+  path: ["to"],
+})
+
+export type OperationsBoardFilters = z.infer<typeof operationsBoardFiltersSchema>
@@ -0,0 +1,28 @@
+import { z } from "zod"
+
+// Stay the owner asks to block from the owner portal
+export const ownerStayRequestSchema = z.object({
+  propertyId: z.string().cuid("Invalid property ID"),
+  startDate: z.date(),
+  endDate: z.date(),
+  numberOfGuests: z.coerce.number().int().min(1, "At least 1 guest is required").optional(),
+  notes: z.string().max(1000, "Notes are too long").optional(),
+}).refine(data => data.endDate > data.startDate, {
+  message: "End date must be after start date",
+  path: ["endDate"],
+})
+
+export const ownerCalendarFiltersSchema = z.object({
+  propertyId: z.string().cuid("Invalid property ID"),
+  startDate: z.date(),
+  endDate: z.date(),
+})
+
+export const ownerStatementFiltersSchema = z.object({
+  propertyId: z.string().cuid("Invalid property ID"),
+  year: z.number().int().min(2000).max(2100),
+})
+
+export type OwnerStayRequestInput = z.input<typeof ownerStayRequestSchema>
+export type OwnerCalendarFilters = z.infer<typeof ownerCalendarFiltersSchema>
+export type OwnerStatementFilters = z.infer<typeof ownerStatementFiltersSchema>
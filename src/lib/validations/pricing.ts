@@ -88,6 +88,18 @@ export const updateOperationalCostSchema = baseOperationalCostSchema.partial()
 export type CreateOperationalCostFormData = z.infer<typeof createOperationalCostSchema>
 export type UpdateOperationalCostFormData = z.infer<typeof updateOperationalCostSchema>
 
+// Stay quote request
+export const stayQuoteSchema = z.object({
+  startDate: z.date(),
+  endDate: z.date(),
+  guests: z.number().int().min(1, "Guests must be at least 1").nullable().optional(),
+}).refine(data => data.endDate > data.startDate, {
+  message: "Check-out must be after check-in",
+  path: ["endDate"],
+})
+
+export type StayQuoteFormData = z.infer<typeof stayQuoteSchema>
+
 // Helper function to calculate public price from owner price and commission
 export function calculatePublicPrice(ownerPrice: number, commissionRate: number): number {
   return Math.round(ownerPrice / (1 - commissionRate / 100))
@@ -0,0 +1,20 @@
+import { z } from "zod"
+import { MARKETING_LANGUAGE_CODES } from "@/types/marketing-content"
+
+// Query strings of the public listing API, every value arrives as a string
+const languageSchema = z.enum(MARKETING_LANGUAGE_CODES).default("en")
+
+export const publicPropertyListQuerySchema = z.object({
+  lang: languageSchema,
+  destinationId: z.string().cuid("Invalid destination ID").optional(),
+  minGuests: z.coerce.number().int().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+})
+
+export const publicPropertyDetailQuerySchema = z.object({
+  lang: languageSchema,
+})
+
+export type PublicPropertyListQuery = z.infer<typeof publicPropertyListQuerySchema>
+export type PublicPropertyDetailQuery = z.infer<typeof publicPropertyDetailQuerySchema>
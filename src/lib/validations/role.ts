@@ -0,0 +1,20 @@
+import { z } from "zod"
+import { Permission } from "@/types/auth"
+
+const permissionsSchema = z.array(z.nativeEnum(Permission)).default([])
+
+export const createRoleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name is too long"),
+  description: z.string().trim().max(200, "Description is too long").optional(),
+  permissions: permissionsSchema,
+})
+
+export const updateRoleSchema = z.object({
+  key: z.string().min(1, "Role key is required"),
+  name: z.string().trim().min(1, "Name is required").max(50, "Name is too long"),
+  description: z.string().trim().max(200, "Description is too long").optional(),
+  permissions: permissionsSchema,
+})
+
+export type CreateRoleInput = z.input<typeof createRoleSchema>
+export type UpdateRoleInput = z.input<typeof updateRoleSchema>
@@ -0,0 +1,29 @@
+import { z } from "zod"
+import { SensitiveDataType } from "@/types/sensitive-data"
+
+// Sensitive data access report filters
+export const sensitiveAccessFiltersSchema = z.object({
+  startDate: z.date(),
+  endDate: z.date(),
+  userId: z.string().optional(),
+  propertyId: z.string().cuid("Invalid property ID").optional(),
+  dataType: z.nativeEnum(SensitiveDataType).optional(),
+}).refine(data => data.endDate > data.startDate, {
+  message: "End date must be after start date",
+  path: ["endDate"],
+})
+
+export const sensitiveAccessLogQuerySchema = sensitiveAccessFiltersSchema.and(z.object({
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(100).default(25),
+}))
+
+// Alert list filters
+export const sensitiveDataAlertFiltersSchema = z.object({
+  status: z.enum(["open", "acknowledged", "all"]).default("open"),
+  limit: z.number().int().min(1).max(100).default(50),
+})
+
+export type SensitiveAccessFilters = z.infer<typeof sensitiveAccessFiltersSchema>
+export type SensitiveAccessLogQuery = z.input<typeof sensitiveAccessLogQuerySchema>
+export type SensitiveDataAlertFilters = z.input<typeof sensitiveDataAlertFiltersSchema>
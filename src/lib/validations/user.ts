@@ -0,0 +1,24 @@
+import { z } from "zod"
+
+// Key of a built-in or custom role, checked against the role definitions by the actions
+export const userRoleSchema = z.string().min(1, "Role is required")
+
+export const updateUserRoleSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  role: userRoleSchema,
+})
+
+export const inviteUserSchema = z.object({
+  emailAddress: z.string().trim().toLowerCase().email("Invalid email address"),
+  role: userRoleSchema,
+})
+
+// Owner contact whose properties the user sees in the owner portal (null unlinks)
+export const linkOwnerContactSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  contactId: z.string().cuid("Invalid contact ID").nullable(),
+})
+
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>
+export type InviteUserInput = z.infer<typeof inviteUserSchema>
+export type LinkOwnerContactInput = z.infer<typeof linkOwnerContactSchema>
@@ -0,0 +1,12 @@
+import { z } from "zod"
+import { WELCOME_BOOK_FORMATS, WELCOME_BOOK_LANGUAGES } from "@/types/welcome-book"
+
+export const welcomeBookQuerySchema = z.object({
+  format: z.enum(WELCOME_BOOK_FORMATS).default("pdf"),
+  language: z.enum(WELCOME_BOOK_LANGUAGES, { message: "Unsupported language" }).default("en"),
+  bookingId: z.string().cuid("Invalid booking ID").optional(),
+  // Serve the file as an attachment instead of displaying it
+  download: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+})
+
+export type WelcomeBookQuery = z.infer<typeof welcomeBookQuerySchema>
@@ -0,0 +1,175 @@
+import { format } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { BookingStatus } from '@/generated/prisma'
+import { WELCOME_BOOK_LABELS } from '@/lib/welcome-book/labels'
+import type { StayMetadata, SurroundingsInfo } from '@/types/property'
+import {
+  WELCOME_BOOK_LANGUAGES,
+  type WelcomeBook,
+  type WelcomeBookField,
+  type WelcomeBookLanguage,
+  type WelcomeBookSection,
+} from '@/types/welcome-book'
+
+const isFilled = (field: { value: string | null | undefined }): field is WelcomeBookField =>
+  !!field.value && field.value.trim().length > 0
+
+function section(id: string, title: string, fields: { label: string; value: string | null | undefined }[], text?: string | null): WelcomeBookSection | null {
+  const filled = fields.filter(isFilled)
+  const trimmed = text?.trim()
+  if (filled.length === 0 && !trimmed) return null
+  return { id, title, fields: filled, text: trimmed || undefined }
+}
+
+/**
+ * Languages of the property's marketing content the welcome book can be printed in, English first
+ */
+export function getWelcomeBookLanguages(marketingLanguages: string[]): WelcomeBookLanguage[] {
+  const available = new Set(['en', ...marketingLanguages].map(code => code.toLowerCase()))
+  return WELCOME_BOOK_LANGUAGES.filter(code => available.has(code))
+}
+
+/**
+ * Assembles the welcome book of a property from its stay information
+ * - Fixed texts follow the language, the villa book comment is taken in that language when written
+ * - With a booking, the book opens on the guest's name and stay dates
+ * @returns null when the property, or the booking within it, does not exist
+ */
+export async function buildWelcomeBook(
+  propertyId: string,
+  options: { language: WelcomeBookLanguage; bookingId?: string }
+): Promise<WelcomeBook | null> {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: {
+      name: true,
+      address: true,
+      postcode: true,
+      city: true,
+      setting: true,
+      goodToKnow: true,
+      surroundings: true,
+      checkInTime: true,
+      checkOutTime: true,
+      checkInPerson: true,
+      wifiName: true,
+      wifiPassword: true,
+      wifiInAllRooms: true,
+      wifiSpeed: true,
+      mobileNetworkCoverage: true,
+      hasFireExtinguisher: true,
+      stayMetadata: true,
+      destination: { select: { name: true } },
+      marketingContent: {
+        where: { language: options.language },
+        select: { title: true, tagline: true },
+      },
+      activityProviders: {
+        select: {
+          name: true,
+          type: true,
+          description: true,
+          address: true,
+          city: true,
+          phone: true,
+          website: true,
+          openingHours: true,
+        },
+        orderBy: [{ type: 'asc' }, { name: 'asc' }],
+      },
+    },
+  })
+  if (!property) return null
+
+  const booking = options.bookingId
+    ? await prisma.booking.findFirst({
+        where: { id: options.bookingId, propertyId, status: { not: BookingStatus.CANCELLED } },
+        select: { guestName: true, startDate: true, endDate: true, numberOfGuests: true },
+      })
+    : null
+  if (options.bookingId && !booking) return null
+
+  const labels = WELCOME_BOOK_LABELS[options.language]
+  const metadata = (property.stayMetadata as StayMetadata | null) ?? {}
+  const surroundings = property.surroundings as SurroundingsInfo | null
+  const marketing = property.marketingContent[0]
+  const formatDate = (date: Date) => format(date, 'EEEE d MMMM yyyy', { locale: labels.locale })
+  const list = (values: string[] | undefined) => values?.filter(Boolean).join(', ')
+
+  const sections = [
+    booking && section('stay', labels.yourStay, [
+      { label: labels.arrival, value: formatDate(booking.startDate) },
+      { label: labels.departure, value: formatDate(booking.endDate) },
+      { label: labels.guests, value: booking.numberOfGuests?.toString() },
+    ]),
+    section('check-in', labels.checkIn, [
+      { label: labels.checkInFrom, value: property.checkInTime },
+      { label: labels.checkOutBefore, value: property.checkOutTime },
+      { label: labels.welcomedBy, value: property.checkInPerson },
+    ]),
+    section('wifi', labels.wifi, [
+      { label: labels.network, value: property.wifiName },
+      { label: labels.password, value: property.wifiPassword },
+      { label: labels.speed, value: property.wifiSpeed },
+      { label: labels.everyRoom, value: property.wifiInAllRooms && property.wifiName ? labels.yes : null },
+      { label: labels.coverage, value: property.mobileNetworkCoverage },
+    ]),
+    section('access', labels.gettingThere, [
+      { label: labels.airports, value: list(metadata.access?.airports) },
+      { label: labels.trainStations, value: list(metadata.access?.trainStations) },
+      { label: labels.road, value: metadata.access?.roadType && labels.roadTypes[metadata.access.roadType] },
+      { label: labels.vehicles, value: list(metadata.access?.cars) },
+      { label: labels.keys, value: metadata.access?.keyCount?.toString() },
+      { label: labels.remotes, value: metadata.access?.beeperCount?.toString() },
+      { label: labels.pleaseNote, value: metadata.access?.specialAttention ? metadata.access.specialAttentionNote : null },
+    ]),
+    section('safety', labels.safety, [
+      {
+        label: labels.nearestHospital,
+        value: [metadata.security?.nearestHospital?.name, metadata.security?.nearestHospital?.distance]
+          .filter(Boolean)
+          .join(' · '),
+      },
+      { label: labels.firstAidKit, value: metadata.security?.firstAidKit ? metadata.security.firstAidLocation || labels.yes : null },
+      {
+        label: labels.fireExtinguisher,
+        value: property.hasFireExtinguisher ? metadata.security?.fireExtinguisherLocation || labels.yes : null,
+      },
+      { label: labels.smokeDetectors, value: metadata.security?.smokeDetectorLocation },
+      { label: labels.surveillance, value: list(metadata.security?.surveillance) },
+    ], metadata.security?.specificMeasures),
+    section('good-to-know', labels.goodToKnow, [], property.goodToKnow),
+    section('surroundings', labels.surroundings, [
+      { label: labels.setting, value: list(surroundings?.filters?.map(filter => labels.settings[filter] ?? filter)) },
+    ], surroundings?.customNotes),
+    property.activityProviders.length > 0
+      ? {
+          id: 'local-addresses',
+          title: labels.localAddresses,
+          fields: property.activityProviders.map(provider => ({
+            label: provider.name,
+            value: [
+              provider.description,
+              [provider.address, provider.city].filter(Boolean).join(', '),
+              provider.openingHours && `${labels.openingHours}: ${provider.openingHours}`,
+              provider.phone && `${labels.phone}: ${provider.phone}`,
+              provider.website && `${labels.website}: ${provider.website}`,
+            ].filter(Boolean).join('\n'),
+          })),
+        }
+      : null,
+    section('from-your-hosts', labels.fromYourHosts, [], metadata.villaBookComment?.[options.language]),
+  ].filter((entry): entry is WelcomeBookSection => !!entry)
+
+  return {
+    language: options.language,
+    propertyName: property.name,
+    destinationName: property.destination.name,
+    title: marketing?.title || property.name,
+    tagline: marketing?.tagline || null,
+    address: [property.address, [property.postcode, property.city].filter(Boolean).join(' ')].filter(Boolean).join(', ') || null,
+    stay: booking,
+    sections,
+    generatedAt: new Date(),
+  }
+}
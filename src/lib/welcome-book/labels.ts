@@ -0,0 +1,382 @@
+import type { Locale } from 'date-fns'
+import { de as deLocale, enGB, es as esLocale, fr as frLocale, it as itLocale, nl as nlLocale, pt as ptLocale } from 'date-fns/locale'
+import type { WelcomeBookLanguage } from '@/types/welcome-book'
+
+export interface WelcomeBookLabels {
+  // Used for dates
+  locale: Locale
+  welcome: string
+  welcomeGuest: (name: string) => string
+  yourStay: string
+  arrival: string
+  departure: string
+  guests: string
+  checkIn: string
+  checkInFrom: string
+  checkOutBefore: string
+  welcomedBy: string
+  wifi: string
+  network: string
+  password: string
+  speed: string
+  coverage: string
+  everyRoom: string
+  yes: string
+  gettingThere: string
+  airports: string
+  trainStations: string
+  road: string
+  roadTypes: Record<'asphalt' | 'winding' | 'dirt', string>
+  vehicles: string
+  keys: string
+  remotes: string
+  pleaseNote: string
+  safety: string
+  nearestHospital: string
+  firstAidKit: string
+  fireExtinguisher: string
+  smokeDetectors: string
+  surveillance: string
+  goodToKnow: string
+  surroundings: string
+  setting: string
+  settings: Record<string, string>
+  localAddresses: string
+  openingHours: string
+  phone: string
+  website: string
+  fromYourHosts: string
+  generatedOn: string
+  page: string
+}
+
+const en: WelcomeBookLabels = {
+  locale: enGB,
+  welcome: 'Welcome',
+  welcomeGuest: (name) => `Welcome, ${name}`,
+  yourStay: 'Your stay',
+  arrival: 'Arrival',
+  departure: 'Departure',
+  guests: 'Guests',
+  checkIn: 'Check-in & check-out',
+  checkInFrom: 'Check-in from',
+  checkOutBefore: 'Check-out before',
+  welcomedBy: 'You will be welcomed by',
+  wifi: 'Wifi & internet',
+  network: 'Network',
+  password: 'Password',
+  speed: 'Speed',
+  coverage: 'Mobile coverage',
+  everyRoom: 'Available in every room',
+  yes: 'Yes',
+  gettingThere: 'Getting there',
+  airports: 'Airports',
+  trainStations: 'Train stations',
+  road: 'Access road',
+  roadTypes: { asphalt: 'Paved road', winding: 'Winding road', dirt: 'Dirt track' },
+  vehicles: 'Recommended vehicles',
+  keys: 'Keys',
+  remotes: 'Gate remotes',
+  pleaseNote: 'Please note',
+  safety: 'Safety',
+  nearestHospital: 'Nearest hospital',
+  firstAidKit: 'First aid kit',
+  fireExtinguisher: 'Fire extinguisher',
+  smokeDetectors: 'Smoke detectors',
+  surveillance: 'Surveillance',
+  goodToKnow: 'Good to know',
+  surroundings: 'Surroundings',
+  setting: 'Setting',
+  settings: { city: 'City', countryside: 'Countryside', mountain: 'Mountain', sea: 'Sea' },
+  localAddresses: 'Our local addresses',
+  openingHours: 'Opening hours',
+  phone: 'Phone',
+  website: 'Website',
+  fromYourHosts: 'A word from your hosts',
+  generatedOn: 'Prepared on',
+  page: 'Page',
+}
+
+const fr: WelcomeBookLabels = {
+  locale: frLocale,
+  welcome: 'Bienvenue',
+  welcomeGuest: (name) => `Bienvenue, ${name}`,
+  yourStay: 'Votre séjour',
+  arrival: 'Arrivée',
+  departure: 'Départ',
+  guests: 'Voyageurs',
+  checkIn: 'Arrivée et départ',
+  checkInFrom: 'Arrivée à partir de',
+  checkOutBefore: 'Départ avant',
+  welcomedBy: 'Vous serez accueillis par',
+  wifi: 'Wifi et internet',
+  network: 'Réseau',
+  password: 'Mot de passe',
+  speed: 'Débit',
+  coverage: 'Couverture mobile',
+  everyRoom: 'Disponible dans toutes les pièces',
+  yes: 'Oui',
+  gettingThere: 'Accès',
+  airports: 'Aéroports',
+  trainStations: 'Gares',
+  road: "Route d'accès",
+  roadTypes: { asphalt: 'Route goudronnée', winding: 'Route sinueuse', dirt: 'Chemin de terre' },
+  vehicles: 'Véhicules conseillés',
+  keys: 'Clés',
+  remotes: 'Télécommandes du portail',
+  pleaseNote: 'À noter',
+  safety: 'Sécurité',
+  nearestHospital: 'Hôpital le plus proche',
+  firstAidKit: 'Trousse de secours',
+  fireExtinguisher: 'Extincteur',
+  smokeDetectors: 'Détecteurs de fumée',
+  surveillance: 'Surveillance',
+  goodToKnow: 'Bon à savoir',
+  surroundings: 'Les environs',
+  setting: 'Cadre',
+  settings: { city: 'Ville', countryside: 'Campagne', mountain: 'Montagne', sea: 'Mer' },
+  localAddresses: 'Nos bonnes adresses',
+  openingHours: 'Horaires',
+  phone: 'Téléphone',
+  website: 'Site web',
+  fromYourHosts: 'Le mot de vos hôtes',
+  generatedOn: 'Préparé le',
+  page: 'Page',
+}
+
+const de: WelcomeBookLabels = {
+  locale: deLocale,
+  welcome: 'Willkommen',
+  welcomeGuest: (name) => `Willkommen, ${name}`,
+  yourStay: 'Ihr Aufenthalt',
+  arrival: 'Anreise',
+  departure: 'Abreise',
+  guests: 'Gäste',
+  checkIn: 'Check-in und Check-out',
+  checkInFrom: 'Check-in ab',
+  checkOutBefore: 'Check-out bis',
+  welcomedBy: 'Sie werden empfangen von',
+  wifi: 'WLAN und Internet',
+  network: 'Netzwerk',
+  password: 'Passwort',
+  speed: 'Geschwindigkeit',
+  coverage: 'Mobilfunkempfang',
+  everyRoom: 'In allen Räumen verfügbar',
+  yes: 'Ja',
+  gettingThere: 'Anreise',
+  airports: 'Flughäfen',
+  trainStations: 'Bahnhöfe',
+  road: 'Zufahrt',
+  roadTypes: { asphalt: 'Asphaltierte Straße', winding: 'Kurvenreiche Straße', dirt: 'Schotterweg' },
+  vehicles: 'Empfohlene Fahrzeuge',
+  keys: 'Schlüssel',
+  remotes: 'Torfernbedienungen',
+  pleaseNote: 'Bitte beachten',
+  safety: 'Sicherheit',
+  nearestHospital: 'Nächstes Krankenhaus',
+  firstAidKit: 'Erste-Hilfe-Kasten',
+  fireExtinguisher: 'Feuerlöscher',
+  smokeDetectors: 'Rauchmelder',
+  surveillance: 'Überwachung',
+  goodToKnow: 'Gut zu wissen',
+  surroundings: 'Umgebung',
+  setting: 'Lage',
+  settings: { city: 'Stadt', countryside: 'Land', mountain: 'Berge', sea: 'Meer' },
+  localAddresses: 'Unsere Adressen vor Ort',
+  openingHours: 'Öffnungszeiten',
+  phone: 'Telefon',
+  website: 'Webseite',
+  fromYourHosts: 'Ein Wort Ihrer Gastgeber',
+  generatedOn: 'Erstellt am',
+  page: 'Seite',
+}
+
+const es: WelcomeBookLabels = {
+  locale: esLocale,
+  welcome: 'Bienvenidos',
+  welcomeGuest: (name) => `Bienvenido, ${name}`,
+  yourStay: 'Su estancia',
+  arrival: 'Llegada',
+  departure: 'Salida',
+  guests: 'Huéspedes',
+  checkIn: 'Entrada y salida',
+  checkInFrom: 'Entrada a partir de las',
+  checkOutBefore: 'Salida antes de las',
+  welcomedBy: 'Le recibirá',
+  wifi: 'Wifi e internet',
+  network: 'Red',
+  password: 'Contraseña',
+  speed: 'Velocidad',
+  coverage: 'Cobertura móvil',
+  everyRoom: 'Disponible en todas las habitaciones',
+  yes: 'Sí',
+  gettingThere: 'Cómo llegar',
+  airports: 'Aeropuertos',
+  trainStations: 'Estaciones de tren',
+  road: 'Acceso',
+  roadTypes: { asphalt: 'Carretera asfaltada', winding: 'Carretera sinuosa', dirt: 'Camino de tierra' },
+  vehicles: 'Vehículos recomendados',
+  keys: 'Llaves',
+  remotes: 'Mandos del portón',
+  pleaseNote: 'Tenga en cuenta',
+  safety: 'Seguridad',
+  nearestHospital: 'Hospital más cercano',
+  firstAidKit: 'Botiquín',
+  fireExtinguisher: 'Extintor',
+  smokeDetectors: 'Detectores de humo',
+  surveillance: 'Vigilancia',
+  goodToKnow: 'Bueno saber',
+  surroundings: 'Alrededores',
+  setting: 'Entorno',
+  settings: { city: 'Ciudad', countryside: 'Campo', mountain: 'Montaña', sea: 'Mar' },
+  localAddresses: 'Nuestras direcciones',
+  openingHours: 'Horario',
+  phone: 'Teléfono',
+  website: 'Sitio web',
+  fromYourHosts: 'Unas palabras de sus anfitriones',
+  generatedOn: 'Preparado el',
+  page: 'Página',
+}
+
+const it: WelcomeBookLabels = {
+  locale: itLocale,
+  welcome: 'Benvenuti',
+  welcomeGuest: (name) => `Benvenuto, ${name}`,
+  yourStay: 'Il vostro soggiorno',
+  arrival: 'Arrivo',
+  departure: 'Partenza',
+  guests: 'Ospiti',
+  checkIn: 'Check-in e check-out',
+  checkInFrom: 'Check-in dalle',
+  checkOutBefore: 'Check-out entro le',
+  welcomedBy: 'Sarete accolti da',
+  wifi: 'Wifi e internet',
+  network: 'Rete',
+  password: 'Password',
+  speed: 'Velocità',
+  coverage: 'Copertura mobile',
+  everyRoom: 'Disponibile in tutte le stanze',
+  yes: 'Sì',
+  gettingThere: 'Come arrivare',
+  airports: 'Aeroporti',
+  trainStations: 'Stazioni',
+  road: "Strada d'accesso",
+  roadTypes: { asphalt: 'Strada asfaltata', winding: 'Strada tortuosa', dirt: 'Strada sterrata' },
+  vehicles: 'Veicoli consigliati',
+  keys: 'Chiavi',
+  remotes: 'Telecomandi del cancello',
+  pleaseNote: 'Da notare',
+  safety: 'Sicurezza',
+  nearestHospital: 'Ospedale più vicino',
+  firstAidKit: 'Kit di pronto soccorso',
+  fireExtinguisher: 'Estintore',
+  smokeDetectors: 'Rilevatori di fumo',
+  surveillance: 'Sorveglianza',
+  goodToKnow: 'Buono a sapersi',
+  surroundings: 'Dintorni',
+  setting: 'Contesto',
+  settings: { city: 'Città', countryside: 'Campagna', mountain: 'Montagna', sea: 'Mare' },
+  localAddresses: 'I nostri indirizzi',
+  openingHours: 'Orari',
+  phone: 'Telefono',
+  website: 'Sito web',
+  fromYourHosts: 'Due parole dai vostri host',
+  generatedOn: 'Preparato il',
+  page: 'Pagina',
+}
+
+const pt: WelcomeBookLabels = {
+  locale: ptLocale,
+  welcome: 'Bem-vindos',
+  welcomeGuest: (name) => `Bem-vindo, ${name}`,
+  yourStay: 'A sua estadia',
+  arrival: 'Chegada',
+  departure: 'Partida',
+  guests: 'Hóspedes',
+  checkIn: 'Check-in e check-out',
+  checkInFrom: 'Check-in a partir das',
+  checkOutBefore: 'Check-out até às',
+  welcomedBy: 'Será recebido por',
+  wifi: 'Wifi e internet',
+  network: 'Rede',
+  password: 'Palavra-passe',
+  speed: 'Velocidade',
+  coverage: 'Cobertura móvel',
+  everyRoom: 'Disponível em todas as divisões',
+  yes: 'Sim',
+  gettingThere: 'Como chegar',
+  airports: 'Aeroportos',
+  trainStations: 'Estações de comboio',
+  road: 'Acesso',
+  roadTypes: { asphalt: 'Estrada alcatroada', winding: 'Estrada sinuosa', dirt: 'Caminho de terra' },
+  vehicles: 'Veículos recomendados',
+  keys: 'Chaves',
+  remotes: 'Comandos do portão',
+  pleaseNote: 'Atenção',
+  safety: 'Segurança',
+  nearestHospital: 'Hospital mais próximo',
+  firstAidKit: 'Kit de primeiros socorros',
+  fireExtinguisher: 'Extintor',
+  smokeDetectors: 'Detetores de fumo',
+  surveillance: 'Vigilância',
+  goodToKnow: 'Bom saber',
+  surroundings: 'Arredores',
+  setting: 'Enquadramento',
+  settings: { city: 'Cidade', countryside: 'Campo', mountain: 'Montanha', sea: 'Mar' },
+  localAddresses: 'As nossas moradas',
+  openingHours: 'Horário',
+  phone: 'Telefone',
+  website: 'Site',
+  fromYourHosts: 'Uma palavra dos seus anfitriões',
+  generatedOn: 'Preparado a',
+  page: 'Página',
+}
+
+const nl: WelcomeBookLabels = {
+  locale: nlLocale,
+  welcome: 'Welkom',
+  welcomeGuest: (name) => `Welkom, ${name}`,
+  yourStay: 'Uw verblijf',
+  arrival: 'Aankomst',
+  departure: 'Vertrek',
+  guests: 'Gasten',
+  checkIn: 'Inchecken en uitchecken',
+  checkInFrom: 'Inchecken vanaf',
+  checkOutBefore: 'Uitchecken voor',
+  welcomedBy: 'U wordt ontvangen door',
+  wifi: 'Wifi en internet',
+  network: 'Netwerk',
+  password: 'Wachtwoord',
+  speed: 'Snelheid',
+  coverage: 'Mobiel bereik',
+  everyRoom: 'Beschikbaar in alle kamers',
+  yes: 'Ja',
+  gettingThere: 'Bereikbaarheid',
+  airports: 'Luchthavens',
+  trainStations: 'Treinstations',
+  road: 'Toegangsweg',
+  roadTypes: { asphalt: 'Geasfalteerde weg', winding: 'Bochtige weg', dirt: 'Onverharde weg' },
+  vehicles: 'Aanbevolen voertuigen',
+  keys: 'Sleutels',
+  remotes: 'Afstandsbedieningen van het hek',
+  pleaseNote: 'Let op',
+  safety: 'Veiligheid',
+  nearestHospital: 'Dichtstbijzijnde ziekenhuis',
+  firstAidKit: 'EHBO-kit',
+  fireExtinguisher: 'Brandblusser',
+  smokeDetectors: 'Rookmelders',
+  surveillance: 'Bewaking',
+  goodToKnow: 'Goed om te weten',
+  surroundings: 'Omgeving',
+  setting: 'Ligging',
+  settings: { city: 'Stad', countryside: 'Platteland', mountain: 'Bergen', sea: 'Zee' },
+  localAddresses: 'Onze adressen',
+  openingHours: 'Openingstijden',
+  phone: 'Telefoon',
+  website: 'Website',
+  fromYourHosts: 'Een woord van uw gastheren',
+  generatedOn: 'Opgesteld op',
+  page: 'Pagina',
+}
+
+export const WELCOME_BOOK_LABELS: Record<WelcomeBookLanguage, WelcomeBookLabels> = { en, fr, de, es, it, pt, nl }
@@ -0,0 +1,107 @@
+import { format } from 'date-fns'
+import { renderTextPdf, type PdfBlock } from '@/lib/pdf'
+import { WELCOME_BOOK_LABELS } from '@/lib/welcome-book/labels'
+import type { WelcomeBook } from '@/types/welcome-book'
+
+const BRAND = 'ManPhil & Co'
+// Navy of the ManPhil&Co logo
+const ACCENT_COLOR: [number, number, number] = [0.12, 0.16, 0.27]
+const ACCENT_HEX = '#1f2945'
+
+function greeting(book: WelcomeBook): string {
+  const labels = WELCOME_BOOK_LABELS[book.language]
+  return book.stay?.guestName ? labels.welcomeGuest(book.stay.guestName) : labels.welcome
+}
+
+function footer(book: WelcomeBook): string {
+  const labels = WELCOME_BOOK_LABELS[book.language]
+  return `${book.propertyName} · ${labels.generatedOn} ${format(book.generatedAt, 'd MMMM yyyy', { locale: labels.locale })}`
+}
+
+/**
+ * Welcome book as a branded A4 PDF
+ */
+export function renderWelcomeBookPdf(book: WelcomeBook): Buffer {
+  const blocks: PdfBlock[] = [
+    { type: 'subtitle', text: greeting(book) },
+    { type: 'title', text: book.title },
+    { type: 'subtitle', text: [book.tagline, book.address ?? book.destinationName].filter(Boolean).join(' · ') },
+  ]
+
+  for (const section of book.sections) {
+    blocks.push({ type: 'heading', text: section.title })
+    section.fields.forEach(field => blocks.push({ type: 'field', label: field.label, value: field.value }))
+    if (section.text) blocks.push({ type: 'paragraph', text: section.text })
+  }
+
+  return renderTextPdf(blocks, {
+    title: `${book.propertyName} - ${WELCOME_BOOK_LABELS[book.language].welcome}`,
+    brand: BRAND,
+    footer: footer(book),
+    pageLabel: WELCOME_BOOK_LABELS[book.language].page,
+    accentColor: ACCENT_COLOR,
+  })
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const multiline = (value: string) => escapeHtml(value).replace(/\r?\n/g, '<br>')
+
+/**
+ * Welcome book as a standalone HTML page, printable and easy to send by email
+ */
+export function renderWelcomeBookHtml(book: WelcomeBook): string {
+  const sections = book.sections.map(section => `
+    <section>
+      <h2>${escapeHtml(section.title)}</h2>
+      ${section.fields.length > 0 ? `<dl>${section.fields.map(field => `
+        <dt>${escapeHtml(field.label)}</dt>
+        <dd>${multiline(field.value)}</dd>`).join('')}
+      </dl>` : ''}
+      ${section.text ? `<p>${multiline(section.text)}</p>` : ''}
+    </section>`).join('')
+
+  const subtitle = [book.tagline, book.address ?? book.destinationName].filter(Boolean).join(' · ')
+
+  return `<!DOCTYPE html>
+<html lang="${book.language}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(book.propertyName)} - ${escapeHtml(WELCOME_BOOK_LABELS[book.language].welcome)}</title>
+<style>
+  body { margin: 0; font-family: Helvetica, Arial, sans-serif; color: #222226; background: #f6f5f2; }
+  header { background: ${ACCENT_HEX}; color: #fff; padding: 24px 32px; font-weight: bold; letter-spacing: 0.12em; font-size: 13px; }
+  main { max-width: 760px; margin: 0 auto; padding: 40px 32px 64px; background: #fff; }
+  .greeting { color: #72727f; font-size: 16px; margin: 0; }
+  h1 { font-size: 32px; margin: 8px 0; }
+  .subtitle { color: #72727f; margin: 0 0 16px; }
+  h2 { color: ${ACCENT_HEX}; font-size: 17px; border-bottom: 1px solid ${ACCENT_HEX}; padding-bottom: 6px; margin: 36px 0 12px; }
+  dl { display: grid; grid-template-columns: 180px 1fr; gap: 8px 16px; margin: 0; font-size: 14px; }
+  dt { font-weight: bold; }
+  dd { margin: 0; }
+  p { font-size: 14px; line-height: 1.6; }
+  footer { max-width: 760px; margin: 0 auto; padding: 16px 32px; color: #72727f; font-size: 12px; }
+  @media print { body { background: #fff; } main { padding-top: 24px; } section { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<header>${escapeHtml(BRAND.toUpperCase())}</header>
+<main>
+  <p class="greeting">${escapeHtml(greeting(book))}</p>
+  <h1>${escapeHtml(book.title)}</h1>
+  ${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : ''}
+  ${sections}
+</main>
+<footer>${escapeHtml(footer(book))}</footer>
+</body>
+</html>
+`
+}
@@ -2,9 +2,21 @@ import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
 import { NextResponse } from 'next/server';
 import { UserRole } from './types/auth';
 
-const isProtectedRoute = createRouteMatcher(['/', '/houses(.*)', '/api(.*)', '/profile(.*)', '/settings(.*)', '/destinations(.*)', '/places(.*)', '/contacts(.*)', '/finance(.*)', '/requests(.*)', '/legals(.*)', '/audit-logs(.*)']);
-const isPublicRoute = createRouteMatcher(['/landing', '/sign-in(.*)', '/sign-up(.*)']);
+const isProtectedRoute = createRouteMatcher(['/', '/houses(.*)', '/api(.*)', '/profile(.*)', '/settings(.*)', '/destinations(.*)', '/places(.*)', '/contacts(.*)', '/finance(.*)', '/requests(.*)', '/legals(.*)', '/audit-logs(.*)', '/sensitive-access(.*)', '/owner(.*)', '/tasks(.*)', '/operations(.*)', '/translations(.*)']);
+const isPublicRoute = createRouteMatcher([
+  '/landing',
+  '/sign-in(.*)',
+  '/sign-up(.*)',
+  // Token-authenticated iCal feeds for calendar subscriptions
+  '/api/properties/(.*)/calendar.ics',
+  // Scheduled jobs authenticate with CRON_SECRET
+  '/api/cron(.*)',
+  // Website listing API authenticates with PUBLIC_API_KEYS
+  '/api/public(.*)',
+]);
 const isAdminRoute = createRouteMatcher(['/admin(.*)']);
+// The only back-office areas an owner account may reach
+const isOwnerRoute = createRouteMatcher(['/owner(.*)', '/unauthorized', '/profile(.*)']);
 const isSensitiveApiRoute = createRouteMatcher([
   '/api/properties/(.+)/internal',
   '/api/properties/(.+)/contacts',
@@ -21,9 +33,17 @@ export default clerkMiddleware(async (auth, req) => {
     return NextResponse.redirect(new URL('/unauthorized', req.url));
   }
   
+  // Keep owner accounts inside the owner portal
+  if (userRole === UserRole.OWNER && !isPublicRoute(req) && !isOwnerRoute(req)) {
+    if (req.nextUrl.pathname.startsWith('/api')) {
+      return NextResponse.json({ error: 'Forbidden: Insufficient permissions' }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/owner', req.url));
+  }
+  
   // Protect sensitive API routes
   if (isSensitiveApiRoute(req)) {
-    if (!userRole || userRole === UserRole.VIEWER || userRole === UserRole.STAFF) {
+    if (!userRole || userRole === UserRole.VIEWER || userRole === UserRole.STAFF || userRole === UserRole.OWNER) {
       return NextResponse.json({ error: 'Forbidden: Insufficient permissions' }, { status: 403 });
     }
   }
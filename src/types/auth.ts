@@ -2,7 +2,8 @@ export enum UserRole {
   ADMIN = 'admin',        // Full access including financial & owner data
   MANAGER = 'manager',    // Property management, contacts, no financial
   STAFF = 'staff',        // Basic property operations only  
-  VIEWER = 'viewer'       // Read-only access to public info
+  VIEWER = 'viewer',      // Read-only access to public info
+  OWNER = 'owner'         // Owner portal only, limited to their own properties
 }
 
 export enum Permission {
@@ -50,6 +51,19 @@ export enum Permission {
   ACTIVITY_PROVIDER_VIEW = 'activity_provider:view',
   ACTIVITY_PROVIDER_EDIT = 'activity_provider:edit',
   ACTIVITY_PROVIDER_DELETE = 'activity_provider:delete',
+  
+  // Sensitive data access report permissions
+  SENSITIVE_ACCESS_VIEW = 'sensitive_access:view',
+  
+  // User management permissions (roles and property access scopes)
+  USER_MANAGE = 'user:manage',
+  
+  // Owner portal (calendar, stay requests, statements and shared documents of the linked contact's properties)
+  OWNER_PORTAL_ACCESS = 'owner_portal:access',
+  
+  // Housekeeping and maintenance task permissions
+  TASK_VIEW = 'task:view',
+  TASK_EDIT = 'task:edit',
 }
 
 export interface RolePermissionMap {
@@ -57,6 +71,7 @@ export interface RolePermissionMap {
   [UserRole.MANAGER]: Permission[];
   [UserRole.STAFF]: Permission[];
   [UserRole.VIEWER]: Permission[];
+  [UserRole.OWNER]: Permission[];
 }
 
 export const ROLE_PERMISSIONS: RolePermissionMap = {
@@ -88,6 +103,11 @@ export const ROLE_PERMISSIONS: RolePermissionMap = {
     Permission.ACTIVITY_PROVIDER_VIEW,
     Permission.ACTIVITY_PROVIDER_EDIT,
     Permission.ACTIVITY_PROVIDER_DELETE,
+    Permission.SENSITIVE_ACCESS_VIEW,
+    Permission.USER_MANAGE,
+    Permission.OWNER_PORTAL_ACCESS,
+    Permission.TASK_VIEW,
+    Permission.TASK_EDIT,
   ],
   [UserRole.MANAGER]: [
     Permission.PROPERTY_VIEW,
@@ -111,6 +131,8 @@ export const ROLE_PERMISSIONS: RolePermissionMap = {
     Permission.ACTIVITY_PROVIDER_VIEW,
     Permission.ACTIVITY_PROVIDER_EDIT,
     Permission.ACTIVITY_PROVIDER_DELETE,
+    Permission.TASK_VIEW,
+    Permission.TASK_EDIT,
   ],
   [UserRole.STAFF]: [
     Permission.PROPERTY_VIEW,
@@ -119,6 +141,8 @@ export const ROLE_PERMISSIONS: RolePermissionMap = {
     Permission.EQUIPMENT_REQUEST_CREATE,
     Permission.LEGAL_DOCUMENT_VIEW,
     Permission.ACTIVITY_PROVIDER_VIEW,
+    Permission.TASK_VIEW,
+    Permission.TASK_EDIT,
   ],
   [UserRole.VIEWER]: [
     Permission.PROPERTY_VIEW,
@@ -126,10 +150,88 @@ export const ROLE_PERMISSIONS: RolePermissionMap = {
     Permission.LEGAL_DOCUMENT_VIEW,
     Permission.ACTIVITY_PROVIDER_VIEW,
   ],
+  [UserRole.OWNER]: [
+    Permission.OWNER_PORTAL_ACCESS,
+  ],
+};
+
+// Name and description of the built-in roles, seeded with ROLE_PERMISSIONS
+export const SYSTEM_ROLE_DETAILS: Record<UserRole, { name: string; description: string }> = {
+  [UserRole.ADMIN]: { name: 'Admin', description: 'Full access including financial and owner data' },
+  [UserRole.MANAGER]: { name: 'Manager', description: 'Property management and contacts, no financial data' },
+  [UserRole.STAFF]: { name: 'Staff', description: 'Basic property operations only' },
+  [UserRole.VIEWER]: { name: 'Viewer', description: 'Read-only access to public information' },
+  [UserRole.OWNER]: { name: 'Owner', description: 'Owner portal for the properties of their linked owner contact' },
 };
 
+// Role and its permissions as stored in the database
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  isSystem: boolean;
+}
+
+/**
+ * Permissions granted by a role key
+ * - Admins always get every permission, so nobody can lock the admins out
+ * - Until definitions are loaded, or for a role missing from them, built-in roles use ROLE_PERMISSIONS
+ *   and unknown roles get the viewer permissions
+ */
+export function resolveRolePermissions(roles: RoleDefinition[] | undefined, role: string): Permission[] {
+  if (role === UserRole.ADMIN) return Object.values(Permission);
+
+  const definition = roles?.find(r => r.key === role) ?? null;
+  if (definition) return definition.permissions;
+
+  if (role in ROLE_PERMISSIONS) return ROLE_PERMISSIONS[role as UserRole];
+
+  return roles?.find(r => r.key === UserRole.VIEWER)?.permissions ?? ROLE_PERMISSIONS[UserRole.VIEWER];
+}
+
 export interface UserWithRole {
   id: string;
   role: UserRole;
   permissions?: Permission[];
-}
\ No newline at end of file
+}
+
+// Destinations and properties a user may reach; unrestricted users reach every property
+export interface AccessScope {
+  restricted: boolean;
+  destinationIds: string[];
+  propertyIds: string[];
+}
+
+// Property or destination a permission is checked against
+export interface PermissionTarget {
+  propertyId?: string;
+  destinationId?: string;
+}
+
+// User listed in the users management page
+export interface ManagedUser {
+  id: string;
+  fullName: string;
+  emailAddress: string | null;
+  imageUrl: string;
+  // Key of a RoleDefinition, built-in or custom
+  role: string;
+  accessScope: AccessScope;
+  // Banned in Clerk, the user can no longer sign in
+  deactivated: boolean;
+  createdAt: Date;
+  lastSignInAt: Date | null;
+  // Latest audited change made by the user
+  lastActivityAt: Date | null;
+  // Contact whose owned properties the user sees in the owner portal
+  ownerContact: { id: string; name: string } | null;
+}
+
+// Invitation sent from the users management page and not accepted yet
+export interface PendingInvitation {
+  id: string;
+  emailAddress: string;
+  role: string;
+  createdAt: Date;
+}
@@ -84,4 +84,34 @@ export interface BookingImportResult {
   imported: number
   failed: number
   errors?: string[]
-}
\ No newline at end of file
+}
+
+// iCal feed subscription info for a property
+export interface CalendarFeedInfo {
+  propertyId: string
+  token: string | null
+  createdAt: Date | null
+}
+// External channel calendar registered on a property
+export type ExternalCalendar = import('@/generated/prisma').ExternalCalendar
+
+export interface ExternalCalendarWithCount extends ExternalCalendar {
+  _count: { bookings: number }
+}
+
+// Event that could not be imported because it overlaps another booking
+export interface ExternalCalendarSyncConflict {
+  uid: string
+  startDate: Date
+  endDate: Date
+  reason: string
+}
+
+// Outcome of an external calendar sync
+export interface ExternalCalendarSyncResult {
+  created: number
+  updated: number
+  cancelled: number
+  unchanged: number
+  conflicts: ExternalCalendarSyncConflict[]
+}
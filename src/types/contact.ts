@@ -1,4 +1,5 @@
-import { GlobalContactCategory, ContactPropertyRelationship } from '@/generated/prisma'
+import { GlobalContactCategory, ContactPropertyRelationship, BookingType, BookingStatus } from '@/generated/prisma'
+import type { DuplicateReason } from '@/lib/contact-duplicates'
 
 export interface ContactListItem {
   id: string
@@ -35,6 +36,85 @@ export interface ContactDetail extends ContactListItem {
   }[]
 }
 
+// A booking of a client contact, as shown in the client history
+export interface ContactStay {
+  id: string
+  propertyId: string
+  propertyName: string
+  type: BookingType
+  status: BookingStatus
+  startDate: Date
+  endDate: Date
+  nights: number
+  numberOfGuests: number | null
+  totalAmount: number | null
+  currency: string
+}
+
+export interface ContactStayProperty {
+  propertyId: string
+  propertyName: string
+  stays: number
+  nights: number
+  spend: number
+  lastStay: Date
+}
+
+export interface ContactBookingHistory {
+  stays: ContactStay[]
+  properties: ContactStayProperty[]
+  totalStays: number
+  totalNights: number
+  // Spend per currency over confirmed / contract stays that were not cancelled
+  totalSpend: { currency: string; amount: number }[]
+  upcomingStays: number
+  pendingRequests: number
+}
+
+// A contact as compared in the duplicate finder and the merge dialog
+export interface DuplicateContactSummary {
+  id: string
+  firstName: string
+  lastName: string
+  email: string | null
+  phone: string | null
+  language: string
+  category: GlobalContactCategory
+  comments: string | null
+  createdAt: Date
+  linkedProperties: string[]
+  bookingCount: number
+}
+
+export interface DuplicateContactPair {
+  a: DuplicateContactSummary
+  b: DuplicateContactSummary
+  score: number
+  reasons: DuplicateReason[]
+}
+
+// Fields the merge dialog lets the user pick from either contact
+export const MERGEABLE_CONTACT_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'language',
+  'category',
+  'comments',
+] as const
+
+export type MergeableContactField = typeof MERGEABLE_CONTACT_FIELDS[number]
+
+export interface MergeContactsResult {
+  survivorId: string
+  movedLinks: number
+  mergedLinks: number
+  movedBookings: number
+  movedAvailabilityRequests: number
+  movedTasks: number
+}
+
 export interface ContactFilters {
   search?: string
   category?: GlobalContactCategory | 'ALL'
@@ -138,6 +218,41 @@ export const PROPERTY_RELATIONSHIPS = {
     label: "Other",
     description: "Other relationship",
     color: "bg-gray-100 text-gray-800"
+  },
+  CHECK_IN_MANAGER: {
+    label: "Check-in Manager",
+    description: "Handles guest check-ins",
+    color: "bg-teal-100 text-teal-800"
+  },
+  SECURITY_DEPOSIT_MANAGER: {
+    label: "Security Deposit Manager",
+    description: "Manages security deposits",
+    color: "bg-amber-100 text-amber-800"
+  },
+  SIGNATORY: {
+    label: "Signatory",
+    description: "Authorized to sign documents",
+    color: "bg-emerald-100 text-emerald-800"
+  },
+  HOUSEKEEPING: {
+    label: "Housekeeping",
+    description: "Housekeeping service provider",
+    color: "bg-pink-100 text-pink-800"
+  },
+  GARDENING: {
+    label: "Gardening",
+    description: "Garden maintenance service",
+    color: "bg-lime-100 text-lime-800"
+  },
+  POOL_MAINTENANCE: {
+    label: "Pool Maintenance",
+    description: "Pool cleaning and maintenance",
+    color: "bg-cyan-100 text-cyan-800"
+  },
+  CHECK_IN_STAFF: {
+    label: "Check-in Staff",
+    description: "Staff responsible for check-ins",
+    color: "bg-sky-100 text-sky-800"
   }
 } as const
 
@@ -1,4 +1,9 @@
-import { EquipmentRequestStatus, EquipmentRequestPriority, EquipmentRequest as PrismaEquipmentRequest } from "@/generated/prisma"
+import {
+  EquipmentRequestStatus,
+  EquipmentRequestPriority,
+  EquipmentRequest as PrismaEquipmentRequest,
+  EquipmentRequestStatusChange as PrismaEquipmentRequestStatusChange,
+} from "@/generated/prisma"
 import { z } from "zod"
 
 // Equipment request item type
@@ -10,6 +15,16 @@ export interface EquipmentRequestItem {
   link?: string
 }
 
+// Entry of the status history timeline
+export interface EquipmentRequestStatusChange extends Omit<PrismaEquipmentRequestStatusChange, 'details'> {
+  details: {
+    rejectedReason?: string
+    supplier?: string
+    orderReference?: string
+    deliveryDate?: string
+  } | null
+}
+
 // Extended equipment request type with relations
 export interface EquipmentRequest extends Omit<PrismaEquipmentRequest, 'items'> {
   property: {
@@ -26,6 +41,7 @@ export interface EquipmentRequest extends Omit<PrismaEquipmentRequest, 'items'>
     name: string
   } | null
   items: EquipmentRequestItem[]
+  statusHistory: EquipmentRequestStatusChange[]
 }
 
 // List item for table display
@@ -85,9 +101,14 @@ export const updateEquipmentRequestSchema = z.object({
   internalNotes: z.string().optional(),
 })
 
+// Fields required by a given transition are checked against the workflow table
 export const updateEquipmentRequestStatusSchema = z.object({
   status: z.nativeEnum(EquipmentRequestStatus),
-  rejectedReason: z.string().optional(),
+  rejectedReason: z.string().trim().optional(),
+  supplier: z.string().trim().optional(),
+  orderReference: z.string().trim().optional(),
+  deliveryDate: z.coerce.date().optional(),
+  note: z.string().trim().optional(),
   internalNotes: z.string().optional(),
 })
 
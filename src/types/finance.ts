@@ -0,0 +1,70 @@
+import type { BookingType } from '@/generated/prisma'
+
+// Amounts shared by every level of the finance report
+export interface FinanceAmounts {
+  revenue: number
+  ownerPayout: number
+  commission: number
+  operationalCosts: number
+  netMargin: number
+  nights: number
+  bookings: number
+}
+
+export interface FinanceMonthRow extends FinanceAmounts {
+  month: string // yyyy-MM
+}
+
+// Portfolio report rows are kept apart per currency, amounts are never added across currencies
+export interface FinanceCurrencyTotals extends FinanceAmounts {
+  currency: string
+}
+
+export interface FinanceReportMonthRow extends FinanceMonthRow {
+  currency: string
+}
+
+export interface FinancePropertyRow extends FinanceAmounts {
+  propertyId: string
+  propertyName: string
+  destinationId: string
+  destinationName: string
+  currency: string
+}
+
+export interface FinanceDestinationRow extends FinanceAmounts {
+  destinationId: string
+  destinationName: string
+  currency: string
+  properties: number
+}
+
+export interface FinanceReport {
+  startDate: Date
+  endDate: Date
+  // One entry per currency, sorted by revenue
+  totals: FinanceCurrencyTotals[]
+  byMonth: FinanceReportMonthRow[]
+  byProperty: FinancePropertyRow[]
+  byDestination: FinanceDestinationRow[]
+  // Bookings without totalAmount whose revenue was estimated from price periods
+  estimatedBookings: number
+}
+
+export interface FinanceBookingRow extends FinanceAmounts {
+  bookingId: string
+  type: BookingType
+  startDate: Date
+  endDate: Date
+  guestName: string | null
+  estimated: boolean
+}
+
+export interface FinancePropertyBreakdown {
+  propertyId: string
+  propertyName: string
+  currency: string
+  totals: FinanceAmounts
+  byMonth: FinanceMonthRow[]
+  bookings: FinanceBookingRow[]
+}
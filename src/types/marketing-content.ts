@@ -0,0 +1,110 @@
+// Languages the marketing copy is written in, English is the source every translation is made from
+export const MARKETING_LANGUAGES = [
+  { code: 'en', name: 'English', flag: '🇬🇧' },
+  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
+  { code: 'fr', name: 'French', flag: '🇫🇷' },
+  { code: 'de', name: 'German', flag: '🇩🇪' },
+  { code: 'it', name: 'Italian', flag: '🇮🇹' },
+  { code: 'pt', name: 'Portuguese', flag: '🇵🇹' },
+  { code: 'nl', name: 'Dutch', flag: '🇳🇱' },
+  { code: 'ru', name: 'Russian', flag: '🇷🇺' },
+  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
+  { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
+] as const
+
+export type MarketingLanguage = typeof MARKETING_LANGUAGES[number]['code']
+
+export const MARKETING_LANGUAGE_CODES = MARKETING_LANGUAGES.map(language => language.code) as [MarketingLanguage, ...MarketingLanguage[]]
+
+export const SOURCE_LANGUAGE: MarketingLanguage = 'en'
+
+// Translatable texts of one language, as stored in MarketingContent
+export interface MarketingCopy {
+  title: string
+  tagline: string
+  shortDescription: string
+  description: string
+  highlights: string[]
+  seoDescription: string
+  seoKeywords: string[]
+}
+
+export type MarketingCopyField = keyof MarketingCopy
+
+export const MARKETING_COPY_FIELD_LABELS: Record<MarketingCopyField, string> = {
+  title: 'Title',
+  tagline: 'Tagline',
+  shortDescription: 'Short description',
+  description: 'Full description',
+  highlights: 'Highlights',
+  seoDescription: 'Meta description',
+  seoKeywords: 'SEO keywords',
+}
+
+// Fields a language needs before it counts as complete, the tagline is optional
+export const REQUIRED_COPY_FIELDS: MarketingCopyField[] = [
+  'title',
+  'shortDescription',
+  'description',
+  'highlights',
+  'seoDescription',
+  'seoKeywords',
+]
+
+export type TranslationStatus = 'missing' | 'incomplete' | 'outdated' | 'complete'
+
+export const TRANSLATION_STATUS_LABELS: Record<TranslationStatus, string> = {
+  missing: 'Missing',
+  incomplete: 'Incomplete',
+  outdated: 'Needs update',
+  complete: 'Complete',
+}
+
+// Where the copy of a property in one language stands against the English source
+export interface TranslationCell {
+  status: TranslationStatus
+  // Share of the required fields filled, 0 to 100
+  completeness: number
+  missingFields: MarketingCopyField[]
+  // The English copy changed after this translation was written
+  needsUpdate: boolean
+  contentUpdatedAt: Date | null
+}
+
+export interface TranslationDashboardRow {
+  propertyId: string
+  propertyName: string
+  destinationName: string
+  cells: Partial<Record<MarketingLanguage, TranslationCell>>
+}
+
+export interface TranslationDashboard {
+  languages: MarketingLanguage[]
+  rows: TranslationDashboardRow[]
+  // Properties per status, for each language shown
+  summary: Partial<Record<MarketingLanguage, Record<TranslationStatus, number>>>
+}
+
+export const TRANSLATION_FILE_FORMATS = ['xliff', 'csv'] as const
+
+export type TranslationFileFormat = typeof TRANSLATION_FILE_FORMATS[number]
+
+// One text of a translation file: a field, or one item of a list field
+export interface TranslationUnit {
+  propertyId: string
+  propertyName: string
+  language: MarketingLanguage
+  field: MarketingCopyField
+  // Position in the list for highlights and keywords
+  index: number | null
+  source: string
+  target: string
+}
+
+export interface TranslationImportResult {
+  // Languages of properties written
+  updated: number
+  // Units whose English text changed since the export, those translations stay flagged
+  staleUnits: number
+  errors: string[]
+}
@@ -0,0 +1,43 @@
+import { NotificationType } from '@/generated/prisma'
+import type { Notification } from '@/generated/prisma'
+
+export { NotificationType }
+export type { Notification }
+
+export interface NotificationsResponse {
+  notifications: Notification[]
+  unreadCount: number
+}
+
+export interface NotificationPreferenceItem {
+  type: NotificationType
+  enabled: boolean
+}
+
+// Notification type configuration for UI
+export const NOTIFICATION_TYPES: Record<NotificationType, { label: string; description: string }> = {
+  [NotificationType.EQUIPMENT_REQUEST_STATUS]: {
+    label: 'Equipment requests',
+    description: 'A request you created is approved, rejected or delivered',
+  },
+  [NotificationType.AVAILABILITY_REQUEST_CREATED]: {
+    label: 'Availability requests',
+    description: 'A new availability request arrives for a property',
+  },
+  [NotificationType.LEGAL_DOCUMENT_EXPIRY]: {
+    label: 'Legal document expiry',
+    description: 'A document you uploaded needs renewal or has expired (in-app and email digest)',
+  },
+  [NotificationType.SENSITIVE_DATA_ALERT]: {
+    label: 'Sensitive data alerts',
+    description: 'A user views financial or internal data of an unusual number of properties',
+  },
+  [NotificationType.OWNER_STAY_REQUEST]: {
+    label: 'Owner stay requests',
+    description: 'An owner asks to block dates for a stay from the owner portal',
+  },
+  [NotificationType.OWNER_STAY_REVIEWED]: {
+    label: 'Owner stay decisions',
+    description: 'A stay you requested from the owner portal is approved or declined',
+  },
+}
@@ -0,0 +1,62 @@
+import { OperationalTaskStatus, OperationalTaskType } from '@/generated/prisma'
+
+export { OperationalTaskStatus, OperationalTaskType }
+
+// Task as listed on the operations board
+export interface OperationalTaskListItem {
+  id: string
+  propertyId: string
+  propertyName: string
+  destinationName: string
+  bookingId: string | null
+  // Guest of the stay the task was generated for
+  guestName: string | null
+  type: OperationalTaskType
+  status: OperationalTaskStatus
+  scheduledDate: Date
+  scheduledTime: string | null
+  assignee: {
+    id: string
+    name: string
+    phone: string | null
+  } | null
+  notes: string | null
+  completedAt: Date | null
+}
+
+// Service contacts a task of a property can be assigned to
+export interface TaskAssigneeOption {
+  contactId: string
+  propertyId: string
+  name: string
+  relationship: string
+}
+
+export interface OperationalTaskBoard {
+  tasks: OperationalTaskListItem[]
+  assignees: TaskAssigneeOption[]
+}
+
+export const OPERATIONAL_TASK_TYPE_LABELS: Record<OperationalTaskType, string> = {
+  [OperationalTaskType.CHECKOUT_CLEANING]: 'Checkout cleaning',
+  [OperationalTaskType.LINEN_CHANGE]: 'Linen change',
+  [OperationalTaskType.TOWEL_CHANGE]: 'Towel change',
+  [OperationalTaskType.GARDENING]: 'Gardening',
+  [OperationalTaskType.POOL_MAINTENANCE]: 'Pool maintenance',
+}
+
+export const OPERATIONAL_TASK_STATUS_LABELS: Record<OperationalTaskStatus, string> = {
+  [OperationalTaskStatus.PENDING]: 'To do',
+  [OperationalTaskStatus.IN_PROGRESS]: 'In progress',
+  [OperationalTaskStatus.DONE]: 'Done',
+  [OperationalTaskStatus.SKIPPED]: 'Skipped',
+  [OperationalTaskStatus.CANCELLED]: 'Cancelled',
+}
+
+export const OPERATIONAL_TASK_STATUS_COLORS: Record<OperationalTaskStatus, string> = {
+  [OperationalTaskStatus.PENDING]: 'bg-gray-100 text-gray-700 border-gray-200',
+  [OperationalTaskStatus.IN_PROGRESS]: 'bg-blue-50 text-blue-700 border-blue-200',
+  [OperationalTaskStatus.DONE]: 'bg-green-50 text-green-700 border-green-200',
+  [OperationalTaskStatus.SKIPPED]: 'bg-amber-50 text-amber-700 border-amber-200',
+  [OperationalTaskStatus.CANCELLED]: 'bg-red-50 text-red-700 border-red-200',
+}
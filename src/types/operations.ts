@@ -0,0 +1,53 @@
+import { BookingStatus, BookingType } from '@/generated/prisma'
+
+export type OperationsMovementKind = 'arrival' | 'departure'
+
+// A guest arriving at or leaving a property
+export interface OperationsMovement {
+  bookingId: string
+  kind: OperationsMovementKind
+  propertyId: string
+  propertyName: string
+  destinationName: string
+  bookingType: BookingType
+  bookingStatus: BookingStatus
+  guestName: string | null
+  guestPhone: string | null
+  startDate: Date
+  endDate: Date
+  nights: number
+  // Property check-in time for arrivals, check-out time for departures
+  time: string | null
+  numberOfGuests: number | null
+  maxGuests: number
+  overCapacity: boolean
+  // Person welcoming the guests, as entered on the property check-in details
+  checkInPerson: string | null
+  checkInManager: {
+    id: string
+    name: string
+    // Only sent to users allowed to view contacts
+    phone: string | null
+  } | null
+  // Another booking leaves (or arrives) the same property the same day
+  sameDayTurnover: boolean
+}
+
+export interface OperationsDay {
+  // yyyy-MM-dd
+  date: string
+  arrivals: OperationsMovement[]
+  departures: OperationsMovement[]
+  // Properties with a checkout and a check-in that day
+  turnoverPropertyIds: string[]
+}
+
+export interface OperationsBoard {
+  days: OperationsDay[]
+  totals: {
+    arrivals: number
+    departures: number
+    turnovers: number
+    overCapacity: number
+  }
+}
@@ -0,0 +1,75 @@
+import type { BookingStatus, BookingType, LegalDocumentCategory } from '@/generated/prisma'
+
+export interface OwnerPortalProperty {
+  id: string
+  name: string
+  destinationName: string
+  currency: string
+}
+
+export interface OwnerPortal {
+  contact: {
+    id: string
+    name: string
+  }
+  properties: OwnerPortalProperty[]
+}
+
+// Calendar entries never expose guest names, contact details or amounts
+export interface OwnerCalendarEntry {
+  id: string
+  propertyId: string
+  type: BookingType
+  status: BookingStatus
+  startDate: Date
+  endDate: Date
+  // Stays booked by (or for) the owner rather than rentals
+  isOwnerStay: boolean
+}
+
+export interface OwnerStayRequest {
+  id: string
+  propertyId: string
+  propertyName: string
+  status: BookingStatus
+  startDate: Date
+  endDate: Date
+  numberOfGuests: number | null
+  notes: string | null
+  createdAt: Date
+}
+
+// Rental income of a month as reported to the owner (no agency costs or margin)
+export interface OwnerStatementMonth {
+  month: string // yyyy-MM
+  nights: number
+  bookings: number
+  revenue: number
+  commission: number
+  ownerPayout: number
+}
+
+export interface OwnerStatement {
+  propertyId: string
+  propertyName: string
+  currency: string
+  year: number
+  months: OwnerStatementMonth[]
+  totals: Omit<OwnerStatementMonth, 'month'>
+  // Bookings without a recorded amount, estimated from public rates
+  estimatedBookings: number
+}
+
+export interface OwnerDocument {
+  id: string
+  name: string
+  description: string | null
+  category: LegalDocumentCategory
+  propertyId: string
+  propertyName: string
+  url: string
+  mimeType: string
+  fileSize: number
+  expiryDate: Date | null
+  uploadedAt: Date
+}
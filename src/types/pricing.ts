@@ -0,0 +1,50 @@
+import type { BookingCondition, OperationalCostType, PriceType } from '@/generated/prisma'
+
+export type StayQuoteLineCategory = 'RENTAL' | 'OPERATIONAL_COST' | 'CLIENT_FEE' | 'TAX'
+
+// One itemised line of a stay quote, with what the owner receives and what the client pays
+export interface StayQuoteLine {
+  category: StayQuoteLineCategory
+  label: string
+  detail: string
+  ownerAmount: number
+  publicAmount: number
+  priceRangeId?: string
+  costType?: OperationalCostType
+  priceType?: PriceType
+}
+
+export type StayQuoteIssueCode =
+  | 'MINIMUM_STAY'
+  | 'CHECK_IN_DAY'
+  | 'CHECK_OUT_DAY'
+  | 'WEEKLY_STAY'
+  | 'MISSING_PRICE'
+  | 'MAX_GUESTS'
+  | 'BELOW_MINIMUM_PRICE'
+
+export interface StayQuoteIssue {
+  code: StayQuoteIssueCode
+  message: string
+  bookingCondition?: BookingCondition
+}
+
+export interface StayQuote {
+  propertyId: string
+  propertyName: string
+  currency: string
+  startDate: Date
+  endDate: Date
+  nights: number
+  guests: number | null
+  lines: StayQuoteLine[]
+  ownerTotal: number
+  publicTotal: number
+  commission: number
+  securityDeposit: number | null
+  // Blocking rule violations: the stay cannot be sold as requested
+  violations: StayQuoteIssue[]
+  // Non-blocking remarks for staff
+  warnings: StayQuoteIssue[]
+  isBookable: boolean
+}
@@ -5,8 +5,7 @@ import {
   LicenseType, 
   ConciergeServiceOffer,
   Room,
-  PropertyContact,
-  ContactType,
+  ContactPropertyRelationship,
   Booking,
   BookingType,
   PriceRange,
@@ -88,11 +87,30 @@ export interface StayMetadata {
   }
 }
 
+// A global contact linked to a property, flattened for the property pages
+export interface PropertyContactView {
+  id: string // ContactProperty link id
+  contactId: string
+  propertyId: string
+  type: ContactPropertyRelationship
+  firstName: string
+  lastName: string
+  name: string
+  email: string | null
+  phone: string | null
+  notes: string | null
+  spokenLanguage: string
+  isContractSignatory: boolean
+  isApproved: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
 // Extended types with relations
 export type PropertyWithRelations = Property & {
   destination: Destination
   rooms?: Room[]
-  contacts?: PropertyContact[]
+  contacts?: PropertyContactView[]
   bookings?: Booking[]
   prices?: PriceRange[]
   resources?: Resource[]
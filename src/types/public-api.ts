@@ -0,0 +1,94 @@
+import type { MarketingLanguage } from '@/types/marketing-content'
+
+// Shapes served to the website by /api/public/v1, kept apart from the back-office types
+// so internal fields never leak by accident. Dates are sent as ISO strings.
+
+export interface PublicDestination {
+  id: string
+  name: string
+  country: string
+  region: string | null
+}
+
+export interface PublicPhoto {
+  url: string
+  caption: string | null
+  category: string
+  isMain: boolean
+}
+
+export interface PublicRoom {
+  name: string
+  type: string
+  typeLabel: string
+  group: string | null
+  view: string | null
+}
+
+export interface PublicAmenity {
+  code: string
+  label: string
+  // Equipment category, e.g. KITCHEN or OUTDOOR, null for equipment outside the catalogue
+  category: string | null
+}
+
+export interface PublicPricePeriod {
+  name: string
+  startDate: string
+  endDate: string
+  nightlyRate: number
+  weeklyRate: number | null
+  minimumStay: number
+}
+
+export interface PublicPrices {
+  currency: string
+  // Lowest public nightly rate of the current and upcoming periods
+  fromNightlyRate: number | null
+  periods: PublicPricePeriod[]
+}
+
+export interface PublicPropertySummary {
+  id: string
+  name: string
+  // Language of the marketing texts, English when the requested translation does not exist
+  language: MarketingLanguage
+  title: string
+  tagline: string | null
+  shortDescription: string | null
+  destination: PublicDestination
+  city: string | null
+  categories: string[]
+  maxGuests: number
+  bedrooms: number
+  bathrooms: number
+  propertySize: number | null
+  mainPhoto: PublicPhoto | null
+  // null when the owner does not want prices shown on the website
+  fromNightlyRate: number | null
+  currency: string | null
+  updatedAt: string
+}
+
+export interface PublicPropertyDetail extends PublicPropertySummary {
+  description: string | null
+  highlights: string[]
+  seo: {
+    title: string | null
+    description: string | null
+    keywords: string[]
+  }
+  availableLanguages: MarketingLanguage[]
+  photos: PublicPhoto[]
+  rooms: PublicRoom[]
+  amenities: PublicAmenity[]
+  prices: PublicPrices | null
+}
+
+export interface PublicPropertyList {
+  data: PublicPropertySummary[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
@@ -0,0 +1,75 @@
+import type { SensitiveDataAlert } from '@/generated/prisma'
+
+export type { SensitiveDataAlert }
+
+// Kinds of sensitive data whose access is logged
+export enum SensitiveDataType {
+  FINANCIAL_DATA = 'FINANCIAL_DATA',
+  INTERNAL_DATA = 'INTERNAL_DATA', // Internal notes, access codes and wifi
+}
+
+export enum SensitiveDataAction {
+  VIEW = 'VIEW',
+  EDIT = 'EDIT',
+}
+
+export const SENSITIVE_DATA_TYPE_LABELS: Record<SensitiveDataType, string> = {
+  [SensitiveDataType.FINANCIAL_DATA]: 'Financial',
+  [SensitiveDataType.INTERNAL_DATA]: 'Internal & wifi',
+}
+
+export interface SensitiveAccessRow {
+  id: string
+  userId: string
+  userRole: string
+  action: string
+  dataType: string
+  propertyId: string
+  propertyName: string | null
+  section: string | null
+  createdAt: Date
+}
+
+export interface SensitiveAccessLogResponse {
+  accesses: SensitiveAccessRow[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export interface SensitiveAccessUserStats {
+  userId: string
+  userRole: string
+  total: number
+  properties: number
+  byDataType: Partial<Record<string, number>>
+}
+
+export interface SensitiveAccessDayStats {
+  day: string // yyyy-MM-dd
+  total: number
+}
+
+export interface SensitiveAccessStats {
+  byUser: SensitiveAccessUserStats[]
+  byDay: SensitiveAccessDayStats[]
+  total: number
+}
+
+export interface SensitiveDataAlertSettings {
+  threshold: number
+  windowMinutes: number
+}
+
+export interface SensitiveDataAlertRow extends SensitiveDataAlert {
+  properties: { id: string; name: string }[]
+}
+
+export interface SensitiveDataAlertsResponse {
+  alerts: SensitiveDataAlertRow[]
+  openCount: number
+  settings: SensitiveDataAlertSettings
+}
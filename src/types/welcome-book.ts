@@ -0,0 +1,61 @@
+// Languages the welcome book is printed in, the fixed texts are translated for each of them
+export const WELCOME_BOOK_LANGUAGES = ['en', 'fr', 'de', 'es', 'it', 'pt', 'nl'] as const
+
+export type WelcomeBookLanguage = (typeof WELCOME_BOOK_LANGUAGES)[number]
+
+export const WELCOME_BOOK_LANGUAGE_LABELS: Record<WelcomeBookLanguage, string> = {
+  en: 'English',
+  fr: 'French',
+  de: 'German',
+  es: 'Spanish',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+}
+
+export const WELCOME_BOOK_FORMATS = ['pdf', 'html'] as const
+
+export type WelcomeBookFormat = (typeof WELCOME_BOOK_FORMATS)[number]
+
+export interface WelcomeBookField {
+  label: string
+  value: string
+}
+
+export interface WelcomeBookSection {
+  id: string
+  title: string
+  fields: WelcomeBookField[]
+  // Free text shown after the fields, line breaks are kept
+  text?: string
+}
+
+// Guest welcome book of a property, ready to be rendered
+export interface WelcomeBook {
+  language: WelcomeBookLanguage
+  propertyName: string
+  destinationName: string
+  title: string
+  tagline: string | null
+  address: string | null
+  // Set for the welcome book of a booking
+  stay: {
+    guestName: string | null
+    startDate: Date
+    endDate: Date
+    numberOfGuests: number | null
+  } | null
+  sections: WelcomeBookSection[]
+  generatedAt: Date
+}
+
+// Languages and upcoming stays a welcome book can be generated for
+export interface WelcomeBookOptions {
+  languages: WelcomeBookLanguage[]
+  bookings: {
+    id: string
+    guestName: string | null
+    startDate: Date
+    endDate: Date
+  }[]
+}